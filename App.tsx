@@ -1,15 +1,18 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { HashRouter, Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
-import { Platform, Game, EmulatorConfig, NavView, ApiKeyEntry } from './types';
+import { Platform, Game, GameImages, EmulatorConfig, NavView, ApiKeyEntry, LaunchSession, PlayHistoryEntry, PendingLibraryUpdate, WatchedLibraryFolder, MetadataRefreshStatus, AutoAcceptedScrapeResult } from './types';
 import { Navbar } from './components/Navbar';
 import { GamesView } from './pages/GamesView';
 import { PlatformsView } from './pages/PlatformsView';
 import { EmulatorsView } from './pages/EmulatorsView';
 import { ScanView } from './pages/ScanView';
 import { ScanRomsView } from './pages/ScanRomsView'; // Import ScanRomsView
+import { ScrapeView } from './pages/ScrapeView';
 import { ApiKeysView } from './pages/ApiKeysView';
 // Add SettingsModal import
 import { SettingsModal } from './components/SettingsModal';
+import { PendingUpdatesModal } from './components/PendingUpdatesModal';
+import { getGameRomKey, getGameRomFields, findGameForPendingUpdate, isRemoteImageUrl, parseRomFilenameTags, getGameRomFileName, applyMetadataUpdate, recordNewGameSources, applyScrapeResult } from './utils';
 // API Key related constants are no longer needed here
 // import {
 //   THEGAMESDB_API_KEY_ID,
@@ -22,12 +25,85 @@ import { SettingsModal } from './components/SettingsModal';
 
 // Helper function to load initial API keys - REMOVED as keys are handled server-side
 
+const SESSION_POLL_INTERVAL_MS = 5000;
+const LIBRARY_UPDATES_POLL_INTERVAL_MS = 15000;
+const METADATA_UPDATES_POLL_INTERVAL_MS = 60000; // The server refreshes metadata on a schedule of hours
+const SCRAPE_AUTO_ACCEPT_POLL_INTERVAL_MS = 5000;
+const ARTWORK_BATCH_SIZE = 10; // Remote images stored locally before games and platforms are updated (and saved)
+
+// Downloads a remote image into the server's artwork store; returns its local URL, or null if it couldn't be fetched
+const cacheRemoteArtwork = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch('/api/art/cache', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return (await response.json()).url;
+  } catch (error) {
+    console.warn(`Could not store artwork locally (${url}):`, error);
+    return null;
+  }
+};
+
+// Swaps a game's remote cover and other artwork for the local copies in localUrls; unchanged games are returned as-is
+const localizeGameArtwork = (game: Game, localUrls: Map<string, string>): Game => {
+  const imageEntries = Object.entries(game.images || {}) as [keyof GameImages, string][];
+  if (!localUrls.has(game.coverImageUrl) && !imageEntries.some(([, url]) => localUrls.has(url))) return game;
+  const images: GameImages = {};
+  imageEntries.forEach(([artType, url]) => { images[artType] = localUrls.get(url) || url; });
+  return {
+    ...game,
+    coverImageUrl: localUrls.get(game.coverImageUrl) || game.coverImageUrl,
+    ...(game.images ? { images } : {}),
+  };
+};
+
+// Games added before filename tags were parsed get them from their ROM path when loaded
+const withRomFilenameTags = (game: Game): Game => {
+  const hasTags = game.regions || game.languages || game.revision || game.flags;
+  return hasTags || !game.romPath ? game : { ...game, ...parseRomFilenameTags(getGameRomFileName(game)) };
+};
+
+// Builds the game for a new ROM found by the folder watcher, titled from the DAT match if there is one
+const createGameFromPendingUpdate = (update: PendingLibraryUpdate): Game | null => {
+  if (!update.rom) return null;
+  return recordNewGameSources({
+    id: crypto.randomUUID(),
+    title: update.rom.datMatch?.title || update.rom.name,
+    platformId: update.platformId,
+    ...getGameRomFields(update.rom, update.folderPath),
+    coverImageUrl: '',
+    description: '',
+    genre: '',
+    releaseDate: '',
+    ...(update.rom.hashes ? { hashes: update.rom.hashes } : {}),
+  }, 'filename');
+};
+
 
 const AppContent: React.FC = () => {
   const [platforms, setPlatforms] = useState<Platform[]>([]);
   const [games, setGames] = useState<Game[]>([]);
   const [allEmulators, setAllEmulators] = useState<EmulatorConfig[]>([]);
   // const [apiKeys, setApiKeys] = useState<ApiKeyEntry[] | null>(null); // REMOVED
+  const [launchSessions, setLaunchSessions] = useState<LaunchSession[]>([]);
+  const [playHistory, setPlayHistory] = useState<PlayHistoryEntry[]>([]);
+  const [pendingUpdates, setPendingUpdates] = useState<PendingLibraryUpdate[]>([]);
+  const [watchedFolders, setWatchedFolders] = useState<WatchedLibraryFolder[]>([]);
+  const [isPendingUpdatesModalOpen, setIsPendingUpdatesModalOpen] = useState(false);
+  // Updates already applied or dismissed here, hidden until the server's queue catches up
+  const handledUpdateIdsRef = useRef<Set<string>>(new Set());
+  // jobId:gameId of auto-accepted scrape results being applied, or applied with their review saved
+  const appliedScrapeResultKeysRef = useRef<Set<string>>(new Set());
+  const [scrapeAutoApplyError, setScrapeAutoApplyError] = useState<string | null>(null);
+  const [scrapeAutoAppliedAt, setScrapeAutoAppliedAt] = useState(0);
+  // Remote artwork URLs already sent to the artwork store this session, so failures aren't retried on every change
+  const requestedArtworkUrlsRef = useRef<Set<string>>(new Set());
   
   // State for Settings Modal
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
@@ -64,7 +140,7 @@ const AppContent: React.FC = () => {
         return response.json();
       })
       .then((data: Game[]) => {
-        setGames(data);
+        setGames(data.map(withRomFilenameTags));
         setIsInitialGamesLoadComplete(true);
       })
       .catch(error => {
@@ -94,6 +170,219 @@ const AppContent: React.FC = () => {
   }, []);
 
 
+  const fetchLaunchSessions = useCallback(() => {
+    fetch('/api/games/sessions')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for /api/games/sessions`);
+        return response.json();
+      })
+      .then((data: LaunchSession[]) => setLaunchSessions(data))
+      .catch(error => console.error("Could not load launch sessions from API:", error));
+  }, []);
+
+  // Poll the server's session registry so the "Now Playing" strip reflects emulators exiting on their own
+  useEffect(() => {
+    fetchLaunchSessions();
+    const intervalId = setInterval(fetchLaunchSessions, SESSION_POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [fetchLaunchSessions]);
+
+  const fetchPlayHistory = useCallback(() => {
+    fetch('/api/data/playHistory')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for /api/data/playHistory`);
+        return response.json();
+      })
+      .then((data: PlayHistoryEntry[]) => setPlayHistory(data))
+      .catch(error => console.error("Could not load play history from API:", error));
+  }, []);
+
+  // The server records sessions as they start and end, so reload history whenever the set of running sessions changes
+  const runningSessions = launchSessions.filter(session => session.status === 'running');
+  const runningSessionsKey = runningSessions.map(session => session.launchId).join(',');
+  useEffect(() => {
+    fetchPlayHistory();
+  }, [runningSessionsKey, fetchPlayHistory]);
+
+  const fetchPendingUpdates = useCallback(() => {
+    fetch('/api/library/pending')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for /api/library/pending`);
+        return response.json();
+      })
+      .then((data: { updates: PendingLibraryUpdate[]; watching: WatchedLibraryFolder[] }) => {
+        setPendingUpdates(data.updates.filter(update => !handledUpdateIdsRef.current.has(update.id)));
+        setWatchedFolders(data.watching);
+      })
+      .catch(error => console.error("Could not load pending library updates from API:", error));
+  }, []);
+
+  const dismissPendingUpdates = useCallback(async (updates: PendingLibraryUpdate[]) => {
+    const ids = updates.map(update => update.id);
+    ids.forEach(id => handledUpdateIdsRef.current.add(id));
+    setPendingUpdates(prev => prev.filter(update => !ids.includes(update.id)));
+    try {
+      const response = await fetch('/api/library/pending/dismiss', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+      });
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    } catch (error) {
+      console.error("Error dismissing library updates:", error);
+    }
+  }, []);
+
+  // New files become games, renamed files relink their game and removed files delete their game
+  const applyPendingUpdates = useCallback((updates: PendingLibraryUpdate[]) => {
+    setGames(prevGames => updates.reduce((nextGames, update) => {
+      if (update.type === 'added') {
+        const newGame = createGameFromPendingUpdate(update);
+        if (!newGame) return nextGames;
+        const romKey = getGameRomKey(newGame);
+        const alreadyImported = nextGames.some(g => g.platformId === update.platformId && getGameRomKey(g) === romKey);
+        return alreadyImported ? nextGames : [...nextGames, newGame];
+      }
+      const game = findGameForPendingUpdate(nextGames, update);
+      if (!game) return nextGames;
+      if (update.type === 'removed') {
+        return nextGames.filter(g => g.id !== game.id);
+      }
+      const { rom } = update;
+      return rom ? nextGames.map(g => g.id === game.id ? { ...g, ...getGameRomFields(rom, update.folderPath) } : g) : nextGames;
+    }, prevGames));
+    dismissPendingUpdates(updates);
+  }, [dismissPendingUpdates]);
+
+  // Poll the server's folder watchers once the library has loaded, so auto-imports are checked against the saved games
+  useEffect(() => {
+    if (!isInitialGamesLoadComplete || !isInitialPlatformsLoadComplete) return;
+    fetchPendingUpdates();
+    const intervalId = setInterval(fetchPendingUpdates, LIBRARY_UPDATES_POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isInitialGamesLoadComplete, isInitialPlatformsLoadComplete, fetchPendingUpdates]);
+
+  // Apply TheGamesDB changes found by the server's scheduled refresh. Fields the user (or another
+  // source) set are left alone, so updates are applied without review and then dismissed.
+  const fetchMetadataUpdates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/metadata/refresh');
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for /api/metadata/refresh`);
+      const { updates }: MetadataRefreshStatus = await response.json();
+      if (updates.length === 0) return;
+      setGames(prev => updates.reduce((nextGames, update) => nextGames.map(g => applyMetadataUpdate(g, update)), prev));
+      const dismissResponse = await fetch('/api/metadata/refresh/dismiss', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: updates.map(update => update.id) }),
+      });
+      if (!dismissResponse.ok) throw new Error(`HTTP error! status: ${dismissResponse.status}`);
+    } catch (error) {
+      console.error("Could not apply metadata updates from the server:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isInitialGamesLoadComplete) return;
+    fetchMetadataUpdates();
+    const intervalId = setInterval(fetchMetadataUpdates, METADATA_UPDATES_POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isInitialGamesLoadComplete, fetchMetadataUpdates]);
+
+  // Apply confident matches from scrape jobs started with auto-accept, whichever job they belong to
+  // and whether or not the Scrape Metadata page is open. A result counts as applied once its review
+  // is saved; if saving fails, it is applied again (to the same effect) on the next poll.
+  const applyAutoAcceptedScrapeResults = useCallback(async () => {
+    try {
+      const response = await fetch('/api/scrape/auto-accepted');
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for /api/scrape/auto-accepted`);
+      const { results }: { results: AutoAcceptedScrapeResult[] } = await response.json();
+      const getKey = (result: AutoAcceptedScrapeResult) => `${result.jobId}:${result.gameId}`;
+      const resultsToApply = results.filter(result => !appliedScrapeResultKeysRef.current.has(getKey(result)));
+      if (resultsToApply.length === 0) return;
+      resultsToApply.forEach(result => appliedScrapeResultKeysRef.current.add(getKey(result)));
+      setGames(prev => prev.map(game => resultsToApply.filter(result => result.gameId === game.id).reduce(applyScrapeResult, game)));
+      try {
+        for (const jobId of new Set(resultsToApply.map(result => result.jobId))) {
+          const reviewResponse = await fetch(`/api/scrape/jobs/${encodeURIComponent(jobId)}/review`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ gameIds: resultsToApply.filter(result => result.jobId === jobId).map(result => result.gameId), decision: 'accepted' }),
+          });
+          if (!reviewResponse.ok) {
+            const errorData = await reviewResponse.json().catch(() => ({}));
+            throw new Error(errorData.error || `HTTP error! status: ${reviewResponse.status}`);
+          }
+        }
+      } catch (error) {
+        resultsToApply.forEach(result => appliedScrapeResultKeysRef.current.delete(getKey(result)));
+        throw error;
+      }
+      setScrapeAutoApplyError(null);
+      setScrapeAutoAppliedAt(Date.now());
+    } catch (error) {
+      console.error("Could not apply automatically accepted scrape matches:", error);
+      setScrapeAutoApplyError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isInitialGamesLoadComplete) return;
+    applyAutoAcceptedScrapeResults();
+    const intervalId = setInterval(applyAutoAcceptedScrapeResults, SCRAPE_AUTO_ACCEPT_POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isInitialGamesLoadComplete, applyAutoAcceptedScrapeResults]);
+
+  // Replace remote game artwork and platform icons with local copies, so the library works offline.
+  // The server's artwork index keeps each image's original URL.
+  useEffect(() => {
+    if (!isInitialGamesLoadComplete || !isInitialPlatformsLoadComplete) return;
+    const gameArtUrls = games.flatMap(g => [g.coverImageUrl, ...Object.values(g.images || {})]);
+    const remoteUrls = [...new Set([...gameArtUrls, ...platforms.map(p => p.userIconUrl)])]
+      .filter(isRemoteImageUrl)
+      .filter(url => !requestedArtworkUrlsRef.current.has(url));
+    if (remoteUrls.length === 0) return;
+    remoteUrls.forEach(url => requestedArtworkUrlsRef.current.add(url));
+
+    const storeArtwork = async () => {
+      for (let i = 0; i < remoteUrls.length; i += ARTWORK_BATCH_SIZE) {
+        const localUrls = new Map<string, string>();
+        for (const url of remoteUrls.slice(i, i + ARTWORK_BATCH_SIZE)) {
+          const localUrl = await cacheRemoteArtwork(url);
+          if (localUrl) localUrls.set(url, localUrl);
+        }
+        if (localUrls.size === 0) continue;
+        setGames(prev => prev.map(g => localizeGameArtwork(g, localUrls)));
+        setPlatforms(prev => prev.map(p => p.userIconUrl && localUrls.has(p.userIconUrl) ? { ...p, userIconUrl: localUrls.get(p.userIconUrl) } : p));
+      }
+    };
+    storeArtwork();
+  }, [games, platforms, isInitialGamesLoadComplete, isInitialPlatformsLoadComplete]);
+
+  // Platforms that opted into auto-import take new and renamed files without review; removals always wait for the user
+  useEffect(() => {
+    const autoImportPlatformIds = new Set(platforms.filter(p => p.scanSettings?.autoImport).map(p => p.id.toString()));
+    const updatesToApply = pendingUpdates.filter(update => update.type !== 'removed' && autoImportPlatformIds.has(update.platformId));
+    if (updatesToApply.length > 0) {
+      applyPendingUpdates(updatesToApply);
+    }
+  }, [pendingUpdates, platforms, applyPendingUpdates]);
+
+  const handleTerminateSession = useCallback(async (launchId: string) => {
+    try {
+      const response = await fetch(`/api/games/sessions/${encodeURIComponent(launchId)}/terminate`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error." }));
+        throw new Error(errorData.error || `Failed to stop session (status: ${response.status})`);
+      }
+    } catch (error) {
+      console.error(`Error terminating session ${launchId}:`, error);
+      alert(`Error stopping emulator: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      fetchLaunchSessions();
+    }
+  }, [fetchLaunchSessions]);
+
   // Effect to save games when `games` state changes (after initial load)
   useEffect(() => {
     if (isInitialGamesLoadComplete && games.length > 0) { // Added games.length > 0 to avoid saving empty array if initial load fails but sets complete
@@ -125,6 +414,7 @@ const AppContent: React.FC = () => {
     if (path.startsWith('/emulators')) return 'emulators';
     if (path.startsWith('/games')) return 'games';
     if (path.startsWith('/scan-roms')) return 'scan-roms'; // Added for scan-roms
+    if (path.startsWith('/scraper')) return 'scraper';
     // Settings is modal, doesn't change main view highlight directly based on path
     return 'games'; // Default highlight
   };
@@ -171,10 +461,10 @@ const AppContent: React.FC = () => {
 
   // New function for adding multiple games
   const handleAddMultipleGames = useCallback((newGames: Game[], platformId: string) => {
-    // Optional: Filter out games that might already exist by checking romPath for the given platformId
+    // Optional: Filter out games that might already exist by checking the ROM (path and archive entry) for the given platformId
     setGames(prevGames => {
-      const existingRomPaths = new Set(prevGames.filter(g => g.platformId === platformId).map(g => g.romPath));
-      const gamesToAdd = newGames.filter(g => !existingRomPaths.has(g.romPath));
+      const existingRomKeys = new Set(prevGames.filter(g => g.platformId === platformId).map(getGameRomKey));
+      const gamesToAdd = newGames.filter(g => !existingRomKeys.has(getGameRomKey(g)));
       if (gamesToAdd.length < newGames.length) {
         const skippedCount = newGames.length - gamesToAdd.length;
         // TODO: This alert might be better handled in ScanView after the callback, or via a more robust notification system.
@@ -305,6 +595,10 @@ const AppContent: React.FC = () => {
         gamesCount={games.length}
         platformsCount={platforms.length}
         emulatorsCount={emulatorsCount}
+        runningSessions={runningSessions}
+        onTerminateSession={handleTerminateSession}
+        pendingUpdatesCount={pendingUpdates.length}
+        onOpenPendingUpdates={() => setIsPendingUpdatesModalOpen(true)}
       />
       <main className="flex-1 overflow-y-auto">
         <Routes>
@@ -312,10 +606,12 @@ const AppContent: React.FC = () => {
             <GamesView 
               games={games} 
               platforms={platforms}
+              playHistory={playHistory}
               onAddGame={handleAddGame}
               onUpdateGame={handleUpdateGame}
               onDeleteGame={handleDeleteGame}
               onAddPlatform={handleAddPlatform} // Pass down the function
+              onGameLaunched={fetchLaunchSessions}
               // theGamesDbApiKey={theGamesDbApiKey} // REMOVED
               // geminiApiKey={geminiApiKey} // REMOVED
             />
@@ -324,6 +620,7 @@ const AppContent: React.FC = () => {
             <PlatformsView 
               platforms={platforms}
               games={games} // Pass games prop
+              watchedFolders={watchedFolders}
               onAddPlatform={handleAddPlatform}
               onUpdatePlatform={handleUpdatePlatform}
               onDeletePlatform={handleDeletePlatform}
@@ -339,14 +636,21 @@ const AppContent: React.FC = () => {
           <Route path="/scan-roms" element={ // New route for ScanRomsView
             <ScanRomsView
               platforms={platforms}
-              onAddGames={(newGames) => handleAddMultipleGames(newGames, '')} // Pass platforms and onAddGames
-                                                                                // For onAddGames, platformId is less critical here as ScanRomsView itself knows it.
-                                                                                // However, handleAddMultipleGames expects it. We can pass an empty string or the selected one.
-                                                                                // Let's assume ScanRomsView will provide the correct platformId when calling onAddGames.
-                                                                                // The current handleAddMultipleGames in App.tsx uses platformId to filter existing games.
-                                                                                // This might need adjustment if ScanRomsView doesn't pass platformId with each game.
-                                                                                // For now, let's adapt the call slightly or ensure ScanRomsView provides it.
-                                                                                // The implementation in ScanRomsView already includes platformId in the Game object.
+              games={games}
+              // ScanRomsView imports one platform at a time and sets platformId on every game it creates
+              onAddGames={(newGames) => handleAddMultipleGames(newGames, newGames[0]?.platformId || '')}
+              onUpdateGame={handleUpdateGame}
+              onUpdatePlatform={handleUpdatePlatform}
+            />
+          } />
+          <Route path="/scraper" element={
+            <ScrapeView
+              platforms={platforms}
+              games={games}
+              onUpdateGame={handleUpdateGame}
+              autoApplyError={scrapeAutoApplyError}
+              autoAppliedAt={scrapeAutoAppliedAt}
+              onRetryAutoApply={applyAutoAcceptedScrapeResults}
             />
           } />
           <Route path="/apikeys" element={
@@ -361,6 +665,15 @@ const AppContent: React.FC = () => {
         onClose={handleCloseSettingsModal}
         onNavigate={handleNavigateFromSettings}
       />
+      <PendingUpdatesModal
+        isOpen={isPendingUpdatesModalOpen}
+        onClose={() => setIsPendingUpdatesModalOpen(false)}
+        updates={pendingUpdates}
+        platforms={platforms}
+        games={games}
+        onApply={applyPendingUpdates}
+        onDismiss={dismissPendingUpdates}
+      />
     </div>
   );
 };
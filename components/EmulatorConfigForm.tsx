@@ -61,6 +61,20 @@ export const EmulatorConfigForm: React.FC<EmulatorConfigFormProps> = ({ isOpen,
         <Input label="Emulator Name" name="name" value={configData.name} onChange={handleChange} required placeholder="e.g., VICE x64, Snes9x" />
         <Input label="Executable Path" name="executablePath" value={configData.executablePath} onChange={handleChange} required placeholder="e.g., /usr/bin/vice or C:\Emulators\snes9x.exe" />
         <Input label="Command-line Arguments" name="args" value={configData.args} onChange={handleChange} placeholder="e.g., -fullscreen {romPath}" />
+        <label htmlFor="emulator-extract-archives" className="flex items-center space-x-2 cursor-pointer text-sm text-neutral-300">
+          <input type="checkbox" id="emulator-extract-archives"
+            checked={!!configData.extractArchives}
+            onChange={(e) => setConfigData(prev => ({ ...prev, extractArchives: e.target.checked }))}
+            className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+          <span>Extract zipped ROMs before launch (for emulators that can't open .zip/.7z files)</span>
+        </label>
+        <label htmlFor="emulator-multi-disc-playlist" className="flex items-center space-x-2 cursor-pointer text-sm text-neutral-300">
+          <input type="checkbox" id="emulator-multi-disc-playlist"
+            checked={!!configData.multiDiscPlaylist}
+            onChange={(e) => setConfigData(prev => ({ ...prev, multiDiscPlaylist: e.target.checked }))}
+            className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+          <span>Launch multi-disc games with an .m3u playlist (passed as {`{romPath}`}, for in-game disc swapping)</span>
+        </label>
         <p className="text-xs text-neutral-400">
           Use <code className="bg-neutral-700 px-1 rounded">{`{romPath}`}</code> as a placeholder for the full ROM file path. <br />
           Use <code className="bg-neutral-700 px-1 rounded">{`{emulatorPath}`}</code> as a placeholder for the emulator's executable path if needed in complex argument structures (often not required if the path is launched directly).
@@ -0,0 +1,43 @@
+import React from 'react';
+import { GameFieldProvenance } from '../types';
+import { GAME_FIELD_SOURCE_LABELS } from '../constants';
+import { LockClosedIcon, LockOpenIcon } from './Icons';
+
+interface FieldProvenanceProps {
+  fieldLabel: string; // For the lock button's accessible name
+  provenance?: GameFieldProvenance;
+  locked: boolean;
+  onToggleLock: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Where a game field's value came from, with a toggle that keeps enrichment and scraping off it
+export const FieldProvenance: React.FC<FieldProvenanceProps> = ({
+  fieldLabel,
+  provenance,
+  locked,
+  onToggleLock,
+  disabled,
+  className = '',
+}) => (
+  <div className={`flex items-center justify-between gap-2 -mt-3 mb-4 text-xs text-neutral-500 ${className}`}>
+    <span title={provenance ? new Date(provenance.updatedAt).toLocaleString() : undefined}>
+      {provenance
+        ? `${GAME_FIELD_SOURCE_LABELS[provenance.source]} · ${new Date(provenance.updatedAt).toLocaleDateString()}`
+        : 'Source unknown'}
+    </span>
+    <button
+      type="button"
+      onClick={onToggleLock}
+      disabled={disabled}
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded hover:text-neutral-100 disabled:opacity-50 ${locked ? 'text-primary' : ''}`}
+      aria-pressed={locked}
+      aria-label={`${locked ? 'Unlock' : 'Lock'} ${fieldLabel}`}
+      title={locked ? 'Locked: enrichment, scraping and metadata refreshes leave this field alone' : 'Lock this field against enrichment, scraping and metadata refreshes'}
+    >
+      {locked ? <LockClosedIcon className="w-3.5 h-3.5" /> : <LockOpenIcon className="w-3.5 h-3.5" />}
+      {locked ? 'Locked' : 'Lock'}
+    </button>
+  </div>
+);
@@ -1,23 +1,28 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from './Button';
 import { DEFAULT_ROM_FOLDER } from '../constants';
+import { formatFileSize } from '../utils';
 
 interface FileSystemItem {
   name: string;
   isDirectory: boolean;
-  path: string;
+  path: string; // Relative to the server's ROMs base directory
+  size?: number; // Files only
+  modifiedAt?: string; // ISO timestamp
 }
 
 interface FolderBrowserProps {
   initialPath?: string;
   onPathSelected: (path: string) => void;
   onCancel?: () => void;
+  showFiles?: boolean; // List files alongside folders, so users can check a folder's contents before scanning
 }
 
 export const FolderBrowser: React.FC<FolderBrowserProps> = ({
   initialPath,
   onPathSelected,
   onCancel,
+  showFiles = true,
 }) => {
   const [currentPath, setCurrentPath] = useState<string>(initialPath || DEFAULT_ROM_FOLDER || '');
   const [parentPath, setParentPath] = useState<string | null>(null);
@@ -30,7 +35,7 @@ export const FolderBrowser: React.FC<FolderBrowserProps> = ({
     setError(null);
     try {
       const encodedPath = encodeURIComponent(pathToList);
-      const response = await fetch(`/api/fs/list?path=${encodedPath}`);
+      const response = await fetch(`/api/fs/list?path=${encodedPath}&includeFiles=${showFiles}`);
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Failed to parse error response from server.' }));
         throw new Error(errorData.error || `Failed to list directory: ${response.status}`);
@@ -44,13 +49,13 @@ export const FolderBrowser: React.FC<FolderBrowserProps> = ({
     } finally {
       setIsLoading(false);
     }
-  }, []); // Empty dependency array for useCallback as it doesn't depend on props/state from this scope
+  }, [showFiles]);
 
   useEffect(() => {
     // Fetch initial directory contents based on the initial currentPath
     fetchDirectoryContents(currentPath);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [fetchDirectoryContents]); // fetchDirectoryContents is stable due to useCallback with empty deps.
+  }, [fetchDirectoryContents]); // fetchDirectoryContents only changes if showFiles does.
                                // currentPath is intentionally omitted to only run on initial mount based on initial `currentPath` state.
 
   const handleNavigate = (newPath: string) => {
@@ -115,13 +120,20 @@ export const FolderBrowser: React.FC<FolderBrowserProps> = ({
             <li key={item.name}>
               <button
                 onClick={() => handleSelectItem(item)}
+                disabled={!item.isDirectory}
                 className={`w-full text-left p-2 rounded hover:bg-neutral-700 focus:outline-none focus:bg-neutral-600 transition-colors duration-150 flex items-center space-x-2 ${
-                  item.isDirectory ? 'font-semibold text-sky-300 hover:text-sky-200' : 'text-neutral-300 hover:text-neutral-100'
+                  item.isDirectory ? 'font-semibold text-sky-300 hover:text-sky-200' : 'text-neutral-300 hover:text-neutral-100 cursor-default'
                 }`}
                 title={item.path}
               >
                 <span className="text-lg">{item.isDirectory ? '📁' : '📄'}</span>
-                <span>{item.name}</span>
+                <span className="flex-grow truncate">{item.name}</span>
+                {!item.isDirectory && item.size !== undefined && (
+                  <span className="text-xs text-neutral-500 whitespace-nowrap">{formatFileSize(item.size)}</span>
+                )}
+                {item.modifiedAt && (
+                  <span className="text-xs text-neutral-500 whitespace-nowrap">{new Date(item.modifiedAt).toLocaleDateString()}</span>
+                )}
               </button>
             </li>
           ))}
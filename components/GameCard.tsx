@@ -1,7 +1,10 @@
 import React from 'react';
-import { Game, Platform } from '../types';
+import { Game, GameArtType, Platform, GamePlayStats } from '../types';
 import { Button } from './Button';
-import { EditIcon, TrashIcon, PlayIcon } from './Icons';
+import { EditIcon, TrashIcon, PlayIcon, ClockIcon } from './Icons';
+import { VerificationBadge } from './VerificationBadge';
+import { RomTagBadges } from './RomTagBadges';
+import { formatPlayTime, getArtworkThumbnailUrl, getGameArtUrl, getPlaceholderImage } from '../utils';
 
 interface GameCardProps {
   game: Game;
@@ -9,9 +12,26 @@ interface GameCardProps {
   onEdit: (game: Game) => void;
   onDelete: (gameId: string) => void;
   onLaunch: (game: Game) => void;
+  playStats?: GamePlayStats;
+  onShowHistory?: (game: Game) => void;
+  artType?: GameArtType; // Artwork to show; falls back to the front box art
 }
 
-export const GameCard: React.FC<GameCardProps> = ({ game, platform, onEdit, onDelete, onLaunch }) => {
+// Wide art types get a wide frame; logos are shown whole rather than cropped
+const ART_FRAME_CLASSES: Record<GameArtType, { aspect: string; fit: string }> = {
+  boxart_front: { aspect: 'aspect-[3/4]', fit: 'object-cover' },
+  boxart_back: { aspect: 'aspect-[3/4]', fit: 'object-cover' },
+  fanart: { aspect: 'aspect-video', fit: 'object-cover' },
+  banner: { aspect: 'aspect-[3/1]', fit: 'object-cover' },
+  screenshot: { aspect: 'aspect-[4/3]', fit: 'object-cover' },
+  titlescreen: { aspect: 'aspect-[4/3]', fit: 'object-cover' },
+  clearlogo: { aspect: 'aspect-video', fit: 'object-contain p-4 bg-neutral-900' },
+};
+
+export const GameCard: React.FC<GameCardProps> = ({ game, platform, onEdit, onDelete, onLaunch, playStats, onShowHistory, artType = 'boxart_front' }) => {
+  const imageUrl = getGameArtUrl(game, artType) || game.coverImageUrl;
+  const frame = ART_FRAME_CLASSES[artType];
+
   const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
     if (event.key === 'Enter' || event.key === ' ') {
       // Check if the event target is not one of the inner buttons
@@ -31,11 +51,16 @@ export const GameCard: React.FC<GameCardProps> = ({ game, platform, onEdit, onDe
       aria-labelledby={`game-title-${game.id}`}
       aria-describedby={`game-desc-${game.id}`}
     >
-      <div className="relative aspect-[3/4]">
+      <div className={`relative ${frame.aspect}`}>
         <img 
-          src={game.coverImageUrl || `https://picsum.photos/seed/${game.id}/300/400`} 
-          alt={game.title} 
-          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+          src={imageUrl ? getArtworkThumbnailUrl(imageUrl) : getPlaceholderImage(game.title, game.id)}
+          alt={game.title}
+          // Remote art that can't be reached (e.g. offline, before it was stored locally) falls back to the placeholder
+          onError={(e) => {
+            const placeholder = getPlaceholderImage(game.title, game.id);
+            if (e.currentTarget.src !== placeholder) e.currentTarget.src = placeholder;
+          }}
+          className={`w-full h-full ${frame.fit} group-hover:scale-105 transition-transform duration-300`}
         />
         <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/30 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col justify-end p-4">
            <Button 
@@ -55,7 +80,23 @@ export const GameCard: React.FC<GameCardProps> = ({ game, platform, onEdit, onDe
       
       <div className="p-5 flex flex-col flex-grow">
         <h3 id={`game-title-${game.id}`} className="text-xl font-display font-semibold text-neutral-100 mb-1 truncate" title={game.title}>{game.title}</h3>
-        <p className="text-sm text-primary-light mb-1">{platform?.name || 'Unknown Platform'}</p>
+        <p className="text-sm text-primary-light mb-1 flex items-center gap-2">
+          <span className="truncate">{platform?.name || 'Unknown Platform'}</span>
+          {game.verification && <VerificationBadge status={game.verification.status} datGameName={game.verification.datGameName} />}
+          {game.discs && game.discs.length > 1 && <span className="text-xs text-neutral-400 whitespace-nowrap">{game.discs.length} discs</span>}
+          {game.alternateVersions && game.alternateVersions.length > 0 && (
+            <span className="text-xs text-neutral-400 whitespace-nowrap" title={game.alternateVersions.map(version => version.archiveEntry || version.romPath).join('\n')}>
+              +{game.alternateVersions.length} version{game.alternateVersions.length === 1 ? '' : 's'}
+            </span>
+          )}
+        </p>
+        <RomTagBadges game={game} className="mb-2" />
+        {playStats && playStats.playCount > 0 && (
+          <p className="text-xs text-neutral-500 mb-1">
+            Played {playStats.playCount}× · {formatPlayTime(playStats.totalPlayTime)}
+            {playStats.lastPlayed && ` · Last ${new Date(playStats.lastPlayed).toLocaleDateString()}`}
+          </p>
+        )}
         <p id={`game-desc-${game.id}`} className="text-xs text-neutral-400 mb-3 flex-grow line-clamp-3" title={game.description}>{game.description || "No description available."}</p>
         
         <div className="mt-auto flex justify-between items-center">
@@ -66,6 +107,11 @@ export const GameCard: React.FC<GameCardProps> = ({ game, platform, onEdit, onDe
             <Button variant="ghost" size="sm" onClick={() => onDelete(game.id)} aria-label={`Delete ${game.title}`}>
               <TrashIcon className="w-4 h-4 text-neutral-400 group-hover:text-red-500" />
             </Button>
+            {onShowHistory && (
+              <Button variant="ghost" size="sm" onClick={() => onShowHistory(game)} aria-label={`Play history for ${game.title}`}>
+                <ClockIcon className="w-4 h-4 text-neutral-400 group-hover:text-primary-light" />
+              </Button>
+            )}
           </div>
           <span className="text-xs text-neutral-500">{game.genre} - {game.releaseDate}</span>
         </div>
@@ -1,12 +1,16 @@
 
 import React, { useState, useEffect } from 'react';
-import { Game, Platform } from '../types';
+import { Game, GameArtType, GameFieldSource, GameMetadataField, MetadataGame, MetadataProviderId, MetadataProviderInfo, Platform, TheGamesDbGameImage, TheGamesDbLookupEntry } from '../types';
 import { Input } from './Input';
 import { Textarea } from './Textarea';
 import { Select } from './Select';
+import { MultiSelect } from './MultiSelect';
+import { FieldProvenance } from './FieldProvenance';
 import { Button } from './Button';
 import { Modal } from './Modal';
 import { CloudDownloadIcon, SparklesIcon, SpinnerIcon } from './Icons';
+import { getGameArtUrl, getPlaceholderImage, recordFieldSources, applySourcedFields } from '../utils';
+import { GAME_ART_TYPES } from '../constants';
 // import { GoogleGenAI, GenerateContentResponse } from '@google/genai'; // No longer used directly
 
 interface GameFormProps {
@@ -20,58 +24,21 @@ interface GameFormProps {
   geminiApiKey?: string;
 }
 
-// Types for TheGamesDB API response
-interface TheGamesDbGame {
-  id: number;
-  game_title: string;
-  release_date?: string;
-  platform: number; // Platform ID from TheGamesDB
-  overview?: string;
-  genres?: { id: number; name: string }[];
-}
-
-interface TheGamesDbPlatformData {
-  id: number;
-  name: string;
-  alias: string;
-}
+const formatMatchScore = (score: number) => `${Math.round(score * 100)}% match`;
 
-interface TheGamesDbBoxartImage {
-  id: number;
-  type: string;
-  side?: string;
-  filename: string;
-}
+// "1994-03-19" -> "1994"
+const getReleaseYear = (releaseDate?: string) => releaseDate?.match(/^\d{4}/)?.[0];
 
-interface TheGamesDbIncludeData {
-  boxart?: {
-    base_url?: { original?: string };
-    data?: { [gameId: string]: TheGamesDbBoxartImage[] };
-  };
-  platform?: {
-    data?: { [platformId: string]: TheGamesDbPlatformData };
-  };
-}
+// The provenance of values taken from a metadata provider. Copies from the library count as the user's own values.
+const getProviderSource = (providerId: MetadataProviderId): GameFieldSource => (providerId === 'local' ? 'user' : providerId);
 
-// Interface for the transformed game object from our proxy server
-interface TransformedGameFromProxy {
-  id: number;
-  title: string;
-  release_date?: string;
-  platform_id: number; // This is the original ID from TheGamesDB
-  source_platform_details?: { // Full details from thegamesdb_platforms.json via server
-    id: number; // TGDB's own ID for the platform
-    name: string;
-    alias: string;
-  };
-  overview?: string;
-  boxart_url?: string;
-  // Redundant fields removed as they are now within source_platform_details
-  // platform_name_from_source?: string;
-  // platform_alias_from_source?: string;
+interface MetadataSearchResponse {
+  games: MetadataGame[];
+  confident_match_id: number | string | null;
+  pages?: { next: number | null };
+  message?: string;
 }
 
-
 const defaultGame: Omit<Game, 'id'> = {
   title: '',
   platformId: '',
@@ -96,9 +63,22 @@ export const GameForm: React.FC<GameFormProps> = ({
   const [isFetchingDB, setIsFetchingDB] = useState(false);
   const [isGeneratingDesc, setIsGeneratingDesc] = useState(false);
   const [apiError, setApiError] = useState<string | null>(null);
-  const [searchResults, setSearchResults] = useState<TransformedGameFromProxy[]>([]); // Changed type
-  const [searchIncludeData, setSearchIncludeData] = useState<TheGamesDbIncludeData | undefined>(undefined); // This is no longer used by modal
+  const [searchResults, setSearchResults] = useState<MetadataGame[]>([]);
+  const [searchProviderId, setSearchProviderId] = useState<MetadataProviderId | null>(null); // Provider the results came from
   const [isGameSelectionModalOpen, setIsGameSelectionModalOpen] = useState(false);
+  const [searchNextPage, setSearchNextPage] = useState<number | null>(null); // Next results page, if any
+  const [autoMatchNotice, setAutoMatchNotice] = useState<string | null>(null); // Set when a confident match was selected without asking
+  // Enabled metadata providers in priority order, as configured on the server, and the one Fetch Info searches first
+  const [metadataProviders, setMetadataProviders] = useState<MetadataProviderInfo[]>([]);
+  const [metadataProviderId, setMetadataProviderId] = useState<MetadataProviderId | ''>('');
+  const [fillEmptyFieldsOnly, setFillEmptyFieldsOnly] = useState(false); // Merge a match into the form instead of replacing its values
+  // Artwork picker: the images of each provider the game is linked to
+  const [gameImages, setGameImages] = useState<Partial<Record<MetadataProviderId, TheGamesDbGameImage[]>>>({});
+  const [gameImagesNextPages, setGameImagesNextPages] = useState<Partial<Record<MetadataProviderId, number | null>>>({});
+  const [pendingImageRequests, setPendingImageRequests] = useState(0);
+  const [errorGameImages, setErrorGameImages] = useState<string | null>(null);
+  const [pickerArtType, setPickerArtType] = useState<GameArtType>('boxart_front');
+  const [genreOptions, setGenreOptions] = useState<TheGamesDbLookupEntry[] | null>(null); // TheGamesDB's genres; null falls back to free text
 
   useEffect(() => {
     if (initialGame) {
@@ -108,15 +88,154 @@ export const GameForm: React.FC<GameFormProps> = ({
     }
     setApiError(null); // Reset API error when form opens or initial game changes
     setSearchResults([]);
-    setSearchIncludeData(undefined);
+    setSearchProviderId(null);
     setIsGameSelectionModalOpen(false);
+    setSearchNextPage(null);
+    setAutoMatchNotice(null);
+    setPickerArtType('boxart_front');
   }, [initialGame, isOpen]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch('/api/metadata/providers')
+      .then(async res => {
+        if (!res.ok) {
+          const errData = await res.json().catch(() => ({}));
+          throw new Error(errData.error || `Failed to fetch metadata providers: ${res.statusText}`);
+        }
+        return res.json();
+      })
+      .then((data: { providers: MetadataProviderInfo[] }) => {
+        const enabledProviders = data.providers.filter(provider => provider.enabled);
+        setMetadataProviders(enabledProviders);
+        // Keep the user's choice; otherwise start with the first provider that can make requests
+        setMetadataProviderId(prev => enabledProviders.some(provider => provider.id === prev)
+          ? prev
+          : (enabledProviders.find(provider => provider.configured) || enabledProviders[0])?.id || '');
+      })
+      .catch(err => {
+        console.error("Error fetching metadata providers:", err);
+        setApiError(err.message || 'Could not load the metadata providers.');
+      });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || genreOptions) return;
+    fetch('/api/thegamesdb/lookups/genres')
+      .then(async res => {
+        if (!res.ok) {
+          const errData = await res.json().catch(() => ({}));
+          throw new Error(errData.error || `Failed to fetch genres: ${res.statusText}`);
+        }
+        return res.json();
+      })
+      .then((data: { genres: TheGamesDbLookupEntry[] }) => setGenreOptions(data.genres.length > 0 ? data.genres : null))
+      // Without TheGamesDB's genres the genre stays a free-text field
+      .catch(err => console.warn("Could not load TheGamesDB genres:", err));
+  }, [isOpen]);
+
+  // Providers the game is linked to (e.g. by theGamesDbId) that have artwork to offer
+  const linkedProviders = metadataProviders
+    .filter(provider => provider.gameIdField && gameData[provider.gameIdField] && provider.capabilities.artTypes.length > 0)
+    .map(provider => ({ provider, gameId: gameData[provider.gameIdField!]! }));
+  const linkedProvidersKey = linkedProviders.map(({ provider, gameId }) => `${provider.id}:${gameId}`).join(',');
+
+  const fetchGameImages = (providerId: MetadataProviderId, gameId: number | string, page = 1) => {
+    setPendingImageRequests(count => count + 1);
+    setErrorGameImages(null);
+    fetch(`/api/metadata/${providerId}/games/${encodeURIComponent(gameId)}/images?page=${page}`)
+      .then(async res => {
+        if (!res.ok) {
+          const errData = await res.json().catch(() => ({}));
+          throw new Error(errData.error || `Failed to fetch images: ${res.statusText}`);
+        }
+        return res.json();
+      })
+      .then((data: { images: TheGamesDbGameImage[]; pages?: { next: number | null } }) => {
+        setGameImages(prev => ({ ...prev, [providerId]: page > 1 ? [...(prev[providerId] || []), ...data.images] : data.images }));
+        setGameImagesNextPages(prev => ({ ...prev, [providerId]: data.pages?.next ?? null }));
+      })
+      .catch(err => {
+        console.error("Error fetching game images:", err);
+        setErrorGameImages(err.message || 'Could not load game images.');
+      })
+      .finally(() => setPendingImageRequests(count => count - 1));
+  };
+
+  // Load the artwork of every provider the game is linked to (on selecting a search result, or when editing a matched game)
+  useEffect(() => {
+    setGameImages({});
+    setGameImagesNextPages({});
+    setErrorGameImages(null);
+    if (isOpen) {
+      linkedProviders.forEach(({ provider, gameId }) => fetchGameImages(provider.id, gameId));
+    }
+  }, [linkedProvidersKey, isOpen]);
+
+  const pickerImages = linkedProviders.flatMap(({ provider }) =>
+    (gameImages[provider.id] || []).map(image => ({ ...image, providerId: provider.id })));
+  const isLoadingGameImages = pendingImageRequests > 0;
+  const moreImagesProvider = linkedProviders.find(({ provider }) => gameImagesNextPages[provider.id]);
+  const searchProvider = metadataProviders.find(provider => provider.id === searchProviderId);
+
+  // A matched value replaces the form's, unless only empty fields are being filled
+  const mergeField = (current: string, value: string | undefined) =>
+    value && (!fillEmptyFieldsOnly || !current) ? value : current;
+
+  // The front box art is the cover image; other types are kept in gameData.images. `source` is
+  // where the image came from: the provider for a picked image, the user for a typed URL.
+  const setArtUrl = (artType: GameArtType, url: string, source: GameFieldSource = 'user') => {
+    setGameData(prev => {
+      if (artType === 'boxart_front') {
+        return recordFieldSources(prev, { ...prev, coverImageUrl: url }, source);
+      }
+      const images = { ...prev.images, [artType]: url || undefined };
+      if (!url) delete images[artType];
+      return { ...prev, images };
+    });
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setGameData(prev => ({ ...prev, [name]: value }));
+    setGameData(prev => recordFieldSources(prev, { ...prev, [name]: value }, 'user'));
+  };
+
+  const handlePlayersChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const players = parseInt(e.target.value, 10);
+    setGameData(prev => recordFieldSources(prev, { ...prev, players: players > 0 ? players : undefined }, 'user'));
+  };
+
+  // Genre IDs for genre names, for providers that only return names and games saved before genre IDs
+  const getGenreIdsByName = (names: string[]) => (genreOptions || [])
+    .filter(option => names.some(name => name.toLowerCase() === option.name.toLowerCase()))
+    .map(option => option.id);
+
+  const handleGenresChange = (values: string[]) => {
+    const genreIds = values.map(Number);
+    const names = genreIds.map(id => genreOptions?.find(option => option.id === id)?.name).filter(Boolean);
+    setGameData(prev => recordFieldSources(prev, { ...prev, genreIds, genre: names.join(', ') }, 'user'));
+  };
+
+  // Locked fields can still be edited here, but Fetch Info, Generate and bulk scraping leave them alone
+  const toggleFieldLock = (field: GameMetadataField) => {
+    setGameData(prev => {
+      const lockedFields = prev.lockedFields || [];
+      const next = lockedFields.includes(field) ? lockedFields.filter(f => f !== field) : [...lockedFields, field];
+      return { ...prev, lockedFields: next.length > 0 ? next : undefined };
+    });
   };
 
+  const renderFieldProvenance = (field: GameMetadataField, fieldLabel: string, className?: string) => (
+    <FieldProvenance
+      fieldLabel={fieldLabel}
+      provenance={gameData.provenance?.[field]}
+      locked={Boolean(gameData.lockedFields?.includes(field))}
+      onToggleLock={() => toggleFieldLock(field)}
+      disabled={isFetchingDB || isGeneratingDesc}
+      className={className}
+    />
+  );
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!gameData.platformId) {
@@ -130,61 +249,83 @@ export const GameForm: React.FC<GameFormProps> = ({
     onSubmit(fullGameData);
   };
 
-  const handleFetchFromGamesDB = async () => {
-    // Removed client-side API key check: if (!theGamesDbApiKey) { ... }
+  const searchMetadataProvider = async (provider: MetadataProviderInfo, page: number): Promise<MetadataSearchResponse> => {
+    const apiUrl = `/api/metadata/${provider.id}/search?title=${encodeURIComponent(gameData.title)}&page=${page}`;
+    const response = await fetch(apiUrl);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
+      throw new Error(`${provider.name} search failed: ${response.status} ${response.statusText}. ${errorData.message || errorData.error || ''}`);
+    }
+    const apiResponse: MetadataSearchResponse = await response.json();
+    // The local library would offer the game being edited as a match for itself
+    return provider.id === 'local' && initialGame
+      ? { ...apiResponse, games: apiResponse.games.filter(game => game.id !== initialGame.id) }
+      : apiResponse;
+  };
+
+  // Searches the chosen provider first; when it finds nothing (or fails), the other enabled providers
+  // are tried in priority order. Page 1 starts a new search; later pages are appended to the open results list.
+  const handleFetchInfo = async (page = 1) => {
     if (!gameData.title) {
       setApiError("Please enter a game title to fetch information.");
       return;
     }
+    const chosenProvider = metadataProviders.find(provider => provider.id === (page > 1 ? searchProviderId : metadataProviderId));
+    if (!chosenProvider) {
+      setApiError("No metadata provider is enabled on the server.");
+      return;
+    }
+    const providersToTry = page > 1 ? [chosenProvider] : [chosenProvider, ...metadataProviders.filter(provider => provider !== chosenProvider)];
+
     setIsFetchingDB(true);
     setApiError(null);
+    if (page === 1) setAutoMatchNotice(null);
+    const failures: string[] = [];
     try {
-      // Using the new proxy server endpoint for TheGamesDB
-      const fields = "overview,genres,release_date,platform"; // These are TheGamesDB specific fields
-      const include = "boxart,platform"; // These are TheGamesDB specific includes
-      const apiUrl = `http://localhost:3001/api/search/thegamesdb/bygamename?name=${encodeURIComponent(gameData.title)}&fields=${fields}&include=${include}`;
-
-      console.log("Fetching from proxy server (TheGamesDB):", apiUrl);
-      
-      const response = await fetch(apiUrl);
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
-        throw new Error(`API request failed: ${response.status} ${response.statusText}. ${errorData.message || errorData.error || ''}`);
+      for (const provider of providersToTry) {
+        let apiResponse: MetadataSearchResponse;
+        try {
+          apiResponse = await searchMetadataProvider(provider, page);
+        } catch (error) {
+          console.error(`Error searching ${provider.name}:`, error);
+          failures.push(error instanceof Error ? error.message : `An unknown error occurred while searching ${provider.name}.`);
+          continue;
+        }
+
+        if (apiResponse.games.length === 0) {
+          if (page > 1) {
+            setSearchNextPage(null); // Ran past the last page; keep the results already shown
+            return;
+          }
+          failures.push(apiResponse.message || `No game found with that title on ${provider.name}.`);
+          continue;
+        }
+
+        setSearchResults(prev => page > 1 ? [...prev, ...apiResponse.games] : apiResponse.games);
+        setSearchProviderId(provider.id);
+        setSearchNextPage(apiResponse.pages?.next ?? null);
+        const fallbackNotice = provider !== chosenProvider ? `No match on ${chosenProvider.name}. ` : '';
+
+        // A result the server is confident about is taken straight away; the list stays available to pick another
+        const confidentMatch = page === 1 && apiResponse.confident_match_id !== null
+          ? apiResponse.games.find(game => game.id === apiResponse.confident_match_id)
+          : undefined;
+        if (confidentMatch) {
+          await handleGameSelected(provider, confidentMatch);
+          setAutoMatchNotice(`${fallbackNotice}Matched "${confidentMatch.title}" on ${provider.name} automatically${confidentMatch.match_score !== undefined ? ` (${formatMatchScore(confidentMatch.match_score)})` : ''}.`);
+        } else {
+          if (fallbackNotice) setAutoMatchNotice(`${fallbackNotice}Showing results from ${provider.name}.`);
+          setIsGameSelectionModalOpen(true);
+        }
+        return;
       }
-      const apiResponse = await response.json();
-      console.log("Full response from proxy (TheGamesDB):", apiResponse);
-      
-      // Adjusted to match the transformed response structure from the proxy
-      if (apiResponse.games && apiResponse.games.length > 0) {
-        // The proxy now returns a simplified `games` array.
-        // We need to adapt how we store/use this data if the structure is different from original TheGamesDB.
-        // For now, assuming `apiResponse.games` contains the games array directly.
-        // And `apiResponse.include` might still be there if the proxy forwards it, or it might be incorporated.
-        // Based on the new server code, the response is { source, count, games, pages, remaining_allowance }
-        // The `games` objects are transformed. `searchIncludeData` might not be directly available or needed in the same way.
-
-        // Map the transformed game data to TheGamesDbGame structure if needed for existing modal
-        // Or update the modal to use the new simpler structure.
-        // The proxy returns `TransformedGameFromProxy[]` in `apiResponse.games`.
-        // Set this directly to the searchResults state.
-        setSearchResults(apiResponse.games);
-
-        // `searchIncludeData` is no longer needed from the proxy in this new structure,
-        // as boxart_url is part of each game, and platform name can be looked up from local `platforms` list.
-        setSearchIncludeData(undefined);
-
-        setIsGameSelectionModalOpen(true);
-      } else {
-        setApiError(apiResponse.message || "No game found with that title via proxy.");
+
+      // Nothing found anywhere: report why the chosen provider didn't help
+      if (page === 1) {
         setSearchResults([]);
-        setSearchIncludeData(undefined);
+        setSearchProviderId(null);
       }
-    } catch (error) {
-      console.error("Error fetching from proxy (TheGamesDB):", error);
-      setApiError(error instanceof Error ? error.message : "An unknown error occurred while fetching from TheGamesDB via proxy.");
-      setSearchResults([]);
-      setSearchIncludeData(undefined);
+      setApiError(failures[0] || "No game found with that title.");
     } finally {
       setIsFetchingDB(false);
     }
@@ -199,7 +340,7 @@ export const GameForm: React.FC<GameFormProps> = ({
     setIsGeneratingDesc(true);
     setApiError(null);
     try {
-      const apiUrl = `http://localhost:3001/api/gemini/enrich-gamelist`;
+      const apiUrl = `/api/gemini/enrich-gamelist`;
       console.log("Requesting description from proxy (Gemini Enrich):", apiUrl);
 
       const response = await fetch(apiUrl, {
@@ -222,10 +363,10 @@ export const GameForm: React.FC<GameFormProps> = ({
 
       // Expecting response: { source: 'Gemini', enriched_games: [{ title: "...", description: "..."}] }
       if (apiResponse.enriched_games && apiResponse.enriched_games.length > 0 && apiResponse.enriched_games[0].description) {
-        setGameData(prev => ({
+        setGameData(prev => applySourcedFields(prev, {
           ...prev,
           description: apiResponse.enriched_games[0].description.trim(),
-        }));
+        }, 'ai'));
       } else {
         console.warn("Gemini enrich-gamelist: Description not found in expected path or empty array.", apiResponse);
         throw new Error("No description found in API response from enrich-gamelist.");
@@ -238,74 +379,77 @@ export const GameForm: React.FC<GameFormProps> = ({
     }
   };
 
-  const handleGameSelectedFromSearch = (
-    selectedTGDBGame: TheGamesDbGame,
-  sourcePlatformDetails: { id: number; name: string; alias: string } | undefined,
-  coverImgUrl: string
-  ) => {
-  console.log(`handleGameSelectedFromSearch - Received Source Platform Details:`, sourcePlatformDetails);
-  console.log("Local platforms for matching:", platforms.map(p => ({ id: p.id, name: p.name, alias: p.alias })));
-
-  let matchedPlatform: Platform | undefined = undefined;
-  let finalPlatformIdToSet: string = '';
-  let apiMessage = null;
-
-  // selectedTGDBGame.platform is the numeric ID from TheGamesDB results.
-  // platforms in local state have string IDs.
-  const searchPlatformIdStr = selectedTGDBGame.platform.toString();
-
-  matchedPlatform = platforms.find(p =>
-    p.id === searchPlatformIdStr || // Direct ID match
-    (sourcePlatformDetails && p.name.toLowerCase() === sourcePlatformDetails.name.toLowerCase()) ||
-    (sourcePlatformDetails && p.alias && sourcePlatformDetails.alias && p.alias.toLowerCase() === sourcePlatformDetails.alias.toLowerCase()) ||
-    (sourcePlatformDetails && p.alias && p.alias.toLowerCase() === sourcePlatformDetails.name.toLowerCase()) ||
-    (sourcePlatformDetails && sourcePlatformDetails.alias && p.name.toLowerCase() === sourcePlatformDetails.alias.toLowerCase())
-  );
+  // The local platform for a result's platform, matched by ID, name or alias. A platform missing
+  // locally is added. Returns its ID ('' if none could be found or added) and a message for the user.
+  const resolveResultPlatform = (sourcePlatform: NonNullable<MetadataGame['platform']>): { platformId: string; message: string | null } => {
+    const sourcePlatformId = sourcePlatform.id.toString();
+    const name = sourcePlatform.name.toLowerCase();
+    const alias = sourcePlatform.alias.toLowerCase();
+    const matchedPlatform = platforms.find(p =>
+      p.id === sourcePlatformId ||
+      (name && (p.name.toLowerCase() === name || p.alias?.toLowerCase() === name)) ||
+      (alias && (p.alias?.toLowerCase() === alias || p.name.toLowerCase() === alias))
+    );
+    if (matchedPlatform) {
+      return { platformId: matchedPlatform.id, message: null };
+    }
+    if (sourcePlatform.name) {
+      // Added under the provider's platform ID (TheGamesDB's)
+      onAddPlatform({ id: sourcePlatformId, name: sourcePlatform.name, alias: sourcePlatform.alias });
+      return { platformId: sourcePlatformId, message: `Platform "${sourcePlatform.name}" was not found locally and has been added to your platforms.` };
+    }
+    console.warn(`Could not match or create platform for source platform ID ${sourcePlatformId}.`, sourcePlatform);
+    return { platformId: '', message: "Platform details from search could not be matched or used to create a new platform. Please select a platform manually or ensure the platform exists." };
+  };
 
-  console.log("Attempt 1: Matched local platform:", matchedPlatform);
-
-  if (matchedPlatform) {
-    finalPlatformIdToSet = matchedPlatform.id; // matchedPlatform.id is already a string
-  } else if (sourcePlatformDetails && sourcePlatformDetails.name) {
-    // No local match, but we have details from the source to create a new platform.
-    // Use selectedTGDBGame.platform (searchPlatformIdStr) for the ID.
-    console.log(`Platform "${sourcePlatformDetails.name}" (Source ID: ${searchPlatformIdStr}) not found locally. Adding it.`);
-    const newPlatformData = {
-      id: searchPlatformIdStr, // Use TGDB ID (as string) for local ID
-      name: sourcePlatformDetails.name,
-      alias: sourcePlatformDetails.alias || '', // Ensure alias is a string
-    };
-    onAddPlatform(newPlatformData);
-    finalPlatformIdToSet = newPlatformData.id;
-    apiMessage = `Platform "${sourcePlatformDetails.name}" was not found locally and has been added to your platforms.`;
-  } else {
-    // No sourcePlatformDetails or name, cannot create a new platform entry intelligently.
-    // User might need to select platform manually if searchPlatformIdStr doesn't match any existing.
-    // We could try to match just by searchPlatformIdStr if no sourcePlatformDetails given.
-    const existingPlatformById = platforms.find(p => p.id === searchPlatformIdStr);
-    if (existingPlatformById) {
-        finalPlatformIdToSet = existingPlatformById.id;
-    } else {
-        apiMessage = "Platform details from search could not be matched or used to create a new platform. Please select a platform manually or ensure the platform exists.";
-        console.warn(`Could not match or create platform for TGDB ID ${searchPlatformIdStr}. Source details:`, sourcePlatformDetails);
+  // Fills the form from a search result. Providers whose results lack the description are asked for
+  // the full record first. The platform is only taken from providers that use the app's platform IDs.
+  const handleGameSelected = async (provider: MetadataProviderInfo, selectedGame: MetadataGame) => {
+    setIsGameSelectionModalOpen(false);
+    setAutoMatchNotice(null);
+    let game = selectedGame;
+    if (!provider.capabilities.detailsInSearch) {
+      setIsFetchingDB(true);
+      try {
+        const response = await fetch(`/api/metadata/${provider.id}/games/${encodeURIComponent(selectedGame.id)}`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `Failed to fetch game details from ${provider.name}: ${response.statusText}`);
+        }
+        game = await response.json();
+      } catch (error) {
+        console.error(`Error fetching game details from ${provider.name}:`, error);
+        setApiError(error instanceof Error ? error.message : `Could not load the game's details from ${provider.name}.`);
+        return;
+      } finally {
+        setIsFetchingDB(false);
+      }
     }
-  }
 
-  setApiError(apiMessage);
+    const { platformId, message } = game.platform ? resolveResultPlatform(game.platform) : { platformId: '', message: null };
+    setApiError(message);
 
-    setGameData(prev => ({
+    const links: Partial<Game> = {};
+    if (provider.gameIdField) links[provider.gameIdField] = Number(game.id);
+    const genreIds = game.genre_ids?.length ? game.genre_ids : getGenreIdsByName(game.genres);
+    const source = getProviderSource(provider.id);
+    setGameData(prev => {
+      const replaceGenres = game.genres.length > 0 && !(fillEmptyFieldsOnly && prev.genre);
+      return applySourcedFields(prev, {
         ...prev,
-        title: selectedTGDBGame.game_title,
-        description: selectedTGDBGame.overview || prev.description,
-        genre: (selectedTGDBGame.genres && selectedTGDBGame.genres.length > 0 ? selectedTGDBGame.genres[0].name : prev.genre) || '',
-        releaseDate: selectedTGDBGame.release_date ? new Date(selectedTGDBGame.release_date).getFullYear().toString() : prev.releaseDate,
-        coverImageUrl: coverImgUrl || prev.coverImageUrl,
-      platformId: finalPlatformIdToSet, // Set with matched or new ID
-    }));
-
-    setIsGameSelectionModalOpen(false);
-    setSearchResults([]);
-    setSearchIncludeData(undefined);
+        ...links,
+        title: fillEmptyFieldsOnly ? prev.title : game.title,
+        description: mergeField(prev.description, game.overview),
+        genre: replaceGenres ? game.genres.join(', ') : prev.genre,
+        genreIds: replaceGenres ? (genreIds.length > 0 ? genreIds : undefined) : prev.genreIds,
+        developer: mergeField(prev.developer || '', game.developers[0]) || undefined,
+        publisher: mergeField(prev.publisher || '', game.publishers[0]) || undefined,
+        players: game.players && !(fillEmptyFieldsOnly && prev.players) ? game.players : prev.players,
+        releaseDate: mergeField(prev.releaseDate, getReleaseYear(game.release_date)),
+        coverImageUrl: mergeField(prev.coverImageUrl, game.cover_image_url),
+        platformId: platformId && !(fillEmptyFieldsOnly && prev.platformId) ? platformId : prev.platformId,
+      }, source);
+    });
   };
 
   const platformOptions = platforms.map(p => ({ value: p.id.toString(), label: p.name }));
@@ -328,17 +472,30 @@ export const GameForm: React.FC<GameFormProps> = ({
         }
         size="lg"
     >
-      {isGameSelectionModalOpen && searchResults.length > 0 && (
+      {isGameSelectionModalOpen && searchProvider && searchResults.length > 0 && (
         <GameSearchResultsModal
           isOpen={isGameSelectionModalOpen}
           onClose={() => setIsGameSelectionModalOpen(false)}
+          providerName={searchProvider.name}
           games={searchResults}
-          onSelectGame={handleGameSelectedFromSearch}
+          onSelectGame={(game) => handleGameSelected(searchProvider, game)}
           platforms={platforms}
+          onLoadMore={searchNextPage ? () => handleFetchInfo(searchNextPage) : undefined}
+          isLoadingMore={isFetchingDB}
         />
       )}
       <form id="game-form" onSubmit={handleSubmit} className="space-y-4">
         {apiError && <p className="text-sm text-red-400 bg-red-900/30 p-3 rounded-md">{apiError}</p>}
+        {autoMatchNotice && (
+          <div className="flex justify-between items-center gap-3 text-sm text-green-300 bg-green-900/30 p-3 rounded-md">
+            <span>{autoMatchNotice}</span>
+            {searchResults.length > 1 && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => setIsGameSelectionModalOpen(true)}>
+                Choose a Different Match
+              </Button>
+            )}
+          </div>
+        )}
         
         <div className="flex items-end space-x-2">
             <Input 
@@ -350,19 +507,37 @@ export const GameForm: React.FC<GameFormProps> = ({
                 containerClassName="flex-grow"
                 disabled={isFetchingDB || isGeneratingDesc}
             />
+            {metadataProviders.length > 0 && (
+              <Select
+                  aria-label="Metadata provider"
+                  value={metadataProviderId}
+                  onChange={(e) => setMetadataProviderId(e.target.value as MetadataProviderId)}
+                  options={metadataProviders.map(provider => ({ value: provider.id, label: `${provider.name}${provider.configured ? '' : ' (no API key)'}` }))}
+                  containerClassName="w-44"
+                  disabled={isFetchingDB || isGeneratingDesc}
+              />
+            )}
             <Button 
                 type="button" 
-                onClick={handleFetchFromGamesDB} 
-                disabled={isFetchingDB || isGeneratingDesc || !gameData.title}
+                onClick={() => handleFetchInfo()} 
+                disabled={isFetchingDB || isGeneratingDesc || !gameData.title || !metadataProviderId}
                 leftIcon={isFetchingDB ? <SpinnerIcon className="w-4 h-4" /> : <CloudDownloadIcon className="w-4 h-4"/>}
                 size="md"
                 variant="secondary"
                 className="mb-4 whitespace-nowrap"
-                title="Fetch game info from TheGamesDB"
+                title="Fetch game info from the chosen provider; the other enabled providers are searched in priority order if it has no match"
             >
                 {isFetchingDB ? 'Fetching...' : 'Fetch Info'}
             </Button>
         </div>
+        {renderFieldProvenance('title', 'Title')}
+        <label htmlFor="fill-empty-fields-only" className="flex items-center space-x-2 cursor-pointer text-neutral-300 text-sm -mt-2">
+          <input type="checkbox" id="fill-empty-fields-only"
+            checked={fillEmptyFieldsOnly}
+            onChange={(e) => setFillEmptyFieldsOnly(e.target.checked)}
+            className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+          <span>Only fill empty fields (merge info from several sources)</span>
+        </label>
 
         <Select 
           label="Platform" 
@@ -383,15 +558,17 @@ export const GameForm: React.FC<GameFormProps> = ({
             disabled={isFetchingDB || isGeneratingDesc}
         />
         <div className="flex items-start space-x-4">
-          <Input 
-              label="Cover Image URL" 
-              name="coverImageUrl" 
-              value={gameData.coverImageUrl} 
-              onChange={handleChange} 
-              placeholder="e.g., https://example.com/cover.jpg" 
-              containerClassName="flex-grow"
-              disabled={isFetchingDB || isGeneratingDesc}
-          />
+          <div className="flex-grow">
+            <Input 
+                label="Cover Image URL" 
+                name="coverImageUrl" 
+                value={gameData.coverImageUrl} 
+                onChange={handleChange} 
+                placeholder="e.g., https://example.com/cover.jpg" 
+                disabled={isFetchingDB || isGeneratingDesc}
+            />
+            {renderFieldProvenance('coverImageUrl', 'Cover Image URL')}
+          </div>
           {gameData.coverImageUrl && (
             <div className="flex-shrink-0 w-24 h-32 mt-2">
               <img 
@@ -403,6 +580,91 @@ export const GameForm: React.FC<GameFormProps> = ({
           )}
         </div>
         
+        <div className="pt-4 border-t border-neutral-700">
+          <h4 className="text-sm font-medium text-neutral-300 mb-2">Artwork</h4>
+          <div className="flex items-end space-x-2">
+            <Select
+              label="Art Type"
+              value={pickerArtType}
+              onChange={(e) => setPickerArtType(e.target.value as GameArtType)}
+              options={GAME_ART_TYPES.map(t => {
+                const count = pickerImages.filter(image => image.artType === t.value).length;
+                return { value: t.value, label: `${t.label}${getGameArtUrl(gameData, t.value) ? ' ✓' : ''}${count ? ` (${count} available)` : ''}` };
+              })}
+              containerClassName="flex-grow"
+              disabled={isFetchingDB || isGeneratingDesc}
+            />
+            {pickerArtType !== 'boxart_front' && (
+              <Input
+                label="Image URL"
+                value={getGameArtUrl(gameData, pickerArtType)}
+                onChange={(e) => setArtUrl(pickerArtType, e.target.value)}
+                placeholder="e.g., https://example.com/fanart.jpg"
+                containerClassName="flex-grow"
+                disabled={isFetchingDB || isGeneratingDesc}
+              />
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              className="mb-4"
+              onClick={() => setArtUrl(pickerArtType, '')}
+              disabled={!getGameArtUrl(gameData, pickerArtType) || isFetchingDB || isGeneratingDesc}
+            >
+              Clear
+            </Button>
+          </div>
+          {linkedProviders.length === 0 && (
+            <p className="text-xs text-neutral-500">Use Fetch Info to match this game on {metadataProviders.filter(p => p.gameIdField && p.capabilities.artTypes.length > 0).map(p => p.name).join(' or ') || 'a metadata provider'} and choose from its box art, fanart, banners, screenshots, title screens and clear logos.</p>
+          )}
+          {isLoadingGameImages && <p className="text-neutral-400">Loading images...</p>}
+          {errorGameImages && <p className="text-red-500">Error: {errorGameImages}</p>}
+          {linkedProviders.length > 0 && !isLoadingGameImages && !errorGameImages && !pickerImages.some(image => image.artType === pickerArtType) && (
+            <p className="text-neutral-500 text-sm">No images of this type found{moreImagesProvider ? ' so far' : ''}.</p>
+          )}
+          {pickerImages.some(image => image.artType === pickerArtType) && (
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3 max-h-60 overflow-y-auto p-1 bg-neutral-800 rounded-md">
+              {pickerImages.filter(image => image.artType === pickerArtType).map(image => {
+                const isSelected = getGameArtUrl(gameData, pickerArtType) === image.url;
+                return (
+                  <button
+                    type="button"
+                    key={image.url}
+                    onClick={() => setArtUrl(pickerArtType, image.url, getProviderSource(image.providerId))}
+                    className={`relative aspect-video rounded-md overflow-hidden border-2 transition-all
+                                ${isSelected ? 'border-primary ring-2 ring-primary' : 'border-neutral-600 hover:border-primary-light focus:border-primary-light'}
+                                focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 focus-visible:ring-offset-neutral-900`}
+                    aria-label={`Select ${pickerArtType} image ${image.id}`}
+                  >
+                    <img
+                      src={image.thumbnailUrl}
+                      alt={`Game image ${image.id} (${pickerArtType})`}
+                      className="w-full h-full object-contain bg-neutral-700"
+                    />
+                    {image.resolution && (
+                      <div className="absolute bottom-0 left-0 right-0 bg-black/70 text-white text-xs p-1 truncate" title={image.resolution}>
+                        {image.resolution}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {moreImagesProvider && (
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              className="mt-2"
+              onClick={() => fetchGameImages(moreImagesProvider.provider.id, moreImagesProvider.gameId, gameImagesNextPages[moreImagesProvider.provider.id]!)}
+              disabled={isLoadingGameImages}
+            >
+              {isLoadingGameImages ? 'Loading...' : 'Load More Images'}
+            </Button>
+          )}
+        </div>
+
         <div className="flex items-end space-x-2">
             <Textarea 
                 label="Description" 
@@ -415,18 +677,28 @@ export const GameForm: React.FC<GameFormProps> = ({
             <Button 
                 type="button" 
                 onClick={handleGenerateDescription}
-                disabled={isGeneratingDesc || isFetchingDB || !gameData.title}
+                disabled={isGeneratingDesc || isFetchingDB || !gameData.title || gameData.lockedFields?.includes('description')}
                 leftIcon={isGeneratingDesc ? <SpinnerIcon className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4"/>}
                 size="md"
                 variant="secondary"
                 className="mb-4 whitespace-nowrap"
-                title="Generate description with Gemini AI"
+                title={gameData.lockedFields?.includes('description') ? "The description is locked" : "Generate description with Gemini AI"}
             >
                 {isGeneratingDesc ? 'Generating...' : 'Generate'}
             </Button>
         </div>
-
-        <div className="grid grid-cols-2 gap-4">
+        {renderFieldProvenance('description', 'Description')}
+
+        {genreOptions ? (
+          <MultiSelect
+            label="Genres"
+            options={genreOptions.map(option => ({ value: option.id.toString(), label: option.name }))}
+            value={(gameData.genreIds || getGenreIdsByName(gameData.genre ? gameData.genre.split(', ') : [])).map(String)}
+            onChange={handleGenresChange}
+            placeholder="Add a genre..."
+            disabled={isFetchingDB || isGeneratingDesc}
+          />
+        ) : (
           <Input 
             label="Genre" 
             name="genre" 
@@ -434,81 +706,110 @@ export const GameForm: React.FC<GameFormProps> = ({
             onChange={handleChange} 
             disabled={isFetchingDB || isGeneratingDesc}
           />
-          <Input 
-            label="Release Date" 
-            name="releaseDate" 
-            value={gameData.releaseDate} 
-            onChange={handleChange} 
-            placeholder="e.g., 1990 or YYYY-MM-DD" 
-            disabled={isFetchingDB || isGeneratingDesc}
-          />
+        )}
+        {renderFieldProvenance('genre', 'Genres')}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Input 
+              label="Developer" 
+              name="developer" 
+              value={gameData.developer || ''} 
+              onChange={handleChange} 
+              disabled={isFetchingDB || isGeneratingDesc}
+            />
+            {renderFieldProvenance('developer', 'Developer')}
+          </div>
+          <div>
+            <Input 
+              label="Publisher" 
+              name="publisher" 
+              value={gameData.publisher || ''} 
+              onChange={handleChange} 
+              disabled={isFetchingDB || isGeneratingDesc}
+            />
+            {renderFieldProvenance('publisher', 'Publisher')}
+          </div>
+          <div>
+            <Input 
+              label="Release Date" 
+              name="releaseDate" 
+              value={gameData.releaseDate} 
+              onChange={handleChange} 
+              placeholder="e.g., 1990 or YYYY-MM-DD" 
+              disabled={isFetchingDB || isGeneratingDesc}
+            />
+            {renderFieldProvenance('releaseDate', 'Release Date')}
+          </div>
+          <div>
+            <Input 
+              label="Players" 
+              name="players" 
+              type="number" 
+              min={1} 
+              value={gameData.players ?? ''} 
+              onChange={handlePlayersChange} 
+              disabled={isFetchingDB || isGeneratingDesc}
+            />
+            {renderFieldProvenance('players', 'Players')}
+          </div>
         </div>
       </form>
     </Modal>
   );
 };
 
-// Duplicated TransformedGameFromProxy interface removed.
-// The correct definition is at the top of the file (lines 41-53).
-
 interface GameSearchResultsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  games: TransformedGameFromProxy[]; // Correct type for games
-  onSelectGame: (
-    game: TheGamesDbGame,
-    sourcePlatformDetails: { id: number; name: string; alias: string } | undefined, // Pass full object
-    coverImageUrl: string
-  ) => void;
-  // platforms prop is no longer strictly needed by the modal itself for display,
-  // but kept if other reasons exist or for future fallback logic.
+  providerName: string;
+  games: MetadataGame[];
+  onSelectGame: (game: MetadataGame) => void;
   platforms: Platform[];
+  onLoadMore?: () => void; // Set when the provider has more result pages
+  isLoadingMore?: boolean;
 }
 
 const GameSearchResultsModal: React.FC<GameSearchResultsModalProps> = ({
   isOpen,
   onClose,
+  providerName,
   games,
   onSelectGame,
-  platforms
+  platforms,
+  onLoadMore,
+  isLoadingMore
 }) => {
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Select Game from TheGamesDB" size="xl">
+    <Modal isOpen={isOpen} onClose={onClose} title={`Select Game from ${providerName}`} size="xl">
       <div className="space-y-3 max-h-[60vh] overflow-y-auto p-1">
         {games.map(game => {
-          console.log(`Modal item - Game: "${game.title}", Platform ID: ${game.platform_id}, SourceDetails:`, game.source_platform_details);
-          
-          // Look up the platform name from the platforms prop using the platform_id from the game.
-          const platform = platforms.find(p => p.id.toString() === game.platform_id.toString());
-          // Use the found platform name, fallback to the name from the source details, or finally show the ID.
-          const displayPlatformName = platform?.name || game.source_platform_details?.name || `ID: ${game.platform_id}`;
-          const coverImageUrl = game.boxart_url || '';
-
-          const gameForSelection: TheGamesDbGame = {
-            id: game.id,
-            game_title: game.title,
-            release_date: game.release_date,
-            platform: game.platform_id,
-            overview: game.overview,
-          };
+          // Prefer the local name of the platform; providers without the app's platform IDs list every platform by name
+          const platform = game.platform && platforms.find(p => p.id.toString() === game.platform!.id.toString());
+          const displayPlatformName = game.platform
+            ? platform?.name || game.platform.name || `ID: ${game.platform.id}`
+            : game.platforms.join(', ') || 'Unknown platforms';
 
           return (
             <div key={game.id} className="flex items-center space-x-4 p-3 bg-slate-700/50 hover:bg-slate-600/50 rounded-md">
               <img 
-                src={coverImageUrl || 'https://via.placeholder.com/60x80.png?text=No+Art'} 
+                src={game.cover_image_url || game.background_image_url || getPlaceholderImage(game.title, String(game.id))} 
                 alt={game.title}
-                className="w-16 h-20 object-cover rounded flex-shrink-0 bg-slate-800" 
+                className={`${game.cover_image_url ? 'w-16 h-20' : 'w-20 h-14'} object-cover rounded flex-shrink-0 bg-slate-800`}
               />
-              <div className="flex-grow">
+              <div className="flex-grow min-w-0">
                 <h3 className="font-semibold text-base">{game.title}</h3>
-                <p className="text-sm text-slate-400">
-                  Platform: {displayPlatformName}{game.release_date ? ` (${new Date(game.release_date).getFullYear()})` : ''}
+                <p className="text-sm text-slate-400 truncate" title={displayPlatformName}>
+                  Platform: {displayPlatformName}{getReleaseYear(game.release_date) ? ` (${getReleaseYear(game.release_date)})` : ''}
+                  {game.match_score !== undefined && (
+                    <span className={`ml-2 ${game.match_score >= 0.9 ? 'text-green-400' : 'text-slate-500'}`}>{formatMatchScore(game.match_score)}</span>
+                  )}
                 </p>
               </div>
               <Button 
                 variant="primary" 
                 size="sm"
-                onClick={() => onSelectGame(gameForSelection, game.source_platform_details, coverImageUrl)}
+                onClick={() => onSelectGame(game)}
               >
                 Select
               </Button>
@@ -517,9 +818,14 @@ const GameSearchResultsModal: React.FC<GameSearchResultsModalProps> = ({
         })}
         {games.length === 0 && <p>No results found.</p>}
       </div>
-       <div className="mt-4 pt-4 border-t border-slate-700 flex justify-end">
+       <div className="mt-4 pt-4 border-t border-slate-700 flex justify-end space-x-2">
+        {onLoadMore && (
+          <Button variant="secondary" onClick={onLoadMore} disabled={isLoadingMore}>
+            {isLoadingMore ? 'Loading...' : 'Load More'}
+          </Button>
+        )}
         <Button variant="ghost" onClick={onClose}>Close</Button>
       </div>
     </Modal>
   );
-};
\ No newline at end of file
+};
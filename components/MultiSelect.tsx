@@ -0,0 +1,70 @@
+import React from 'react';
+import { ChevronDownIcon, XIcon } from './Icons';
+
+interface MultiSelectProps {
+  label?: string;
+  id?: string;
+  options: { value: string; label: string }[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder?: string; // Shown in the dropdown that adds an option
+  disabled?: boolean;
+  containerClassName?: string;
+}
+
+// Selected options as removable chips, with a dropdown of the remaining ones to add
+export const MultiSelect: React.FC<MultiSelectProps> = ({
+  label,
+  id,
+  options,
+  value,
+  onChange,
+  placeholder = 'Add...',
+  disabled,
+  containerClassName = '',
+}) => {
+  const selectId = id || (label ? label.toLowerCase().replace(/\s+/g, '-') : undefined);
+  const remainingOptions = options.filter(option => !value.includes(option.value));
+  const getLabel = (optionValue: string) => options.find(option => option.value === optionValue)?.label || optionValue;
+
+  return (
+    <div className={`mb-4 ${containerClassName}`}>
+      {label && <label htmlFor={selectId} className="block text-sm font-medium text-neutral-300 mb-1">{label}</label>}
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {value.map(optionValue => (
+            <span key={optionValue} className="inline-flex items-center px-2.5 py-1 text-sm rounded-full bg-neutral-700 text-neutral-100">
+              {getLabel(optionValue)}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(selected => selected !== optionValue))}
+                disabled={disabled}
+                className="ml-1.5 text-neutral-400 hover:text-neutral-100 disabled:opacity-50"
+                aria-label={`Remove ${getLabel(optionValue)}`}
+              >
+                <XIcon className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <select
+          id={selectId}
+          value=""
+          onChange={e => e.target.value && onChange([...value, e.target.value])}
+          disabled={disabled || remainingOptions.length === 0}
+          className="appearance-none w-full px-4 py-2.5 bg-neutral-800 border border-neutral-700 text-neutral-100 rounded-lg shadow-sm focus:ring-2 focus:ring-primary focus:border-primary transition duration-150 ease-in-out"
+        >
+          <option value="" disabled>{placeholder}</option>
+          {remainingOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-neutral-400">
+          <ChevronDownIcon className="w-5 h-5" />
+        </div>
+      </div>
+    </div>
+  );
+};
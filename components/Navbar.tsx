@@ -1,7 +1,8 @@
 
 import React, { useRef, useEffect, useCallback, createRef } from 'react';
-import { GameControllerIcon, CogIcon, SlidersIcon, SearchIcon } from './Icons'; // Removed SearchIcon and KeyIcon
-import { NavView } from '../types';
+import { GameControllerIcon, CogIcon, SlidersIcon, SearchIcon, PlayIcon, StopIcon, CloudDownloadIcon } from './Icons'; // Removed SearchIcon and KeyIcon
+import { NavView, LaunchSession } from '../types';
+import { formatPlayTime } from '../utils';
 
 interface NavbarProps {
   currentView: NavView;
@@ -9,6 +10,10 @@ interface NavbarProps {
   gamesCount: number;
   platformsCount: number;
   emulatorsCount: number;
+  runningSessions: LaunchSession[];
+  onTerminateSession: (launchId: string) => void;
+  pendingUpdatesCount: number; // Changes found by the server's folder watcher that haven't been applied
+  onOpenPendingUpdates: () => void;
 }
 
 interface IconProps {
@@ -39,12 +44,46 @@ const NavItem: React.FC<{
   </button>
 );
 
-export const Navbar: React.FC<NavbarProps> = ({ currentView, onNavigate, gamesCount, platformsCount, emulatorsCount }) => {
+const formatElapsed = (startedAt: string) => formatPlayTime(Math.max(0, (Date.now() - new Date(startedAt).getTime()) / 1000));
+
+// "Now Playing" strip listing emulators launched from the app that are still running
+const NowPlaying: React.FC<{
+  sessions: LaunchSession[];
+  onTerminate: (launchId: string) => void;
+}> = ({ sessions, onTerminate }) => (
+  <div className="mt-6 pt-4 border-t border-neutral-700" aria-live="polite">
+    <h2 className="px-4 mb-2 text-xs font-semibold uppercase tracking-wider text-neutral-500">Now Playing</h2>
+    <ul className="space-y-2">
+      {sessions.map(session => (
+        <li key={session.launchId} className="flex items-center px-3 py-2 space-x-2 bg-neutral-700/50 rounded-lg">
+          <PlayIcon className="w-4 h-4 flex-shrink-0 text-green-400" />
+          <div className="flex-grow min-w-0">
+            <p className="text-sm font-medium text-neutral-100 truncate" title={session.gameTitle}>{session.gameTitle}</p>
+            <p className="text-xs text-neutral-400 truncate">
+              {session.emulatorName} · {session.stopRequestedAt ? 'Stopping...' : formatElapsed(session.startedAt)}
+            </p>
+          </div>
+          <button
+            onClick={() => onTerminate(session.launchId)}
+            className="p-1 rounded text-neutral-400 hover:text-red-400 hover:bg-neutral-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500"
+            aria-label={`${session.stopRequestedAt ? 'Force stop' : 'Stop'} ${session.gameTitle}`}
+            title={session.stopRequestedAt ? `Force ${session.emulatorName} to quit (PID ${session.pid})` : `Stop ${session.emulatorName} (PID ${session.pid})`}
+          >
+            <StopIcon className="w-4 h-4" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export const Navbar: React.FC<NavbarProps> = ({ currentView, onNavigate, gamesCount, platformsCount, emulatorsCount, runningSessions, onTerminateSession, pendingUpdatesCount, onOpenPendingUpdates }) => {
   const navItemsData: { view: NavView; label: string; icon: React.ReactNode }[] = [
     { view: 'games', label: 'Games', icon: <GameControllerIcon /> },
     { view: 'platforms', label: 'Platforms', icon: <CogIcon /> },
     { view: 'emulators', label: 'Emulators', icon: <SlidersIcon /> },
     { view: 'scan-roms', label: 'Scan ROMs', icon: <SearchIcon /> },
+    { view: 'scraper', label: 'Scrape Metadata', icon: <CloudDownloadIcon /> },
     { view: 'settings', label: 'Settings', icon: <SlidersIcon /> },
     // { view: 'apikeys', label: 'API Keys', icon: <KeyIcon /> }, // Removed
   ];
@@ -101,6 +140,19 @@ export const Navbar: React.FC<NavbarProps> = ({ currentView, onNavigate, gamesCo
           />
         ))}
       </div>
+      {pendingUpdatesCount > 0 && (
+        <button
+          onClick={onOpenPendingUpdates}
+          className="mt-6 flex w-full items-center justify-between px-4 py-2 rounded-lg bg-neutral-700/50 text-sm text-neutral-200 hover:bg-neutral-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+          title="ROM files were added, removed or renamed in watched folders"
+        >
+          <span>Library Updates</span>
+          <span className="px-2 py-0.5 rounded-full bg-primary text-white text-xs font-semibold">{pendingUpdatesCount}</span>
+        </button>
+      )}
+      {runningSessions.length > 0 && (
+        <NowPlaying sessions={runningSessions} onTerminate={onTerminateSession} />
+      )}
       <div className="mt-auto pt-4 border-t border-neutral-700">
         <div className="px-4 py-3 space-y-2 text-xs text-neutral-400">
           <div className="flex justify-between"><span>Games:</span> <span className="font-medium text-neutral-200">{gamesCount}</span></div>
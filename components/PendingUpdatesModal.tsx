@@ -0,0 +1,84 @@
+import React from 'react';
+import { Game, Platform, PendingLibraryUpdate } from '../types';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { findGameForPendingUpdate } from '../utils';
+
+interface PendingUpdatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  updates: PendingLibraryUpdate[];
+  platforms: Platform[];
+  games: Game[];
+  onApply: (updates: PendingLibraryUpdate[]) => void;
+  onDismiss: (updates: PendingLibraryUpdate[]) => void;
+}
+
+const UPDATE_LABELS: Record<PendingLibraryUpdate['type'], { label: string; className: string; action: string }> = {
+  added: { label: 'New', className: 'bg-green-700 text-green-100', action: 'Import' },
+  renamed: { label: 'Renamed', className: 'bg-blue-700 text-blue-100', action: 'Relink' },
+  removed: { label: 'Removed', className: 'bg-red-700 text-red-100', action: 'Remove Game' },
+};
+
+const describePath = (relativePath?: string, archiveEntry?: string) =>
+  archiveEntry ? `${relativePath} › ${archiveEntry}` : relativePath || '';
+
+export const PendingUpdatesModal: React.FC<PendingUpdatesModalProps> = ({ isOpen, onClose, updates, platforms, games, onApply, onDismiss }) => {
+  const getPlatformName = (platformId: string) =>
+    platforms.find(p => p.id.toString() === platformId)?.name || `Platform ${platformId}`;
+
+  // Renames and removals of files that were never imported have nothing to apply
+  const isApplicable = (update: PendingLibraryUpdate) => update.type === 'added' || !!findGameForPendingUpdate(games, update);
+  const applicableUpdates = updates.filter(isApplicable);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Library Updates"
+      footer={
+        <>
+          <Button variant="ghost" onClick={onClose}>Close</Button>
+          <Button variant="secondary" onClick={() => onDismiss(updates)} disabled={updates.length === 0}>Dismiss All</Button>
+          <Button onClick={() => onApply(applicableUpdates)} disabled={applicableUpdates.length === 0}>Apply All</Button>
+        </>
+      }
+      size="lg"
+    >
+      <p className="text-sm text-neutral-400 mb-4">
+        Changes found in watched ROM folders. Platforms with auto-import enabled take new and renamed files automatically.
+      </p>
+      {updates.length > 0 ? (
+        <ul className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {updates.map(update => {
+            const { label, className, action } = UPDATE_LABELS[update.type];
+            const game = update.type === 'added' ? undefined : findGameForPendingUpdate(games, update);
+            return (
+              <li key={update.id} className="flex justify-between items-center gap-3 p-3 bg-neutral-700/30 rounded-md text-sm">
+                <div className="min-w-0">
+                  <p className="text-neutral-200 truncate">
+                    <span className={`mr-2 px-2 py-0.5 rounded text-xs font-semibold ${className}`}>{label}</span>
+                    {update.rom ? describePath(update.rom.relativePath, update.rom.archiveEntry) : describePath(update.previousRelativePath, update.previousArchiveEntry)}
+                  </p>
+                  <p className="text-xs text-neutral-400 truncate">
+                    {getPlatformName(update.platformId)} · {update.folderPath}
+                    {update.type === 'renamed' && ` · was ${describePath(update.previousRelativePath, update.previousArchiveEntry)}`}
+                    {update.type !== 'added' && (game ? ` · ${game.title}` : ' · not in library')}
+                  </p>
+                </div>
+                <div className="flex space-x-2 flex-shrink-0">
+                  <Button size="sm" variant="ghost" onClick={() => onDismiss([update])}>Dismiss</Button>
+                  {isApplicable(update) && (
+                    <Button size="sm" variant={update.type === 'removed' ? 'danger' : 'primary'} onClick={() => onApply([update])}>{action}</Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-neutral-500 text-center py-4">No pending changes.</p>
+      )}
+    </Modal>
+  );
+};
@@ -35,6 +35,7 @@ export const PlatformForm: React.FC<PlatformFormProps> = ({ isOpen, onClose, onS
   const [errorPlatformImages, setErrorPlatformImages] = useState<string | null>(null);
   const [previewImageUrl, setPreviewImageUrl] = useState<string | null>(null); // For hover preview
   const [previewTimeoutId, setPreviewTimeoutId] = useState<NodeJS.Timeout | null>(null); // For hover delay
+  const [romExtensionsText, setRomExtensionsText] = useState<string>(''); // Comma-separated, parsed on submit
 
 
   useEffect(() => {
@@ -82,9 +83,11 @@ export const PlatformForm: React.FC<PlatformFormProps> = ({ isOpen, onClose, onS
         userIconUrl: initialPlatform.userIconUrl || initialPlatform.icon || '', // Prioritize userIconUrl
       });
       setSelectedTgdbPlatformId(initialPlatform.id.toString()); // id is number, select expects string
+      setRomExtensionsText((initialPlatform.romExtensions || []).join(', '));
     } else {
       // Reset for new platform
       setPlatformData(newPlatformBase);
+      setRomExtensionsText('');
       setSelectedTgdbPlatformId('');
       setPlatformImages([]); // Clear previously loaded images
       setPlatformImagesBaseUrl(null);
@@ -176,8 +179,12 @@ export const PlatformForm: React.FC<PlatformFormProps> = ({ isOpen, onClose, onS
     }
   };
 
+  const parseRomExtensions = (text: string): string[] =>
+    Array.from(new Set(text.split(/[\s,]+/).map(ext => ext.replace(/^\./, '').toLowerCase()).filter(Boolean)));
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const romExtensions = parseRomExtensions(romExtensionsText);
     if (initialPlatform) { // Editing existing platform
         if (!initialPlatform.id) {
             console.error("Attempting to submit edit for platform without an ID (from initialPlatform).");
@@ -191,6 +198,7 @@ export const PlatformForm: React.FC<PlatformFormProps> = ({ isOpen, onClose, onS
             id: initialPlatform.id, // ID must be from the platform being edited
             name: platformData.name || initialPlatform.name, // Prioritize name from form data if it exists and changed
             userIconUrl: platformData.userIconUrl || '', // User's chosen icon from form state
+            romExtensions,
         };
         onSubmit(finalEditedPlatform);
 
@@ -207,6 +215,7 @@ export const PlatformForm: React.FC<PlatformFormProps> = ({ isOpen, onClose, onS
         id: Number(platformData.id), // Ensure id is number
         name: platformData.name || '', // Should be set from TGDB selection
         userIconUrl: platformData.userIconUrl || '',
+        romExtensions,
       };
       onSubmit(newPlatformSubmission);
     }
@@ -267,6 +276,23 @@ export const PlatformForm: React.FC<PlatformFormProps> = ({ isOpen, onClose, onS
             />
         )}
 
+        { (initialPlatform || selectedTgdbPlatformId) && (
+            <div>
+              <Input
+                  label="ROM File Extensions (Optional)"
+                  name="romExtensions"
+                  value={romExtensionsText}
+                  onChange={(e) => setRomExtensionsText(e.target.value)}
+                  placeholder="e.g., nes, zip, 7z"
+                  containerClassName="!mb-1"
+              />
+              <p className="mt-1 text-xs text-neutral-500">
+                Only files with these extensions are picked up when scanning ROM folders for this platform.
+                Leave empty to include everything except saves, readmes and images.
+              </p>
+            </div>
+        )}
+
         {/* Section for selecting from fetched TheGamesDB images - now for new AND editing platforms */}
         {selectedTgdbPlatformId && (
           <div className="mt-4 pt-4 border-t border-neutral-700">
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Game, GamePlayStats, PlayHistoryEntry } from '../types';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { formatPlayTime } from '../utils';
+
+interface PlayHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  game: Game | null;
+  stats?: GamePlayStats;
+  history: PlayHistoryEntry[]; // Sessions for this game only
+}
+
+export const PlayHistoryModal: React.FC<PlayHistoryModalProps> = ({ isOpen, onClose, game, stats, history }) => {
+  if (!game) return null;
+
+  // Newest sessions first
+  const sortedHistory = [...history].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Play History: ${game.title}`}
+      footer={<Button variant="ghost" onClick={onClose}>Close</Button>}
+      size="lg"
+    >
+      <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+        <div className="p-3 bg-neutral-700/50 rounded-lg">
+          <p className="text-xs text-neutral-400">Last Played</p>
+          <p className="text-sm font-medium text-neutral-100">{stats?.lastPlayed ? new Date(stats.lastPlayed).toLocaleDateString() : 'Never'}</p>
+        </div>
+        <div className="p-3 bg-neutral-700/50 rounded-lg">
+          <p className="text-xs text-neutral-400">Sessions</p>
+          <p className="text-sm font-medium text-neutral-100">{stats?.playCount || 0}</p>
+        </div>
+        <div className="p-3 bg-neutral-700/50 rounded-lg">
+          <p className="text-xs text-neutral-400">Total Play Time</p>
+          <p className="text-sm font-medium text-neutral-100">{formatPlayTime(stats?.totalPlayTime || 0)}</p>
+        </div>
+      </div>
+
+      {sortedHistory.length > 0 ? (
+        <ul className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {sortedHistory.map(entry => (
+            <li key={entry.id} className="flex justify-between items-center p-3 bg-neutral-700/30 rounded-md text-sm">
+              <div>
+                <p className="text-neutral-200">{new Date(entry.startedAt).toLocaleString()}</p>
+                <p className="text-xs text-neutral-400">{entry.emulatorName}</p>
+              </div>
+              <span className="text-neutral-300">
+                {entry.endedAt ? formatPlayTime(entry.durationSeconds || 0) : 'In progress / unknown'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-neutral-500 text-center py-4">This game hasn't been played yet.</p>
+      )}
+    </Modal>
+  );
+};
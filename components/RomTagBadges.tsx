@@ -0,0 +1,51 @@
+import React from 'react';
+import { Game, RomFlag } from '../types';
+import { ROM_FLAG_LABELS } from '../constants';
+
+const NEUTRAL_BADGE = 'bg-neutral-700 text-neutral-300 border-neutral-600';
+
+// Good dumps read green, damaged or modified ones red, and pre-release or unofficial ones amber
+const FLAG_BADGE_CLASSES: Partial<Record<RomFlag, string>> = {
+  verified: 'bg-green-900/50 text-green-300 border-green-700',
+  bad_dump: 'bg-red-900/50 text-red-300 border-red-700',
+  overdump: 'bg-red-900/50 text-red-300 border-red-700',
+  hack: 'bg-purple-900/50 text-purple-300 border-purple-700',
+  trainer: 'bg-purple-900/50 text-purple-300 border-purple-700',
+  translation: 'bg-blue-900/50 text-blue-300 border-blue-700',
+  beta: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+  prototype: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+  demo: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+  sample: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+  pirate: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+  unlicensed: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+};
+
+interface RomTagBadgesProps {
+  game: Pick<Game, 'regions' | 'languages' | 'revision' | 'flags'>;
+  className?: string;
+}
+
+// Region, language, revision and dump flags parsed from the ROM filename
+export const RomTagBadges: React.FC<RomTagBadgesProps> = ({ game, className = '' }) => {
+  const badges: { key: string; label: string; title: string; className: string }[] = [
+    ...(game.regions || []).map(region => ({ key: `region-${region}`, label: region, title: 'Region', className: NEUTRAL_BADGE })),
+    ...(game.languages?.length ? [{ key: 'languages', label: game.languages.join(','), title: 'Languages', className: NEUTRAL_BADGE }] : []),
+    ...(game.revision ? [{ key: 'revision', label: game.revision, title: 'Revision', className: NEUTRAL_BADGE }] : []),
+    ...(game.flags || []).map(flag => ({ key: `flag-${flag}`, label: ROM_FLAG_LABELS[flag], title: 'Dump flag', className: FLAG_BADGE_CLASSES[flag] || NEUTRAL_BADGE })),
+  ];
+  if (badges.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {badges.map(badge => (
+        <span
+          key={badge.key}
+          className={`inline-block px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide rounded border ${badge.className}`}
+          title={badge.title}
+        >
+          {badge.label}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -2,7 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { Modal } from './Modal';
 import { Button } from './Button';
 import { Select } from './Select'; // Assuming a Select component exists
-import { ExternalLinkIcon, XIcon } from './Icons'; // Assuming ExternalLinkIcon exists
+import { ExternalLinkIcon, XIcon, ChevronDownIcon } from './Icons'; // Assuming ExternalLinkIcon exists
+import { RomPreferences } from '../types';
+import { ROM_PREFERENCES_STORAGE_KEY } from '../constants';
+import { loadRomPreferences } from '../utils';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -21,6 +24,65 @@ const AI_STORAGE_KEY = 'selectedAiService';
 // In a real app, this might be fetched from a server or an env variable.
 const DEFAULT_ROM_BASE_PATH = "Typically configured via a server-side .env file (e.g., DEFAULT_ROM_BASE=/mnt/roms)";
 
+interface PriorityListEditorProps {
+  id: string;
+  label: string;
+  placeholder: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}
+
+// An ordered list of values, highest priority first, that can be reordered, extended and trimmed
+const PriorityListEditor: React.FC<PriorityListEditorProps> = ({ id, label, placeholder, values, onChange }) => {
+  const [newValue, setNewValue] = useState('');
+
+  const moveValue = (index: number, offset: number) => {
+    const reordered = [...values];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+
+  const addValue = () => {
+    const value = newValue.trim();
+    if (value && !values.includes(value)) onChange([...values, value]);
+    setNewValue('');
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-neutral-300 mb-1">{label}</label>
+      <ol className="space-y-1 mb-2">
+        {values.map((value, index) => (
+          <li key={value} className="flex items-center gap-2 px-3 py-1 bg-neutral-800/60 rounded-md text-sm text-neutral-200">
+            <span className="text-neutral-500 w-5">{index + 1}.</span>
+            <span className="flex-grow">{value}</span>
+            <Button variant="ghost" size="sm" onClick={() => moveValue(index, -1)} disabled={index === 0} aria-label={`Move ${value} up`}>
+              <ChevronDownIcon className="w-4 h-4 rotate-180" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => moveValue(index, 1)} disabled={index === values.length - 1} aria-label={`Move ${value} down`}>
+              <ChevronDownIcon className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onChange(values.filter(v => v !== value))} aria-label={`Remove ${value}`}>
+              <XIcon className="w-4 h-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      <div className="flex gap-2">
+        <input
+          id={id}
+          type="text"
+          value={newValue}
+          onChange={(e) => setNewValue(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addValue(); }}
+          placeholder={placeholder}
+          className="flex-grow px-3 py-1.5 bg-neutral-700 border border-neutral-600 text-neutral-100 rounded-md text-sm focus:ring-primary focus:border-primary"
+        />
+        <Button variant="secondary" size="sm" onClick={addValue} disabled={!newValue.trim()}>Add</Button>
+      </div>
+    </div>
+  );
+};
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onNavigate }) => {
   const [selectedAi, setSelectedAi] = useState<string>(() => {
@@ -31,6 +93,12 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
     localStorage.setItem(AI_STORAGE_KEY, selectedAi);
   }, [selectedAi]);
 
+  const [romPreferences, setRomPreferences] = useState<RomPreferences>(loadRomPreferences);
+
+  useEffect(() => {
+    localStorage.setItem(ROM_PREFERENCES_STORAGE_KEY, JSON.stringify(romPreferences));
+  }, [romPreferences]);
+
   const handleAiChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedAi(event.target.value);
   };
@@ -73,6 +141,31 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
           </p>
         </div>
 
+        {/* 1G1R Preferences */}
+        <div className="p-4 bg-neutral-700/50 rounded-lg space-y-4">
+          <div>
+            <h3 className="text-lg font-medium text-neutral-100 mb-1">1G1R Preferences</h3>
+            <p className="text-xs text-neutral-400">
+              When a scan imports one ROM per game, the copy with the highest-ranked region is chosen, then the highest-ranked language.
+              Unlisted regions and languages rank last.
+            </p>
+          </div>
+          <PriorityListEditor
+            id="rom-preferences-region"
+            label="Preferred Regions"
+            placeholder="e.g. Europe"
+            values={romPreferences.regions}
+            onChange={(regions) => setRomPreferences(prev => ({ ...prev, regions }))}
+          />
+          <PriorityListEditor
+            id="rom-preferences-language"
+            label="Preferred Languages"
+            placeholder="e.g. Fr"
+            values={romPreferences.languages}
+            onChange={(languages) => setRomPreferences(prev => ({ ...prev, languages }))}
+          />
+        </div>
+
         {/* API Keys Link */}
         <div className="p-4 bg-neutral-700/50 rounded-lg">
           <h3 className="text-lg font-medium text-neutral-100 mb-2">API Key Management</h3>
@@ -0,0 +1,27 @@
+import React from 'react';
+import { RomVerificationStatus } from '../types';
+
+const BADGE_STYLES: Record<RomVerificationStatus, { label: string; className: string; description: string }> = {
+  verified: { label: 'Verified', className: 'bg-green-900/50 text-green-300 border-green-700', description: 'Matches a DAT entry' },
+  bad_dump: { label: 'Bad Dump', className: 'bg-red-900/50 text-red-300 border-red-700', description: 'Known to the DAT, but the file contents do not match a good dump' },
+  unknown: { label: 'Unknown', className: 'bg-neutral-700 text-neutral-300 border-neutral-600', description: 'Not found in the DAT' },
+  missing: { label: 'Missing', className: 'bg-yellow-900/50 text-yellow-300 border-yellow-700', description: 'ROM file not found on disk' },
+};
+
+interface VerificationBadgeProps {
+  status: RomVerificationStatus;
+  datGameName?: string;
+  className?: string;
+}
+
+export const VerificationBadge: React.FC<VerificationBadgeProps> = ({ status, datGameName, className = '' }) => {
+  const style = BADGE_STYLES[status];
+  return (
+    <span
+      className={`inline-block px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide rounded border ${style.className} ${className}`}
+      title={datGameName ? `${style.description}: ${datGameName}` : style.description}
+    >
+      {style.label}
+    </span>
+  );
+};
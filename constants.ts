@@ -1,5 +1,5 @@
 
-import { ApiKeyEntry, Game } from './types';
+import { ApiKeyEntry, Game, GameArtType, GameFieldSource, GameMetadataField, RomFlag, RomPreferences } from './types';
 
 // INITIAL_GAMES is now loaded from data/games.json
 // The INITIAL_PLATFORMS constant was previously removed.
@@ -17,3 +17,48 @@ export const createDefaultApiKeyEntry = (id: string, serviceName: string): ApiKe
 });
 
 export const DEFAULT_ROM_FOLDER = "./roms";
+
+export const GAME_METADATA_FIELDS: GameMetadataField[] = ['title', 'description', 'genre', 'releaseDate', 'coverImageUrl', 'developer', 'publisher', 'players'];
+
+export const GAME_FIELD_SOURCE_LABELS: Record<GameFieldSource, string> = {
+  user: 'Edited by you',
+  thegamesdb: 'TheGamesDB',
+  rawg: 'RAWG',
+  ai: 'Gemini AI',
+  filename: 'ROM filename',
+};
+
+export const GAME_ART_TYPES: { value: GameArtType; label: string }[] = [
+  { value: 'boxart_front', label: 'Box Art (Front)' },
+  { value: 'boxart_back', label: 'Box Art (Back)' },
+  { value: 'fanart', label: 'Fanart' },
+  { value: 'banner', label: 'Banner' },
+  { value: 'screenshot', label: 'Screenshot' },
+  { value: 'titlescreen', label: 'Title Screen' },
+  { value: 'clearlogo', label: 'Clear Logo' },
+];
+
+export const ROM_FLAG_LABELS: Record<RomFlag, string> = {
+  verified: 'Verified [!]',
+  bad_dump: 'Bad Dump',
+  alternate: 'Alternate',
+  hack: 'Hack',
+  trainer: 'Trainer',
+  fixed: 'Fixed',
+  overdump: 'Overdump',
+  pirate: 'Pirate',
+  translation: 'Translation',
+  beta: 'Beta',
+  prototype: 'Prototype',
+  demo: 'Demo',
+  sample: 'Sample',
+  unlicensed: 'Unlicensed',
+  public_domain: 'Public Domain',
+};
+
+export const ROM_PREFERENCES_STORAGE_KEY = 'romPreferences';
+
+export const DEFAULT_ROM_PREFERENCES: RomPreferences = {
+  regions: ['USA', 'World', 'Europe', 'Japan'],
+  languages: ['En'],
+};
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { ApiKeyEntry } from '../types';
+import { ApiKeyEntry, MetadataProviderInfo, TheGamesDbAllowance, TheGamesDbOfflineStatus } from '../types';
 import { Button } from '../components/Button';
 import { KeyIcon, EditIcon, CheckIcon, XIcon } from '../components/Icons'; // Assuming XIcon and CheckIcon exist
 import { Input } from '../components/Input';
@@ -82,6 +82,208 @@ const ApiKeyField: React.FC<{
   );
 };
 
+// Remaining TheGamesDB requests this month and the server's response cache, which serves
+// repeat requests (and stale data once the allowance runs out) without using the allowance
+const TheGamesDbUsage: React.FC = () => {
+  const [usage, setUsage] = useState<TheGamesDbAllowance | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const fetchUsage = () => {
+    fetch('/api/thegamesdb/allowance')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for /api/thegamesdb/allowance`);
+        return response.json();
+      })
+      .then((data: TheGamesDbAllowance) => setUsage(data))
+      .catch(err => console.error("Could not load TheGamesDB allowance:", err));
+  };
+
+  useEffect(() => {
+    fetchUsage();
+  }, []);
+
+  const handleClearCache = async () => {
+    if (!confirm('Clear all cached TheGamesDB responses? They will be fetched again, using up the allowance.')) return;
+    setIsClearing(true);
+    try {
+      const response = await fetch('/api/thegamesdb/cache', { method: 'DELETE' });
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+      fetchUsage();
+    } catch (err) {
+      console.error("Error clearing TheGamesDB cache:", err);
+      alert(`Error clearing TheGamesDB cache: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  if (!usage) return null;
+  const { allowance } = usage;
+  const isExhausted = !!allowance && allowance.remainingMonthlyAllowance + allowance.extraAllowance <= 0;
+
+  return (
+    <div className="p-4 bg-neutral-700/50 rounded-lg">
+      <div className="flex justify-between items-center">
+        <label className="block text-lg font-medium text-neutral-100">TheGamesDB Usage</label>
+        <Button onClick={handleClearCache} variant="ghost" size="sm" disabled={isClearing || usage.cachedResponses === 0}>
+          {isClearing ? 'Clearing...' : 'Clear Cache'}
+        </Button>
+      </div>
+      {allowance ? (
+        <p className={`text-sm ${isExhausted ? 'text-red-400' : 'text-neutral-300'}`}>
+          {allowance.remainingMonthlyAllowance} requests left this month
+          {allowance.extraAllowance > 0 && ` (+${allowance.extraAllowance} extra)`}
+          {allowance.refreshesAt && ` · Refreshes ${new Date(allowance.refreshesAt).toLocaleString()}`}
+        </p>
+      ) : (
+        <p className="text-sm text-neutral-400">No requests made yet.</p>
+      )}
+      <p className="text-xs text-neutral-400 mt-1">
+        {usage.cachedResponses} cached responses.{isExhausted && ' Cached data is being served until the allowance refreshes.'}
+        {allowance && ` As of ${new Date(allowance.updatedAt).toLocaleString()}.`}
+      </p>
+    </div>
+  );
+};
+
+// TheGamesDB's database export, imported so lookups work without internet access or an API key.
+// Files are sent one at a time as raw text, since the games dump is tens of megabytes.
+const TheGamesDbOfflineData: React.FC = () => {
+  const [status, setStatus] = useState<TheGamesDbOfflineStatus | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const fetchStatus = () => {
+    fetch('/api/thegamesdb/offline')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for /api/thegamesdb/offline`);
+        return response.json();
+      })
+      .then((data: TheGamesDbOfflineStatus) => setStatus(data))
+      .catch(err => console.error("Could not load TheGamesDB offline data status:", err));
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    setIsBusy(true);
+    try {
+      for (const file of files) {
+        const response = await fetch('/api/thegamesdb/offline/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'text/plain' },
+          body: await file.text(),
+        });
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(`${file.name}: ${errorData.error || `HTTP error! status: ${response.status}`}`);
+        }
+      }
+    } catch (err) {
+      console.error("Error importing TheGamesDB export:", err);
+      alert(`Error importing TheGamesDB export: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsBusy(false);
+      fetchStatus();
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove the imported TheGamesDB data? Platforms imported with it are kept.')) return;
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/thegamesdb/offline', { method: 'DELETE' });
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    } catch (err) {
+      console.error("Error removing TheGamesDB offline data:", err);
+      alert(`Error removing TheGamesDB offline data: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsBusy(false);
+      fetchStatus();
+    }
+  };
+
+  if (!status) return null;
+  const { summary } = status;
+
+  return (
+    <div className="p-4 bg-neutral-700/50 rounded-lg">
+      <div className="flex justify-between items-center">
+        <label className="block text-lg font-medium text-neutral-100">TheGamesDB Offline Data</label>
+        <div className="flex items-center space-x-2">
+          <label className={`inline-flex items-center px-3 py-1.5 text-sm rounded-md bg-neutral-600 text-neutral-100 ${isBusy ? 'opacity-50' : 'cursor-pointer hover:bg-neutral-500'}`}>
+            {isBusy ? 'Working...' : 'Import Files'}
+            <input type="file" accept=".json,application/json" multiple className="hidden" onChange={handleImport} disabled={isBusy} />
+          </label>
+          <Button onClick={handleRemove} variant="ghost" size="sm" disabled={isBusy || !summary}>
+            Remove
+          </Button>
+        </div>
+      </div>
+      <p className="text-sm text-neutral-400 mb-2">
+        Import TheGamesDB's games dump (<code>database-latest.json</code>) and saved Genres, Developers, Publishers and Platforms responses.
+        Lookups are answered from them when there is no API key, or when <code>THEGAMESDB_OFFLINE=true</code> is set in <code>server/.env</code>.
+      </p>
+      {summary ? (
+        <>
+          <p className={`text-sm ${status.active ? 'text-green-400' : 'text-neutral-300'}`}>
+            {status.active ? 'Offline mode on' : 'Imported; the API key is used while offline mode is off'}
+            {' · '}
+            {(['games', 'platforms', 'genres', 'developers', 'publishers'] as const)
+              .filter(kind => summary.counts[kind] !== undefined)
+              .map(kind => `${summary.counts[kind]} ${kind}`)
+              .join(', ')}
+          </p>
+          <p className="text-xs text-neutral-400 mt-1">
+            Imported {new Date(summary.importedAt).toLocaleString()}.{summary.lastEditId !== null && ` Current to edit ${summary.lastEditId}.`}
+            {!summary.counts.games && ' Import the games dump to use offline mode.'}
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-neutral-400">Nothing imported.</p>
+      )}
+    </div>
+  );
+};
+
+// Metadata providers in the order Fetch Info tries them, as set by METADATA_PROVIDERS on the server
+const MetadataProvidersList: React.FC = () => {
+  const [providers, setProviders] = useState<MetadataProviderInfo[] | null>(null);
+
+  useEffect(() => {
+    fetch('/api/metadata/providers')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status} for /api/metadata/providers`);
+        return response.json();
+      })
+      .then((data: { providers: MetadataProviderInfo[] }) => setProviders(data.providers))
+      .catch(err => console.error("Could not load metadata providers:", err));
+  }, []);
+
+  if (!providers) return null;
+
+  return (
+    <div className="p-4 bg-neutral-700/50 rounded-lg">
+      <label className="block text-lg font-medium text-neutral-100">Metadata Providers</label>
+      <p className="text-sm text-neutral-400 mb-3">Searched in this order when a game's info is fetched. Set <code>METADATA_PROVIDERS</code> in <code>server/.env</code> to change the order or disable a provider.</p>
+      <ol className="space-y-1">
+        {providers.map(provider => (
+          <li key={provider.id} className={`flex items-center justify-between text-sm px-3 py-2 rounded-md bg-neutral-800/60 ${provider.enabled ? 'text-neutral-200' : 'text-neutral-500'}`}>
+            <span>{provider.priority ? `${provider.priority}. ` : ''}{provider.name}</span>
+            <span className={`text-xs ${!provider.enabled ? 'text-neutral-500' : provider.configured ? 'text-green-400' : 'text-yellow-400'}`}>
+              {!provider.enabled ? 'Disabled' : provider.configured ? (provider.capabilities.requiresNetwork ? 'Ready' : 'Ready (offline)') : 'No API key'}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
 export const ApiKeysView: React.FC<ApiKeysViewProps> = (
   // { apiKeys: initialApiKeys, onUpdateApiKey: onUpdateApiKeyProp } // Props removed
 ) => {
@@ -213,6 +415,8 @@ export const ApiKeysView: React.FC<ApiKeysViewProps> = (
           value={getKey('THEGAMESDB_API_KEY')}
           onSave={(value) => handleSave('THEGAMESDB_API_KEY', value)}
         />
+        <TheGamesDbUsage />
+        <TheGamesDbOfflineData />
         <ApiKeyField
           label="Google Gemini API Key"
           description="Used for generating game descriptions and other AI-powered features."
@@ -225,6 +429,7 @@ export const ApiKeysView: React.FC<ApiKeysViewProps> = (
           value={getKey('RAWG_API_KEY')}
           onSave={(value) => handleSave('RAWG_API_KEY', value)}
         />
+        <MetadataProvidersList />
       </div>
       
       <div className="max-w-4xl mx-auto mt-8 p-4 bg-neutral-800/50 border border-neutral-700 rounded-lg text-center text-sm text-neutral-400">
@@ -1,18 +1,35 @@
-import React, { useState, useMemo } from 'react';
-import { Game, Platform } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Game, GameArtType, Platform, PlayHistoryEntry, RomFlag, RomHashes, RomVerificationStatus } from '../types';
 import { GameCard } from '../components/GameCard';
 import { GameForm } from '../components/GameForm';
+import { PlayHistoryModal } from '../components/PlayHistoryModal';
+import { computePlayStats } from '../utils';
 import { Button } from '../components/Button';
 import { PlusIcon, SearchIcon, GameControllerIcon } from '../components/Icons';
 import { Input } from '../components/Input';
+import { GAME_ART_TYPES, ROM_FLAG_LABELS } from '../constants';
+
+type GameSortOrder = 'default' | 'title' | 'recently-played' | 'most-played';
+
+const ART_TYPE_STORAGE_KEY = 'gamesGridArtType';
+
+interface VerificationResult {
+  gameId: string;
+  status: RomVerificationStatus;
+  datGameName?: string;
+  hashes?: RomHashes;
+  checkedAt: string;
+}
 
 interface GamesViewProps {
   games: Game[];
   platforms: Platform[];
+  playHistory: PlayHistoryEntry[];
   onAddGame: (game: Game) => void;
   onUpdateGame: (game: Game) => void;
   onDeleteGame: (gameId: string) => void;
   onAddPlatform: (platformToAdd: { id: string; name: string; alias?: string }) => void; // Added prop
+  onGameLaunched?: () => void; // Lets the app refresh its running-session list right away
   // theGamesDbApiKey: string; // REMOVED - Handled by server
   // geminiApiKey: string; // REMOVED - Handled by server
 }
@@ -20,10 +37,12 @@ interface GamesViewProps {
 export const GamesView: React.FC<GamesViewProps> = ({ 
   games, 
   platforms, 
+  playHistory,
   onAddGame, 
   onUpdateGame, 
   onDeleteGame,
-  onAddPlatform // Added prop
+  onAddPlatform, // Added prop
+  onGameLaunched
   // theGamesDbApiKey, // REMOVED
   // geminiApiKey // REMOVED
 }) => {
@@ -31,6 +50,22 @@ export const GamesView: React.FC<GamesViewProps> = ({
   const [editingGame, setEditingGame] = useState<Game | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterPlatform, setFilterPlatform] = useState<string>('');
+  const [sortOrder, setSortOrder] = useState<GameSortOrder>('default');
+  const [filterRegion, setFilterRegion] = useState('');
+  const [filterLanguage, setFilterLanguage] = useState('');
+  const [filterFlag, setFilterFlag] = useState<RomFlag | ''>('');
+  const [artType, setArtType] = useState<GameArtType>(() => {
+    const stored = localStorage.getItem(ART_TYPE_STORAGE_KEY);
+    return GAME_ART_TYPES.find(t => t.value === stored)?.value || 'boxart_front';
+  });
+  const [historyGame, setHistoryGame] = useState<Game | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem(ART_TYPE_STORAGE_KEY, artType);
+  }, [artType]);
+
+  const playStatsByGame = useMemo(() => computePlayStats(playHistory), [playHistory]);
 
   const handleAddGame = () => {
     setEditingGame(null);
@@ -64,9 +99,9 @@ export const GamesView: React.FC<GamesViewProps> = ({
     }
     // For simplicity, using the first configured emulator.
     // A more advanced version might let the user choose or set a default.
-    const emulator = platform.emulators[0];
+    // platform.emulators holds IDs into the central emulators list; the server resolves the config.
+    const emulatorId = platform.emulators[0];
 
-    console.log(`Attempting to launch ${game.title} with emulator ${emulator.name}`);
     try {
       const response = await fetch('/api/games/launch', {
         method: 'POST',
@@ -76,15 +111,17 @@ export const GamesView: React.FC<GamesViewProps> = ({
         body: JSON.stringify({
           gameId: game.id, // Send gameId, server can look up details
           romPath: game.romPath,
+          archiveEntry: game.archiveEntry,
           platformId: game.platformId,
-          emulatorId: emulator.id // Send selected emulatorId
+          emulatorId // Send selected emulatorId
         }),
       });
 
-      const result = await response.json();
-      if (!response.ok) {
+      const result: { launchId?: string; pid?: number | null; error?: string | null; message?: string } = await response.json();
+      if (!response.ok || result.error) {
         throw new Error(result.error || `Failed to launch game (status: ${response.status})`);
       }
+      onGameLaunched?.();
       alert(result.message || `Launching ${game.title}...`); // Or use a more sophisticated notification
     } catch (error) {
       console.error('Error launching game:', error);
@@ -92,15 +129,93 @@ export const GamesView: React.FC<GamesViewProps> = ({
     }
   };
 
+  // Checks the filtered platform's games against its imported DAT and stores the result on each game
+  const handleVerifyRoms = async () => {
+    const platformGames = games.filter(game => game.platformId === filterPlatform);
+    if (!filterPlatform || platformGames.length === 0) {
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const response = await fetch(`/api/dats/${encodeURIComponent(filterPlatform)}/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ games: platformGames.map(game => ({ id: game.id, romPath: game.romPath, archiveEntry: game.archiveEntry })) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to verify ROMs (status: ${response.status})`);
+      }
+
+      const results: VerificationResult[] = data;
+      const counts: Record<RomVerificationStatus, number> = { verified: 0, bad_dump: 0, unknown: 0, missing: 0 };
+      for (const result of results) {
+        const game = platformGames.find(g => g.id === result.gameId);
+        if (!game) continue;
+        counts[result.status]++;
+        onUpdateGame({
+          ...game,
+          ...(result.hashes ? { hashes: result.hashes } : {}),
+          verification: { status: result.status, datGameName: result.datGameName, checkedAt: result.checkedAt },
+        });
+      }
+      alert(`Verified ${results.length} ROM(s): ${counts.verified} verified, ${counts.bad_dump} bad dump(s), ${counts.unknown} unknown, ${counts.missing} missing.`);
+    } catch (error) {
+      console.error('Error verifying ROMs:', error);
+      alert(`Error verifying ROMs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  // Filter options offer only the tags some game in the library has
+  const romTagOptions = useMemo(() => {
+    const regions = new Set<string>();
+    const languages = new Set<string>();
+    const flags = new Set<RomFlag>();
+    games.forEach(game => {
+      game.regions?.forEach(region => regions.add(region));
+      game.languages?.forEach(language => languages.add(language));
+      game.flags?.forEach(flag => flags.add(flag));
+    });
+    return {
+      regions: [...regions].sort(),
+      languages: [...languages].sort(),
+      flags: (Object.keys(ROM_FLAG_LABELS) as RomFlag[]).filter(flag => flags.has(flag)),
+    };
+  }, [games]);
+
   const filteredGames = useMemo(() => {
-    return games.filter(game => {
+    const matchingGames = games.filter(game => {
       const matchesSearch = game.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                             game.genre.toLowerCase().includes(searchTerm.toLowerCase()) ||
                             game.description.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesPlatform = filterPlatform ? game.platformId === filterPlatform : true;
-      return matchesSearch && matchesPlatform;
+      const matchesTags = (!filterRegion || !!game.regions?.includes(filterRegion)) &&
+                          (!filterLanguage || !!game.languages?.includes(filterLanguage)) &&
+                          (!filterFlag || !!game.flags?.includes(filterFlag));
+      return matchesSearch && matchesPlatform && matchesTags;
     });
-  }, [games, searchTerm, filterPlatform]);
+
+    switch (sortOrder) {
+      case 'title':
+        return [...matchingGames].sort((a, b) => a.title.toLowerCase().localeCompare(b.title.toLowerCase()));
+      case 'recently-played':
+        // Never-played games sort last
+        return [...matchingGames].sort((a, b) =>
+          (playStatsByGame.get(b.id)?.lastPlayed || '').localeCompare(playStatsByGame.get(a.id)?.lastPlayed || ''));
+      case 'most-played':
+        return [...matchingGames].sort((a, b) => {
+          const statsA = playStatsByGame.get(a.id);
+          const statsB = playStatsByGame.get(b.id);
+          return ((statsB?.totalPlayTime || 0) - (statsA?.totalPlayTime || 0)) ||
+                 ((statsB?.playCount || 0) - (statsA?.playCount || 0));
+        });
+      default:
+        return matchingGames;
+    }
+  }, [games, searchTerm, filterPlatform, filterRegion, filterLanguage, filterFlag, sortOrder, playStatsByGame]);
 
   return (
     <div className="p-8 flex-grow h-full overflow-y-auto animate-fade-in">
@@ -109,12 +224,23 @@ export const GamesView: React.FC<GamesViewProps> = ({
             <h2 className="text-4xl font-display font-bold text-neutral-100">My Games</h2>
             <p className="text-neutral-400 text-sm">Browse and manage your retro game collection.</p>
         </div>
-        <Button onClick={handleAddGame} leftIcon={<PlusIcon />} variant="primary" size="lg">
-          Add Game
-        </Button>
+        <div className="flex space-x-2">
+          <Button
+            onClick={handleVerifyRoms}
+            variant="secondary"
+            size="lg"
+            disabled={!filterPlatform || isVerifying}
+            title={filterPlatform ? 'Check this platform\'s ROMs against its imported DAT file' : 'Select a platform to verify its ROMs'}
+          >
+            {isVerifying ? 'Verifying...' : 'Verify ROMs'}
+          </Button>
+          <Button onClick={handleAddGame} leftIcon={<PlusIcon />} variant="primary" size="lg">
+            Add Game
+          </Button>
+        </div>
       </header>
 
-      <div className="mb-6 grid grid-cols-1 md:grid-cols-3 gap-4 p-4 bg-neutral-800 rounded-lg shadow">
+      <div className="mb-6 grid grid-cols-1 md:grid-cols-5 gap-4 p-4 bg-neutral-800 rounded-lg shadow">
         <Input 
           placeholder="Search games..." 
           value={searchTerm} 
@@ -130,6 +256,53 @@ export const GamesView: React.FC<GamesViewProps> = ({
             <option value="">All Platforms</option>
             {platforms.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
         </select>
+        <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as GameSortOrder)}
+            aria-label="Sort games"
+            className="w-full px-4 py-3 bg-neutral-700 border border-neutral-600 text-neutral-100 rounded-lg shadow-sm focus:ring-2 focus:ring-primary focus:border-primary transition duration-150 ease-in-out"
+        >
+            <option value="default">Default Order</option>
+            <option value="title">Title (A-Z)</option>
+            <option value="recently-played">Recently Played</option>
+            <option value="most-played">Most Played</option>
+        </select>
+        <select
+            value={artType}
+            onChange={(e) => setArtType(e.target.value as GameArtType)}
+            aria-label="Artwork shown"
+            title="Artwork shown for each game; games without it show their front box art"
+            className="w-full px-4 py-3 bg-neutral-700 border border-neutral-600 text-neutral-100 rounded-lg shadow-sm focus:ring-2 focus:ring-primary focus:border-primary transition duration-150 ease-in-out"
+        >
+            {GAME_ART_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+        </select>
+        <select
+            value={filterRegion}
+            onChange={(e) => setFilterRegion(e.target.value)}
+            aria-label="Filter by region"
+            className="w-full px-4 py-3 bg-neutral-700 border border-neutral-600 text-neutral-100 rounded-lg shadow-sm focus:ring-2 focus:ring-primary focus:border-primary transition duration-150 ease-in-out"
+        >
+            <option value="">All Regions</option>
+            {romTagOptions.regions.map(region => <option key={region} value={region}>{region}</option>)}
+        </select>
+        <select
+            value={filterLanguage}
+            onChange={(e) => setFilterLanguage(e.target.value)}
+            aria-label="Filter by language"
+            className="w-full px-4 py-3 bg-neutral-700 border border-neutral-600 text-neutral-100 rounded-lg shadow-sm focus:ring-2 focus:ring-primary focus:border-primary transition duration-150 ease-in-out"
+        >
+            <option value="">All Languages</option>
+            {romTagOptions.languages.map(language => <option key={language} value={language}>{language}</option>)}
+        </select>
+        <select
+            value={filterFlag}
+            onChange={(e) => setFilterFlag(e.target.value as RomFlag | '')}
+            aria-label="Filter by dump flag"
+            className="w-full px-4 py-3 bg-neutral-700 border border-neutral-600 text-neutral-100 rounded-lg shadow-sm focus:ring-2 focus:ring-primary focus:border-primary transition duration-150 ease-in-out"
+        >
+            <option value="">All Dump Flags</option>
+            {romTagOptions.flags.map(flag => <option key={flag} value={flag}>{ROM_FLAG_LABELS[flag]}</option>)}
+        </select>
       </div>
 
       {filteredGames.length > 0 ? (
@@ -142,6 +315,9 @@ export const GamesView: React.FC<GamesViewProps> = ({
               onEdit={handleEditGame}
               onDelete={onDeleteGame}
               onLaunch={handleLaunchGame}
+              playStats={playStatsByGame.get(game.id)}
+              onShowHistory={setHistoryGame}
+              artType={artType}
             />
           ))}
         </div>
@@ -163,6 +339,14 @@ export const GamesView: React.FC<GamesViewProps> = ({
         // theGamesDbApiKey={theGamesDbApiKey} // REMOVED
         // geminiApiKey={geminiApiKey} // REMOVED
       />
+
+      <PlayHistoryModal
+        isOpen={!!historyGame}
+        onClose={() => setHistoryGame(null)}
+        game={historyGame}
+        stats={historyGame ? playStatsByGame.get(historyGame.id) : undefined}
+        history={historyGame ? playHistory.filter(entry => entry.gameId === historyGame.id) : []}
+      />
     </div>
   );
 };
\ No newline at end of file
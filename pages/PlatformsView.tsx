@@ -1,6 +1,6 @@
 import React, { useState, useRef, createRef, useCallback, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Platform, EmulatorConfig, Game } from '../types'; // Added Game
+import { Platform, EmulatorConfig, Game, DatFileSummary, PlatformScanSettings, WatchedLibraryFolder } from '../types'; // Added Game
 import { Button } from '../components/Button';
 import { PlusIcon, EditIcon, TrashIcon, ChevronRightIcon, CogIcon, SearchIcon as ScanIcon } from '../components/Icons'; // Added ScanIcon (using SearchIcon as placeholder)
 import { PlatformForm } from '../components/PlatformForm';
@@ -10,6 +10,7 @@ import { AssociateEmulatorModal } from '../components/AssociateEmulatorModal';
 interface PlatformsViewProps {
   platforms: Platform[];
   games: Game[];
+  watchedFolders: WatchedLibraryFolder[]; // The server's folder watchers, to show whether this platform's folder is being watched
   onAddPlatform: (platformData: Platform) => void;
   onUpdatePlatform: (platformData: Platform) => void;
   onDeletePlatform: (platformId: number) => void;
@@ -18,6 +19,7 @@ interface PlatformsViewProps {
 export const PlatformsView: React.FC<PlatformsViewProps> = ({
   platforms,
   games,
+  watchedFolders,
   onAddPlatform,
   onUpdatePlatform,
   onDeletePlatform,
@@ -27,6 +29,9 @@ export const PlatformsView: React.FC<PlatformsViewProps> = ({
   const [isAssociateModalOpen, setIsAssociateModalOpen] = useState(false);
   const [allEmulators, setAllEmulators] = useState<EmulatorConfig[]>([]);
   const [selectedPlatform, setSelectedPlatform] = useState<Platform | null>(null);
+  const [datFiles, setDatFiles] = useState<DatFileSummary[]>([]);
+  const [isImportingDat, setIsImportingDat] = useState(false);
+  const datFileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     fetch('/api/data/emulators')
@@ -35,6 +40,17 @@ export const PlatformsView: React.FC<PlatformsViewProps> = ({
       .catch(error => console.error('Could not load emulators:', error));
   }, []);
 
+  const fetchDatFiles = useCallback(() => {
+    fetch('/api/dats')
+      .then(res => res.json())
+      .then(data => setDatFiles(Array.isArray(data) ? data : []))
+      .catch(error => console.error('Could not load DAT files:', error));
+  }, []);
+
+  useEffect(() => {
+    fetchDatFiles();
+  }, [fetchDatFiles]);
+
   const [activePlatformId, setActivePlatformId] = useState<number | null>(platforms.length > 0 ? platforms[0].id : null); // ID is now number
   const navigate = useNavigate();
   
@@ -120,7 +136,54 @@ export const PlatformsView: React.FC<PlatformsViewProps> = ({
     setIsAssociateModalOpen(false);
   };
   
+  const handleDatFileSelected = async (event: React.ChangeEvent<HTMLInputElement>, platform: Platform) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    setIsImportingDat(true);
+    try {
+      const response = await fetch(`/api/dats/${platform.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/xml' },
+        body: await file.text(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to import DAT (status: ${response.status})`);
+      }
+      fetchDatFiles();
+    } catch (error) {
+      console.error('Error importing DAT file:', error);
+      alert(`Error importing DAT file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImportingDat(false);
+    }
+  };
+
+  const handleScanSettingsChange = (platform: Platform, changes: Partial<PlatformScanSettings>) => {
+    if (!platform.scanSettings) return;
+    onUpdatePlatform({ ...platform, scanSettings: { ...platform.scanSettings, ...changes } });
+  };
+
+  const handleRemoveDat = async (platform: Platform) => {
+    if (!confirm(`Remove the DAT file for "${platform.name}"? Existing verification results on games are kept.`)) return;
+    try {
+      const response = await fetch(`/api/dats/${platform.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to remove DAT (status: ${response.status})`);
+      }
+      fetchDatFiles();
+    } catch (error) {
+      console.error('Error removing DAT file:', error);
+      alert(`Error removing DAT file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const currentSelectedPlatform = platforms.find(p => p.id === activePlatformId);
+  const currentDatFile = currentSelectedPlatform ? datFiles.find(dat => dat.platformId === String(currentSelectedPlatform.id)) : undefined;
+  const selectedWatchedFolder = currentSelectedPlatform ? watchedFolders.find(folder => folder.platformId === String(currentSelectedPlatform.id)) : undefined;
 
   // Auto-select first platform if activePlatformId becomes invalid (e.g. platform deleted)
    useEffect(() => {
@@ -349,6 +412,85 @@ export const PlatformsView: React.FC<PlatformsViewProps> = ({
               ) : (
                 <p className="text-neutral-500 text-center py-4">No emulators associated with this platform yet.</p>
               )}
+
+              <div className="flex justify-between items-center mt-8 mb-4 pt-4 border-t border-neutral-700">
+                <h4 className="text-lg font-semibold text-neutral-200">ROM Verification (DAT)</h4>
+                <div className="flex space-x-2">
+                  <input
+                    ref={datFileInputRef}
+                    type="file"
+                    accept=".dat,.xml"
+                    className="hidden"
+                    onChange={(e) => handleDatFileSelected(e, currentSelectedPlatform)}
+                  />
+                  <Button onClick={() => datFileInputRef.current?.click()} size="sm" variant="secondary" disabled={isImportingDat}>
+                    {isImportingDat ? 'Importing...' : currentDatFile ? 'Replace DAT' : 'Import DAT'}
+                  </Button>
+                  {currentDatFile && (
+                    <Button onClick={() => handleRemoveDat(currentSelectedPlatform)} size="sm" variant="ghost" aria-label={`Remove DAT for ${currentSelectedPlatform.name}`}>
+                      <TrashIcon className="text-neutral-400 hover:text-red-500"/> Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {currentDatFile ? (
+                <div className="bg-neutral-700 p-4 rounded-md shadow text-sm">
+                  <p className="font-medium text-neutral-100">{currentDatFile.description || currentDatFile.name}</p>
+                  <p className="text-xs text-neutral-400">
+                    Version {currentDatFile.version || 'unknown'} · {currentDatFile.gameCount} games · {currentDatFile.romCount} ROM entries · Imported {new Date(currentDatFile.importedAt).toLocaleDateString()}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-neutral-500 text-center py-4">
+                  Import a No-Intro or Redump DAT (Logiqx XML) to verify this platform's ROMs and get canonical titles when scanning.
+                </p>
+              )}
+
+              <div className="mt-8 mb-4 pt-4 border-t border-neutral-700">
+                <h4 className="text-lg font-semibold text-neutral-200">ROM Folder</h4>
+              </div>
+              {currentSelectedPlatform.scanSettings ? (
+                <div className="bg-neutral-700 p-4 rounded-md shadow text-sm space-y-3">
+                  <p className="text-neutral-100">
+                    <span className="font-mono">{currentSelectedPlatform.scanSettings.folderPath}</span>
+                    {currentSelectedPlatform.scanSettings.lastScannedAt && (
+                      <span className="text-xs text-neutral-400"> · Last scanned {new Date(currentSelectedPlatform.scanSettings.lastScannedAt).toLocaleDateString()}</span>
+                    )}
+                  </p>
+                  <label htmlFor="watchFolder" className="flex items-center space-x-2 cursor-pointer text-neutral-300">
+                    <input
+                      type="checkbox"
+                      id="watchFolder"
+                      checked={currentSelectedPlatform.scanSettings.watch === true}
+                      onChange={(e) => handleScanSettingsChange(currentSelectedPlatform, { watch: e.target.checked })}
+                      className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark"
+                    />
+                    <span>Watch this folder for new, removed and renamed ROMs</span>
+                  </label>
+                  {selectedWatchedFolder?.mode === 'poll' && (
+                    <p className={`text-xs ${selectedWatchedFolder.error ? 'text-yellow-400' : 'text-neutral-400'}`}>
+                      {selectedWatchedFolder.error
+                        ? `The folder watcher failed (${selectedWatchedFolder.error}). The folder is checked every 30 seconds until the watcher can be restarted.`
+                        : 'Changes can\'t be watched on this system, so the folder is checked every 30 seconds.'}
+                    </p>
+                  )}
+                  <label htmlFor="autoImport" className="flex items-center space-x-2 cursor-pointer text-neutral-300">
+                    <input
+                      type="checkbox"
+                      id="autoImport"
+                      checked={currentSelectedPlatform.scanSettings.autoImport === true}
+                      disabled={currentSelectedPlatform.scanSettings.watch !== true}
+                      onChange={(e) => handleScanSettingsChange(currentSelectedPlatform, { autoImport: e.target.checked })}
+                      className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark"
+                    />
+                    <span>Import new ROMs and relink renamed ones automatically</span>
+                  </label>
+                </div>
+              ) : (
+                <p className="text-neutral-500 text-center py-4">
+                  Scan this platform's ROMs once from Scan ROMs to remember its folder, then it can be watched for changes.
+                </p>
+              )}
             </>
           ) : (
             <div className="flex flex-col items-center justify-center h-full text-neutral-600">
@@ -19,7 +19,7 @@ const mockPlatforms: Platform[] = [
 ];
 
 // Helper to create mock ScannedRomFile objects
-const createMockScannedRomFile = (name: string, ext: string = 'nes') => ({ name, filename: `${name}.${ext}` });
+const createMockScannedRomFile = (name: string, ext: string = 'nes') => ({ name, filename: `${name}.${ext}`, relativePath: `${name}.${ext}` });
 
 describe('ScanRomsView Component', () => {
   let mockOnAddGames: jest.Mock;
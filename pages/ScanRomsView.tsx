@@ -1,15 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from '../components/Button';
 import { Select } from '../components/Select';
 import { Input } from '../components/Input';
 import { FolderBrowser } from '../components/FolderBrowser';
-import { Platform, Game } from '../types';
+import { VerificationBadge } from '../components/VerificationBadge';
+import { RomTagBadges } from '../components/RomTagBadges';
+import { Platform, Game, GameFieldSource, GameVersion, RomHashes, DatMatch, PlatformScanSettings, ScannedRomFile, ScannedDisc } from '../types';
 import { DEFAULT_ROM_FOLDER } from '../constants';
+import { getGameRomFields, loadRomPreferences, parseRomFilenameTags, resolveOneGameOneRom, recordNewGameSources } from '../utils';
 
-interface ScannedRomFile {
-  name: string; // Filename without extension
-  filename: string; // Full filename with extension
-}
+const DEFAULT_SCAN_DEPTH = 5;
+
+// Unique key for a scanned ROM. Several ROMs can share an archive, so the entry is part of the key.
+const getScanKey = (rom: { relativePath: string; archiveEntry?: string }): string =>
+  rom.archiveEntry ? `${rom.relativePath}#${rom.archiveEntry}` : rom.relativePath;
 
 interface EnrichedRomFromApi {
   original_name: string;
@@ -20,27 +24,59 @@ interface EnrichedRomFromApi {
 interface EnrichedGameSuggestion {
   original_name: string; // From ScannedRomFile.name
   suggested_title: string; // From AI
-  filename: string; // From ScannedRomFile.filename, for unique key and import
+  suggested_title_source: GameFieldSource; // Where suggested_title came from
+  filename: string; // From ScannedRomFile.filename
+  relativePath: string; // From ScannedRomFile.relativePath, for unique key and import
+  archiveEntry?: string; // From ScannedRomFile.archiveEntry
+  discs?: ScannedDisc[]; // From ScannedRomFile.discs
+  size?: number; // From ScannedRomFile.size
   user_title: string; // Editable, defaults to suggested_title or original_name
   is_selected_for_import: boolean;
+  hashes?: RomHashes; // Carried over from the scan, which is cleared after enrichment
+  datMatch?: DatMatch;
+  alternates?: ScannedRomFile[]; // With 1G1R, the game's other ROMs, kept as alternate versions on import
+}
+
+// A game whose ROM is gone from its recorded path but was found elsewhere in the rescanned folder
+interface MovedRom {
+  gameId: string;
+  rom: ScannedRomFile;
+  matchedBy: 'hash' | 'size-name';
+}
+
+interface RescanResult {
+  moved: MovedRom[];
+  missing: string[]; // Game IDs
+  unchangedCount: number;
 }
 
 interface ScanRomsViewProps {
   platforms: Platform[];
+  games?: Game[]; // Existing library, compared against on rescan
   onAddGames: (games: Game[]) => void;
+  onUpdateGame?: (game: Game) => void; // Used to relink moved ROMs
+  onUpdatePlatform?: (platform: Platform) => void; // Used to remember each platform's scan folder and options
 }
 
-export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGames }) => {
+export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, games = [], onAddGames, onUpdateGame, onUpdatePlatform }) => {
   const [selectedPlatformId, setSelectedPlatformId] = useState<string>('');
   const [romsPath, setRomsPath] = useState<string>(DEFAULT_ROM_FOLDER);
   const [isFolderBrowserVisible, setIsFolderBrowserVisible] = useState<boolean>(false);
+  const [scanSubfolders, setScanSubfolders] = useState<boolean>(false);
+  const [maxScanDepth, setMaxScanDepth] = useState<number>(DEFAULT_SCAN_DEPTH);
+  const [computeHashes, setComputeHashes] = useState<boolean>(false);
+  const [inspectArchives, setInspectArchives] = useState<boolean>(true);
+  const [groupDiscs, setGroupDiscs] = useState<boolean>(true);
+  const [oneGameOneRom, setOneGameOneRom] = useState<boolean>(false);
+  const [rescanResult, setRescanResult] = useState<RescanResult | null>(null);
+  const [selectedMovedGameIds, setSelectedMovedGameIds] = useState<string[]>([]);
 
   // Stage 1: Raw scanned files
   const [scannedRoms, setScannedRoms] = useState<ScannedRomFile[]>([]);
   // Stage 2: Enriched suggestions (this becomes the main list for display after enrichment)
   const [enrichedGameSuggestions, setEnrichedGameSuggestions] = useState<EnrichedGameSuggestion[]>([]);
 
-  const [selectedRomIdentifiers, setSelectedRomIdentifiers] = useState<string[]>([]); // Stores 'filename' for selection tracking BEFORE enrichment
+  const [selectedRomIdentifiers, setSelectedRomIdentifiers] = useState<string[]>([]); // Stores getScanKey() for selection tracking BEFORE enrichment
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [scanError, setScanError] = useState<string | null>(null);
@@ -50,14 +86,73 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
   // Derived state: are we showing enriched results or initial scan results?
   const showingEnrichedResults = enrichedGameSuggestions.length > 0;
 
+  const selectedPlatform = platforms.find(p => p.id.toString() === selectedPlatformId);
+  const platformGames = games.filter(game => game.platformId === selectedPlatformId);
+
+  // With 1G1R only each game's preferred ROM is listed; its other copies are imported with it as alternate versions
+  const romGroups = useMemo(() => resolveOneGameOneRom(scannedRoms, loadRomPreferences()), [scannedRoms]);
+  const listedRoms = oneGameOneRom ? romGroups.map(group => group.preferred) : scannedRoms;
+  const alternatesByScanKey = new Map(romGroups.map(group => [getScanKey(group.preferred), group.alternates]));
+  const getAlternates = (rom: ScannedRomFile) => (oneGameOneRom ? alternatesByScanKey.get(getScanKey(rom)) : undefined) || [];
+  const selectedListedCount = listedRoms.filter(rom => selectedRomIdentifiers.includes(getScanKey(rom))).length;
+
+  // The platform the view was last reset for. Saving scan settings updates platforms, which must
+  // not clear the results, so the reset only runs when the selection itself changes.
+  const lastSelectedPlatformIdRef = useRef<string | null>(null);
+
   useEffect(() => {
+    if (lastSelectedPlatformIdRef.current === selectedPlatformId) return;
+    lastSelectedPlatformIdRef.current = selectedPlatformId;
+
     setScannedRoms([]);
     setSelectedRomIdentifiers([]);
     setEnrichedGameSuggestions([]);
+    setRescanResult(null);
     setScanError(null);
     setImportMessage(null);
     setEnrichmentError(null);
-  }, [selectedPlatformId]);
+
+    // Restore the folder and options this platform was last scanned with
+    const scanSettings = platforms.find(p => p.id.toString() === selectedPlatformId)?.scanSettings;
+    if (scanSettings) {
+      setRomsPath(scanSettings.folderPath);
+      setScanSubfolders(scanSettings.recursive);
+      setMaxScanDepth(scanSettings.maxDepth);
+      setComputeHashes(scanSettings.computeHashes);
+      setInspectArchives(scanSettings.inspectArchives);
+      setGroupDiscs(scanSettings.groupDiscs);
+      setOneGameOneRom(scanSettings.oneGameOneRom ?? false);
+    }
+  }, [selectedPlatformId, platforms]);
+
+  const buildScanRequest = () => ({
+    platformId: selectedPlatformId,
+    folderPath: romsPath,
+    recursive: scanSubfolders,
+    ...(scanSubfolders ? { maxDepth: maxScanDepth } : {}),
+    computeHashes,
+    inspectArchives,
+    groupDiscs,
+  });
+
+  const saveScanSettings = () => {
+    if (!selectedPlatform || !onUpdatePlatform) return;
+    const scanSettings: PlatformScanSettings = {
+      ...selectedPlatform.scanSettings,
+      folderPath: romsPath,
+      recursive: scanSubfolders,
+      maxDepth: maxScanDepth,
+      computeHashes,
+      inspectArchives,
+      groupDiscs,
+      oneGameOneRom,
+      lastScannedAt: new Date().toISOString(),
+    };
+    onUpdatePlatform({ ...selectedPlatform, scanSettings });
+  };
+
+  // Fields a game takes from the scanned ROM it points at, shared by import and relink
+  const toGameRomFields = (rom: ScannedRomFile | EnrichedGameSuggestion) => getGameRomFields(rom, romsPath);
 
   const handleScan = async () => {
     if (!selectedPlatformId) {
@@ -76,12 +171,13 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
     setScannedRoms([]);
     setSelectedRomIdentifiers([]);
     setEnrichedGameSuggestions([]); // Clear previous enrichment results
+    setRescanResult(null);
 
     try {
       const response = await fetch('/api/scan-roms', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ platformId: selectedPlatformId, folderPath: romsPath }),
+        body: JSON.stringify(buildScanRequest()),
       });
 
       if (!response.ok) {
@@ -91,11 +187,12 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
 
       const data: ScannedRomFile[] = await response.json();
       setScannedRoms(data);
+      saveScanSettings();
       if (data.length === 0) {
         setScanError('No ROM files found. Check path and ignored extensions.');
       } else {
         // Automatically select all scanned ROMs for potential enrichment
-        setSelectedRomIdentifiers(data.map(rom => rom.filename));
+        setSelectedRomIdentifiers(data.map(rom => getScanKey(rom)));
       }
     } catch (error: any) {
       console.error('Failed to scan ROMs:', error);
@@ -105,49 +202,135 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
     }
   };
 
-  const handleEnrichRoms = async () => {
-    if (selectedRomIdentifiers.length === 0) {
-      setEnrichmentError('No ROMs selected to enrich.');
-      return;
-    }
-    const platform = platforms.find(p => p.id.toString() === selectedPlatformId);
-    if (!platform) {
-      setEnrichmentError('Platform not found for enrichment.');
+  // Scans with the current options and compares the result with the platform's games: new files go to
+  // the usual import list, moved ROMs can be relinked, and missing ones are reported
+  const handleRescan = async () => {
+    if (!selectedPlatformId || !romsPath.trim()) {
+      setScanError('Please select a platform and enter a ROMs path.');
       return;
     }
 
     setIsLoading(true);
+    setScanError(null);
     setEnrichmentError(null);
     setImportMessage(null);
-
-    const romsToEnrich = scannedRoms.filter(rom => selectedRomIdentifiers.includes(rom.filename));
-    const romNamesToEnrich = romsToEnrich.map(r => r.name);
+    setScannedRoms([]);
+    setSelectedRomIdentifiers([]);
+    setEnrichedGameSuggestions([]);
+    setRescanResult(null);
 
     try {
-      const response = await fetch('/api/enrich-roms', {
+      const response = await fetch('/api/rescan', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ romNames: romNamesToEnrich, platformName: platform.name }),
+        body: JSON.stringify({
+          ...buildScanRequest(),
+          games: platformGames.map(game => ({
+            id: game.id, romPath: game.romPath, archiveEntry: game.archiveEntry, hashes: game.hashes, romSize: game.romSize,
+          })),
+        }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
       }
 
-      const enrichmentResult: { source: string; enriched_roms: EnrichedRomFromApi[] } = await response.json();
+      const data: RescanResult & { added: ScannedRomFile[] } = await response.json();
+      setScannedRoms(data.added);
+      setSelectedRomIdentifiers(data.added.map(rom => getScanKey(rom)));
+      setRescanResult({ moved: data.moved, missing: data.missing, unchangedCount: data.unchangedCount });
+      setSelectedMovedGameIds(data.moved.map(move => move.gameId));
+      saveScanSettings();
+    } catch (error: any) {
+      console.error('Failed to rescan ROMs:', error);
+      setScanError(error.message || 'An unexpected error occurred during rescan.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleMovedSelection = (gameId: string) => {
+    setSelectedMovedGameIds(prevSelected =>
+      prevSelected.includes(gameId) ? prevSelected.filter(id => id !== gameId) : [...prevSelected, gameId]
+    );
+  };
+
+  // Points the selected games at their new location instead of importing the moved files as duplicates
+  const handleRelinkMoved = () => {
+    if (!rescanResult || !onUpdateGame) return;
+
+    const movesToApply = rescanResult.moved.filter(move => selectedMovedGameIds.includes(move.gameId));
+    for (const { gameId, rom } of movesToApply) {
+      const game = games.find(g => g.id === gameId);
+      if (!game) continue;
+      onUpdateGame({ ...game, ...toGameRomFields(rom), hashes: rom.hashes || game.hashes });
+    }
+
+    setRescanResult({ ...rescanResult, moved: rescanResult.moved.filter(move => !selectedMovedGameIds.includes(move.gameId)) });
+    setSelectedMovedGameIds([]);
+    setImportMessage(`${movesToApply.length} game(s) relinked to their new ROM location.`);
+  };
 
-      const suggestionsMap = new Map<string, string>(
-        enrichmentResult.enriched_roms.map((item: EnrichedRomFromApi) => [item.original_name, item.suggested_title])
-      );
+  const handleEnrichRoms = async () => {
+    if (selectedListedCount === 0) {
+      setEnrichmentError('No ROMs selected to enrich.');
+      return;
+    }
+    const platform = platforms.find(p => p.id.toString() === selectedPlatformId);
+    if (!platform) {
+      setEnrichmentError('Platform not found for enrichment.');
+      return;
+    }
+
+    setIsLoading(true);
+    setEnrichmentError(null);
+    setImportMessage(null);
+
+    const romsToEnrich = listedRoms.filter(rom => selectedRomIdentifiers.includes(getScanKey(rom)));
+    // ROMs matched in the platform's DAT already have a canonical title, so only the rest go to the AI
+    const romNamesToEnrich = romsToEnrich.filter(r => !r.datMatch?.title).map(r => r.name);
+
+    try {
+      const suggestionsMap = new Map<string, string>();
+      let suggestionSource: GameFieldSource = 'ai';
+      if (romNamesToEnrich.length > 0) {
+        const response = await fetch('/api/enrich-roms', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ romNames: romNamesToEnrich, platformName: platform.name, platformId: platform.id }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+        }
+
+        const enrichmentResult: { source: string; enriched_roms: EnrichedRomFromApi[] } = await response.json();
+        enrichmentResult.enriched_roms.forEach((item: EnrichedRomFromApi) => suggestionsMap.set(item.original_name, item.suggested_title));
+        suggestionSource = enrichmentResult.source.startsWith('TheGamesDB') ? 'thegamesdb' : 'ai';
+      }
 
-      const newSuggestions: EnrichedGameSuggestion[] = romsToEnrich.map(scannedRom => ({
-        original_name: scannedRom.name,
-        suggested_title: suggestionsMap.get(scannedRom.name) || scannedRom.name,
-        filename: scannedRom.filename,
-        user_title: suggestionsMap.get(scannedRom.name) || scannedRom.name, // Default user_title to suggested
-        is_selected_for_import: true, // Default to selected
-      }));
+      const newSuggestions: EnrichedGameSuggestion[] = romsToEnrich.map(scannedRom => {
+        const suggestedTitle = scannedRom.datMatch?.title || suggestionsMap.get(scannedRom.name) || scannedRom.name;
+        // DAT names follow the same naming conventions as the ROM files, so they count as the filename's
+        const isSuggested = !scannedRom.datMatch?.title && suggestionsMap.has(scannedRom.name);
+        return {
+          original_name: scannedRom.name,
+          suggested_title: suggestedTitle,
+          suggested_title_source: isSuggested ? suggestionSource : 'filename',
+          filename: scannedRom.filename,
+          relativePath: scannedRom.relativePath,
+          archiveEntry: scannedRom.archiveEntry,
+          discs: scannedRom.discs,
+          size: scannedRom.size,
+          user_title: suggestedTitle, // Default user_title to suggested
+          is_selected_for_import: true, // Default to selected
+          hashes: scannedRom.hashes,
+          datMatch: scannedRom.datMatch,
+          alternates: getAlternates(scannedRom),
+        };
+      });
 
       setEnrichedGameSuggestions(newSuggestions);
       // Clear selections from the initial scan list as we are now using the enriched list
@@ -163,19 +346,19 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
   };
 
   // Toggle selection for the initial scanned list (before enrichment)
-  const toggleInitialRomSelection = (romFilename: string) => {
+  const toggleInitialRomSelection = (romRelativePath: string) => {
     setSelectedRomIdentifiers(prevSelected =>
-      prevSelected.includes(romFilename)
-        ? prevSelected.filter(id => id !== romFilename)
-        : [...prevSelected, romFilename]
+      prevSelected.includes(romRelativePath)
+        ? prevSelected.filter(id => id !== romRelativePath)
+        : [...prevSelected, romRelativePath]
     );
   };
 
   // Toggle selection for the enriched list
-  const toggleEnrichedGameSelection = (filename: string) => {
+  const toggleEnrichedGameSelection = (scanKey: string) => {
     setEnrichedGameSuggestions(prevSuggestions =>
       prevSuggestions.map(suggestion =>
-        suggestion.filename === filename
+        getScanKey(suggestion) === scanKey
           ? { ...suggestion, is_selected_for_import: !suggestion.is_selected_for_import }
           : suggestion
       )
@@ -184,10 +367,10 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
 
   // Select/deselect all for the initial scanned list
   const toggleSelectAllInitialRoms = () => {
-    if (selectedRomIdentifiers.length === scannedRoms.length) {
+    if (selectedListedCount === listedRoms.length) {
       setSelectedRomIdentifiers([]);
     } else {
-      setSelectedRomIdentifiers(scannedRoms.map(rom => rom.filename));
+      setSelectedRomIdentifiers(listedRoms.map(rom => getScanKey(rom)));
     }
   };
 
@@ -202,10 +385,10 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
     );
   };
 
-  const handleUserTitleChange = (filename: string, newUserTitle: string) => {
+  const handleUserTitleChange = (scanKey: string, newUserTitle: string) => {
     setEnrichedGameSuggestions(prevSuggestions =>
       prevSuggestions.map(suggestion =>
-        suggestion.filename === filename
+        getScanKey(suggestion) === scanKey
           ? { ...suggestion, user_title: newUserTitle }
           : suggestion
       )
@@ -218,24 +401,34 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
       return;
     }
 
-    const createGameData = (title: string, filename: string): Game => ({
+    const checkedAt = new Date().toISOString();
+    const toGameVersion = (rom: ScannedRomFile): GameVersion => ({ ...toGameRomFields(rom), ...(rom.hashes ? { hashes: rom.hashes } : {}) });
+    const createGameData = (title: string, titleSource: GameFieldSource, rom: ScannedRomFile | EnrichedGameSuggestion, alternates: ScannedRomFile[]): Game => recordNewGameSources({
       id: crypto.randomUUID(),
       title,
       platformId: selectedPlatformId,
-      romPath: `${romsPath}/${filename}`,
+      ...toGameRomFields(rom),
       coverImageUrl: '', description: '', genre: '', releaseDate: '',
-    });
+      ...(rom.hashes ? { hashes: rom.hashes } : {}),
+      ...(rom.datMatch ? { verification: { status: rom.datMatch.status, datGameName: rom.datMatch.datGameName, checkedAt } } : {}),
+      ...(alternates.length > 0 ? { alternateVersions: alternates.map(toGameVersion) } : {}),
+    }, titleSource);
 
     let gamesToImport: Game[];
 
     if (showingEnrichedResults) {
       gamesToImport = enrichedGameSuggestions
         .filter(suggestion => suggestion.is_selected_for_import)
-        .map((suggestion) => createGameData(suggestion.user_title, suggestion.filename));
+        .map((suggestion) => createGameData(
+          suggestion.user_title,
+          suggestion.user_title === suggestion.suggested_title ? suggestion.suggested_title_source : 'user',
+          suggestion,
+          suggestion.alternates || [],
+        ));
     } else { // Importing from initial scan
-      gamesToImport = scannedRoms
-        .filter(rom => selectedRomIdentifiers.includes(rom.filename))
-        .map((rom) => createGameData(rom.name, rom.filename));
+      gamesToImport = listedRoms
+        .filter(rom => selectedRomIdentifiers.includes(getScanKey(rom)))
+        .map((rom) => createGameData(rom.datMatch?.title || rom.name, 'filename', rom, getAlternates(rom)));
     }
 
     if (gamesToImport.length === 0) {
@@ -267,9 +460,9 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
 
   const selectedCount = showingEnrichedResults
     ? enrichedGameSuggestions.filter(s => s.is_selected_for_import).length
-    : selectedRomIdentifiers.length;
+    : selectedListedCount;
 
-  const totalCount = showingEnrichedResults ? enrichedGameSuggestions.length : scannedRoms.length;
+  const totalCount = showingEnrichedResults ? enrichedGameSuggestions.length : listedRoms.length;
 
 
   return (
@@ -316,12 +509,80 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
           </div>
           <p className="text-xs text-neutral-500 mt-1">{`Default: ${DEFAULT_ROM_FOLDER}. Provide the full local path to the directory containing ROM files for ${currentPlatformName}.`}</p>
         </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <label htmlFor="scan-subfolders" className="flex items-center space-x-2 cursor-pointer text-neutral-300">
+            <input type="checkbox" id="scan-subfolders"
+              checked={scanSubfolders}
+              onChange={(e) => setScanSubfolders(e.target.checked)}
+              disabled={isLoading || !selectedPlatformId}
+              className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+            <span>Include subfolders</span>
+          </label>
+          {scanSubfolders && (
+            <label htmlFor="scan-max-depth" className="flex items-center space-x-2 text-neutral-300">
+              <span>Max depth</span>
+              <input type="number" id="scan-max-depth" min={1} max={20}
+                value={maxScanDepth}
+                onChange={(e) => setMaxScanDepth(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                disabled={isLoading}
+                className="w-20 px-2 py-1 bg-neutral-700 border border-neutral-600 text-white rounded-md focus:ring-primary focus:border-primary" />
+            </label>
+          )}
+          <label htmlFor="scan-compute-hashes" className="flex items-center space-x-2 cursor-pointer text-neutral-300">
+            <input type="checkbox" id="scan-compute-hashes"
+              checked={computeHashes}
+              onChange={(e) => setComputeHashes(e.target.checked)}
+              disabled={isLoading || !selectedPlatformId}
+              className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+            <span>Compute file hashes (CRC32/MD5/SHA-1, slower)</span>
+          </label>
+          <label htmlFor="scan-inspect-archives" className="flex items-center space-x-2 cursor-pointer text-neutral-300">
+            <input type="checkbox" id="scan-inspect-archives"
+              checked={inspectArchives}
+              onChange={(e) => setInspectArchives(e.target.checked)}
+              disabled={isLoading || !selectedPlatformId}
+              className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+            <span>Look inside .zip/.7z archives</span>
+          </label>
+          <label htmlFor="scan-group-discs" className="flex items-center space-x-2 cursor-pointer text-neutral-300">
+            <input type="checkbox" id="scan-group-discs"
+              checked={groupDiscs}
+              onChange={(e) => setGroupDiscs(e.target.checked)}
+              disabled={isLoading || !selectedPlatformId}
+              className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+            <span>Group multi-disc games</span>
+          </label>
+          <label htmlFor="scan-one-game-one-rom" className="flex items-center space-x-2 cursor-pointer text-neutral-300"
+            title="List one ROM per game, chosen by the region and language preferences in Settings. The game's other ROMs are kept as alternate versions.">
+            <input type="checkbox" id="scan-one-game-one-rom"
+              checked={oneGameOneRom}
+              onChange={(e) => setOneGameOneRom(e.target.checked)}
+              disabled={isLoading || !selectedPlatformId}
+              className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+            <span>One ROM per game (1G1R)</span>
+          </label>
+        </div>
         <Button
           onClick={handleScan} disabled={!selectedPlatformId || isLoading || platforms.length === 0}
           className="w-full bg-primary hover:bg-primary-dark text-white font-semibold py-3 px-6 rounded-lg shadow-md transition duration-150 ease-in-out disabled:opacity-60 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
         >
           {isLoading && !showingEnrichedResults ? <span>Scanning...</span> : <span>3. Begin Scan</span>}
         </Button>
+        {platformGames.length > 0 && (
+          <Button
+            onClick={handleRescan} disabled={isLoading}
+            variant="secondary"
+            className="w-full py-3"
+            title="Compare this folder with the games already in your library: import only new files and relink moved ones"
+          >
+            {`Rescan Library (${platformGames.length} game${platformGames.length === 1 ? '' : 's'})`}
+          </Button>
+        )}
+        {selectedPlatform?.scanSettings?.lastScannedAt && (
+          <p className="text-xs text-neutral-500 text-center">
+            Last scanned {selectedPlatform.scanSettings.folderPath} on {new Date(selectedPlatform.scanSettings.lastScannedAt).toLocaleString()}
+          </p>
+        )}
         {scanError && <p className="text-sm text-red-400 bg-red-900/30 p-3 rounded-md text-center">{scanError}</p>}
       </section>
 
@@ -338,45 +599,118 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
         </section>
       )}
 
+      {rescanResult && (
+        <section className="space-y-4 max-w-3xl mx-auto bg-neutral-800 p-6 md:p-8 rounded-lg shadow-xl mb-8">
+          <h2 className="text-2xl font-semibold text-primary border-b border-neutral-700 pb-3">
+            Rescan Results for {currentPlatformName}
+          </h2>
+          <p className="text-sm text-neutral-300">
+            {rescanResult.unchangedCount} unchanged · {scannedRoms.length} new · {rescanResult.moved.length} moved · {rescanResult.missing.length} missing
+          </p>
+
+          {rescanResult.moved.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold text-neutral-200">Moved ROMs</h3>
+              <div className="max-h-64 overflow-y-auto pr-2 space-y-1 bg-neutral-850 p-3 rounded-md">
+                {rescanResult.moved.map(({ gameId, rom, matchedBy }) => {
+                  const game = games.find(g => g.id === gameId);
+                  return (
+                    <label key={gameId} htmlFor={`moved-${gameId}`} className="flex items-start space-x-2 p-2 cursor-pointer hover:bg-neutral-700 rounded-md text-neutral-200">
+                      <input type="checkbox" id={`moved-${gameId}`}
+                        checked={selectedMovedGameIds.includes(gameId)}
+                        onChange={() => toggleMovedSelection(gameId)}
+                        className="form-checkbox h-5 w-5 mt-0.5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+                      <span className="flex-grow min-w-0">
+                        <span className="block">{game?.title || gameId}</span>
+                        <span className="block text-xs text-neutral-500 truncate">{game?.romPath} → {romsPath}/{rom.relativePath}{rom.archiveEntry ? ` (${rom.archiveEntry})` : ''}</span>
+                      </span>
+                      <span className="text-xs text-neutral-400 whitespace-nowrap">{matchedBy === 'hash' ? 'Same hash' : 'Same size and name'}</span>
+                    </label>
+                  );
+                })}
+              </div>
+              <Button onClick={handleRelinkMoved} disabled={selectedMovedGameIds.length === 0 || !onUpdateGame} variant="primary" size="sm">
+                Relink Selected ({selectedMovedGameIds.length})
+              </Button>
+            </div>
+          )}
+
+          {rescanResult.missing.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold text-neutral-200">Missing ROMs</h3>
+              <p className="text-xs text-neutral-500">These games' ROM files were not found. Enable "Compute file hashes" to also find renamed files.</p>
+              <ul className="max-h-48 overflow-y-auto pr-2 space-y-1 bg-neutral-850 p-3 rounded-md text-sm">
+                {rescanResult.missing.map(gameId => {
+                  const game = games.find(g => g.id === gameId);
+                  return (
+                    <li key={gameId} className="text-neutral-300">
+                      {game?.title || gameId} <span className="text-xs text-neutral-500">{game?.romPath}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+
       {/* Section for Scanned ROMs (before enrichment OR if enrichment is skipped/failed) */}
       {!showingEnrichedResults && scannedRoms.length > 0 && (
         <section className="space-y-4 md:space-y-6 max-w-3xl mx-auto bg-neutral-800 p-6 md:p-8 rounded-lg shadow-xl">
           <h2 className="text-2xl font-semibold text-primary border-b border-neutral-700 pb-3 mb-4">
-            Found {scannedRoms.length} Potential ROMs for {currentPlatformName}
+            {oneGameOneRom
+              ? `Found ${listedRoms.length} Games (${scannedRoms.length} ROMs) for ${currentPlatformName}`
+              : `Found ${scannedRoms.length} Potential ROMs for ${currentPlatformName}`}
           </h2>
           <div className="max-h-96 overflow-y-auto pr-2 space-y-2 bg-neutral-850 p-4 rounded-md">
             <div className="flex items-center mb-2 border-b border-neutral-700 pb-2">
               <label htmlFor="select-all-initial-roms" className="flex items-center space-x-2 cursor-pointer text-neutral-300">
                 <input type="checkbox" id="select-all-initial-roms"
-                  checked={selectedRomIdentifiers.length === scannedRoms.length && scannedRoms.length > 0}
+                  checked={selectedListedCount === listedRoms.length && listedRoms.length > 0}
                   onChange={toggleSelectAllInitialRoms}
                   className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
-                <span>Select All ({selectedRomIdentifiers.length}/{scannedRoms.length})</span>
+                <span>Select All ({selectedListedCount}/{listedRoms.length})</span>
               </label>
             </div>
-            {scannedRoms.map((rom) => (
-              <div key={rom.filename} className="flex items-center p-2 hover:bg-neutral-700 rounded-md transition-colors duration-150">
-                <label htmlFor={`rom-initial-${rom.filename.replace(/[^a-zA-Z0-9]/g, '-')}`} className="flex items-center space-x-2 cursor-pointer text-neutral-200 flex-grow">
-                  <input type="checkbox" id={`rom-initial-${rom.filename.replace(/[^a-zA-Z0-9]/g, '-')}`}
-                    checked={selectedRomIdentifiers.includes(rom.filename)}
-                    onChange={() => toggleInitialRomSelection(rom.filename)}
+            {listedRoms.map((rom) => (
+              <div key={getScanKey(rom)} className="flex items-center p-2 hover:bg-neutral-700 rounded-md transition-colors duration-150">
+                <label htmlFor={`rom-initial-${getScanKey(rom).replace(/[^a-zA-Z0-9]/g, '-')}`} className="flex items-center space-x-2 cursor-pointer text-neutral-200 flex-grow">
+                  <input type="checkbox" id={`rom-initial-${getScanKey(rom).replace(/[^a-zA-Z0-9]/g, '-')}`}
+                    checked={selectedRomIdentifiers.includes(getScanKey(rom))}
+                    onChange={() => toggleInitialRomSelection(getScanKey(rom))}
                     className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
-                  <span>{rom.name}</span>
+                  <span>{rom.datMatch?.title || rom.name}</span>
+                  {rom.datMatch && <VerificationBadge status={rom.datMatch.status} datGameName={rom.datMatch.datGameName} />}
+                  {rom.relativePath.includes('/') && (
+                    <span className="text-xs text-neutral-500 truncate">{rom.relativePath.substring(0, rom.relativePath.lastIndexOf('/'))}</span>
+                  )}
+                  {rom.archiveEntry && (
+                    <span className="text-xs text-neutral-500 truncate">in {rom.relativePath.substring(rom.relativePath.lastIndexOf('/') + 1)}</span>
+                  )}
+                  {rom.discs && (
+                    <span className="text-xs text-neutral-400 whitespace-nowrap" title={rom.discs.map(disc => disc.filename).join('\n')}>{rom.discs.length} discs</span>
+                  )}
+                  {oneGameOneRom && <RomTagBadges game={parseRomFilenameTags(rom.archiveEntry?.split('/').pop() || rom.filename)} />}
+                  {getAlternates(rom).length > 0 && (
+                    <span className="text-xs text-neutral-400 whitespace-nowrap" title={getAlternates(rom).map(alternate => alternate.archiveEntry || alternate.filename).join('\n')}>
+                      +{getAlternates(rom).length} version{getAlternates(rom).length === 1 ? '' : 's'}
+                    </span>
+                  )}
                 </label>
               </div>
             ))}
           </div>
           <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-4 pt-4 border-t border-neutral-700">
             <Button onClick={handleEnrichRoms}
-              disabled={isLoading || scannedRoms.length === 0 || selectedRomIdentifiers.length === 0}
+              disabled={isLoading || listedRoms.length === 0 || selectedListedCount === 0}
               className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg shadow-md transition duration-150 ease-in-out disabled:opacity-60 disabled:cursor-not-allowed"
               title="Use AI to clean up names and suggest titles">
-              {isLoading ? 'Enriching...' : `Enrich Selected (${selectedRomIdentifiers.length})`}
+              {isLoading ? 'Enriching...' : `Enrich Selected (${selectedListedCount})`}
             </Button>
             <Button onClick={handleImportRoms}
-              disabled={isLoading || selectedRomIdentifiers.length === 0}
+              disabled={isLoading || selectedListedCount === 0}
               className="w-full sm:w-auto bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg shadow-md transition duration-150 ease-in-out disabled:opacity-60 disabled:cursor-not-allowed">
-              Import Selected ({selectedRomIdentifiers.length}) to Library
+              Import Selected ({selectedListedCount}) to Library
             </Button>
           </div>
           {enrichmentError && <p className="mt-2 text-sm text-red-400 bg-red-900/30 p-3 rounded-md text-center">{enrichmentError}</p>}
@@ -400,22 +734,25 @@ export const ScanRomsView: React.FC<ScanRomsViewProps> = ({ platforms, onAddGame
               </label>
             </div>
             {enrichedGameSuggestions.map((suggestion) => (
-              <div key={suggestion.filename} className="p-3 bg-neutral-700/30 rounded-md border border-neutral-700/50 hover:border-primary/50 transition-colors">
+              <div key={getScanKey(suggestion)} className="p-3 bg-neutral-700/30 rounded-md border border-neutral-700/50 hover:border-primary/50 transition-colors">
                 <div className="flex items-start space-x-3">
-                  <input type="checkbox" id={`rom-enriched-${suggestion.filename.replace(/[^a-zA-Z0-9]/g, '-')}`}
+                  <input type="checkbox" id={`rom-enriched-${getScanKey(suggestion).replace(/[^a-zA-Z0-9]/g, '-')}`}
                     checked={suggestion.is_selected_for_import}
-                    onChange={() => toggleEnrichedGameSelection(suggestion.filename)}
+                    onChange={() => toggleEnrichedGameSelection(getScanKey(suggestion))}
                     className="form-checkbox h-5 w-5 text-primary bg-neutral-600 border-neutral-500 focus:ring-primary-dark mt-1" />
                   <div className="flex-grow">
-                    <label htmlFor={`title-edit-${suggestion.filename}`} className="block text-xs text-neutral-400 mb-0.5">Original: {suggestion.original_name}</label>
+                    <label htmlFor={`title-edit-${getScanKey(suggestion)}`} className="block text-xs text-neutral-400 mb-0.5">Original: {suggestion.original_name}</label>
                     <Input type="text"
-                      id={`title-edit-${suggestion.filename}`}
+                      id={`title-edit-${getScanKey(suggestion)}`}
                       value={suggestion.user_title}
-                      onChange={(e) => handleUserTitleChange(suggestion.filename, e.target.value)}
+                      onChange={(e) => handleUserTitleChange(getScanKey(suggestion), e.target.value)}
                       inputClassName="w-full bg-neutral-600 border-neutral-500 text-white text-sm p-2 rounded focus:ring-primary focus:border-primary"
                       placeholder="Enter game title"
                     />
-                     <p className="text-xs text-neutral-500 mt-1">AI Suggestion: {suggestion.suggested_title}</p>
+                     <p className="text-xs text-neutral-500 mt-1 flex items-center gap-2">
+                       <span>{suggestion.datMatch?.title ? 'DAT Title' : 'AI Suggestion'}: {suggestion.suggested_title}</span>
+                       {suggestion.datMatch && <VerificationBadge status={suggestion.datMatch.status} datGameName={suggestion.datMatch.datGameName} />}
+                     </p>
                   </div>
                 </div>
               </div>
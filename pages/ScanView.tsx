@@ -8,6 +8,7 @@ const AI_STORAGE_KEY = 'selectedAiService';
 // import { Input } from '../components/Input';
 import { FolderOpenIcon, SearchIcon, SparklesIcon, UploadCloudIcon } from '../components/Icons'; // Using SparklesIcon for AI
 import { Game } from '../types'; // For storing enriched game data
+import { recordNewGameSources } from '../utils';
 
 interface ScannedFile {
   id: string; // Path can serve as ID
@@ -211,7 +212,7 @@ export const ScanView: React.FC<ScanViewProps> = ({ /* geminiApiKeyConfigured =
     }
     const gamesToImport: Game[] = scannedFiles
       .filter(file => file.selected && file.title) // Only import if selected and has a title (e.g. from AI)
-      .map(file => ({
+      .map(file => recordNewGameSources({
         id: crypto.randomUUID(), // Generate new ID for the game
         title: file.title!,
         platformId: platformId,
@@ -220,7 +221,7 @@ export const ScanView: React.FC<ScanViewProps> = ({ /* geminiApiKeyConfigured =
         description: file.description || '',
         genre: file.genre || '',
         releaseDate: file.releaseDate || '',
-      }));
+      }, 'ai')); // Titles and details all come from the AI enrichment
 
     if (gamesToImport.length > 0) {
       if (onAddGames) {
@@ -0,0 +1,452 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '../components/Button';
+import { Select } from '../components/Select';
+import { Platform, Game, ScrapeJob, ScrapeJobSummary, ScrapeJobResult, ScrapeFieldChanges, MetadataRefreshStatus } from '../types';
+import { getArtworkThumbnailUrl, getPlaceholderImage, applyScrapeResult } from '../utils';
+
+const SCRAPE_POLL_INTERVAL_MS = 2000;
+
+type ScrapeScope = 'missing' | 'all';
+
+const FIELD_LABELS: Record<keyof ScrapeFieldChanges, string> = {
+  description: 'Description',
+  genre: 'Genre',
+  genreIds: 'Genre IDs',
+  releaseDate: 'Release Date',
+  developer: 'Developer',
+  publisher: 'Publisher',
+  players: 'Players',
+  coverImageUrl: 'Cover Art',
+  theGamesDbId: 'TheGamesDB ID',
+  rawgId: 'RAWG ID',
+};
+
+// Source and genre IDs are recorded with the changes but aren't worth reviewing
+const ID_FIELDS: (keyof ScrapeFieldChanges)[] = ['genreIds', 'theGamesDbId', 'rawgId'];
+
+const STATUS_LABELS: Record<ScrapeJob['status'], string> = {
+  running: 'Running',
+  paused: 'Paused',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+// Only the fields the scraper reads are sent, so large libraries stay small on the wire
+const toScrapeJobGame = (game: Game) => ({
+  id: game.id,
+  title: game.title,
+  description: game.description,
+  genre: game.genre,
+  releaseDate: game.releaseDate,
+  developer: game.developer,
+  publisher: game.publisher,
+  players: game.players,
+  coverImageUrl: game.coverImageUrl,
+  theGamesDbId: game.theGamesDbId,
+  rawgId: game.rawgId,
+  romPath: game.romPath,
+  archiveEntry: game.archiveEntry,
+  romSize: game.romSize,
+  hashes: game.hashes,
+  lockedFields: game.lockedFields,
+});
+
+const isMissingMetadata = (game: Game) => !game.description || !game.genre || !game.releaseDate || !game.developer || !game.publisher || !game.coverImageUrl;
+
+// The server's scheduled refresh of games matched on TheGamesDB. The app applies what it finds in
+// the background, so this only shows when it last ran and lets the user run it now.
+const MetadataRefreshPanel: React.FC = () => {
+  const [status, setStatus] = useState<MetadataRefreshStatus | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/metadata/refresh');
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+      setStatus(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch metadata refresh status:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    setRefreshError(null);
+    try {
+      const response = await fetch('/api/metadata/refresh', { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Refresh failed (status: ${response.status})`);
+      }
+    } catch (error) {
+      console.error("Error running metadata refresh:", error);
+      setRefreshError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsRunning(false);
+      fetchStatus();
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <section className="max-w-3xl mx-auto bg-neutral-800 p-4 rounded-lg shadow-xl mb-8">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-neutral-200">Keep Metadata Up to Date</h2>
+        <Button size="sm" variant="secondary" onClick={handleRunNow} disabled={isRunning || status.running}>
+          {isRunning || status.running ? 'Checking...' : 'Check Now'}
+        </Button>
+      </div>
+      <p className="text-sm text-neutral-400 mt-1">
+        Games matched on TheGamesDB pick up later corrections made there
+        {status.intervalHours > 0 ? `, checked every ${status.intervalHours} hours` : ' (scheduled checks are off)'}.
+        Fields you edited, or that came from another source, are never changed.
+      </p>
+      <p className="text-xs text-neutral-500 mt-1">
+        {status.lastRunAt ? `Last checked ${new Date(status.lastRunAt).toLocaleString()}` : 'Not checked yet'}
+        {status.lastEditId !== null && ` · up to TheGamesDB edit ${status.lastEditId}`}
+        {status.updates.length > 0 && ` · ${status.updates.length} update${status.updates.length === 1 ? '' : 's'} waiting to be applied`}
+      </p>
+      {(refreshError || status.lastError) && <p className="text-xs text-yellow-400 mt-1">{refreshError || status.lastError}</p>}
+    </section>
+  );
+};
+
+interface ScrapeViewProps {
+  platforms: Platform[];
+  games: Game[];
+  onUpdateGame: (game: Game) => void; // Used to apply accepted matches
+  // The app applies auto-accepted matches in the background, for every job
+  autoApplyError: string | null;
+  autoAppliedAt: number; // Changes whenever auto-accepted matches were applied
+  onRetryAutoApply: () => void;
+}
+
+export const ScrapeView: React.FC<ScrapeViewProps> = ({ platforms, games, onUpdateGame, autoApplyError, autoAppliedAt, onRetryAutoApply }) => {
+  const [selectedPlatformId, setSelectedPlatformId] = useState<string>('');
+  const [scope, setScope] = useState<ScrapeScope>('missing');
+  const [overwrite, setOverwrite] = useState(false);
+  const [autoAccept, setAutoAccept] = useState(true);
+  const [jobs, setJobs] = useState<ScrapeJobSummary[]>([]);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [selectedJob, setSelectedJob] = useState<ScrapeJob | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [scrapeError, setScrapeError] = useState<string | null>(null);
+
+  const platformGames = games.filter(g => g.platformId === selectedPlatformId);
+  const gamesToScrape = scope === 'all' ? platformGames : platformGames.filter(isMissingMetadata);
+  const getPlatformName = (platformId: string) =>
+    platforms.find(p => p.id.toString() === platformId)?.name || `Platform ${platformId}`;
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/scrape/jobs');
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+      setJobs(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch scrape jobs:", error);
+    }
+  }, []);
+
+  const fetchSelectedJob = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/scrape/jobs/${encodeURIComponent(jobId)}`);
+      if (response.status === 404) {
+        setSelectedJobId(null);
+        setSelectedJob(null);
+        return;
+      }
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+      const job: ScrapeJob = await response.json();
+      setSelectedJob(job);
+      const { results, ...summary } = job;
+      setJobs(prev => prev.map(j => j.id === job.id ? summary : j));
+    } catch (error) {
+      console.error(`Failed to fetch scrape job ${jobId}:`, error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  // Follow the selected job while it is running
+  const isSelectedJobRunning = selectedJob?.status === 'running';
+  useEffect(() => {
+    if (!selectedJobId) return;
+    fetchSelectedJob(selectedJobId);
+    if (!isSelectedJobRunning) return;
+    const intervalId = setInterval(() => fetchSelectedJob(selectedJobId), SCRAPE_POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [selectedJobId, isSelectedJobRunning, fetchSelectedJob]);
+
+  const handleStart = async () => {
+    if (!selectedPlatformId || gamesToScrape.length === 0) return;
+    setIsStarting(true);
+    setScrapeError(null);
+    try {
+      const response = await fetch('/api/scrape/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platformId: selectedPlatformId, games: gamesToScrape.map(toScrapeJobGame), overwrite, autoAccept }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        if (response.status === 409 && data.jobId) setSelectedJobId(data.jobId);
+        throw new Error(data.error || `Failed to start scrape job (status: ${response.status})`);
+      }
+      await fetchJobs();
+      setSelectedJobId(data.id);
+    } catch (error) {
+      console.error("Error starting scrape job:", error);
+      setScrapeError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleJobAction = async (jobId: string, action: 'pause' | 'resume' | 'cancel' | 'delete') => {
+    setScrapeError(null);
+    try {
+      const response = action === 'delete'
+        ? await fetch(`/api/scrape/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' })
+        : await fetch(`/api/scrape/jobs/${encodeURIComponent(jobId)}/${action}`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to ${action} scrape job (status: ${response.status})`);
+      }
+      if (action === 'delete' && selectedJobId === jobId) {
+        setSelectedJobId(null);
+        setSelectedJob(null);
+      }
+      await fetchJobs();
+      if (action !== 'delete' && selectedJobId === jobId) await fetchSelectedJob(jobId);
+    } catch (error) {
+      console.error(`Error running ${action} on scrape job ${jobId}:`, error);
+      setScrapeError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  // Accepted matches are applied to the library here; the server only records the decision
+  const handleReview = async (results: ScrapeJobResult[], decision: 'accepted' | 'rejected') => {
+    if (!selectedJob || results.length === 0) return;
+    const reviewedIds: string[] = [];
+    for (const result of results) {
+      const game = games.find(g => g.id === result.gameId);
+      if (decision === 'accepted') {
+        if (!game || !result.changes) continue; // Deleted since the job ran
+        onUpdateGame(applyScrapeResult(game, result));
+      }
+      reviewedIds.push(result.gameId);
+    }
+    try {
+      const response = await fetch(`/api/scrape/jobs/${encodeURIComponent(selectedJob.id)}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ gameIds: reviewedIds, decision }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+      await fetchSelectedJob(selectedJob.id);
+    } catch (error) {
+      console.error("Error saving scrape review:", error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setScrapeError(decision === 'accepted' ? `Changes were applied, but the review could not be saved: ${message}` : `Could not save the review: ${message}`);
+    }
+  };
+
+  // Show the app's auto-accepted changes once they are applied
+  useEffect(() => {
+    if (!autoAppliedAt) return;
+    fetchJobs();
+    if (selectedJobId) fetchSelectedJob(selectedJobId);
+  }, [autoAppliedAt, selectedJobId, fetchJobs, fetchSelectedJob]);
+
+  // Auto-accepted matches are reviewed by the app, unless applying them failed
+  const pendingResults = selectedJob?.results.filter(r => r.review === 'pending' && (!r.autoAccept || autoApplyError)) || [];
+  const otherResults = selectedJob?.results.filter(r => r.review !== 'pending') || [];
+  const platformOptions = platforms.map(p => ({ value: p.id.toString(), label: p.name }));
+
+  return (
+    <div className="p-4 md:p-6 bg-neutral-900 text-white min-h-screen">
+      <header className="mb-6 md:mb-8">
+        <h1 className="text-3xl md:text-4xl font-display font-bold text-primary">Scrape Metadata</h1>
+        <p className="text-neutral-400 text-sm mt-1">
+          Look up a whole platform's games on TheGamesDB (or RAWG, when TheGamesDB has no match), then review each match before it changes your library.
+        </p>
+      </header>
+
+      <section className="space-y-4 max-w-3xl mx-auto bg-neutral-800 p-6 md:p-8 rounded-lg shadow-xl mb-8">
+        {platforms.length === 0 ? (
+          <p className="text-center text-yellow-400 bg-yellow-900/30 p-3 rounded-md">
+            You need to configure a platform first. Go to 'Platforms' to add one.
+          </p>
+        ) : (
+          <Select
+            label="Platform" value={selectedPlatformId} onChange={(e) => setSelectedPlatformId(e.target.value)}
+            options={platformOptions} placeholder="-- Select a Platform --"
+            disabled={isStarting}
+          />
+        )}
+        <Select
+          label="Games"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as ScrapeScope)}
+          options={[
+            { value: 'missing', label: 'Games missing a description, genre, release date, developer, publisher or cover' },
+            { value: 'all', label: 'All games on this platform' },
+          ]}
+          disabled={isStarting || !selectedPlatformId}
+        />
+        <label htmlFor="scrape-overwrite" className="flex items-center space-x-2 cursor-pointer text-neutral-300">
+          <input type="checkbox" id="scrape-overwrite"
+            checked={overwrite}
+            onChange={(e) => setOverwrite(e.target.checked)}
+            disabled={isStarting || !selectedPlatformId}
+            className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+          <span>Replace existing metadata (otherwise only empty fields are filled)</span>
+        </label>
+        <label htmlFor="scrape-auto-accept" className="flex items-center space-x-2 cursor-pointer text-neutral-300">
+          <input type="checkbox" id="scrape-auto-accept"
+            checked={autoAccept}
+            onChange={(e) => setAutoAccept(e.target.checked)}
+            disabled={isStarting || !selectedPlatformId}
+            className="form-checkbox h-5 w-5 text-primary bg-neutral-700 border-neutral-600 focus:ring-primary-dark" />
+          <span>Apply confident matches without review</span>
+        </label>
+        <Button
+          onClick={handleStart}
+          disabled={!selectedPlatformId || isStarting || gamesToScrape.length === 0}
+          className="w-full py-3"
+        >
+          {isStarting ? 'Starting...' : `Start Scraping (${gamesToScrape.length} game${gamesToScrape.length === 1 ? '' : 's'})`}
+        </Button>
+        <p className="text-xs text-neutral-500">
+          Games with ROM hashes are looked up by the name in the platform's DAT file; others by their title. Requests are spaced out to respect TheGamesDB's rate limits.
+        </p>
+        {scrapeError && <p className="text-sm text-red-400 bg-red-900/30 p-3 rounded-md text-center">{scrapeError}</p>}
+        {autoApplyError && (
+          <div className="flex justify-between items-center gap-3 text-sm text-red-400 bg-red-900/30 p-3 rounded-md">
+            <span>Confident matches could not be applied automatically: {autoApplyError}. Retry, or review them by hand.</span>
+            <Button size="sm" variant="secondary" onClick={onRetryAutoApply}>Retry</Button>
+          </div>
+        )}
+      </section>
+
+      <MetadataRefreshPanel />
+
+      {jobs.length > 0 && (
+        <section className="max-w-5xl mx-auto mb-8">
+          <h2 className="text-xl font-semibold text-neutral-200 mb-3">Jobs</h2>
+          <ul className="space-y-2">
+            {jobs.map(job => (
+              <li key={job.id}
+                className={`p-3 rounded-md text-sm flex flex-wrap items-center gap-3 ${job.id === selectedJobId ? 'bg-neutral-700 ring-1 ring-primary' : 'bg-neutral-800'}`}>
+                <button className="flex-grow text-left min-w-0" onClick={() => setSelectedJobId(job.id)}>
+                  <p className="text-neutral-200 truncate">
+                    {getPlatformName(job.platformId)} · {STATUS_LABELS[job.status]} · {job.processed}/{job.total}
+                    {job.pendingReview > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-primary text-white text-xs">{job.pendingReview} to review</span>}
+                  </p>
+                  <div className="mt-1 h-1.5 bg-neutral-600 rounded-full overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${job.total ? Math.round((job.processed / job.total) * 100) : 0}%` }} />
+                  </div>
+                  <p className="text-xs text-neutral-400 mt-1">
+                    {job.matched} matched · {job.noMatch} not found · {job.failed} failed · started {new Date(job.createdAt).toLocaleString()}
+                  </p>
+                  {job.error && <p className="text-xs text-yellow-400 mt-1">{job.error}</p>}
+                </button>
+                <div className="flex space-x-2 flex-shrink-0">
+                  {job.status === 'running' && <Button size="sm" variant="secondary" onClick={() => handleJobAction(job.id, 'pause')}>Pause</Button>}
+                  {job.status === 'paused' && <Button size="sm" variant="secondary" onClick={() => handleJobAction(job.id, 'resume')}>Resume</Button>}
+                  {!job.finishedAt && <Button size="sm" variant="danger" onClick={() => handleJobAction(job.id, 'cancel')}>Cancel</Button>}
+                  {job.finishedAt && <Button size="sm" variant="ghost" onClick={() => handleJobAction(job.id, 'delete')}>Remove</Button>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {selectedJob && (
+        <section className="max-w-5xl mx-auto">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-xl font-semibold text-neutral-200">Review Matches ({pendingResults.length})</h2>
+            <div className="space-x-2">
+              <Button size="sm" variant="secondary" onClick={() => handleReview(pendingResults, 'rejected')} disabled={pendingResults.length === 0}>Reject All</Button>
+              <Button size="sm" onClick={() => handleReview(pendingResults, 'accepted')} disabled={pendingResults.length === 0}>Accept All</Button>
+            </div>
+          </div>
+          {pendingResults.length === 0 && (
+            <p className="text-neutral-500 text-center py-4">
+              {selectedJob.status === 'running' ? 'Matches will appear here as they are found.' : 'Nothing left to review.'}
+            </p>
+          )}
+          <ul className="space-y-3">
+            {pendingResults.map(result => (
+              <li key={result.gameId} className="p-4 bg-neutral-800 rounded-lg flex gap-4">
+                <img
+                  src={result.match?.coverImageUrl ? getArtworkThumbnailUrl(result.match.coverImageUrl) : getPlaceholderImage(result.match?.title || result.title, result.gameId)}
+                  alt={result.match?.title || result.title}
+                  className="w-16 h-20 object-cover rounded flex-shrink-0 bg-neutral-700"
+                />
+                <div className="flex-grow min-w-0">
+                  <p className="text-neutral-100 font-semibold truncate">
+                    {result.title} → {result.match?.title}
+                    {result.match?.releaseDate?.match(/^\d{4}/) && <span className="text-neutral-400 font-normal"> ({result.match.releaseDate.slice(0, 4)})</span>}
+                  </p>
+                  <p className="text-xs text-neutral-400 mb-2">
+                    {result.searchedBy === 'hash' ? `Found by ROM hash as "${result.searchTitle}"` : `Searched for "${result.searchTitle}"`}
+                    {result.source === 'RAWG' && ' · no TheGamesDB match, found on RAWG'}
+                    {result.score !== undefined && (
+                      <span className={result.score < 0.9 ? 'text-yellow-400' : 'text-green-400'}> · {Math.round(result.score * 100)}% match</span>
+                    )}
+                    {result.candidates && result.candidates.length > 1 && ` · other results: ${result.candidates.filter(c => c.id !== result.match?.id).map(c => `${c.title} (${Math.round(c.score * 100)}%)`).join(', ')}`}
+                  </p>
+                  <dl className="text-xs space-y-1">
+                    {(Object.keys(result.changes || {}) as (keyof ScrapeFieldChanges)[]).filter(field => !ID_FIELDS.includes(field)).map(field => (
+                      <div key={field} className="flex gap-2">
+                        <dt className="text-neutral-500 w-24 flex-shrink-0">{FIELD_LABELS[field]}</dt>
+                        <dd className="text-neutral-300 line-clamp-2">{String(result.changes![field])}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+                <div className="flex flex-col space-y-2 flex-shrink-0">
+                  <Button size="sm" onClick={() => handleReview([result], 'accepted')}>Accept</Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleReview([result], 'rejected')}>Reject</Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          {otherResults.length > 0 && (
+            <details className="mt-6 text-sm">
+              <summary className="cursor-pointer text-neutral-400">Other results ({otherResults.length})</summary>
+              <ul className="mt-2 space-y-1">
+                {otherResults.map(result => (
+                  <li key={result.gameId} className="flex justify-between gap-3 px-3 py-2 bg-neutral-800/60 rounded">
+                    <span className="text-neutral-300 truncate">{result.title}</span>
+                    <span className="text-neutral-500 flex-shrink-0">
+                      {result.status === 'error' ? `Error: ${result.error}`
+                        : result.status === 'no_match' ? 'Not found'
+                        : result.review === 'pending' ? 'Applying...'
+                        : result.review ? (result.review === 'accepted' ? (result.autoAccept ? 'Accepted automatically' : 'Accepted') : 'Rejected')
+                        : 'Already up to date'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,334 @@
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { execFile, spawn } from 'child_process';
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export const ARCHIVE_EXTENSIONS = ['zip', '7z'];
+
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_EOCD_MIN_SIZE = 22;
+const ZIP_MAX_COMMENT_SIZE = 0xffff;
+
+// 7-Zip has no pure-JS reader here, so .7z archives go through the 7z command-line tool
+const getSevenZipPath = () => process.env.SEVEN_ZIP_PATH || '7z';
+
+export const isArchiveFile = (fileName) => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 && ARCHIVE_EXTENSIONS.includes(fileName.substring(dotIndex + 1).toLowerCase());
+};
+
+const readBytes = async (fileHandle, position, length) => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await fileHandle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+};
+
+// Locates the central directory via the end-of-central-directory record (and its ZIP64 variant)
+const readZipDirectoryLocation = async (fileHandle, fileSize) => {
+  const tailLength = Math.min(fileSize, ZIP_EOCD_MIN_SIZE + ZIP_MAX_COMMENT_SIZE);
+  const tail = await readBytes(fileHandle, fileSize - tailLength, tailLength);
+
+  for (let offset = tail.length - ZIP_EOCD_MIN_SIZE; offset >= 0; offset--) {
+    if (tail.readUInt32LE(offset) !== ZIP_EOCD_SIGNATURE) continue;
+
+    let entryCount = tail.readUInt16LE(offset + 10);
+    let directorySize = tail.readUInt32LE(offset + 12);
+    let directoryOffset = tail.readUInt32LE(offset + 16);
+
+    const locatorOffset = offset - 20;
+    if (locatorOffset >= 0 && tail.readUInt32LE(locatorOffset) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const zip64RecordOffset = Number(tail.readBigUInt64LE(locatorOffset + 8));
+      const zip64Record = await readBytes(fileHandle, zip64RecordOffset, 56);
+      if (zip64Record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+        throw new Error('Corrupt ZIP64 end of central directory record.');
+      }
+      entryCount = Number(zip64Record.readBigUInt64LE(32));
+      directorySize = Number(zip64Record.readBigUInt64LE(40));
+      directoryOffset = Number(zip64Record.readBigUInt64LE(48));
+    }
+
+    return { entryCount, directorySize, directoryOffset };
+  }
+
+  throw new Error('Not a ZIP archive (end of central directory not found).');
+};
+
+/**
+ * Lists the entries of a ZIP archive from its central directory, without decompressing anything.
+ * Returns [{ name, size, compressedSize, crc32, isDirectory, encrypted, method, localHeaderOffset }].
+ */
+export const listZipEntries = async (archivePath) => {
+  const fileHandle = await fs.open(archivePath, 'r');
+  try {
+    const { size: fileSize } = await fileHandle.stat();
+    const { entryCount, directorySize, directoryOffset } = await readZipDirectoryLocation(fileHandle, fileSize);
+    const directory = await readBytes(fileHandle, directoryOffset, directorySize);
+    const entries = [];
+
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER_SIGNATURE) {
+        throw new Error('Corrupt ZIP central directory.');
+      }
+      const flags = directory.readUInt16LE(offset + 8);
+      const method = directory.readUInt16LE(offset + 10);
+      const crc32 = directory.readUInt32LE(offset + 16);
+      let compressedSize = directory.readUInt32LE(offset + 20);
+      let size = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      let localHeaderOffset = directory.readUInt32LE(offset + 42);
+
+      const nameStart = offset + 46;
+      // Bit 11 marks UTF-8 names; older archivers use code page 437, which is ASCII for ROM names
+      const name = directory.toString(flags & 0x800 ? 'utf8' : 'latin1', nameStart, nameStart + nameLength);
+
+      // ZIP64 extra field carries the real values of any field stored as 0xFFFFFFFF, in this order
+      const extra = directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength);
+      for (let extraOffset = 0; extraOffset + 4 <= extra.length;) {
+        const headerId = extra.readUInt16LE(extraOffset);
+        const dataSize = extra.readUInt16LE(extraOffset + 2);
+        if (headerId === 0x0001) {
+          let fieldOffset = extraOffset + 4;
+          if (size === 0xffffffff) { size = Number(extra.readBigUInt64LE(fieldOffset)); fieldOffset += 8; }
+          if (compressedSize === 0xffffffff) { compressedSize = Number(extra.readBigUInt64LE(fieldOffset)); fieldOffset += 8; }
+          if (localHeaderOffset === 0xffffffff) { localHeaderOffset = Number(extra.readBigUInt64LE(fieldOffset)); }
+        }
+        extraOffset += 4 + dataSize;
+      }
+
+      entries.push({
+        name,
+        size,
+        compressedSize,
+        crc32: crc32.toString(16).padStart(8, '0'),
+        isDirectory: name.endsWith('/'),
+        encrypted: (flags & 0x1) !== 0,
+        method,
+        localHeaderOffset,
+      });
+      offset = nameStart + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await fileHandle.close();
+  }
+};
+
+const openZipEntryStream = async (archivePath, entry) => {
+  if (entry.encrypted) {
+    throw new Error(`Archive entry is encrypted: ${entry.name}`);
+  }
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for entry: ${entry.name}`);
+  }
+
+  const fileHandle = await fs.open(archivePath, 'r');
+  let localHeader;
+  try {
+    localHeader = await readBytes(fileHandle, entry.localHeaderOffset, 30);
+  } finally {
+    await fileHandle.close();
+  }
+  if (localHeader.length < 30 || localHeader.readUInt32LE(0) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP local header for entry: ${entry.name}`);
+  }
+
+  // The local header's name and extra lengths can differ from the central directory's
+  const dataStart = entry.localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+  const rawStream = entry.compressedSize > 0
+    ? createReadStream(archivePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 })
+    : Readable.from([]);
+
+  return entry.method === 8 ? rawStream.pipe(zlib.createInflateRaw()) : rawStream;
+};
+
+// Parses `7z l -slt` output: blocks of "Key = Value" lines, one per entry, after a "----------" line
+const parseSevenZipListing = (output) => {
+  const listing = output.split(/\r?\n----------\r?\n/)[1] || '';
+  return listing.split(/\r?\n\r?\n/)
+    .map(block => Object.fromEntries(block.split(/\r?\n/)
+      .map(line => line.match(/^([^=]+?) = (.*)$/))
+      .filter(Boolean)
+      .map(match => [match[1], match[2]])))
+    .filter(fields => fields.Path)
+    .map(fields => ({
+      name: fields.Path.replace(/\\/g, '/'),
+      size: Number(fields.Size || 0),
+      compressedSize: Number(fields['Packed Size'] || 0),
+      crc32: (fields.CRC || '').toLowerCase() || null,
+      isDirectory: fields.Folder === '+' || (fields.Attributes || '').startsWith('D'),
+      encrypted: fields.Encrypted === '+',
+    }));
+};
+
+const runSevenZip = (args) => {
+  return new Promise((resolve, reject) => {
+    execFile(getSevenZipPath(), args, { maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        if (error.code === 'ENOENT') {
+          return reject(new Error('7-Zip executable not found. Install 7-Zip or set SEVEN_ZIP_PATH to read .7z archives.'));
+        }
+        return reject(new Error(`7-Zip failed: ${(stderr || error.message).trim()}`));
+      }
+      resolve(stdout);
+    });
+  });
+};
+
+// `--` ends the switches, so a path starting with "-" or "@" isn't read as a switch or a list
+// file; -spd turns off wildcard matching, so an entry named "*.nes" only extracts itself
+export const listSevenZipEntries = async (archivePath) => {
+  return parseSevenZipListing(await runSevenZip(['l', '-slt', '--', archivePath]));
+};
+
+const openSevenZipEntryStream = (archivePath, entry) => {
+  const child = spawn(getSevenZipPath(), ['e', '-so', '-spd', '--', archivePath, entry.name], { stdio: ['ignore', 'pipe', 'ignore'] });
+  child.on('error', (error) => child.stdout.destroy(error));
+  child.on('exit', (code) => {
+    if (code !== 0) {
+      child.stdout.destroy(new Error(`7-Zip exited with code ${code} while extracting: ${entry.name}`));
+    }
+  });
+  return child.stdout;
+};
+
+/**
+ * Lists the file entries of a .zip or .7z archive with sizes and CRC32s from the archive headers.
+ * Directory entries are omitted.
+ */
+export const listArchiveEntries = async (archivePath) => {
+  const entries = archivePath.toLowerCase().endsWith('.7z')
+    ? await listSevenZipEntries(archivePath)
+    : await listZipEntries(archivePath);
+  return entries.filter(entry => !entry.isDirectory);
+};
+
+const findArchiveEntry = async (archivePath, entryName) => {
+  const entry = (await listArchiveEntries(archivePath)).find(e => e.name === entryName);
+  if (!entry) {
+    throw new Error(`Entry not found in archive: ${entryName}`);
+  }
+  return entry;
+};
+
+// Opens a readable stream of an archive entry's decompressed contents
+export const openArchiveEntryStream = async (archivePath, entryName) => {
+  const entry = await findArchiveEntry(archivePath, entryName);
+  return archivePath.toLowerCase().endsWith('.7z')
+    ? openSevenZipEntryStream(archivePath, entry)
+    : openZipEntryStream(archivePath, entry);
+};
+
+const getArchiveCacheDir = () => process.env.ARCHIVE_CACHE_DIR || path.join(os.tmpdir(), 'retro-game-launcher', 'archive-cache');
+const getArchiveCacheMaxBytes = () => parseInt(process.env.ARCHIVE_CACHE_MAX_MB || '4096', 10) * 1024 * 1024;
+// Extractions not used for this long are removed even when the cache is under its size limit
+const ARCHIVE_CACHE_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+const getDirectorySize = async (dir) => {
+  let size = 0;
+  for (const name of await fs.readdir(dir)) {
+    size += (await fs.stat(path.join(dir, name))).size;
+  }
+  return size;
+};
+
+// Removes extractions, least recently used first, until the cache is under its size limit, and
+// any that haven't been used for ARCHIVE_CACHE_MAX_AGE_MS. The extraction in keepDir is left alone.
+const pruneArchiveCache = async (keepDir) => {
+  const cacheRoot = getArchiveCacheDir();
+  let names;
+  try {
+    names = await fs.readdir(cacheRoot);
+  } catch (error) {
+    if (error.code === 'ENOENT') return;
+    throw error;
+  }
+
+  let totalSize = 0;
+  const extractions = [];
+  for (const name of names) {
+    const dir = path.join(cacheRoot, name);
+    try {
+      const size = await getDirectorySize(dir);
+      totalSize += size;
+      if (dir !== keepDir) {
+        extractions.push({ dir, size, usedAt: (await fs.stat(dir)).mtimeMs });
+      }
+    } catch {
+      continue; // Not a directory, or removed by a concurrent prune
+    }
+  }
+
+  const now = Date.now();
+  extractions.sort((a, b) => a.usedAt - b.usedAt);
+  for (const { dir, size, usedAt } of extractions) {
+    if (totalSize <= getArchiveCacheMaxBytes() && now - usedAt < ARCHIVE_CACHE_MAX_AGE_MS) continue;
+    try {
+      await fs.rm(dir, { recursive: true, force: true });
+      totalSize -= size;
+    } catch (error) {
+      console.warn(`Could not remove cached extraction ${dir}: ${error.message}`);
+    }
+  }
+};
+
+const extractToCacheDir = async (archivePath, entryName) => {
+  const archiveStats = await fs.stat(archivePath);
+  const cacheKey = crypto.createHash('sha1')
+    .update(`${archivePath}\0${archiveStats.size}\0${archiveStats.mtimeMs}\0${entryName}`)
+    .digest('hex');
+  const cacheDir = path.join(getArchiveCacheDir(), cacheKey);
+  const extractedPath = path.join(cacheDir, path.basename(entryName));
+
+  const entry = await findArchiveEntry(archivePath, entryName);
+  try {
+    const extractedStats = await fs.stat(extractedPath);
+    if (extractedStats.size === entry.size) {
+      const now = new Date();
+      await fs.utimes(cacheDir, now, now); // Marks the extraction as recently used
+      return extractedPath;
+    }
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+
+  await fs.mkdir(cacheDir, { recursive: true });
+  // Write to a temporary name first so an interrupted extraction is never mistaken for a complete one
+  const partialPath = `${extractedPath}.${crypto.randomUUID()}.partial`; // Unique, for concurrent launches of the same game
+  const entryStream = archivePath.toLowerCase().endsWith('.7z')
+    ? openSevenZipEntryStream(archivePath, entry)
+    : await openZipEntryStream(archivePath, entry);
+  try {
+    await pipeline(entryStream, createWriteStream(partialPath));
+  } catch (error) {
+    await fs.rm(partialPath, { force: true });
+    throw error;
+  }
+  await fs.rename(partialPath, extractedPath);
+  return extractedPath;
+};
+
+/**
+ * Extracts a single archive entry into the temp cache for emulators that can't read archives,
+ * and returns the extracted file's path. The cache key includes the archive's size and mtime,
+ * so a replaced archive is extracted again; an existing extraction is reused otherwise. The cache
+ * is kept under ARCHIVE_CACHE_MAX_MB (default 4096) by removing the least recently used extractions.
+ */
+export const extractArchiveEntryToCache = async (archivePath, entryName) => {
+  const extractedPath = await extractToCacheDir(archivePath, entryName);
+  // Dropping old extractions must not keep the game from launching
+  await pruneArchiveCache(path.dirname(extractedPath))
+    .catch(error => console.warn(`Could not prune the archive cache: ${error.message}`));
+  return extractedPath;
+};
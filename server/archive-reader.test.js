@@ -0,0 +1,200 @@
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { promises as fs } from 'fs';
+import { isArchiveFile, listZipEntries, listArchiveEntries, openArchiveEntryStream, extractArchiveEntryToCache } from './archive-reader.js';
+import { updateCrc32, formatCrc32 } from './rom-hasher.js';
+
+// Builds a ZIP archive in memory. Entries are { name, data, deflate?, localExtra? }; with zip64, the
+// sizes and offsets are moved into ZIP64 extra fields and a ZIP64 end of central directory is written.
+const buildZip = (entries, { zip64 = false, comment = '' } = {}) => {
+  const localParts = [];
+  const centralParts = [];
+  let offset = 0;
+
+  for (const { name, data, deflate = false, localExtra = Buffer.alloc(0) } of entries) {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const contents = Buffer.from(data);
+    const stored = deflate ? zlib.deflateRawSync(contents) : contents;
+    const crc32 = updateCrc32(0, contents);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(crc32, 14);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(contents.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    local.writeUInt16LE(localExtra.length, 28);
+    localParts.push(local, nameBuffer, localExtra, stored);
+
+    let extra = Buffer.alloc(0);
+    if (zip64) {
+      extra = Buffer.alloc(28);
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(contents.length), 4);
+      extra.writeBigUInt64LE(BigInt(stored.length), 12);
+      extra.writeBigUInt64LE(BigInt(offset), 20);
+    }
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(zip64 ? 45 : 20, 4);
+    central.writeUInt16LE(zip64 ? 45 : 20, 6);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(crc32, 16);
+    central.writeUInt32LE(zip64 ? 0xffffffff : stored.length, 20);
+    central.writeUInt32LE(zip64 ? 0xffffffff : contents.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt16LE(extra.length, 30);
+    central.writeUInt32LE(zip64 ? 0xffffffff : offset, 42);
+    centralParts.push(central, nameBuffer, extra);
+
+    offset += 30 + nameBuffer.length + localExtra.length + stored.length;
+  }
+
+  const directory = Buffer.concat(centralParts);
+  const directoryOffset = offset;
+  const trailer = [];
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(entries.length), 24);
+    record.writeBigUInt64LE(BigInt(entries.length), 32);
+    record.writeBigUInt64LE(BigInt(directory.length), 40);
+    record.writeBigUInt64LE(BigInt(directoryOffset), 48);
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(directoryOffset + directory.length), 8);
+    locator.writeUInt32LE(1, 16);
+    trailer.push(record, locator);
+  }
+  const commentBuffer = Buffer.from(comment);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(zip64 ? 0xffff : entries.length, 8);
+  end.writeUInt16LE(zip64 ? 0xffff : entries.length, 10);
+  end.writeUInt32LE(zip64 ? 0xffffffff : directory.length, 12);
+  end.writeUInt32LE(zip64 ? 0xffffffff : directoryOffset, 16);
+  end.writeUInt16LE(commentBuffer.length, 20);
+
+  return Buffer.concat([...localParts, directory, ...trailer, end, commentBuffer]);
+};
+
+const readStream = async (stream) => {
+  const chunks = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+const ENTRIES = [
+  { name: 'USA/', data: '' },
+  { name: 'USA/Contra (USA).nes', data: 'contra '.repeat(100), deflate: true },
+  { name: 'Metroid (Japan) ★.nes', data: 'metroid', localExtra: Buffer.from([0x99, 0x99, 0x02, 0x00, 0x00, 0x00]) },
+];
+
+describe('archive reader', () => {
+  let tempDir;
+
+  const writeArchive = async (fileName, buffer) => {
+    const archivePath = path.join(tempDir, fileName);
+    await fs.writeFile(archivePath, buffer);
+    return archivePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-reader-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('recognizes archives by extension', () => {
+    expect(isArchiveFile('Game.ZIP')).toBe(true);
+    expect(isArchiveFile('Game.7z')).toBe(true);
+    expect(isArchiveFile('Game.nes')).toBe(false);
+    expect(isArchiveFile('.zip')).toBe(false);
+  });
+
+  test('lists entries from the central directory', async () => {
+    const archivePath = await writeArchive('games.zip', buildZip(ENTRIES, { comment: 'Packed by a test' }));
+    const entries = await listZipEntries(archivePath);
+    expect(entries.map(({ name, size, crc32, isDirectory, method }) => ({ name, size, crc32, isDirectory, method }))).toEqual([
+      { name: 'USA/', size: 0, crc32: '00000000', isDirectory: true, method: 0 },
+      { name: 'USA/Contra (USA).nes', size: 700, crc32: formatCrc32(updateCrc32(0, Buffer.from(ENTRIES[1].data))), isDirectory: false, method: 8 },
+      { name: 'Metroid (Japan) ★.nes', size: 7, crc32: formatCrc32(updateCrc32(0, Buffer.from('metroid'))), isDirectory: false, method: 0 },
+    ]);
+    expect(entries[1].compressedSize).toBeLessThan(700);
+    // Directory entries are left out of the public listing
+    expect((await listArchiveEntries(archivePath)).map(entry => entry.name)).toEqual(['USA/Contra (USA).nes', 'Metroid (Japan) ★.nes']);
+  });
+
+  test('reads sizes and offsets from ZIP64 records', async () => {
+    const archivePath = await writeArchive('games64.zip', buildZip(ENTRIES, { zip64: true }));
+    const entries = await listZipEntries(archivePath);
+    expect(entries.map(({ name, size }) => ({ name, size }))).toEqual([
+      { name: 'USA/', size: 0 },
+      { name: 'USA/Contra (USA).nes', size: 700 },
+      { name: 'Metroid (Japan) ★.nes', size: 7 },
+    ]);
+    expect(entries[1].localHeaderOffset).toBe(34);
+    expect((await readStream(await openArchiveEntryStream(archivePath, 'Metroid (Japan) ★.nes'))).toString()).toBe('metroid');
+  });
+
+  test('rejects files that are not ZIP archives', async () => {
+    const archivePath = await writeArchive('fake.zip', Buffer.from('not a zip archive at all, just some text'));
+    await expect(listZipEntries(archivePath)).rejects.toThrow('Not a ZIP archive');
+  });
+
+  test('streams stored and deflated entries, skipping local extra fields', async () => {
+    const archivePath = await writeArchive('games.zip', buildZip(ENTRIES));
+    expect((await readStream(await openArchiveEntryStream(archivePath, 'USA/Contra (USA).nes'))).toString()).toBe(ENTRIES[1].data);
+    expect((await readStream(await openArchiveEntryStream(archivePath, 'Metroid (Japan) ★.nes'))).toString()).toBe('metroid');
+    await expect(openArchiveEntryStream(archivePath, 'Missing.nes')).rejects.toThrow('Entry not found in archive');
+  });
+
+  test('extracts an entry to the cache once and reuses it', async () => {
+    process.env.ARCHIVE_CACHE_DIR = path.join(tempDir, 'cache');
+    try {
+      const archivePath = await writeArchive('games.zip', buildZip(ENTRIES));
+      const extractedPath = await extractArchiveEntryToCache(archivePath, 'USA/Contra (USA).nes');
+      expect(path.basename(extractedPath)).toBe('Contra (USA).nes');
+      expect(await fs.readFile(extractedPath, 'utf8')).toBe(ENTRIES[1].data);
+      expect(await fs.readdir(path.dirname(extractedPath))).toEqual(['Contra (USA).nes']);
+
+      const { mtimeMs } = await fs.stat(extractedPath);
+      expect(await extractArchiveEntryToCache(archivePath, 'USA/Contra (USA).nes')).toBe(extractedPath);
+      expect((await fs.stat(extractedPath)).mtimeMs).toBe(mtimeMs);
+    } finally {
+      delete process.env.ARCHIVE_CACHE_DIR;
+    }
+  });
+
+  test('removes the least recently used extractions once the cache is over its size limit', async () => {
+    process.env.ARCHIVE_CACHE_DIR = path.join(tempDir, 'cache');
+    process.env.ARCHIVE_CACHE_MAX_MB = '1';
+    try {
+      const extractedPaths = [];
+      for (const name of ['a', 'b', 'c']) {
+        const archivePath = await writeArchive(`${name}.zip`, buildZip([{ name: `${name}.nes`, data: Buffer.alloc(400 * 1024, name) }]));
+        const extractedPath = await extractArchiveEntryToCache(archivePath, `${name}.nes`);
+        // Directory times have a coarse resolution on some filesystems
+        const usedAt = new Date(Date.now() - (3 - extractedPaths.length) * 60000);
+        await fs.utimes(path.dirname(extractedPath), usedAt, usedAt);
+        extractedPaths.push(extractedPath);
+      }
+      const exists = (filePath) => fs.stat(filePath).then(() => true, () => false);
+      expect(await Promise.all(extractedPaths.map(exists))).toEqual([false, true, true]);
+    } finally {
+      delete process.env.ARCHIVE_CACHE_DIR;
+      delete process.env.ARCHIVE_CACHE_MAX_MB;
+    }
+  });
+});
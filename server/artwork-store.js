@@ -0,0 +1,199 @@
+import path from 'path';
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import axios from 'axios';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { readDataFile, writeDataFile } from './data-store.js';
+
+// Local copies of remote artwork (box art, fanart, banners, platform icons), so the library works
+// offline. Images are downloaded once into server/data/art/ and indexed in `server/data/artwork.json`
+// by an ID derived from the source URL; the client stores `/api/art/<id>` instead of the remote URL.
+
+export const ARTWORK_DATA_TYPE = 'artwork';
+
+const MAX_ARTWORK_BYTES = 20 * 1024 * 1024;
+const THUMBNAIL_SIZE = '300x400';
+
+// SVGs aren't accepted: served from the app's own origin, their scripts would run there
+const CONTENT_TYPE_EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+};
+
+// Thumbnails need an image library; ImageMagick's command-line tool is used when it's installed
+const getImageMagickPath = () => process.env.IMAGEMAGICK_PATH || 'magick';
+let isImageMagickMissing = false;
+
+// Artwork URLs come from the client, so downloads may only reach public addresses: loopback,
+// private-network and link-local hosts would let any URL probe services on this machine or its
+// network. ARTWORK_ALLOW_PRIVATE_ADDRESSES=true lifts this for artwork served from the local network.
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([address, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+const isPublicAddress = (address) => {
+  if (process.env.ARTWORK_ALLOW_PRIVATE_ADDRESSES === 'true') return true;
+  const family = net.isIP(address);
+  return family !== 0 && !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+const createUrlNotAllowedError = (hostname) => {
+  const error = new Error(`Artwork can only be downloaded from public addresses: ${hostname}`);
+  error.code = 'ARTWORK_URL_NOT_ALLOWED';
+  return error;
+};
+
+// Host names are checked as they are resolved for each connection, redirects included, so a name
+// that resolves differently the second time can't get around the check
+const lookupPublicAddress = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(createUrlNotAllowedError(hostname));
+    }
+    return options.all ? callback(null, addresses) : callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Addresses written into a URL are connected to without a lookup, so they are checked here
+const assertPublicUrl = (url) => {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw createUrlNotAllowedError(hostname);
+  }
+  const address = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (net.isIP(address) && !isPublicAddress(address)) {
+    throw createUrlNotAllowedError(hostname);
+  }
+};
+
+const getArtDir = () => path.join(process.cwd(), 'server', 'data', 'art');
+
+export const getArtworkId = (sourceUrl) => crypto.createHash('sha1').update(sourceUrl).digest('hex').substring(0, 20);
+
+export const isArtworkId = (id) => /^[0-9a-f]{20}$/.test(id);
+
+// Hosts that send images as application/octet-stream are identified by their first bytes
+const sniffContentType = (buffer) => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47) return 'image/png';
+  if (buffer.length >= 6 && buffer.toString('latin1', 0, 3) === 'GIF') return 'image/gif';
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') return 'image/webp';
+  return null;
+};
+
+const createThumbnail = (sourcePath, thumbnailPath) => {
+  if (isImageMagickMissing) return Promise.resolve(false);
+  return new Promise((resolve) => {
+    // `>` only shrinks, so small icons are left as they are
+    execFile(getImageMagickPath(), [sourcePath, '-thumbnail', `${THUMBNAIL_SIZE}>`, thumbnailPath], { timeout: 30000 }, (error) => {
+      if (error) {
+        if (error.code === 'ENOENT') {
+          isImageMagickMissing = true;
+          console.warn('ImageMagick not found; artwork thumbnails will use the full-size images. Install it or set IMAGEMAGICK_PATH.');
+        } else {
+          console.warn(`Could not create thumbnail for ${path.basename(sourcePath)}: ${error.message}`);
+        }
+        return resolve(false);
+      }
+      resolve(true);
+    });
+  });
+};
+
+// Serializes read-modify-write cycles on the index so concurrent downloads don't drop entries
+let indexWriteQueue = Promise.resolve();
+
+const updateArtworkIndex = (mutate) => {
+  indexWriteQueue = indexWriteQueue.then(async () => {
+    const index = await readDataFile(ARTWORK_DATA_TYPE, {});
+    await writeDataFile(ARTWORK_DATA_TYPE, mutate(index));
+  });
+  const result = indexWriteQueue;
+  indexWriteQueue = indexWriteQueue.catch(error => console.error('Error updating artwork index:', error));
+  return result;
+};
+
+export const getArtwork = async (id) => (await readDataFile(ARTWORK_DATA_TYPE, {}))[id] || null;
+
+const inFlightDownloads = new Map(); // sourceUrl -> Promise<entry>
+
+const downloadArtwork = async (sourceUrl) => {
+  assertPublicUrl(sourceUrl);
+  const response = await axios.get(sourceUrl, {
+    responseType: 'arraybuffer',
+    maxContentLength: MAX_ARTWORK_BYTES,
+    timeout: parseInt(process.env.EXTERNAL_API_TIMEOUT || '10000', 10),
+    lookup: lookupPublicAddress,
+    beforeRedirect: (options) => assertPublicUrl(options.href),
+  });
+  const buffer = Buffer.from(response.data);
+  const headerType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  const contentType = CONTENT_TYPE_EXTENSIONS[headerType] ? headerType : sniffContentType(buffer);
+  if (!contentType) {
+    throw new Error(`Not an image (${headerType || 'unknown content type'}): ${sourceUrl}`);
+  }
+
+  const id = getArtworkId(sourceUrl);
+  const fileName = `${id}.${CONTENT_TYPE_EXTENSIONS[contentType]}`;
+  const artDir = getArtDir();
+  await fs.mkdir(path.join(artDir, 'thumbs'), { recursive: true });
+  await fs.writeFile(path.join(artDir, fileName), buffer);
+
+  // A JPEG thumbnail is made when ImageMagick is available
+  const thumbnailFileName = `${id}.jpg`;
+  const hasThumbnail = await createThumbnail(path.join(artDir, fileName), path.join(artDir, 'thumbs', thumbnailFileName));
+
+  const entry = {
+    id,
+    sourceUrl,
+    contentType,
+    size: buffer.length,
+    fileName,
+    thumbnailFileName: hasThumbnail ? thumbnailFileName : null,
+    fetchedAt: new Date().toISOString(),
+  };
+  await updateArtworkIndex(index => ({ ...index, [id]: entry }));
+  return entry;
+};
+
+/**
+ * Returns the local artwork entry for a remote image URL, downloading it first if it isn't stored
+ * yet. Concurrent requests for the same URL share one download.
+ */
+export const cacheArtwork = async (sourceUrl) => {
+  const existing = await getArtwork(getArtworkId(sourceUrl));
+  if (existing && existing.sourceUrl === sourceUrl) {
+    try {
+      await fs.access(path.join(getArtDir(), existing.fileName));
+      return existing;
+    } catch {
+      // File was deleted; download it again
+    }
+  }
+
+  if (!inFlightDownloads.has(sourceUrl)) {
+    inFlightDownloads.set(sourceUrl, downloadArtwork(sourceUrl).finally(() => inFlightDownloads.delete(sourceUrl)));
+  }
+  return inFlightDownloads.get(sourceUrl);
+};
+
+// Absolute path of a stored image, or of its thumbnail when one exists
+export const getArtworkFilePath = (entry, thumbnail = false) => {
+  if (thumbnail && entry.thumbnailFileName) {
+    return path.join(getArtDir(), 'thumbs', entry.thumbnailFileName);
+  }
+  return path.join(getArtDir(), entry.fileName);
+};
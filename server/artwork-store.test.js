@@ -0,0 +1,89 @@
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { promises as fs } from 'fs';
+import { getArtworkId, isArtworkId, getArtwork, cacheArtwork, getArtworkFilePath } from './artwork-store.js';
+
+const PNG_BYTES = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+describe('artwork store', () => {
+  let originalCwd;
+  let server;
+  let baseUrl;
+  let requestCount;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    process.chdir(await fs.mkdtemp(path.join(os.tmpdir(), 'artwork-store-test-')));
+    // Thumbnails are skipped so the tests don't depend on ImageMagick being installed
+    process.env.IMAGEMAGICK_PATH = path.join(os.tmpdir(), 'no-such-magick');
+    // The test server is on this machine, which downloads may only reach when allowed
+    process.env.ARTWORK_ALLOW_PRIVATE_ADDRESSES = 'true';
+
+    requestCount = 0;
+    server = http.createServer((request, response) => {
+      requestCount++;
+      if (request.url === '/box.png') {
+        // Sent as a generic download, so the type has to come from the image's own bytes
+        response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        response.end(PNG_BYTES);
+      } else if (request.url === '/logo.svg') {
+        response.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+        response.end('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>');
+      } else {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end('<html></html>');
+      }
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    delete process.env.IMAGEMAGICK_PATH;
+    delete process.env.ARTWORK_ALLOW_PRIVATE_ADDRESSES;
+    process.chdir(originalCwd);
+  });
+
+  test('artwork IDs are short hashes of the source URL', () => {
+    const id = getArtworkId('https://example.com/box.png');
+    expect(isArtworkId(id)).toBe(true);
+    expect(getArtworkId('https://example.com/box.png')).toBe(id);
+    expect(getArtworkId('https://example.com/other.png')).not.toBe(id);
+    expect(isArtworkId('../artwork.json')).toBe(false);
+  });
+
+  test('downloads an image once and indexes it', async () => {
+    const sourceUrl = `${baseUrl}/box.png`;
+    const [entry, sameEntry] = await Promise.all([cacheArtwork(sourceUrl), cacheArtwork(sourceUrl)]);
+    expect(sameEntry).toBe(entry);
+    expect(entry).toMatchObject({ id: getArtworkId(sourceUrl), sourceUrl, contentType: 'image/png', size: PNG_BYTES.length, thumbnailFileName: null });
+    expect(await fs.readFile(getArtworkFilePath(entry, true))).toEqual(PNG_BYTES);
+    expect(await getArtwork(entry.id)).toEqual(entry);
+
+    expect(await cacheArtwork(sourceUrl)).toEqual(entry);
+    expect(requestCount).toBe(1);
+
+    // A stored file that has gone missing is downloaded again
+    await fs.rm(getArtworkFilePath(entry));
+    await cacheArtwork(sourceUrl);
+    expect(requestCount).toBe(2);
+  });
+
+  test('rejects responses that are not images, and SVGs', async () => {
+    await expect(cacheArtwork(`${baseUrl}/page.html`)).rejects.toThrow(/Not an image \(text\/html\)/);
+    expect(await getArtwork(getArtworkId(`${baseUrl}/page.html`))).toBeNull();
+    await expect(cacheArtwork(`${baseUrl}/logo.svg`)).rejects.toThrow(/Not an image \(image\/svg\+xml\)/);
+  });
+
+  test('only downloads from public addresses', async () => {
+    delete process.env.ARTWORK_ALLOW_PRIVATE_ADDRESSES;
+    const port = server.address().port;
+    for (const url of [`${baseUrl}/box.png`, `http://localhost:${port}/box.png`, `http://[::1]:${port}/box.png`,
+      'http://10.0.0.1/box.png', 'http://169.254.169.254/latest/meta-data', 'http://[::ffff:192.168.1.1]/box.png']) {
+      await expect(cacheArtwork(url)).rejects.toMatchObject({ code: 'ARTWORK_URL_NOT_ALLOWED' });
+    }
+    expect(requestCount).toBe(0);
+  });
+});
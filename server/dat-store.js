@@ -0,0 +1,187 @@
+import { readDataFile, writeDataFile } from './data-store.js';
+
+// DAT files are stored as { [platformId]: { name, description, version, importedAt, games } }
+export const DATS_DATA_TYPE = 'dats';
+
+const decodeXmlEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity) => {
+  switch (entity.toLowerCase()) {
+    case 'amp': return '&';
+    case 'lt': return '<';
+    case 'gt': return '>';
+    case 'quot': return '"';
+    case 'apos': return "'";
+    default:
+      return entity[1].toLowerCase() === 'x'
+        ? String.fromCodePoint(parseInt(entity.substring(2), 16))
+        : String.fromCodePoint(parseInt(entity.substring(1), 10));
+  }
+});
+
+const parseAttributes = (attributeText) => {
+  const attributes = {};
+  for (const match of attributeText.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+const getElementText = (xml, tagName) => {
+  const match = xml.match(new RegExp(`<${tagName}(?:\\s[^>]*)?>([\\s\\S]*?)</${tagName}>`));
+  return match ? decodeXmlEntities(match[1].trim()) : '';
+};
+
+/**
+ * Parses a Logiqx XML DAT (the format used by No-Intro and Redump).
+ * Only the parts needed for verification and 1G1R grouping are kept: the header and, per game, its
+ * ROM entries and the parent it is a clone of.
+ * Hashes are normalized to lower case. Throws if the document contains no games.
+ */
+export const parseLogiqxDat = (xml) => {
+  if (typeof xml !== 'string' || !/<datafile[\s>]/.test(xml)) {
+    throw new Error('Not a Logiqx XML DAT file (missing <datafile> element).');
+  }
+
+  const headerXml = xml.match(/<header>([\s\S]*?)<\/header>/)?.[1] || '';
+  const games = [];
+
+  // MAME-derived DATs use <machine> instead of <game>
+  for (const gameMatch of xml.matchAll(/<(game|machine)\b([^>]*)>([\s\S]*?)<\/\1>/g)) {
+    const gameAttributes = parseAttributes(gameMatch[2]);
+    const body = gameMatch[3];
+    const roms = [];
+
+    for (const romMatch of body.matchAll(/<rom\b([^>]*?)\/?>/g)) {
+      const romAttributes = parseAttributes(romMatch[1]);
+      if (!romAttributes.name) continue;
+      roms.push({
+        name: romAttributes.name,
+        size: romAttributes.size !== undefined ? Number(romAttributes.size) : null,
+        crc: romAttributes.crc?.toLowerCase() || null,
+        md5: romAttributes.md5?.toLowerCase() || null,
+        sha1: romAttributes.sha1?.toLowerCase() || null,
+        ...(romAttributes.status ? { status: romAttributes.status } : {}),
+      });
+    }
+
+    if (gameAttributes.name && roms.length > 0) {
+      games.push({
+        name: gameAttributes.name,
+        description: getElementText(body, 'description') || gameAttributes.name,
+        ...(gameAttributes.cloneof ? { cloneOf: gameAttributes.cloneof } : {}),
+        roms,
+      });
+    }
+  }
+
+  if (games.length === 0) {
+    throw new Error('DAT file contains no games with ROM entries.');
+  }
+
+  return {
+    name: getElementText(headerXml, 'name'),
+    description: getElementText(headerXml, 'description'),
+    version: getElementText(headerXml, 'version'),
+    games,
+  };
+};
+
+/**
+ * Builds lookup tables for a stored DAT. Each entry maps back to its game, so a track of a
+ * multi-file Redump game still resolves to the game's canonical name.
+ */
+export const buildDatIndex = (dat) => {
+  const index = { bySha1: new Map(), byMd5: new Map(), byCrc: new Map(), byName: new Map() };
+  for (const game of dat.games) {
+    for (const rom of game.roms) {
+      const entry = { game, rom };
+      if (rom.sha1) index.bySha1.set(rom.sha1, entry);
+      if (rom.md5) index.byMd5.set(rom.md5, entry);
+      if (rom.crc) {
+        const entries = index.byCrc.get(rom.crc) || [];
+        entries.push(entry);
+        index.byCrc.set(rom.crc, entries);
+      }
+      index.byName.set(rom.name.toLowerCase(), entry);
+    }
+  }
+  return index;
+};
+
+/**
+ * Matches a ROM file against a DAT index.
+ * - verified: a hash matches a DAT entry
+ * - bad_dump: a hash matches an entry flagged as a bad dump, or the filename is a known DAT
+ *   entry but its contents don't match
+ * - unknown: neither hashes nor filename are in the DAT
+ *
+ * `file` is { filename, size?, hashes? }. CRC32 alone is only trusted when the size also matches.
+ * Returns { status, datGameName?, title?, cloneOf? }, where title is the DAT's canonical game name
+ * and cloneOf the name of the game's parent in parent/clone DATs.
+ */
+export const matchRomAgainstDat = (index, file) => {
+  const { hashes, size } = file;
+  let entry;
+
+  if (hashes) {
+    entry = (hashes.sha1 && index.bySha1.get(hashes.sha1.toLowerCase()))
+      || (hashes.md5 && index.byMd5.get(hashes.md5.toLowerCase()))
+      || (hashes.crc32 && (index.byCrc.get(hashes.crc32.toLowerCase()) || [])
+        .find(candidate => candidate.rom.size === null || size === undefined || candidate.rom.size === size));
+  }
+
+  if (entry) {
+    return {
+      status: entry.rom.status === 'baddump' ? 'bad_dump' : 'verified',
+      datGameName: entry.game.name,
+      title: entry.game.description,
+      ...(entry.game.cloneOf ? { cloneOf: entry.game.cloneOf } : {}),
+    };
+  }
+
+  const nameEntry = file.filename ? index.byName.get(file.filename.toLowerCase()) : undefined;
+  if (nameEntry && hashes) {
+    return {
+      status: 'bad_dump',
+      datGameName: nameEntry.game.name,
+      title: nameEntry.game.description,
+      ...(nameEntry.game.cloneOf ? { cloneOf: nameEntry.game.cloneOf } : {}),
+    };
+  }
+  return { status: 'unknown' };
+};
+
+export const readDats = () => readDataFile(DATS_DATA_TYPE, {});
+
+export const getPlatformDat = async (platformId) => {
+  const dats = await readDats();
+  return dats[String(platformId)] || null;
+};
+
+export const savePlatformDat = async (platformId, dat) => {
+  const dats = await readDats();
+  const storedDat = { ...dat, importedAt: new Date().toISOString() };
+  dats[String(platformId)] = storedDat;
+  await writeDataFile(DATS_DATA_TYPE, dats);
+  return storedDat;
+};
+
+// Returns false if the platform had no DAT
+export const deletePlatformDat = async (platformId) => {
+  const dats = await readDats();
+  if (!dats[String(platformId)]) {
+    return false;
+  }
+  delete dats[String(platformId)];
+  await writeDataFile(DATS_DATA_TYPE, dats);
+  return true;
+};
+
+export const summarizeDat = (platformId, dat) => ({
+  platformId: String(platformId),
+  name: dat.name,
+  description: dat.description,
+  version: dat.version,
+  importedAt: dat.importedAt,
+  gameCount: dat.games.length,
+  romCount: dat.games.reduce((count, game) => count + game.roms.length, 0),
+});
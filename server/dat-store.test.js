@@ -0,0 +1,78 @@
+import { parseLogiqxDat, buildDatIndex, matchRomAgainstDat, summarizeDat } from './dat-store.js';
+
+const DAT_XML = `<?xml version="1.0"?>
+<!DOCTYPE datafile PUBLIC "-//Logiqx//DTD ROM Management Datafile//EN" "http://www.logiqx.com/Dats/datafile.dtd">
+<datafile>
+  <header>
+    <name>Nintendo - Nintendo Entertainment System</name>
+    <description>Nintendo - NES (Headered)</description>
+    <version>20240101-000000</version>
+  </header>
+  <game name="Legend of Zelda, The (USA)">
+    <description>Legend of Zelda, The (USA)</description>
+    <rom name="Legend of Zelda, The (USA).nes" size="131088" crc="A12D74C1" md5="D9A1631D5C32D35594B9484862A26CBA" sha1="DAB79C84934F9AA5DB4E7DAD390E5D0C12443FA2"/>
+  </game>
+  <game name="Legend of Zelda, The (Europe)" cloneof="Legend of Zelda, The (USA)">
+    <description>Legend of Zelda, The (Europe)</description>
+    <rom name="Legend of Zelda, The (Europe).nes" size="131088" crc="81c07e37"/>
+  </game>
+  <game name="Tom &amp; Jerry (USA)">
+    <rom name="Tom &amp; Jerry (USA).nes" size="262160" crc="11111111" status="baddump"/>
+  </game>
+  <game name="Empty (USA)">
+    <description>No ROMs here</description>
+  </game>
+</datafile>`;
+
+describe('DAT store', () => {
+  const dat = parseLogiqxDat(DAT_XML);
+  const index = buildDatIndex(dat);
+
+  test('parses the header and games with ROMs, decoding entities and lower-casing hashes', () => {
+    expect(dat.name).toBe('Nintendo - Nintendo Entertainment System');
+    expect(dat.version).toBe('20240101-000000');
+    expect(dat.games.map(game => game.name)).toEqual(['Legend of Zelda, The (USA)', 'Legend of Zelda, The (Europe)', 'Tom & Jerry (USA)']);
+    expect(dat.games[0].roms[0]).toEqual({
+      name: 'Legend of Zelda, The (USA).nes',
+      size: 131088,
+      crc: 'a12d74c1',
+      md5: 'd9a1631d5c32d35594b9484862a26cba',
+      sha1: 'dab79c84934f9aa5db4e7dad390e5d0c12443fa2',
+    });
+    expect(dat.games[1].cloneOf).toBe('Legend of Zelda, The (USA)');
+    // Without a <description>, the game's name is used
+    expect(dat.games[2].description).toBe('Tom & Jerry (USA)');
+    expect(dat.games[2].roms[0].status).toBe('baddump');
+    expect(summarizeDat(7, { ...dat, importedAt: 'now' })).toMatchObject({ platformId: '7', gameCount: 3, romCount: 3 });
+  });
+
+  test('parses MAME-style <machine> entries', () => {
+    const mameDat = parseLogiqxDat('<datafile><machine name="pacman"><rom name="pacman.6e" size="4096" crc="c1e6ab10"/></machine></datafile>');
+    expect(mameDat.games).toEqual([{ name: 'pacman', description: 'pacman', roms: [{ name: 'pacman.6e', size: 4096, crc: 'c1e6ab10', md5: null, sha1: null }] }]);
+  });
+
+  test('rejects documents that are not DATs or have no games', () => {
+    expect(() => parseLogiqxDat('<html></html>')).toThrow('Not a Logiqx XML DAT file');
+    expect(() => parseLogiqxDat('<datafile><header><name>x</name></header></datafile>')).toThrow('contains no games');
+  });
+
+  test('verifies a ROM by SHA-1 or MD5, case-insensitively, and reports its parent', () => {
+    expect(matchRomAgainstDat(index, { filename: 'zelda.nes', hashes: { sha1: 'DAB79C84934F9AA5DB4E7DAD390E5D0C12443FA2' } }))
+      .toEqual({ status: 'verified', datGameName: 'Legend of Zelda, The (USA)', title: 'Legend of Zelda, The (USA)' });
+    expect(matchRomAgainstDat(index, { filename: 'zelda.nes', hashes: { md5: 'd9a1631d5c32d35594b9484862a26cba' } }).status).toBe('verified');
+  });
+
+  test('trusts a CRC32 only when the size matches too', () => {
+    expect(matchRomAgainstDat(index, { filename: 'z.nes', size: 131088, hashes: { crc32: '81C07E37' } }))
+      .toEqual({ status: 'verified', datGameName: 'Legend of Zelda, The (Europe)', title: 'Legend of Zelda, The (Europe)', cloneOf: 'Legend of Zelda, The (USA)' });
+    expect(matchRomAgainstDat(index, { filename: 'z.nes', size: 1, hashes: { crc32: '81c07e37' } })).toEqual({ status: 'unknown' });
+  });
+
+  test('flags bad dumps and known filenames whose contents differ', () => {
+    expect(matchRomAgainstDat(index, { filename: 'tj.nes', size: 262160, hashes: { crc32: '11111111' } }).status).toBe('bad_dump');
+    expect(matchRomAgainstDat(index, { filename: 'LEGEND OF ZELDA, THE (USA).NES', hashes: { crc32: '00000000' } }))
+      .toEqual({ status: 'bad_dump', datGameName: 'Legend of Zelda, The (USA)', title: 'Legend of Zelda, The (USA)' });
+    // A name match alone proves nothing without hashes to compare
+    expect(matchRomAgainstDat(index, { filename: 'Legend of Zelda, The (USA).nes' })).toEqual({ status: 'unknown' });
+  });
+});
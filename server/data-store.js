@@ -0,0 +1,26 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+
+// Helper function to get data file path
+export const getDataFilePath = (dataType) => {
+  return path.join(process.cwd(), 'server', 'data', `${dataType}.json`);
+};
+
+// Reads a data file, returning `fallback` when it does not exist yet
+export const readDataFile = async (dataType, fallback = []) => {
+  try {
+    const data = await fs.readFile(getDataFilePath(dataType), 'utf8');
+    return JSON.parse(data);
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+};
+
+export const writeDataFile = async (dataType, data) => {
+  const filePath = getDataFilePath(dataType);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
+};
@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs';
+import { recordSessionStart, recordSessionEnd } from './play-history.js';
+
+// In-memory registry of emulator processes started through /api/games/launch.
+// Sessions are lost on server restart; the emulators themselves keep running since they are detached.
+// Each session's start and end is also written to the persistent play history.
+
+const STDERR_TAIL_LENGTH = 4000;
+const MAX_FINISHED_SESSIONS = 20;
+// How long a stopped emulator gets to exit after SIGTERM before it is sent SIGKILL
+const KILL_TIMEOUT_MS = 5000;
+
+const sessions = new Map(); // launchId -> { session, child, stderrLogPath, killTimer }
+
+const toPublicSession = ({ session }) => ({ ...session });
+
+// Drops the oldest finished sessions so the registry doesn't grow for the life of the server
+const pruneFinishedSessions = () => {
+  const finished = [...sessions.values()].filter(entry => entry.session.status !== 'running');
+  const excess = finished.length - MAX_FINISHED_SESSIONS;
+  for (let i = 0; i < excess; i++) {
+    sessions.delete(finished[i].session.launchId);
+    if (finished[i].stderrLogPath) {
+      fs.rm(finished[i].stderrLogPath, { force: true }).catch(() => {});
+    }
+  }
+};
+
+// The end of the emulator's stderr log
+const readStderrTail = async (logPath) => {
+  const file = await fs.open(logPath, 'r');
+  try {
+    const { size } = await file.stat();
+    const length = Math.min(size, STDERR_TAIL_LENGTH);
+    const buffer = Buffer.alloc(length);
+    await file.read(buffer, 0, length, size - length);
+    return buffer.toString('utf8');
+  } finally {
+    await file.close();
+  }
+};
+
+const refreshStderrTail = async (entry) => {
+  if (!entry.stderrLogPath) return;
+  try {
+    entry.session.stderrTail = await readStderrTail(entry.stderrLogPath);
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.warn(`Could not read stderr log of session ${entry.session.launchId}: ${error.message}`);
+    }
+  }
+};
+
+export const registerSession = ({ launchId, child, stderrLogPath, gameId, gameTitle, platformId, emulatorId, emulatorName }) => {
+  const session = {
+    launchId,
+    gameId: gameId || null,
+    gameTitle: gameTitle || '',
+    platformId: platformId ? String(platformId) : null,
+    emulatorId,
+    emulatorName,
+    pid: child.pid,
+    startedAt: new Date().toISOString(),
+    endedAt: null,
+    exitCode: null,
+    signal: null,
+    status: 'running',
+    stopRequestedAt: null,
+    stderrTail: '',
+  };
+  const entry = { session, child, stderrLogPath: stderrLogPath || null, killTimer: null };
+  sessions.set(launchId, entry);
+  recordSessionStart(session);
+
+  child.once('exit', (code, signal) => {
+    clearTimeout(entry.killTimer);
+    session.endedAt = new Date().toISOString();
+    session.exitCode = code;
+    session.signal = signal;
+    session.status = session.stopRequestedAt ? 'terminated' : 'exited';
+    entry.child = null;
+    recordSessionEnd(session);
+    pruneFinishedSessions();
+    refreshStderrTail(entry);
+  });
+
+  return toPublicSession(entry);
+};
+
+// Sessions with the current tail of each running emulator's stderr
+export const listSessions = async () => {
+  const entries = [...sessions.values()];
+  await Promise.all(entries.filter(entry => entry.child).map(refreshStderrTail));
+  return entries.map(toPublicSession);
+};
+
+export const getSession = (launchId) => {
+  const entry = sessions.get(launchId);
+  return entry ? toPublicSession(entry) : null;
+};
+
+// On POSIX the whole process group is signalled, since emulator front-ends often fork the real
+// emulator process
+const signalSession = (child, signal) => {
+  try {
+    if (process.platform !== 'win32') {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch (error) {
+    if (error.code !== 'ESRCH') {
+      throw error;
+    }
+    child.kill(signal);
+  }
+};
+
+/**
+ * Asks a running session to stop with SIGTERM, and sends SIGKILL if it hasn't exited after
+ * KILL_TIMEOUT_MS. Stopping a session that is already stopping sends SIGKILL straight away. The
+ * session stays "running" (with stopRequestedAt set) until the emulator exits.
+ * Returns null when the session is unknown.
+ */
+export const terminateSession = (launchId) => {
+  const entry = sessions.get(launchId);
+  if (!entry) {
+    return null;
+  }
+  if (entry.session.status !== 'running' || !entry.child) {
+    throw new Error(`Session ${launchId} is not running.`);
+  }
+
+  if (entry.session.stopRequestedAt) {
+    clearTimeout(entry.killTimer);
+    signalSession(entry.child, 'SIGKILL');
+    return toPublicSession(entry);
+  }
+
+  signalSession(entry.child, 'SIGTERM');
+  entry.session.stopRequestedAt = new Date().toISOString();
+  entry.killTimer = setTimeout(() => {
+    if (!entry.child) return;
+    try {
+      signalSession(entry.child, 'SIGKILL');
+    } catch (error) {
+      console.warn(`Could not kill session ${launchId}: ${error.message}`);
+    }
+  }, KILL_TIMEOUT_MS);
+  entry.killTimer.unref?.();
+  return toPublicSession(entry);
+};
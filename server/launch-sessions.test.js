@@ -0,0 +1,101 @@
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { registerSession, listSessions, getSession, terminateSession } from './launch-sessions.js';
+
+// Play history is written elsewhere; these tests only look at the in-memory registry
+const { recordSessionStart, recordSessionEnd } = vi.hoisted(() => ({ recordSessionStart: vi.fn(), recordSessionEnd: vi.fn() }));
+vi.mock('./play-history.js', () => ({ recordSessionStart, recordSessionEnd }));
+
+let nextId = 1;
+
+// A stand-in for the spawned emulator, which the tests end by emitting 'exit'
+const createChild = () => Object.assign(new EventEmitter(), { pid: 40000 + nextId, kill: vi.fn() });
+
+const startSession = (overrides = {}) => {
+  const child = createChild();
+  const launchId = `launch-${nextId++}`;
+  registerSession({ launchId, child, gameId: 'g1', gameTitle: 'Zelda', platformId: 7, emulatorId: 'e1', emulatorName: 'Mesen', ...overrides });
+  return { launchId, child };
+};
+
+describe('launch sessions', () => {
+  let kill;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  test('stops a session with SIGTERM to its process group, then SIGKILL once the timeout passes', () => {
+    const { launchId, child } = startSession();
+
+    expect(terminateSession(launchId)).toMatchObject({ status: 'running', stopRequestedAt: expect.any(String) });
+    expect(kill).toHaveBeenCalledTimes(1);
+    expect(kill).toHaveBeenCalledWith(-child.pid, 'SIGTERM');
+
+    vi.advanceTimersByTime(4999);
+    expect(kill).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1);
+    expect(kill).toHaveBeenLastCalledWith(-child.pid, 'SIGKILL');
+
+    child.emit('exit', null, 'SIGKILL');
+    expect(getSession(launchId)).toMatchObject({ status: 'terminated', signal: 'SIGKILL', endedAt: expect.any(String) });
+  });
+
+  test('sends no SIGKILL when the emulator exits after SIGTERM, and SIGKILL at once on a second stop', () => {
+    const { launchId, child } = startSession();
+    terminateSession(launchId);
+    child.emit('exit', 0, null);
+    vi.advanceTimersByTime(10000);
+    expect(kill).toHaveBeenCalledTimes(1);
+    expect(() => terminateSession(launchId)).toThrow(/is not running/);
+
+    const second = startSession();
+    terminateSession(second.launchId);
+    terminateSession(second.launchId);
+    expect(kill).toHaveBeenLastCalledWith(-second.child.pid, 'SIGKILL');
+    expect(terminateSession('unknown')).toBeNull();
+  });
+
+  test('signals the process itself when its group is already gone', () => {
+    kill.mockImplementation(() => {
+      throw Object.assign(new Error('kill ESRCH'), { code: 'ESRCH' });
+    });
+    const { launchId, child } = startSession();
+    terminateSession(launchId);
+    expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+  });
+
+  test('records the exit and removes the oldest finished sessions beyond the limit', () => {
+    const { launchId, child } = startSession();
+    expect(recordSessionStart).toHaveBeenCalledWith(expect.objectContaining({ launchId, status: 'running' }));
+
+    child.emit('exit', 1, null);
+    expect(getSession(launchId)).toMatchObject({ status: 'exited', exitCode: 1, signal: null });
+    expect(recordSessionEnd).toHaveBeenCalledWith(expect.objectContaining({ launchId, status: 'exited' }));
+
+    for (let i = 0; i < 20; i++) {
+      startSession().child.emit('exit', 0, null);
+    }
+    expect(getSession(launchId)).toBeNull();
+  });
+
+  test('reports the end of the emulator\'s stderr log', async () => {
+    const logDir = await fs.mkdtemp(path.join(os.tmpdir(), 'launch-sessions-test-'));
+    const stderrLogPath = path.join(logDir, 'stderr.log');
+    await fs.writeFile(stderrLogPath, `${'x'.repeat(5000)}\nError: missing BIOS\n`);
+    const { launchId } = startSession({ stderrLogPath });
+
+    const session = (await listSessions()).find(entry => entry.launchId === launchId);
+    expect(session.stderrTail).toHaveLength(4000);
+    expect(session.stderrTail.endsWith('\nError: missing BIOS\n')).toBe(true);
+    await fs.rm(logDir, { recursive: true, force: true });
+  });
+});
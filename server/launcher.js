@@ -0,0 +1,129 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+/**
+ * Splits an emulator argument template into individual arguments.
+ * Single and double quotes group words together, and backslash escapes the next character
+ * inside double quotes. Example: `-L "cores/snes 9x.so" {romPath}` -> ['-L', 'cores/snes 9x.so', '{romPath}']
+ */
+export const splitArgs = (argsTemplate) => {
+  const args = [];
+  let current = '';
+  let quote = null;
+  let hasToken = false;
+
+  for (let i = 0; i < argsTemplate.length; i++) {
+    const char = argsTemplate[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < argsTemplate.length) {
+        current += argsTemplate[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        args.push(current);
+        current = '';
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in emulator arguments.`);
+  }
+  if (hasToken) {
+    args.push(current);
+  }
+  return args;
+};
+
+/**
+ * Builds the command and argument list for an emulator launch.
+ * Placeholders are substituted per argument after splitting, so a ROM path containing spaces or
+ * shell metacharacters always stays a single argument. If the template has no `{romPath}`
+ * placeholder, the ROM path is appended as the last argument.
+ */
+export const buildLaunchCommand = (emulatorConfig, romPath) => {
+  if (!emulatorConfig.executablePath) {
+    throw new Error(`Emulator "${emulatorConfig.name}" has no executable path configured.`);
+  }
+
+  const template = splitArgs(emulatorConfig.args || '');
+  const usesRomPath = template.some(arg => arg.includes('{romPath}'));
+  const args = template.map(arg => arg
+    .replace(/\{romPath\}/g, () => romPath)
+    .replace(/\{emulatorPath\}/g, () => emulatorConfig.executablePath));
+
+  if (!usesRomPath) {
+    args.push(romPath);
+  }
+
+  return { command: emulatorConfig.executablePath, args };
+};
+
+const getLaunchLogDir = () => process.env.LAUNCH_LOG_DIR || path.join(os.tmpdir(), 'retro-game-launcher', 'launch-logs');
+
+/**
+ * Spawns the emulator detached from the server process without a shell.
+ * Resolves once the process has either started or failed to start, so callers can report
+ * immediate errors such as a missing executable. stderr goes to a log file (stderrLogPath) rather
+ * than a pipe, so the emulator keeps writing to it safely after the server exits.
+ */
+export const spawnEmulator = async (command, args, options = {}) => {
+  const launchId = crypto.randomUUID();
+  const stderrLogPath = path.join(getLaunchLogDir(), `${launchId}.log`);
+  await fs.mkdir(getLaunchLogDir(), { recursive: true });
+  const stderrLog = await fs.open(stderrLogPath, 'w');
+
+  try {
+    const result = await new Promise((resolve) => {
+      let child;
+
+      try {
+        child = spawn(command, args, {
+          cwd: options.cwd,
+          detached: true,
+          shell: false,
+          stdio: ['ignore', 'ignore', stderrLog.fd],
+          windowsHide: false,
+        });
+      } catch (error) {
+        resolve({ launchId, pid: null, error: error.message, child: null, stderrLogPath: null });
+        return;
+      }
+
+      const onSpawn = () => {
+        child.off('error', onError);
+        child.unref();
+        resolve({ launchId, pid: child.pid, error: null, child, stderrLogPath });
+      };
+      const onError = (error) => {
+        child.off('spawn', onSpawn);
+        resolve({ launchId, pid: null, error: error.message, child: null, stderrLogPath: null });
+      };
+
+      child.once('spawn', onSpawn);
+      child.once('error', onError);
+    });
+    if (result.error) {
+      await fs.rm(stderrLogPath, { force: true });
+    }
+    return result;
+  } finally {
+    // The child has its own copy of the descriptor
+    await stderrLog.close();
+  }
+};
@@ -0,0 +1,35 @@
+import { splitArgs, buildLaunchCommand } from './launcher.js';
+
+describe('launcher', () => {
+  test('splitArgs splits on whitespace and groups quoted words', () => {
+    expect(splitArgs('-L "cores/snes 9x.so" {romPath}')).toEqual(['-L', 'cores/snes 9x.so', '{romPath}']);
+    expect(splitArgs("  --config 'my cfg.ini'   -f ")).toEqual(['--config', 'my cfg.ini', '-f']);
+    expect(splitArgs('--title "say \\"hi\\"" \'a\\b\'')).toEqual(['--title', 'say "hi"', 'a\\b']);
+    expect(splitArgs('--empty ""')).toEqual(['--empty', '']);
+    expect(splitArgs('')).toEqual([]);
+  });
+
+  test('splitArgs rejects an unterminated quote', () => {
+    expect(() => splitArgs('-L "cores/snes.so')).toThrow('Unterminated " quote in emulator arguments.');
+  });
+
+  test('buildLaunchCommand substitutes placeholders within single arguments', () => {
+    const romPath = '/roms/snes/Super Metroid (USA); rm -rf ~.sfc';
+    expect(buildLaunchCommand({ name: 'RetroArch', executablePath: '/usr/bin/retroarch', args: '-L "cores/snes 9x.so" --rom={romPath}' }, romPath)).toEqual({
+      command: '/usr/bin/retroarch',
+      args: ['-L', 'cores/snes 9x.so', `--rom=${romPath}`],
+    });
+    // Replacement patterns such as $& in a path are taken literally
+    expect(buildLaunchCommand({ name: 'Emu', executablePath: '/emu/run', args: '--self {emulatorPath} {romPath}' }, '/roms/$&.nes').args)
+      .toEqual(['--self', '/emu/run', '/roms/$&.nes']);
+  });
+
+  test('buildLaunchCommand appends the ROM path when the template has no placeholder', () => {
+    expect(buildLaunchCommand({ name: 'Emu', executablePath: '/emu/run', args: '-f' }, '/roms/a b.nes').args).toEqual(['-f', '/roms/a b.nes']);
+    expect(buildLaunchCommand({ name: 'Emu', executablePath: '/emu/run' }, '/roms/a.nes').args).toEqual(['/roms/a.nes']);
+  });
+
+  test('buildLaunchCommand requires an executable path', () => {
+    expect(() => buildLaunchCommand({ name: 'Emu', executablePath: '' }, '/roms/a.nes')).toThrow('Emulator "Emu" has no executable path configured.');
+  });
+});
@@ -0,0 +1,69 @@
+import path from 'path';
+
+const getRomFileName = (romPath, archiveEntry) => path.posix.basename((archiveEntry || romPath).replace(/\\/g, '/')).toLowerCase();
+
+// Same ROM contents: strongest shared hash wins; a bare CRC32 also needs matching sizes when both are known
+const hashesMatch = (gameHashes, romHashes, gameSize, romSize) => {
+  if (!gameHashes || !romHashes) return false;
+  if (gameHashes.sha1 && romHashes.sha1) return gameHashes.sha1 === romHashes.sha1;
+  if (gameHashes.md5 && romHashes.md5) return gameHashes.md5 === romHashes.md5;
+  if (gameHashes.crc32 && romHashes.crc32 && gameHashes.crc32 === romHashes.crc32) {
+    return gameSize === undefined || romSize === undefined || gameSize === romSize;
+  }
+  return false;
+};
+
+/**
+ * Compares a fresh scan with a platform's existing games.
+ *
+ * - games: [{ id, romPath, archiveEntry?, hashes?, romSize? }] with romPath resolved to an absolute path
+ * - scannedRoms: scanner output, each with `fullPath` (absolute path of relativePath) added
+ * - gameExists: async (game) => boolean, whether the game's ROM file is still on disk
+ *
+ * A scanned ROM is "added" unless an existing game already points at it. A game is "missing" if its
+ * file is gone; if one of the added ROMs has the same hash, or the same size and filename, the game
+ * is reported as "moved" to that ROM instead, and the ROM is no longer counted as added.
+ * Games outside the scanned folder are only reported if their file is gone.
+ *
+ * Returns { added: scannedRom[], missing: gameId[], moved: [{ gameId, rom, matchedBy }], unchangedCount }.
+ */
+export const diffLibrary = async ({ games, scannedRoms, gameExists }) => {
+  const getKey = (fullPath, archiveEntry) => (archiveEntry ? `${fullPath}#${archiveEntry}` : fullPath);
+  const knownKeys = new Set(games.map(game => getKey(game.romPath, game.archiveEntry)));
+
+  const added = scannedRoms.filter(rom => !knownKeys.has(getKey(rom.fullPath, rom.archiveEntry)));
+  const missingGames = [];
+  for (const game of games) {
+    if (!(await gameExists(game))) {
+      missingGames.push(game);
+    }
+  }
+
+  const moved = [];
+  const missing = [];
+  const claimed = new Set();
+  for (const game of missingGames) {
+    let matchedBy = 'hash';
+    let rom = added.find(candidate => !claimed.has(candidate) && hashesMatch(game.hashes, candidate.hashes, game.romSize, candidate.size));
+    if (!rom && game.romSize !== undefined) {
+      const fileName = getRomFileName(game.romPath, game.archiveEntry);
+      matchedBy = 'size-name';
+      rom = added.find(candidate => !claimed.has(candidate) && candidate.size === game.romSize &&
+        getRomFileName(candidate.relativePath, candidate.archiveEntry) === fileName);
+    }
+
+    if (rom) {
+      claimed.add(rom);
+      moved.push({ gameId: game.id, rom, matchedBy });
+    } else {
+      missing.push(game.id);
+    }
+  }
+
+  return {
+    added: added.filter(rom => !claimed.has(rom)),
+    missing,
+    moved,
+    unchangedCount: games.length - missingGames.length,
+  };
+};
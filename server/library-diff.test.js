@@ -0,0 +1,72 @@
+import { diffLibrary } from './library-diff.js';
+
+const scanned = (relativePath, fields = {}) => ({
+  name: relativePath.replace(/^.*\//, '').replace(/\.[^.]+$/, ''),
+  filename: relativePath.replace(/^.*\//, ''),
+  relativePath,
+  fullPath: `/roms/nes/${relativePath}`,
+  ...fields,
+});
+
+describe('library diff', () => {
+  test('reports new ROMs, and games whose file is gone', async () => {
+    const result = await diffLibrary({
+      games: [
+        { id: 'contra', romPath: '/roms/nes/Contra.nes' },
+        { id: 'gone', romPath: '/roms/nes/Gone.nes' },
+      ],
+      scannedRoms: [scanned('Contra.nes'), scanned('Metroid.nes')],
+      gameExists: async (game) => game.id !== 'gone',
+    });
+    expect(result).toEqual({ added: [scanned('Metroid.nes')], missing: ['gone'], moved: [], unchangedCount: 1 });
+  });
+
+  test('tells archive entries apart by entry name', async () => {
+    const result = await diffLibrary({
+      games: [{ id: 'a', romPath: '/roms/nes/Pack.zip', archiveEntry: 'A.nes' }],
+      scannedRoms: [scanned('Pack.zip', { archiveEntry: 'A.nes' }), scanned('Pack.zip', { archiveEntry: 'B.nes' })],
+      gameExists: async () => true,
+    });
+    expect(result.added.map(rom => rom.archiveEntry)).toEqual(['B.nes']);
+  });
+
+  test('relinks a missing game to a new ROM with the same hash', async () => {
+    const rom = scanned('USA/Zelda (Renamed).nes', { size: 10, hashes: { crc32: 'aaaaaaaa', sha1: 'same' } });
+    const result = await diffLibrary({
+      games: [{ id: 'zelda', romPath: '/roms/nes/Zelda.nes', hashes: { crc32: 'bbbbbbbb', sha1: 'same' }, romSize: 10 }],
+      scannedRoms: [rom],
+      gameExists: async () => false,
+    });
+    expect(result).toEqual({ added: [], missing: [], moved: [{ gameId: 'zelda', rom, matchedBy: 'hash' }], unchangedCount: 0 });
+  });
+
+  test('does not trust a CRC32 whose sizes differ, or a weaker hash over a conflicting stronger one', async () => {
+    const result = await diffLibrary({
+      games: [
+        { id: 'crc', romPath: '/roms/nes/A.nes', hashes: { crc32: '11111111' }, romSize: 10 },
+        { id: 'sha', romPath: '/roms/nes/B.nes', hashes: { sha1: 'x', crc32: '22222222' } },
+      ],
+      scannedRoms: [
+        scanned('C.nes', { size: 99, hashes: { crc32: '11111111' } }),
+        scanned('D.nes', { hashes: { sha1: 'y', crc32: '22222222' } }),
+      ],
+      gameExists: async () => false,
+    });
+    expect(result.missing).toEqual(['crc', 'sha']);
+    expect(result.added).toHaveLength(2);
+  });
+
+  test('falls back to the same size and filename in another folder, each ROM claimed once', async () => {
+    const result = await diffLibrary({
+      games: [
+        { id: 'first', romPath: '/roms/nes/Old/Mario.nes', romSize: 40 },
+        { id: 'second', romPath: '/roms/nes/Older/Mario.nes', romSize: 40 },
+      ],
+      scannedRoms: [scanned('New/mario.NES', { size: 40 })],
+      gameExists: async () => false,
+    });
+    expect(result.moved).toEqual([{ gameId: 'first', rom: scanned('New/mario.NES', { size: 40 }), matchedBy: 'size-name' }]);
+    expect(result.missing).toEqual(['second']);
+    expect(result.added).toEqual([]);
+  });
+});
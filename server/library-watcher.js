@@ -0,0 +1,314 @@
+import path from 'path';
+import crypto from 'crypto';
+import { watch, promises as fs } from 'fs';
+
+// Watches the scan folders of platforms that opted in (scanSettings.watch) and queues new, removed
+// and renamed ROM files as pending library updates. The client owns games.json, so the server never
+// imports anything itself: the client polls the queue, applies what it wants and dismisses it.
+// Both the watchers and the queue are in memory; a rescan catches changes made while the server was down.
+
+// Quiet period after the last filesystem event before the folder is rescanned, so a file that is
+// still being copied only triggers one scan
+const WATCH_DEBOUNCE_MS = 2000;
+// Used where recursive fs.watch isn't available, and while a failed watcher waits to be restarted
+const WATCH_POLL_INTERVAL_MS = 30000;
+// Delay before restarting a failed watcher, doubled after each failed attempt up to the maximum
+const WATCH_RETRY_INITIAL_MS = 30000;
+const WATCH_RETRY_MAX_MS = 10 * 60 * 1000;
+const MAX_PENDING_UPDATES = 500;
+
+const watchers = new Map(); // platformId -> watcher state
+let pendingUpdates = [];
+
+const getRomKey = (relativePath, archiveEntry) => (archiveEntry ? `${relativePath}#${archiveEntry}` : relativePath);
+
+const getFileName = (relativePath, archiveEntry) => path.posix.basename(archiveEntry || relativePath).toLowerCase();
+
+// Settings that change what a watcher sees; a watcher is restarted when any of them change
+const getSettingsKey = (platform) => {
+  const { folderPath, recursive, maxDepth, inspectArchives, groupDiscs } = platform.scanSettings;
+  return JSON.stringify([folderPath, recursive, maxDepth, inspectArchives, groupDiscs, platform.romExtensions || []]);
+};
+
+// Maps each scanned ROM's key to the ROM and the inode of its file, which survives renames on the same disk
+const takeSnapshot = async (fullPath, romFiles) => {
+  const snapshot = new Map();
+  for (const rom of romFiles) {
+    let ino = null;
+    try {
+      ino = (await fs.stat(path.join(fullPath, rom.relativePath))).ino || null;
+    } catch {
+      continue; // Removed between the scan and now; the next event picks it up
+    }
+    snapshot.set(getRomKey(rom.relativePath, rom.archiveEntry), { rom, ino });
+  }
+  return snapshot;
+};
+
+const queueUpdate = (state, type, fields) => {
+  pendingUpdates.push({
+    id: crypto.randomUUID(),
+    platformId: state.platformId,
+    folderPath: state.folderPath,
+    type,
+    detectedAt: new Date().toISOString(),
+    ...fields,
+  });
+};
+
+const findPendingAdd = (state, key) => pendingUpdates.find(update =>
+  update.platformId === state.platformId && update.type !== 'removed' &&
+  getRomKey(update.rom.relativePath, update.rom.archiveEntry) === key);
+
+// Turns the difference between two snapshots into queued updates. A pending addition that changes
+// again is updated in place rather than queued twice, and one that disappears is simply dropped.
+const recordChanges = (state, previous, current) => {
+  const removed = [...previous.entries()].filter(([key]) => !current.has(key));
+  const added = [...current.entries()].filter(([key]) => !previous.has(key));
+
+  for (const [key, entry] of current) {
+    const previousEntry = previous.get(key);
+    const pendingAdd = previousEntry && previousEntry.rom.size !== entry.rom.size ? findPendingAdd(state, key) : null;
+    if (pendingAdd) {
+      pendingAdd.rom = entry.rom; // Still being copied when it was first seen
+    }
+  }
+
+  for (const [removedKey, removedEntry] of removed) {
+    const fileName = getFileName(removedEntry.rom.relativePath, removedEntry.rom.archiveEntry);
+    const renameIndex = added.findIndex(([, addedEntry]) =>
+      (removedEntry.ino && addedEntry.ino === removedEntry.ino &&
+        (addedEntry.rom.archiveEntry || null) === (removedEntry.rom.archiveEntry || null)) ||
+      (addedEntry.rom.size === removedEntry.rom.size &&
+        getFileName(addedEntry.rom.relativePath, addedEntry.rom.archiveEntry) === fileName));
+    const pendingAdd = findPendingAdd(state, removedKey);
+
+    if (renameIndex !== -1) {
+      const [, addedEntry] = added.splice(renameIndex, 1)[0];
+      if (pendingAdd) {
+        pendingAdd.rom = addedEntry.rom;
+      } else {
+        queueUpdate(state, 'renamed', {
+          rom: addedEntry.rom,
+          previousRelativePath: removedEntry.rom.relativePath,
+          previousArchiveEntry: removedEntry.rom.archiveEntry,
+        });
+      }
+    } else if (pendingAdd) {
+      pendingUpdates = pendingUpdates.filter(update => update !== pendingAdd);
+    } else {
+      queueUpdate(state, 'removed', {
+        previousRelativePath: removedEntry.rom.relativePath,
+        previousArchiveEntry: removedEntry.rom.archiveEntry,
+      });
+    }
+  }
+
+  for (const [key, addedEntry] of added) {
+    // A file that was removed and then put back cancels out
+    const pendingRemoval = pendingUpdates.find(update => update.platformId === state.platformId &&
+      update.type === 'removed' && getRomKey(update.previousRelativePath, update.previousArchiveEntry) === key);
+    if (pendingRemoval) {
+      pendingUpdates = pendingUpdates.filter(update => update !== pendingRemoval);
+    } else {
+      queueUpdate(state, 'added', { rom: addedEntry.rom });
+    }
+  }
+
+  if (pendingUpdates.length > MAX_PENDING_UPDATES) {
+    pendingUpdates = pendingUpdates.slice(-MAX_PENDING_UPDATES);
+  }
+};
+
+const rescanWatchedFolder = async (state) => {
+  if (state.scanning) {
+    state.rescanRequested = true;
+    return;
+  }
+  state.scanning = true;
+  try {
+    const { fullPath, romFiles } = await state.scanFolder();
+    const snapshot = await takeSnapshot(fullPath, romFiles);
+    if (state.snapshot && !state.stopped) {
+      recordChanges(state, state.snapshot, snapshot);
+    }
+    state.snapshot = snapshot;
+  } catch (error) {
+    console.warn(`Library watcher could not scan ${state.folderPath}: ${error.message}`);
+  } finally {
+    state.scanning = false;
+  }
+  if (state.rescanRequested && !state.stopped) {
+    state.rescanRequested = false;
+    await rescanWatchedFolder(state);
+  }
+};
+
+const scheduleRescan = (state) => {
+  clearTimeout(state.debounceTimer);
+  state.debounceTimer = setTimeout(() => rescanWatchedFolder(state), WATCH_DEBOUNCE_MS);
+  state.debounceTimer.unref();
+};
+
+const startPolling = (state) => {
+  if (state.pollTimer) return;
+  state.pollTimer = setInterval(() => rescanWatchedFolder(state), WATCH_POLL_INTERVAL_MS);
+  state.pollTimer.unref();
+};
+
+const stopPolling = (state) => {
+  clearInterval(state.pollTimer);
+  state.pollTimer = null;
+};
+
+// Starts fs.watch on the folder; throws if the folder can't be watched
+const armWatcher = (state) => {
+  const fsWatcher = watch(state.fullPath, { recursive: state.recursive }, () => scheduleRescan(state));
+  fsWatcher.on('error', (error) => handleWatcherError(state, fsWatcher, error));
+  fsWatcher.unref();
+  state.fsWatcher = fsWatcher;
+};
+
+// Tries the watcher again after a growing delay. Polling carries on until it's back.
+const scheduleRearm = (state) => {
+  clearTimeout(state.rearmTimer);
+  state.rearmDelay = Math.min(state.rearmDelay ? state.rearmDelay * 2 : WATCH_RETRY_INITIAL_MS, WATCH_RETRY_MAX_MS);
+  state.rearmTimer = setTimeout(() => {
+    if (state.stopped) return;
+    try {
+      armWatcher(state);
+    } catch (error) {
+      state.watchError = error.message;
+      scheduleRearm(state);
+      return;
+    }
+    console.warn(`Library watcher restarted for ${state.folderPath}`);
+    stopPolling(state);
+    state.rearmDelay = 0;
+    state.watchError = null;
+    scheduleRescan(state); // Picks up anything changed since the last poll
+  }, state.rearmDelay);
+  state.rearmTimer.unref();
+};
+
+// A watcher that fails (the folder was unmounted, or the system ran out of watches) reports nothing
+// more, so fall back to polling until it can be restarted
+const handleWatcherError = (state, fsWatcher, error) => {
+  fsWatcher.close();
+  if (state.fsWatcher !== fsWatcher || state.stopped) return;
+  console.warn(`Library watcher failed for ${state.folderPath}, polling until it can be restarted: ${error.message}`);
+  state.fsWatcher = null;
+  state.watchError = error.message;
+  startPolling(state);
+  scheduleRearm(state);
+};
+
+const stopWatcher = (state) => {
+  state.stopped = true;
+  clearTimeout(state.debounceTimer);
+  clearTimeout(state.rearmTimer);
+  stopPolling(state);
+  state.fsWatcher?.close();
+};
+
+const startWatcher = async (state) => {
+  // Take the baseline first, so only changes made from now on are reported
+  await rescanWatchedFolder(state);
+  if (state.stopped) return;
+
+  try {
+    armWatcher(state);
+  } catch (error) {
+    // Recursive watching isn't supported on every platform and filesystem; poll instead
+    startPolling(state);
+  }
+};
+
+/**
+ * Starts, restarts or stops watchers so exactly the platforms with scanSettings.watch enabled are
+ * watched. Called with the saved platforms on startup and whenever platforms.json is written.
+ *
+ * - resolveFolder: (folderPath) => absolute path inside the ROMs sandbox (throws if invalid)
+ * - scanFolder: (platform) => Promise<{ fullPath, romFiles }>, the same scan /api/scan-roms runs
+ *
+ * Returns the number of platforms being watched.
+ */
+export const syncLibraryWatchers = async (platforms, { resolveFolder, scanFolder }) => {
+  const wanted = new Map();
+  for (const platform of Array.isArray(platforms) ? platforms : []) {
+    if (platform?.scanSettings?.watch === true && typeof platform.scanSettings.folderPath === 'string') {
+      wanted.set(String(platform.id), platform);
+    }
+  }
+
+  for (const [platformId, state] of watchers) {
+    const platform = wanted.get(platformId);
+    if (!platform || getSettingsKey(platform) !== state.settingsKey) {
+      stopWatcher(state);
+      watchers.delete(platformId);
+    }
+  }
+
+  const starting = [];
+  for (const [platformId, platform] of wanted) {
+    if (watchers.has(platformId)) continue;
+
+    let fullPath;
+    try {
+      fullPath = resolveFolder(platform.scanSettings.folderPath);
+    } catch (error) {
+      console.warn(`Not watching ${platform.scanSettings.folderPath}: ${error.message}`);
+      continue;
+    }
+    const state = {
+      platformId,
+      folderPath: platform.scanSettings.folderPath,
+      fullPath,
+      recursive: platform.scanSettings.recursive === true,
+      settingsKey: getSettingsKey(platform),
+      scanFolder: () => scanFolder(platform),
+      snapshot: null,
+      scanning: false,
+      rescanRequested: false,
+      stopped: false,
+      debounceTimer: null,
+      pollTimer: null,
+      fsWatcher: null,
+      rearmTimer: null,
+      rearmDelay: 0,
+      watchError: null,
+    };
+    watchers.set(platformId, state);
+    starting.push(startWatcher(state));
+  }
+  await Promise.all(starting);
+
+  // Updates for platforms that are no longer watched would never be refreshed again
+  pendingUpdates = pendingUpdates.filter(update => watchers.has(update.platformId));
+  return watchers.size;
+};
+
+export const listPendingUpdates = () => pendingUpdates.map(update => ({ ...update }));
+
+// mode is 'watch', or 'poll' where watching isn't supported or the watcher failed (error says why)
+export const getWatchedFolders = () => [...watchers.values()].map(({ platformId, folderPath, fsWatcher, pollTimer, watchError }) => ({
+  platformId,
+  folderPath,
+  mode: fsWatcher ? 'watch' : pollTimer ? 'poll' : 'stopped',
+  error: watchError,
+}));
+
+// Removes the given updates from the queue (applied or ignored by the client); returns how many were removed
+export const dismissPendingUpdates = (ids) => {
+  const idSet = new Set(ids);
+  const before = pendingUpdates.length;
+  pendingUpdates = pendingUpdates.filter(update => !idSet.has(update.id));
+  return before - pendingUpdates.length;
+};
+
+export const stopLibraryWatchers = () => {
+  for (const state of watchers.values()) {
+    stopWatcher(state);
+  }
+  watchers.clear();
+};
@@ -0,0 +1,112 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { scanRomDirectory } from './rom-scanner.js';
+import { syncLibraryWatchers, listPendingUpdates, getWatchedFolders, dismissPendingUpdates } from './library-watcher.js';
+
+// fs.watch is replaced by watchers the tests trigger themselves, so no test waits on real
+// filesystem events; the files are real, since renames are told apart by inode
+const fakeWatchers = vi.hoisted(() => []);
+vi.mock('fs', async (importOriginal) => {
+  const { EventEmitter: Emitter } = await import('events');
+  const actual = await importOriginal();
+  return {
+    ...actual,
+    watch: vi.fn((folderPath, options, listener) => {
+      const watcher = Object.assign(new Emitter(), { listener, close: vi.fn(), unref: vi.fn() });
+      fakeWatchers.push(watcher);
+      return watcher;
+    }),
+  };
+});
+
+const { watch } = await import('fs');
+
+describe('library watcher', () => {
+  let rootPath;
+
+  const startWatching = () => syncLibraryWatchers([{ id: 7, scanSettings: { watch: true, folderPath: 'roms/nes' } }], {
+    resolveFolder: () => rootPath,
+    scanFolder: async () => ({ fullPath: rootPath, romFiles: await scanRomDirectory(rootPath) }),
+  });
+
+  // Reports a change from the current watcher and waits for the debounced rescan to queue it
+  const waitForChange = async (expectedCount) => {
+    fakeWatchers.at(-1).listener('rename');
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.waitFor(() => expect(listPendingUpdates()).toHaveLength(expectedCount));
+    return listPendingUpdates();
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    fakeWatchers.length = 0;
+    watch.mockClear();
+    rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'library-watcher-test-'));
+    await fs.writeFile(path.join(rootPath, 'Contra.nes'), 'contra');
+  });
+
+  afterEach(async () => {
+    await syncLibraryWatchers([], {});
+    vi.useRealTimers();
+    await fs.rm(rootPath, { recursive: true, force: true });
+  });
+
+  test('queues added, renamed and removed ROMs, but not the files already there', async () => {
+    expect(await startWatching()).toBe(1);
+    expect(getWatchedFolders()).toEqual([{ platformId: '7', folderPath: 'roms/nes', mode: 'watch', error: null }]);
+
+    await fs.writeFile(path.join(rootPath, 'Metroid.nes'), 'metroid');
+    const [added] = await waitForChange(1);
+    expect(added).toMatchObject({ platformId: '7', folderPath: 'roms/nes', type: 'added', rom: { relativePath: 'Metroid.nes', size: 7 } });
+    expect(dismissPendingUpdates([added.id])).toBe(1);
+
+    await fs.rename(path.join(rootPath, 'Metroid.nes'), path.join(rootPath, 'Metroid (USA).nes'));
+    const [renamed] = await waitForChange(1);
+    expect(renamed).toMatchObject({ type: 'renamed', rom: { relativePath: 'Metroid (USA).nes' }, previousRelativePath: 'Metroid.nes' });
+    dismissPendingUpdates([renamed.id]);
+
+    await fs.rm(path.join(rootPath, 'Contra.nes'));
+    const [removed] = await waitForChange(1);
+    expect(removed).toMatchObject({ type: 'removed', previousRelativePath: 'Contra.nes' });
+  });
+
+  test('drops a queued addition whose file is removed again', async () => {
+    await startWatching();
+    await fs.writeFile(path.join(rootPath, 'Metroid.nes'), 'metroid');
+    await waitForChange(1);
+    await fs.rm(path.join(rootPath, 'Metroid.nes'));
+    expect(await waitForChange(0)).toEqual([]);
+  });
+
+  test('polls a folder whose watcher fails until the watcher can be restarted', async () => {
+    await startWatching();
+    fakeWatchers[0].emit('error', new Error('watch failed'));
+    expect(fakeWatchers[0].close).toHaveBeenCalled();
+    expect(getWatchedFolders()[0]).toMatchObject({ mode: 'poll', error: 'watch failed' });
+
+    // The first restart fails, so polling carries on and the next attempt waits twice as long
+    watch.mockImplementationOnce(() => { throw new Error('no watches left'); });
+    await fs.writeFile(path.join(rootPath, 'Metroid.nes'), 'metroid');
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(getWatchedFolders()[0]).toMatchObject({ mode: 'poll', error: 'no watches left' });
+    await vi.waitFor(() => expect(listPendingUpdates()).toHaveLength(1));
+
+    await vi.advanceTimersByTimeAsync(59000);
+    expect(getWatchedFolders()[0].mode).toBe('poll');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getWatchedFolders()[0]).toMatchObject({ mode: 'watch', error: null });
+    expect(watch).toHaveBeenCalledTimes(3);
+  });
+
+  test('stops watching platforms that turn watching off', async () => {
+    await startWatching();
+    await fs.writeFile(path.join(rootPath, 'Metroid.nes'), 'metroid');
+    await waitForChange(1);
+
+    expect(await syncLibraryWatchers([{ id: 7, scanSettings: { watch: false, folderPath: 'roms/nes' } }], {})).toBe(0);
+    expect(fakeWatchers[0].close).toHaveBeenCalled();
+    expect(getWatchedFolders()).toEqual([]);
+    expect(listPendingUpdates()).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { theGamesDbProvider } from './thegamesdb.js';
+import { rawgProvider } from './rawg.js';
+import { localProvider } from './local.js';
+
+// Metadata providers look games up for the game form and return them in one shape, so callers
+// don't need to know which service they talk to. A provider is an object with:
+//
+//   id, name            ID used in routes and METADATA_PROVIDERS, and a display name
+//   gameIdField         Game field that links a game to the provider's record (e.g. theGamesDbId), if any
+//   capabilities        { platformFilter, detailsInSearch, artTypes, fields, requiresNetwork }
+//   isConfigured()      whether it can be used, e.g. has an API key; may return a promise
+//   search(title, { page, platform })    -> { games, pages, fromCache, stale }
+//   getById(id)                          -> game, or null if there is none
+//   getImages(id, { page, artTypes })    -> { images, pages }, images as TheGamesDB game images
+//   getErrorResponse(error)              -> { status, body } for the provider's own errors, or null
+//
+// Games have the shape { id, title, release_date, platform?: { id, name, alias }, platforms,
+// genres, genre_ids?, overview, developers, publishers, players?, cover_image_url?,
+// background_image_url? }; `platform` and `genre_ids` are set when the provider's platform and
+// genre IDs are the app's (TheGamesDB's).
+
+const PROVIDERS = [theGamesDbProvider, rawgProvider, localProvider];
+const DEFAULT_PROVIDER_ORDER = PROVIDERS.map(provider => provider.id);
+
+// METADATA_PROVIDERS lists the enabled providers in priority order; unlisted ones are disabled
+const getProviderOrder = () => {
+  const configured = (process.env.METADATA_PROVIDERS || '').split(',').map(id => id.trim()).filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_PROVIDER_ORDER;
+};
+
+// A provider whose check fails (e.g. on an unreadable offline export) is listed as not configured,
+// so the others can still be used
+const isProviderConfigured = async (provider) => {
+  try {
+    return Boolean(await provider.isConfigured());
+  } catch (error) {
+    console.warn(`Could not check whether metadata provider ${provider.name} is configured: ${error.message}`);
+    return false;
+  }
+};
+
+/**
+ * Every provider with whether it is enabled and configured, in priority order (enabled ones first).
+ * `priority` is the provider's position among the enabled ones, from 1, or null when disabled.
+ */
+export const listMetadataProviders = async () => {
+  const order = getProviderOrder().filter(id => PROVIDERS.some(provider => provider.id === id));
+  const getRank = (provider) => order.includes(provider.id) ? order.indexOf(provider.id) : order.length;
+  return Promise.all([...PROVIDERS]
+    .sort((a, b) => getRank(a) - getRank(b))
+    .map(async provider => ({
+      id: provider.id,
+      name: provider.name,
+      enabled: order.includes(provider.id),
+      configured: await isProviderConfigured(provider),
+      priority: order.includes(provider.id) ? order.indexOf(provider.id) + 1 : null,
+      gameIdField: provider.gameIdField,
+      capabilities: provider.capabilities,
+    })));
+};
+
+/**
+ * Returns an enabled provider by ID. Throws an error with code METADATA_PROVIDER_NOT_FOUND for
+ * unknown IDs and METADATA_PROVIDER_DISABLED for providers left out of METADATA_PROVIDERS.
+ */
+export const getMetadataProvider = (providerId) => {
+  const provider = PROVIDERS.find(candidate => candidate.id === providerId);
+  if (!provider) {
+    const error = new Error(`Unknown metadata provider: ${providerId}`);
+    error.code = 'METADATA_PROVIDER_NOT_FOUND';
+    throw error;
+  }
+  if (!getProviderOrder().includes(provider.id)) {
+    const error = new Error(`Metadata provider ${provider.name} is disabled.`);
+    error.code = 'METADATA_PROVIDER_DISABLED';
+    throw error;
+  }
+  return provider;
+};
+
+/**
+ * Maps an error from the registry or a provider to an HTTP status and error body. Returns null
+ * for unexpected errors.
+ */
+export const getMetadataProviderErrorResponse = (provider, error) => {
+  if (error.code === 'METADATA_PROVIDER_NOT_FOUND') {
+    return { status: 404, body: { error: error.message } };
+  }
+  if (error.code === 'METADATA_PROVIDER_DISABLED') {
+    return { status: 403, body: { error: error.message } };
+  }
+  return provider ? provider.getErrorResponse(error) : null;
+};
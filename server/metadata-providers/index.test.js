@@ -0,0 +1,70 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import request from 'supertest';
+import { app } from '../proxy-server.js';
+import { listMetadataProviders, getMetadataProvider, getMetadataProviderErrorResponse } from './index.js';
+
+describe('metadata provider registry', () => {
+  let originalCwd;
+  let originalEnv;
+
+  // Whether TheGamesDB is configured depends on an offline export under the working directory
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    originalEnv = { ...process.env };
+    process.chdir(await fs.mkdtemp(path.join(os.tmpdir(), 'metadata-providers-test-')));
+    delete process.env.METADATA_PROVIDERS;
+    delete process.env.THEGAMESDB_API_KEY;
+    delete process.env.RAWG_API_KEY;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    process.chdir(originalCwd);
+  });
+
+  const summarize = (providers) => providers.map(({ id, enabled, configured, priority }) => ({ id, enabled, configured, priority }));
+
+  test('lists providers in the default order, with those lacking keys as not configured', async () => {
+    process.env.RAWG_API_KEY = 'test-key';
+    expect(summarize(await listMetadataProviders())).toEqual([
+      { id: 'thegamesdb', enabled: true, configured: false, priority: 1 },
+      { id: 'rawg', enabled: true, configured: true, priority: 2 },
+      { id: 'local', enabled: true, configured: true, priority: 3 },
+    ]);
+  });
+
+  test('follows METADATA_PROVIDERS, listing the providers it leaves out last as disabled', async () => {
+    process.env.METADATA_PROVIDERS = 'local, unknown, thegamesdb';
+    process.env.THEGAMESDB_API_KEY = 'test-key';
+    expect(summarize(await listMetadataProviders())).toEqual([
+      { id: 'local', enabled: true, configured: true, priority: 1 },
+      { id: 'thegamesdb', enabled: true, configured: true, priority: 2 },
+      { id: 'rawg', enabled: false, configured: false, priority: null },
+    ]);
+
+    expect(getMetadataProvider('local').id).toBe('local');
+    expect(() => getMetadataProvider('rawg')).toThrow(expect.objectContaining({ code: 'METADATA_PROVIDER_DISABLED' }));
+    expect(() => getMetadataProvider('nope')).toThrow(expect.objectContaining({ code: 'METADATA_PROVIDER_NOT_FOUND' }));
+  });
+
+  test('lists a provider whose check fails as not configured, and the rest as usual', async () => {
+    await fs.mkdir(path.join('server', 'data', 'thegamesdb_offline'), { recursive: true });
+    await fs.writeFile(path.join('server', 'data', 'thegamesdb_offline', 'summary.json'), '{ "counts": ');
+
+    expect(summarize(await listMetadataProviders()).map(({ id, configured }) => [id, configured]))
+      .toEqual([['thegamesdb', false], ['rawg', false], ['local', true]]);
+    const response = await request(app).get('/api/metadata/providers');
+    expect(response.status).toBe(200);
+    expect(response.body.providers).toHaveLength(3);
+  });
+
+  test('maps registry errors to HTTP statuses', () => {
+    const notFound = Object.assign(new Error('Unknown metadata provider: nope'), { code: 'METADATA_PROVIDER_NOT_FOUND' });
+    expect(getMetadataProviderErrorResponse(null, notFound)).toEqual({ status: 404, body: { error: notFound.message } });
+    const disabled = Object.assign(new Error('disabled'), { code: 'METADATA_PROVIDER_DISABLED' });
+    expect(getMetadataProviderErrorResponse(null, disabled).status).toBe(403);
+    expect(getMetadataProviderErrorResponse(null, new Error('boom'))).toBeNull();
+  });
+});
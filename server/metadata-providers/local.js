@@ -0,0 +1,86 @@
+import { readDataFile } from '../data-store.js';
+import { scoreTitleMatch } from '../title-matcher.js';
+
+// Looks games up in the library itself (server/data/games.json), so metadata already filled in
+// for one copy of a game (another region or revision, or a re-import) can be copied to another
+// without network access or an API key. Only games with some metadata are offered.
+
+const MIN_SCORE = 0.5;
+const PAGE_SIZE = 20;
+
+const ART_TYPES = ['boxart_front', 'boxart_back', 'fanart', 'banner', 'screenshot', 'titlescreen', 'clearlogo'];
+
+const hasMetadata = (game) => Boolean(game.description || game.genre || game.releaseDate || game.coverImageUrl);
+
+const toMetadataGame = (game, platformsById) => {
+  const platform = platformsById.get(String(game.platformId));
+  return {
+    id: game.id,
+    title: game.title,
+    release_date: game.releaseDate || undefined,
+    platform: platform ? { id: platform.id, name: platform.name, alias: platform.alias || '' } : undefined,
+    platforms: platform ? [platform.name] : [],
+    genres: game.genre ? game.genre.split(', ') : [],
+    genre_ids: game.genreIds,
+    overview: game.description || undefined,
+    developers: game.developer ? [game.developer] : [],
+    publishers: game.publisher ? [game.publisher] : [],
+    players: game.players,
+    cover_image_url: game.coverImageUrl || undefined,
+  };
+};
+
+const readLibrary = async () => {
+  const [games, platforms] = await Promise.all([readDataFile('games'), readDataFile('platforms')]);
+  return { games, platformsById: new Map(platforms.map(platform => [String(platform.id), platform])) };
+};
+
+export const localProvider = {
+  id: 'local',
+  name: 'Local library',
+  gameIdField: undefined, // Library games are copied from, not linked to
+  capabilities: {
+    platformFilter: true,
+    detailsInSearch: true,
+    artTypes: ART_TYPES,
+    fields: ['title', 'platform', 'description', 'genre', 'releaseDate', 'coverImageUrl', 'developer', 'publisher', 'players'],
+    requiresNetwork: false,
+  },
+
+  isConfigured: () => true,
+
+  search: async (title, { page = 1, platform } = {}) => {
+    const { games, platformsById } = await readLibrary();
+    const matches = games
+      .filter(game => hasMetadata(game) && (!platform || String(game.platformId) === String(platform)))
+      .map(game => ({ game, score: scoreTitleMatch(title, game.title) }))
+      .filter(({ score }) => score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score);
+    const start = (page - 1) * PAGE_SIZE;
+    return {
+      games: matches.slice(start, start + PAGE_SIZE).map(({ game }) => toMetadataGame(game, platformsById)),
+      pages: { current: page, previous: page > 1 ? page - 1 : null, next: start + PAGE_SIZE < matches.length ? page + 1 : null },
+      fromCache: false,
+      stale: false,
+    };
+  },
+
+  getById: async (id) => {
+    const { games, platformsById } = await readLibrary();
+    const game = games.find(candidate => candidate.id === String(id));
+    return game ? toMetadataGame(game, platformsById) : null;
+  },
+
+  // The game's chosen artwork: the cover as front box art and the other types from `images`
+  getImages: async (id, { page = 1, artTypes = [] } = {}) => {
+    const { games } = await readLibrary();
+    const game = games.find(candidate => candidate.id === String(id));
+    const urls = game ? { boxart_front: game.coverImageUrl, ...game.images } : {};
+    const images = ART_TYPES
+      .filter(artType => urls[artType] && (artTypes.length === 0 || artTypes.includes(artType)))
+      .map(artType => ({ id: `${id}-${artType}`, artType, url: urls[artType], thumbnailUrl: urls[artType] }));
+    return { images, pages: { current: page, previous: null, next: null } };
+  },
+
+  getErrorResponse: () => null,
+};
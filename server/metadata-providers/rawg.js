@@ -0,0 +1,46 @@
+import { isRawgConfigured, searchRawgGames, getRawgGameDetails, getRawgGameScreenshots, getRawgErrorResponse } from '../rawg.js';
+
+// RAWG games aren't tied to one platform, and its platform IDs aren't TheGamesDB's, so searches
+// can't be narrowed to the form's platform
+const toMetadataGame = (game) => ({
+  id: game.id,
+  title: game.title,
+  release_date: game.release_date,
+  platforms: game.platforms,
+  genres: game.genres,
+  overview: game.overview,
+  developers: game.developers,
+  publishers: game.publishers,
+  background_image_url: game.background_image_url,
+});
+
+export const rawgProvider = {
+  id: 'rawg',
+  name: 'RAWG',
+  gameIdField: 'rawgId',
+  capabilities: {
+    platformFilter: false,
+    detailsInSearch: false,
+    artTypes: ['screenshot'],
+    fields: ['title', 'description', 'genre', 'releaseDate', 'developer', 'publisher'],
+    requiresNetwork: true,
+  },
+
+  isConfigured: isRawgConfigured,
+
+  search: async (title, { page = 1 } = {}) => {
+    const { games, pages, fromCache } = await searchRawgGames(title, { page });
+    return { games: games.map(toMetadataGame), pages, fromCache, stale: false };
+  },
+
+  getById: async (id) => toMetadataGame(await getRawgGameDetails(id)),
+
+  getImages: async (id, { page = 1, artTypes = [] } = {}) => {
+    if (artTypes.length > 0 && !artTypes.includes('screenshot')) {
+      return { images: [], pages: { current: page, previous: null, next: null } };
+    }
+    return getRawgGameScreenshots(id, { page });
+  },
+
+  getErrorResponse: getRawgErrorResponse,
+};
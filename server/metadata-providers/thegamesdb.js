@@ -0,0 +1,111 @@
+import {
+  fetchTheGamesDb,
+  transformGamesResponse,
+  transformGameImagesResponse,
+  transformPages,
+  getLookupNames,
+  getTheGamesDbErrorResponse,
+} from '../thegamesdb.js';
+import { hasOfflineExport } from '../thegamesdb-offline.js';
+
+const GAME_FIELDS = 'overview,genres,release_date,platform,players,publishers';
+
+// TheGamesDB image types by art type; box art covers both sides
+const IMAGE_TYPES = {
+  boxart_front: 'boxart',
+  boxart_back: 'boxart',
+  fanart: 'fanart',
+  banner: 'banner',
+  screenshot: 'screenshot',
+  titlescreen: 'titlescreen',
+  clearlogo: 'clearlogo',
+};
+
+const lookupNames = {};
+
+// Loaded once per server run and kind (until a load finds some); without them games are returned
+// without those names
+const loadLookupNames = async (kind) => {
+  if (lookupNames[kind]) return lookupNames[kind];
+  try {
+    const names = await getLookupNames(kind);
+    if (names.size > 0) lookupNames[kind] = names;
+    return names;
+  } catch (error) {
+    console.warn(`Could not load TheGamesDB ${kind}; games will be returned without them: ${error.message}`);
+    return new Map();
+  }
+};
+
+const getNames = (ids, names) => (ids || []).map(id => names.get(Number(id))).filter(Boolean);
+
+const toMetadataGames = async (responseData) => {
+  const [genreNames, developerNames, publisherNames] = await Promise.all(['genres', 'developers', 'publishers'].map(loadLookupNames));
+  const rawGames = new Map((responseData?.data?.games || []).map(game => [game.id, game]));
+  return (await transformGamesResponse(responseData)).map(game => {
+    const rawGame = rawGames.get(game.id) || {};
+    return {
+      id: game.id,
+      title: game.title,
+      release_date: game.release_date,
+      platform: game.source_platform_details || { id: game.platform_id, name: '', alias: '' },
+      platforms: game.source_platform_details ? [game.source_platform_details.name] : [],
+      genres: getNames(rawGame.genres, genreNames),
+      genre_ids: (rawGame.genres || []).map(Number),
+      overview: game.overview,
+      developers: getNames(rawGame.developers, developerNames),
+      publishers: getNames(rawGame.publishers, publisherNames),
+      players: rawGame.players || undefined,
+      cover_image_url: game.boxart_url,
+    };
+  });
+};
+
+export const theGamesDbProvider = {
+  id: 'thegamesdb',
+  name: 'TheGamesDB',
+  gameIdField: 'theGamesDbId',
+  capabilities: {
+    platformFilter: true,
+    detailsInSearch: true,
+    artTypes: Object.keys(IMAGE_TYPES),
+    fields: ['title', 'platform', 'description', 'genre', 'releaseDate', 'coverImageUrl', 'developer', 'publisher', 'players'],
+    requiresNetwork: true,
+  },
+
+  // Cached responses are served without a key, but new searches need one or an imported database export
+  isConfigured: async () => Boolean(process.env.THEGAMESDB_API_KEY) || hasOfflineExport(),
+
+  search: async (title, { page = 1, platform } = {}) => {
+    const { data, fromCache, stale } = await fetchTheGamesDb('/v1.1/Games/ByGameName', {
+      name: title,
+      fields: GAME_FIELDS,
+      include: 'boxart,platform',
+      ...(platform ? { 'filter[platform]': platform } : {}),
+      ...(page > 1 ? { page } : {}),
+    });
+    return { games: await toMetadataGames(data), pages: transformPages(data?.pages), fromCache, stale };
+  },
+
+  getById: async (id) => {
+    const { data } = await fetchTheGamesDb('/v1/Games/ByGameID', { id: String(id), fields: GAME_FIELDS, include: 'boxart,platform' });
+    const [game] = await toMetadataGames(data);
+    return game || null;
+  },
+
+  getImages: async (id, { page = 1, artTypes = [] } = {}) => {
+    const types = [...new Set(artTypes.map(artType => IMAGE_TYPES[artType]).filter(Boolean))];
+    const { data } = await fetchTheGamesDb('/v1/Games/Images', {
+      games_id: String(id),
+      ...(types.length > 0 ? { 'filter[type]': types.join(',') } : {}),
+      ...(page > 1 ? { page } : {}),
+    });
+    const images = transformGameImagesResponse(data, String(id));
+    return {
+      images: artTypes.length > 0 ? images.filter(image => artTypes.includes(image.artType)) : images,
+      pages: transformPages(data?.pages),
+    };
+  },
+
+  getErrorResponse: getTheGamesDbErrorResponse,
+};
@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { readDataFile, writeDataFile } from './data-store.js';
+import { fetchTheGamesDb, transformGamesResponse, transformPages, getLookupNames, getGenreFields } from './thegamesdb.js';
+import { getOfflineExportSummary, isOfflineModeActive } from './thegamesdb-offline.js';
+import { getReleaseYear } from './scrape-jobs.js';
+
+// Keeps metadata of games linked to TheGamesDB (theGamesDbId) current. A scheduled run reads
+// TheGamesDB's edit feed (/v1/Games/Updates) from the last edit seen, fetches the linked games
+// that were edited and queues their new values as pending metadata updates. The client owns
+// games.json, so it applies them itself, leaving alone fields that didn't come from TheGamesDB
+// (see Game.provenance). The last edit seen and the queue are kept in server/data/metadataRefresh.json.
+
+const REFRESH_DATA_TYPE = 'metadataRefresh';
+const DEFAULT_INTERVAL_HOURS = 24;
+// Edit feed pages read per run; a run that stops early continues from its last edit next time
+const MAX_UPDATE_PAGES_PER_RUN = 10;
+const GAMES_PER_REQUEST = 20;
+// How far back the first run looks when there is no edit to start from, in minutes
+const FIRST_RUN_LOOKBACK_MINUTES = 7 * 24 * 60;
+const MAX_PENDING_UPDATES = 500;
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1; // setTimeout fires at once for longer delays
+const GAME_FIELDS = 'overview,genres,release_date,platform,players,publishers';
+
+// The game field each kind of TheGamesDB edit changes; other edits (ratings, fanart, …) are ignored
+const EDIT_TYPE_FIELDS = {
+  game_title: 'title',
+  overview: 'description',
+  release_date: 'releaseDate',
+  genres: 'genre',
+  developers: 'developer',
+  publishers: 'publisher',
+  players: 'players',
+  boxart: 'coverImageUrl',
+};
+
+let isRunning = false;
+let scheduleTimer = null;
+
+const readState = async () => ({
+  lastEditId: null,
+  lastRunAt: null,
+  lastError: null,
+  updates: [],
+  ...(await readDataFile(REFRESH_DATA_TYPE, {})),
+});
+
+export const getRefreshIntervalHours = () => {
+  const hours = parseFloat(process.env.METADATA_REFRESH_INTERVAL_HOURS ?? String(DEFAULT_INTERVAL_HOURS));
+  return Number.isNaN(hours) || hours < 0 ? DEFAULT_INTERVAL_HOURS : hours;
+};
+
+// Status for the client: { lastEditId, lastRunAt, lastError, running, intervalHours, updates }
+export const getMetadataRefreshStatus = async () => ({
+  ...(await readState()),
+  running: isRunning,
+  intervalHours: getRefreshIntervalHours(),
+});
+
+// Edits since `lastEditId` (or from the last FIRST_RUN_LOOKBACK_MINUTES when there is none), oldest first
+const fetchEdits = async (lastEditId) => {
+  const params = lastEditId !== null ? { last_edit_id: lastEditId } : { last_edit_id: 0, time: FIRST_RUN_LOOKBACK_MINUTES };
+  const edits = [];
+  let page = 1;
+  for (let pagesRead = 0; pagesRead < MAX_UPDATE_PAGES_PER_RUN && page; pagesRead++) {
+    const { data } = await fetchTheGamesDb('/v1/Games/Updates', { ...params, ...(page > 1 ? { page } : {}) });
+    edits.push(...(data?.data?.updates || []));
+    page = transformPages(data?.pages).next;
+  }
+  return edits;
+};
+
+const loadNames = async (kind) => {
+  try {
+    return await getLookupNames(kind);
+  } catch (error) {
+    console.warn(`Metadata refresh could not load TheGamesDB ${kind}; they will be left out: ${error.message}`);
+    return new Map();
+  }
+};
+
+// Current values of the tracked fields for the given TheGamesDB games, by game ID
+const fetchGameValues = async (gameIds) => {
+  const [genreNames, developerNames, publisherNames] = await Promise.all(['genres', 'developers', 'publishers'].map(loadNames));
+  const getNames = (ids, names) => (ids || []).map(id => names.get(Number(id))).filter(Boolean);
+  const valuesById = new Map();
+  for (let i = 0; i < gameIds.length; i += GAMES_PER_REQUEST) {
+    const { data } = await fetchTheGamesDb('/v1/Games/ByGameID', {
+      id: gameIds.slice(i, i + GAMES_PER_REQUEST).join(','),
+      fields: GAME_FIELDS,
+      include: 'boxart,platform',
+    }, { refresh: true });
+    const rawGames = new Map((data?.data?.games || []).map(game => [game.id, game]));
+    for (const game of await transformGamesResponse(data)) {
+      const rawGame = rawGames.get(game.id) || {};
+      valuesById.set(Number(game.id), {
+        title: game.title,
+        description: game.overview,
+        releaseDate: getReleaseYear(game.release_date),
+        ...getGenreFields(rawGame.genres, genreNames),
+        developer: getNames(rawGame.developers, developerNames)[0],
+        publisher: getNames(rawGame.publishers, publisherNames)[0],
+        players: rawGame.players || undefined,
+        coverImageUrl: game.boxart_url,
+      });
+    }
+  }
+  return valuesById;
+};
+
+// One pending update per edited game: the edited fields whose value differs for a linked library
+// game that hasn't locked them
+const buildUpdates = async (edits, libraryGames) => {
+  const fieldsByGameId = new Map();
+  const editIdByGameId = new Map();
+  for (const edit of edits) {
+    const field = EDIT_TYPE_FIELDS[edit.type];
+    const gameId = Number(edit.game_id);
+    if (!field || !libraryGames.some(game => Number(game.theGamesDbId) === gameId)) continue;
+    if (!fieldsByGameId.has(gameId)) fieldsByGameId.set(gameId, new Set());
+    fieldsByGameId.get(gameId).add(field);
+    editIdByGameId.set(gameId, Math.max(editIdByGameId.get(gameId) || 0, Number(edit.edit_id)));
+  }
+  if (fieldsByGameId.size === 0) return [];
+
+  const valuesById = await fetchGameValues([...fieldsByGameId.keys()]);
+  const detectedAt = new Date().toISOString();
+  return [...fieldsByGameId].flatMap(([gameId, fields]) => {
+    const values = valuesById.get(gameId);
+    if (!values) return []; // Deleted on TheGamesDB
+    const linkedGames = libraryGames.filter(game => Number(game.theGamesDbId) === gameId);
+    const changes = {};
+    for (const field of fields) {
+      if (values[field] !== undefined && linkedGames.some(game => game[field] !== values[field] && !game.lockedFields?.includes(field))) {
+        changes[field] = values[field];
+        if (field === 'genre') changes.genreIds = values.genreIds;
+      }
+    }
+    return Object.keys(changes).length > 0
+      ? [{ id: crypto.randomUUID(), theGamesDbId: gameId, editId: editIdByGameId.get(gameId), detectedAt, changes }]
+      : [];
+  });
+};
+
+/**
+ * Reads the edit feed from the last edit seen and queues updates for edited games in the library.
+ * Starts from the imported database export's edit when there has been no run yet. Errors are
+ * recorded in the status as well as thrown. Returns the status, or throws an error with code
+ * METADATA_REFRESH_RUNNING while a run is in progress.
+ */
+export const runMetadataRefresh = async () => {
+  if (isRunning) {
+    const error = new Error('A metadata refresh is already running.');
+    error.code = 'METADATA_REFRESH_RUNNING';
+    throw error;
+  }
+  isRunning = true;
+  const result = { lastError: null };
+  let updates = [];
+  try {
+    if (await isOfflineModeActive()) {
+      const error = new Error("TheGamesDB offline mode is on, so TheGamesDB's edits can't be fetched.");
+      error.code = 'METADATA_REFRESH_OFFLINE';
+      throw error;
+    }
+    const libraryGames = (await readDataFile('games')).filter(game => game.theGamesDbId);
+    // The edit feed isn't read until games are linked, to save the allowance
+    if (libraryGames.length > 0) {
+      const startEditId = (await readState()).lastEditId ?? (await getOfflineExportSummary())?.lastEditId ?? null;
+      const edits = await fetchEdits(startEditId);
+      updates = await buildUpdates(edits, libraryGames);
+      result.lastEditId = edits.reduce((latest, edit) => Math.max(latest, Number(edit.edit_id)), startEditId ?? 0) || startEditId;
+    }
+  } catch (error) {
+    result.lastError = error.message;
+    throw error;
+  } finally {
+    // Read again so updates dismissed during the run stay dismissed. A newer update for a game
+    // is merged into the one already queued.
+    const state = await readState();
+    const queued = [...state.updates];
+    for (const update of updates) {
+      const index = queued.findIndex(existing => existing.theGamesDbId === update.theGamesDbId);
+      if (index === -1) {
+        queued.push(update);
+      } else {
+        queued[index] = { ...update, changes: { ...queued[index].changes, ...update.changes } };
+      }
+    }
+    await writeDataFile(REFRESH_DATA_TYPE, {
+      ...state,
+      ...result,
+      lastRunAt: new Date().toISOString(),
+      updates: queued.slice(-MAX_PENDING_UPDATES),
+    });
+    isRunning = false;
+  }
+  return getMetadataRefreshStatus();
+};
+
+// Removes applied or dismissed updates from the queue. Returns how many were removed.
+export const dismissMetadataUpdates = async (ids) => {
+  const state = await readState();
+  const remaining = state.updates.filter(update => !ids.includes(update.id));
+  await writeDataFile(REFRESH_DATA_TYPE, { ...state, updates: remaining });
+  return state.updates.length - remaining.length;
+};
+
+/**
+ * Runs the refresh every METADATA_REFRESH_INTERVAL_HOURS (default 24; 0 turns it off). The first
+ * run is due one interval after the last one, so restarts don't trigger extra runs.
+ */
+export const scheduleMetadataRefresh = async () => {
+  clearTimeout(scheduleTimer);
+  const intervalMs = Math.min(getRefreshIntervalHours() * 60 * 60 * 1000, MAX_TIMER_DELAY_MS);
+  if (intervalMs === 0) return;
+  const { lastRunAt } = await readState();
+  const dueInMs = lastRunAt ? Math.min(Math.max(0, Date.parse(lastRunAt) + intervalMs - Date.now()), MAX_TIMER_DELAY_MS) : 0;
+  const runAndReschedule = () => {
+    runMetadataRefresh()
+      .catch(error => console.warn(`Scheduled metadata refresh failed: ${error.message}`))
+      .finally(() => {
+        scheduleTimer = setTimeout(runAndReschedule, intervalMs);
+        scheduleTimer.unref?.();
+      });
+  };
+  scheduleTimer = setTimeout(runAndReschedule, dueInMs);
+  scheduleTimer.unref?.();
+};
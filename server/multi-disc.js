@@ -0,0 +1,147 @@
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+
+// Sheets that reference separate track files, which should not be listed as games of their own
+const TRACK_SHEET_EXTENSIONS = ['cue', 'gdi'];
+
+const getExtension = (fileName) => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.substring(dotIndex + 1).toLowerCase() : '';
+};
+
+const getDirectoryPrefix = (relativePath) => relativePath.substring(0, relativePath.lastIndexOf('/') + 1);
+
+/**
+ * Extracts the disc number from a ROM name such as "Final Fantasy VII (USA) (Disc 2)",
+ * "Policenauts [Disc 1 of 3]" or "Snatcher - CD2". Returns { discNumber, title } where title is
+ * the name with the disc tag removed, or null if the name has no disc number.
+ */
+export const parseDiscNumber = (name) => {
+  const taggedMatch = name.match(/\s*[([](?:disc|disk|cd)\s*(\d+)(?:\s*of\s*\d+)?[)\]]/i);
+  const trailingMatch = taggedMatch ? null : name.match(/[\s_-]+(?:disc|disk|cd)[\s_-]*(\d+)$/i);
+  const match = taggedMatch || trailingMatch;
+  if (!match || match.index === undefined) {
+    return null;
+  }
+  const title = (name.substring(0, match.index) + name.substring(match.index + match[0].length))
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+  return { discNumber: parseInt(match[1], 10), title };
+};
+
+/**
+ * Returns the track file names referenced by a .cue or .gdi sheet, relative to the sheet's folder.
+ * .cue: `FILE "Track 01.bin" BINARY`; .gdi: a track count line, then `1 0 4 2352 "track01.raw" 0`.
+ */
+export const parseTrackSheet = (extension, content) => {
+  const lines = content.split(/\r?\n/);
+  if (extension === 'cue') {
+    return lines
+      .map(line => line.match(/^\s*FILE\s+(?:"([^"]+)"|(\S+))/i))
+      .filter(Boolean)
+      .map(match => match[1] || match[2]);
+  }
+  return lines.slice(1)
+    .map(line => line.trim().match(/^\d+\s+\d+\s+\d+\s+\d+\s+(?:"([^"]+)"|(\S+))/))
+    .filter(Boolean)
+    .map(match => match[1] || match[2]);
+};
+
+/**
+ * Post-processes scanner output for disc-based platforms:
+ * - track files referenced by a .cue/.gdi are removed, and their sizes added to the sheet's entry
+ * - files in the same folder with the same title and extension but different disc numbers are
+ *   merged into one entry with an ordered `discs` list; the entry's relativePath is the first disc's
+ *
+ * Archive entries are left as they are. Each disc is { discNumber, filename, relativePath, size, hashes? }.
+ */
+export const groupDiscImages = async (rootPath, romFiles) => {
+  const filesByPath = new Map(romFiles.filter(f => !f.archiveEntry).map(f => [f.relativePath, f]));
+  const trackPaths = new Set();
+  const sheetSizes = new Map();
+
+  for (const romFile of romFiles) {
+    const extension = getExtension(romFile.filename);
+    if (romFile.archiveEntry || !TRACK_SHEET_EXTENSIONS.includes(extension)) continue;
+
+    let tracks;
+    try {
+      tracks = parseTrackSheet(extension, await fs.readFile(path.join(rootPath, romFile.relativePath), 'utf8'));
+    } catch {
+      continue; // Unreadable sheet, list it as-is
+    }
+
+    let size = romFile.size;
+    for (const track of tracks) {
+      const trackPath = getDirectoryPrefix(romFile.relativePath) + track.replace(/\\/g, '/');
+      if (trackPath === romFile.relativePath || trackPaths.has(trackPath)) continue;
+      trackPaths.add(trackPath);
+      size += filesByPath.get(trackPath)?.size || 0;
+    }
+    sheetSizes.set(romFile.relativePath, size);
+  }
+
+  // Groups are placed where their first disc was found, so the scan order is kept
+  const results = [];
+  const discGroups = new Map();
+  for (const romFile of romFiles) {
+    if (!romFile.archiveEntry && trackPaths.has(romFile.relativePath)) continue;
+
+    const entry = sheetSizes.has(romFile.relativePath) ? { ...romFile, size: sheetSizes.get(romFile.relativePath) } : romFile;
+    const disc = entry.archiveEntry ? null : parseDiscNumber(entry.name);
+    if (!disc) {
+      results.push(entry);
+      continue;
+    }
+
+    const groupKey = `${getDirectoryPrefix(entry.relativePath)}\0${disc.title.toLowerCase()}\0${getExtension(entry.filename)}`;
+    let group = discGroups.get(groupKey);
+    if (!group) {
+      group = { title: disc.title, discs: [] };
+      discGroups.set(groupKey, group);
+      results.push(group);
+    }
+    group.discs.push({ discNumber: disc.discNumber, file: entry });
+  }
+
+  return results.map(item => {
+    if (!item.discs) return item;
+    // A lone "Disc 1" with no siblings stays an ordinary entry
+    if (item.discs.length === 1) return item.discs[0].file;
+
+    const discs = [...item.discs].sort((a, b) => a.discNumber - b.discNumber);
+    const firstDisc = discs[0].file;
+    return {
+      ...firstDisc,
+      name: item.title,
+      size: discs.reduce((total, disc) => total + (disc.file.size || 0), 0),
+      discs: discs.map(({ discNumber, file }) => ({
+        discNumber,
+        filename: file.filename,
+        relativePath: file.relativePath,
+        size: file.size,
+        ...(file.hashes ? { hashes: file.hashes } : {}),
+      })),
+    };
+  });
+};
+
+const getPlaylistCacheDir = () => path.join(os.tmpdir(), 'retro-game-launcher', 'playlists');
+
+/**
+ * Writes an .m3u playlist listing a multi-disc game's discs (absolute paths, in order) and
+ * returns its path. Emulators such as RetroArch use the playlist to swap discs in-game.
+ * The playlist is rewritten on every launch so it always reflects the game's current discs.
+ */
+export const writeM3uPlaylist = async (gameId, title, discPaths) => {
+  const cacheDir = getPlaylistCacheDir();
+  await fs.mkdir(cacheDir, { recursive: true });
+  // Hashing the game ID keeps the filename safe; the title is only there to help when browsing the folder
+  const safeTitle = title.replace(/[^\w\s().-]/g, '').trim().substring(0, 80) || 'game';
+  const playlistId = crypto.createHash('sha1').update(String(gameId)).digest('hex').substring(0, 12);
+  const playlistPath = path.join(cacheDir, `${safeTitle} [${playlistId}].m3u`);
+  await fs.writeFile(playlistPath, `${discPaths.join('\n')}\n`, 'utf8');
+  return playlistPath;
+};
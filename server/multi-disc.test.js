@@ -0,0 +1,61 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { parseDiscNumber, parseTrackSheet, writeM3uPlaylist } from './multi-disc.js';
+import { scanRomDirectory } from './rom-scanner.js';
+
+describe('multi-disc grouping', () => {
+  test('parseDiscNumber reads tagged and trailing disc numbers', () => {
+    expect(parseDiscNumber('Final Fantasy VII (USA) (Disc 2)')).toEqual({ discNumber: 2, title: 'Final Fantasy VII (USA)' });
+    expect(parseDiscNumber('Policenauts [Disc 1 of 3] (Japan)')).toEqual({ discNumber: 1, title: 'Policenauts (Japan)' });
+    expect(parseDiscNumber('Snatcher - CD2')).toEqual({ discNumber: 2, title: 'Snatcher' });
+    expect(parseDiscNumber('Discworld (Europe)')).toBeNull();
+    expect(parseDiscNumber('Mega Man 2 (USA)')).toBeNull();
+  });
+
+  test('parseTrackSheet lists the files a .cue or .gdi references', () => {
+    const cue = 'FILE "Game (Track 01).bin" BINARY\r\n  TRACK 01 MODE2/2352\r\nFILE Track02.bin BINARY\r\n  TRACK 02 AUDIO\r\n';
+    expect(parseTrackSheet('cue', cue)).toEqual(['Game (Track 01).bin', 'Track02.bin']);
+    const gdi = '3\n1 0 4 2352 track01.bin 0\n2 756 0 2352 "track 02.raw" 0\n3 45000 4 2352 track03.bin 0\n';
+    expect(parseTrackSheet('gdi', gdi)).toEqual(['track01.bin', 'track 02.raw', 'track03.bin']);
+  });
+
+  test('scans hide track files and merge the discs of a game into one entry', async () => {
+    const rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'multi-disc-test-'));
+    try {
+      const files = {
+        'Game (Disc 1).cue': 'FILE "Game (Disc 1).bin" BINARY\n',
+        'Game (Disc 1).bin': '1111',
+        'Game (Disc 2).cue': 'FILE "Game (Disc 2).bin" BINARY\n',
+        'Game (Disc 2).bin': '222222',
+        'Other (Disc 1).iso': 'x',
+      };
+      for (const [name, contents] of Object.entries(files)) {
+        await fs.writeFile(path.join(rootPath, name), contents);
+      }
+
+      const romFiles = await scanRomDirectory(rootPath, { groupDiscs: true });
+      const game = romFiles.find(rom => rom.name === 'Game');
+      expect(game.relativePath).toBe('Game (Disc 1).cue');
+      expect(game.discs.map(({ discNumber, relativePath, size }) => ({ discNumber, relativePath, size }))).toEqual([
+        { discNumber: 1, relativePath: 'Game (Disc 1).cue', size: files['Game (Disc 1).cue'].length + 4 },
+        { discNumber: 2, relativePath: 'Game (Disc 2).cue', size: files['Game (Disc 2).cue'].length + 6 },
+      ]);
+      expect(game.size).toBe(game.discs[0].size + game.discs[1].size);
+      // A lone first disc stays an ordinary entry, and track files aren't listed at all
+      expect(romFiles.map(rom => rom.relativePath).sort()).toEqual(['Game (Disc 1).cue', 'Other (Disc 1).iso']);
+    } finally {
+      await fs.rm(rootPath, { recursive: true, force: true });
+    }
+  });
+
+  test('writeM3uPlaylist lists the discs in order', async () => {
+    const playlistPath = await writeM3uPlaylist('game-1', 'Game: The "Sequel"', ['/roms/Game (Disc 1).cue', '/roms/Game (Disc 2).cue']);
+    try {
+      expect(path.basename(playlistPath)).toMatch(/^Game The Sequel \[[0-9a-f]{12}\]\.m3u$/);
+      expect(await fs.readFile(playlistPath, 'utf8')).toBe('/roms/Game (Disc 1).cue\n/roms/Game (Disc 2).cue\n');
+    } finally {
+      await fs.rm(playlistPath, { force: true });
+    }
+  });
+});
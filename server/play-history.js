@@ -0,0 +1,47 @@
+import { readDataFile, writeDataFile } from './data-store.js';
+
+// Play sessions are stored through the same data store as games, as `server/data/playHistory.json`.
+// The client only ever reads this file; all writes happen here as emulators start and exit.
+export const PLAY_HISTORY_DATA_TYPE = 'playHistory';
+
+// Serializes read-modify-write cycles so overlapping session events don't drop entries
+let writeQueue = Promise.resolve();
+
+const updatePlayHistory = (mutate) => {
+  writeQueue = writeQueue
+    .then(async () => {
+      const history = await readDataFile(PLAY_HISTORY_DATA_TYPE);
+      await writeDataFile(PLAY_HISTORY_DATA_TYPE, mutate(history));
+    })
+    .catch(error => console.error('Error updating play history:', error));
+  return writeQueue;
+};
+
+export const recordSessionStart = (session) => updatePlayHistory(history => [
+  ...history,
+  {
+    id: session.launchId,
+    gameId: session.gameId,
+    gameTitle: session.gameTitle,
+    platformId: session.platformId,
+    emulatorId: session.emulatorId,
+    emulatorName: session.emulatorName,
+    startedAt: session.startedAt,
+    endedAt: null,
+    durationSeconds: null,
+    exitCode: null,
+  },
+]);
+
+export const recordSessionEnd = (session) => updatePlayHistory(history => history.map(entry => {
+  if (entry.id !== session.launchId) {
+    return entry;
+  }
+  const durationMs = new Date(session.endedAt).getTime() - new Date(entry.startedAt).getTime();
+  return {
+    ...entry,
+    endedAt: session.endedAt,
+    durationSeconds: Math.max(0, Math.round(durationMs / 1000)),
+    exitCode: session.exitCode,
+  };
+}));
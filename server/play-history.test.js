@@ -0,0 +1,57 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { recordSessionStart, recordSessionEnd } from './play-history.js';
+
+const readHistory = async () => JSON.parse(await fs.readFile(path.join('server', 'data', 'playHistory.json'), 'utf8'));
+
+const makeSession = (index, fields = {}) => ({
+  launchId: `launch-${index}`,
+  gameId: `game-${index}`,
+  gameTitle: `Game ${index}`,
+  platformId: '7',
+  emulatorId: 'e1',
+  emulatorName: 'Mesen',
+  startedAt: '2024-01-01T10:00:00.000Z',
+  endedAt: null,
+  exitCode: null,
+  ...fields,
+});
+
+describe('play history', () => {
+  let originalCwd;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    process.chdir(await fs.mkdtemp(path.join(os.tmpdir(), 'play-history-test-')));
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+  });
+
+  test('keeps every entry when sessions start and end at the same time', async () => {
+    const sessions = Array.from({ length: 25 }, (_, index) => makeSession(index));
+    await Promise.all(sessions.map(recordSessionStart));
+    await Promise.all(sessions.filter((_, index) => index % 2 === 0).map(session => recordSessionEnd({
+      ...session,
+      endedAt: '2024-01-01T10:01:30.400Z',
+      exitCode: 0,
+    })));
+
+    const history = await readHistory();
+    expect(history.map(entry => entry.id)).toEqual(sessions.map(session => session.launchId));
+    expect(history[0]).toMatchObject({ gameId: 'game-0', endedAt: '2024-01-01T10:01:30.400Z', durationSeconds: 90, exitCode: 0 });
+    expect(history[1]).toMatchObject({ gameId: 'game-1', endedAt: null, durationSeconds: null, exitCode: null });
+    expect(history.filter(entry => entry.endedAt)).toHaveLength(13);
+  });
+
+  test('records an end queued right behind its start', async () => {
+    const session = makeSession(1);
+    recordSessionStart(session);
+    await recordSessionEnd({ ...session, endedAt: '2024-01-01T09:59:00.000Z', exitCode: 1 });
+
+    // A clock that went backwards gives no negative play time
+    expect(await readHistory()).toEqual([expect.objectContaining({ id: 'launch-1', durationSeconds: 0, exitCode: 1 })]);
+  });
+});
@@ -3,10 +3,82 @@ import path from 'path';
 import { promises as fs } from 'fs';
 import axios from 'axios';
 import cors from 'cors';
+import { readDataFile, writeDataFile } from './data-store.js';
+import { buildLaunchCommand, spawnEmulator } from './launcher.js';
+import { registerSession, listSessions, terminateSession } from './launch-sessions.js';
+import { scanRomDirectory } from './rom-scanner.js';
+import { hashFile, hashStream } from './rom-hasher.js';
+import { listArchiveEntries, openArchiveEntryStream, extractArchiveEntryToCache } from './archive-reader.js';
+import { writeM3uPlaylist } from './multi-disc.js';
+import { diffLibrary } from './library-diff.js';
+import {
+  fetchTheGamesDb,
+  transformGamesResponse,
+  transformGameImagesResponse,
+  transformPages,
+  getAllowance,
+  getRemainingAllowance,
+  getCacheSummary,
+  clearTheGamesDbCache,
+  getTheGamesDbErrorResponse,
+  getLookupTable,
+  THEGAMESDB_LOOKUP_KINDS,
+} from './thegamesdb.js';
+import { cacheArtwork, getArtwork, getArtworkFilePath, isArtworkId } from './artwork-store.js';
+import { searchRawgGames, getRawgGameDetails, getRawgGameScreenshots, getRawgErrorResponse } from './rawg.js';
+import { enrichGameList } from './ai-providers/index.js';
+import { listMetadataProviders, getMetadataProvider, getMetadataProviderErrorResponse } from './metadata-providers/index.js';
+import { getMetadataRefreshStatus, runMetadataRefresh, dismissMetadataUpdates, scheduleMetadataRefresh } from './metadata-refresh.js';
+import {
+  importOfflineExport,
+  deleteOfflineExport,
+  getOfflineExportSummary,
+  isOfflineModeActive,
+  suggestTitlesFromOfflineExport,
+} from './thegamesdb-offline.js';
+import {
+  createScrapeJob,
+  listScrapeJobs,
+  listAutoAcceptedResults,
+  getScrapeJob,
+  pauseScrapeJob,
+  resumeScrapeJob,
+  cancelScrapeJob,
+  reviewScrapeResults,
+  deleteScrapeJob,
+} from './scrape-jobs.js';
+import { getCleanTitle, rankCandidates, isConfidentMatch } from './title-matcher.js';
+import { syncLibraryWatchers, listPendingUpdates, dismissPendingUpdates, getWatchedFolders } from './library-watcher.js';
+import {
+  parseLogiqxDat, buildDatIndex, matchRomAgainstDat,
+  readDats, getPlatformDat, savePlatformDat, deletePlatformDat, summarizeDat,
+} from './dat-store.js';
 
 const app = express();
+
+// Browser origins allowed to call the API: the client's (FRONTEND_URL, comma-separated for several).
+// The API writes emulator settings and launches programs, so other websites the user visits must
+// not be able to call it.
+const getAllowedOrigins = () => (process.env.FRONTEND_URL || 'http://localhost:5173')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+
+// Browsers send Origin with cross-origin requests and with every POST, so a request from another
+// site is turned away before it does anything. Requests without one don't come from a web page.
+app.use((req, res, next) => {
+  const { origin } = req.headers;
+  if (origin && !getAllowedOrigins().includes(origin)) {
+    return res.status(403).json({ error: `Requests from ${origin} are not allowed.` });
+  }
+  next();
+});
+app.use(cors({ origin: (origin, callback) => callback(null, getAllowedOrigins()) }));
+// Routes that take the client's games (or, for /api/data, the whole library) need more than the
+// default 100kb. The routes' own parser runs first, so the app-wide one skips their bodies.
+const LIBRARY_BODY_LIMIT = '50mb';
+app.use(['/api/rescan', '/api/dats/:platformId/verify', '/api/scrape/jobs', '/api/data/:dataType'], express.json({ limit: LIBRARY_BODY_LIMIT }));
 app.use(express.json());
-app.use(cors());
 
 let ROMS_BASE_DIRECTORY;
 
@@ -34,82 +106,293 @@ const resolveRomPath = (userProvidedPath) => {
   return fullPath;
 };
 
-// Endpoint to scan for ROMs
-app.post('/api/scan-roms', async (req, res) => {
-  const { platformId, folderPath } = req.body;
+// Converts an absolute path inside ROMS_BASE_DIRECTORY back to the relative form the client uses
+const toRelativeRomPath = (fullPath) => {
+  const relativePath = path.relative(ROMS_BASE_DIRECTORY, fullPath);
+  return relativePath ? relativePath.split(path.sep).join('/') : '.';
+};
 
-  if (typeof platformId !== 'string' || !platformId || typeof folderPath !== 'string') {
-    return res.status(400).json({ error: 'Missing or invalid required fields: platformId or folderPath.' });
+// Returns true if a real (symlink-resolved) path lies inside ROMS_BASE_DIRECTORY
+const isRealPathInsideBase = async (realPath) => {
+  const realBase = await fs.realpath(ROMS_BASE_DIRECTORY);
+  return realPath === realBase || realPath.startsWith(realBase + path.sep);
+};
+
+// Guards against symlinks inside the base directory that point somewhere outside it
+const assertRealPathInsideBase = async (fullPath) => {
+  if (!(await isRealPathInsideBase(await fs.realpath(fullPath)))) {
+    throw new Error('Access denied: Path is outside the allowed base directory.');
   }
+};
+
+// Endpoint to list a directory inside ROMS_BASE_DIRECTORY for the folder browser
+app.get('/api/fs/list', async (req, res) => {
+  const requestedPath = typeof req.query.path === 'string' && req.query.path.trim() ? req.query.path.trim() : '.';
+  const includeFiles = req.query.includeFiles === 'true';
 
   try {
-    const fullPath = resolveRomPath(folderPath);
+    const fullPath = resolveRomPath(requestedPath);
+    await assertRealPathInsideBase(fullPath);
 
     const stats = await fs.stat(fullPath);
     if (!stats.isDirectory()) {
-      return res.status(400).json({ error: `Specified path is not a directory: ${folderPath}` });
+      return res.status(400).json({ error: `Specified path is not a directory: ${requestedPath}` });
     }
 
-    const files = await fs.readdir(fullPath, { withFileTypes: true });
+    const dirents = await fs.readdir(fullPath, { withFileTypes: true });
+    const entries = await Promise.all(dirents
+      .filter(dirent => !dirent.name.startsWith('.'))
+      .map(async (dirent) => {
+        const entryPath = path.join(fullPath, dirent.name);
+        try {
+          const entryStats = await fs.stat(entryPath); // Follows symlinks
+          return { dirent, entryPath, entryStats };
+        } catch {
+          return null; // Broken symlink or unreadable entry
+        }
+      }));
 
-    const romFiles = files
-      .filter(dirent => dirent.isFile() && !dirent.name.startsWith('.') && !dirent.name.endsWith('.txt')) // Basic filtering
-      .map(dirent => {
-        const fileName = dirent.name;
-        const displayName = fileName.substring(0, fileName.lastIndexOf('.')); // Remove extension for display
-        return { displayName, fileName };
-      });
+    const items = entries
+      .filter(entry => entry && (entry.entryStats.isDirectory() || (includeFiles && entry.entryStats.isFile())))
+      .map(({ dirent, entryPath, entryStats }) => {
+        const isDirectory = entryStats.isDirectory();
+        return {
+          name: dirent.name,
+          isDirectory,
+          path: toRelativeRomPath(entryPath),
+          ...(isDirectory ? {} : { size: entryStats.size }),
+          modifiedAt: entryStats.mtime.toISOString(),
+        };
+      })
+      .sort((a, b) => (a.isDirectory === b.isDirectory ? a.name.localeCompare(b.name) : a.isDirectory ? -1 : 1));
 
-    res.status(200).json(romFiles);
+    const currentPath = toRelativeRomPath(fullPath);
+    res.status(200).json({
+      currentPath,
+      parentPath: currentPath === '.' ? null : toRelativeRomPath(path.dirname(fullPath)),
+      items,
+    });
   } catch (error) {
     if (error.code === 'ENOENT') {
-      return res.status(404).json({ error: `Directory not found: ${folderPath}` });
+      return res.status(404).json({ error: `Directory not found: ${requestedPath}` });
     }
     if (error.code === 'EACCES') {
-      return res.status(403).json({ error: `Permission denied for directory: ${folderPath}` });
+      return res.status(403).json({ error: `Permission denied for directory: ${requestedPath}` });
     }
     if (error.message.includes('Invalid folder path') || error.message.includes('Access denied')) {
       return res.status(400).json({ error: error.message });
     }
-    console.error('Error scanning ROMs:', error);
-    res.status(500).json({ error: 'Internal server error during ROM scan.' });
+    console.error('Error listing directory:', error);
+    res.status(500).json({ error: 'Internal server error while listing directory.' });
   }
 });
 
-// Route to fetch platform images from TheGamesDB API
-app.get('/api/thegamesdb/platform_images', async (req, res) => {
-  const { id: platformId } = req.query;
-  const apiKey = process.env.THEGAMESDB_API_KEY;
+// Validates scan options shared by /api/scan-roms and /api/rescan. Returns an error message or null.
+const validateScanRequest = ({ platformId, folderPath, maxDepth }) => {
+  if (typeof platformId !== 'string' || !platformId || typeof folderPath !== 'string') {
+    return 'Missing or invalid required fields: platformId or folderPath.';
+  }
+  if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0)) {
+    return 'maxDepth must be a non-negative integer.';
+  }
+  return null;
+};
 
-  // Validate platformId
-  if (!platformId) {
-    return res.status(400).json({ error: 'Missing required query parameter: id' });
+// Scans a folder inside the ROMs sandbox with the request's options. Each result also gets a
+// DAT match when it has hashes and the platform has an imported DAT.
+const scanPlatformFolder = async (options) => {
+  const { platformId, folderPath, recursive, maxDepth, followSymlinks, extensions, computeHashes, inspectArchives, groupDiscs } = options;
+  const fullPath = resolveRomPath(folderPath);
+  await assertRealPathInsideBase(fullPath);
+
+  const stats = await fs.stat(fullPath);
+  if (!stats.isDirectory()) {
+    throw new Error(`Specified path is not a directory: ${folderPath}`);
+  }
+
+  // An explicit extension list in the request wins over the one stored on the platform
+  let allowedExtensions = extensions;
+  if (!Array.isArray(allowedExtensions)) {
+    const platforms = await readDataFile('platforms');
+    allowedExtensions = platforms.find(p => String(p.id) === platformId)?.romExtensions || [];
+  }
+
+  const romFiles = await scanRomDirectory(fullPath, {
+    recursive: recursive === true,
+    maxDepth,
+    followSymlinks: followSymlinks === true,
+    computeHashes: computeHashes === true,
+    inspectArchives: inspectArchives === true,
+    groupDiscs: groupDiscs === true,
+    extensions: allowedExtensions,
+    isPathAllowed: isRealPathInsideBase,
+  });
+
+  // With hashes available (computed, or CRC32s from archive headers), match each file against
+  // the platform's DAT for canonical titles
+  const dat = romFiles.some(romFile => romFile.hashes) ? await getPlatformDat(platformId) : null;
+  if (dat) {
+    const datIndex = buildDatIndex(dat);
+    for (const romFile of romFiles) {
+      if (romFile.hashes) {
+        romFile.datMatch = matchRomAgainstDat(datIndex, romFile);
+      }
+    }
+  }
+
+  return { fullPath, romFiles };
+};
+
+const sendScanError = (res, error, folderPath) => {
+  if (error.code === 'ENOENT') {
+    return res.status(404).json({ error: `Directory not found: ${folderPath}` });
+  }
+  if (error.code === 'EACCES') {
+    return res.status(403).json({ error: `Permission denied for directory: ${folderPath}` });
+  }
+  if (error.message.includes('Invalid folder path') || error.message.includes('Access denied') ||
+      error.message.includes('is not a directory')) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error('Error scanning ROMs:', error);
+  res.status(500).json({ error: 'Internal server error during ROM scan.' });
+};
+
+// Endpoint to scan for ROMs
+app.post('/api/scan-roms', async (req, res) => {
+  const validationError = validateScanRequest(req.body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const { romFiles } = await scanPlatformFolder(req.body);
+    res.status(200).json(romFiles);
+  } catch (error) {
+    sendScanError(res, error, req.body.folderPath);
   }
+});
 
-  // Validate API key
-  if (!apiKey) {
-    console.error('TheGamesDB API key is not configured on the server.');
-    return res.status(500).json({ error: 'Application error: TheGamesDB API key is not configured.' });
+// Rescans a folder and diffs it against the platform's existing games (sent by the client, which
+// owns games.json): new files, games whose files are missing, and games whose files have moved.
+app.post('/api/rescan', async (req, res) => {
+  const { games } = req.body;
+  const validationError = validateScanRequest(req.body) || (Array.isArray(games) ? null : 'Missing or invalid required field: games.');
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
   }
 
   try {
-    const response = await axios.get('https://api.thegamesdb.net/v1/Platforms/Images', {
-      params: {
-        apikey: apiKey,
-        platforms_id: platformId,
+    const { fullPath, romFiles } = await scanPlatformFolder(req.body);
+
+    const savedGamesById = await readSavedGamesById();
+    const resolvedGames = [];
+    for (const game of games) {
+      if (!game || typeof game.id !== 'string' || typeof game.romPath !== 'string' || !game.romPath) continue;
+      try {
+        resolvedGames.push({ ...game, romPath: resolveClientGameRomPath(game, savedGamesById) });
+      } catch {
+        // A path that escapes the sandbox can't be on disk as far as we're concerned
+        resolvedGames.push({ ...game, romPath: '' });
+      }
+    }
+
+    const diff = await diffLibrary({
+      games: resolvedGames,
+      scannedRoms: romFiles.map(romFile => ({ ...romFile, fullPath: path.join(fullPath, romFile.relativePath) })),
+      gameExists: async (game) => {
+        if (!game.romPath) return false;
+        try {
+          return (await fs.stat(game.romPath)).isFile();
+        } catch {
+          return false;
+        }
       },
-      timeout: parseInt(process.env.EXTERNAL_API_TIMEOUT || '10000', 10), // Default 10 seconds
     });
 
-    // Handle non-200 responses from TheGamesDB
-    if (response.status !== 200) {
-      return res.status(response.status).json({
-        error: `TheGamesDB API responded with status: ${response.status}`,
-        details: response.data
-      });
+    const stripFullPath = ({ fullPath: _fullPath, ...romFile }) => romFile;
+    res.status(200).json({
+      added: diff.added.map(stripFullPath),
+      missing: diff.missing,
+      moved: diff.moved.map(move => ({ ...move, rom: stripFullPath(move.rom) })),
+      unchangedCount: diff.unchangedCount,
+    });
+  } catch (error) {
+    sendScanError(res, error, req.body.folderPath);
+  }
+});
+
+// Searches TheGamesDB by title. `page` selects a results page; `platform` (or `filter[platform]`)
+// limits results to TheGamesDB platform IDs, comma-separated. Filename-style titles are cleaned up
+// before searching, and results are ranked by how well they match the title.
+app.get('/api/search/thegamesdb/bygamename', async (req, res) => {
+  const { name, fields, include, page } = req.query;
+  const platformFilter = req.query.platform || req.query.filter?.platform;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'Missing required query parameter: name' });
+  }
+  if (page !== undefined && !/^[1-9]\d*$/.test(String(page))) {
+    return res.status(400).json({ error: 'page must be a positive integer.' });
+  }
+
+  // Boxart is always requested, since boxart_url is built from it
+  const includes = new Set(typeof include === 'string' ? include.split(',').map(i => i.trim()).filter(Boolean) : []);
+  includes.add('boxart');
+
+  const searchName = getCleanTitle(name) || name.trim();
+
+  try {
+    const { data: responseData, fromCache, stale } = await fetchTheGamesDb('/v1.1/Games/ByGameName', {
+      name: searchName,
+      ...(typeof fields === 'string' && fields ? { fields } : {}),
+      include: [...includes].join(','),
+      ...(typeof platformFilter === 'string' && platformFilter ? { 'filter[platform]': platformFilter } : {}),
+      ...(page !== undefined ? { page } : {}),
+    });
+
+    if (!responseData || !responseData.data || !Array.isArray(responseData.data.games)) {
+      console.error('Unexpected response structure from TheGamesDB:', responseData);
+      return res.status(502).json({ error: 'Unexpected response structure from TheGamesDB API.' });
     }
 
-    const responseData = response.data;
+    const ranked = rankCandidates(name, await transformGamesResponse(responseData));
+    const games = ranked.map(({ candidate, score }) => ({ ...candidate, match_score: score }));
+    // Only the first page is ranked against every likely result, so later pages never auto-match
+    const confidentMatchId = (page === undefined || String(page) === '1') && isConfidentMatch(ranked) ? games[0].id : null;
+    res.status(200).json({
+      source: 'TheGamesDB',
+      search_name: searchName,
+      count: games.length,
+      games,
+      confident_match_id: confidentMatchId,
+      pages: transformPages(responseData.pages),
+      remaining_allowance: await getRemainingAllowance(),
+      from_cache: fromCache,
+      stale,
+      ...(games.length === 0 ? { message: `No games found on TheGamesDB for "${searchName}".` } : {}),
+    });
+  } catch (error) {
+    const errorResponse = getTheGamesDbErrorResponse(error);
+    if (errorResponse) {
+      return res.status(errorResponse.status).json(errorResponse.body);
+    }
+    console.error('Error searching TheGamesDB:', error);
+    res.status(500).json({ error: 'Internal server error while searching TheGamesDB.' });
+  }
+});
+
+// Route to fetch platform images from TheGamesDB API
+app.get('/api/thegamesdb/platform_images', async (req, res) => {
+  const { id: platformId } = req.query;
+
+  // Validate platformId
+  if (!platformId) {
+    return res.status(400).json({ error: 'Missing required query parameter: id' });
+  }
+
+  try {
+    const { data: responseData, stale } = await fetchTheGamesDb('/v1/Platforms/Images', { platforms_id: platformId });
 
     // Ensure the response structure is as expected
     if (!responseData || !responseData.data || !responseData.data.base_url || !responseData.data.images) {
@@ -133,24 +416,13 @@ app.get('/api/thegamesdb/platform_images', async (req, res) => {
     res.status(200).json({
       base_url: baseUrl,
       images: platformImages,
+      stale,
     });
 
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response) {
-        // TheGamesDB API responded with an error status (4xx or 5xx)
-        return res.status(error.response.status).json({
-          error: `Error from TheGamesDB API: ${error.response.data.message || error.message}`,
-          details: error.response.data,
-        });
-      } else if (error.code === 'ECONNABORTED') {
-        // Timeout error
-        return res.status(504).json({ error: 'Gateway Timeout: No response from TheGamesDB API.' });
-      } else {
-        // Network error or other Axios error
-        console.error('Axios error calling TheGamesDB:', error.message);
-        return res.status(502).json({ error: `Bad Gateway: Could not connect to TheGamesDB API. ${error.message}` });
-      }
+    const errorResponse = getTheGamesDbErrorResponse(error);
+    if (errorResponse) {
+      return res.status(errorResponse.status).json(errorResponse.body);
     }
     // Other unexpected errors
     console.error('Error fetching platform images:', error);
@@ -158,15 +430,472 @@ app.get('/api/thegamesdb/platform_images', async (req, res) => {
   }
 });
 
-// Endpoint to enrich ROM names using AI
+const GAME_IMAGE_TYPES = ['fanart', 'banner', 'boxart', 'screenshot', 'clearlogo', 'titlescreen'];
+const GAME_ART_TYPES = ['boxart_front', 'boxart_back', 'fanart', 'banner', 'screenshot', 'titlescreen', 'clearlogo'];
+
+// Every image TheGamesDB has for one game (box art, fanart, banners, screenshots, title screens,
+// clear logos), optionally limited to a comma-separated list of types
+app.get('/api/thegamesdb/game_images', async (req, res) => {
+  const { id, type, page } = req.query;
+
+  if (!id || !/^\d+$/.test(String(id))) {
+    return res.status(400).json({ error: 'Missing or invalid query parameter: id' });
+  }
+  const types = type ? String(type).split(',').map(t => t.trim()).filter(Boolean) : [];
+  const invalidType = types.find(t => !GAME_IMAGE_TYPES.includes(t));
+  if (invalidType) {
+    return res.status(400).json({ error: `Invalid image type: ${invalidType}. Expected one of: ${GAME_IMAGE_TYPES.join(', ')}` });
+  }
+  const pageNumber = page === undefined ? 1 : Number(page);
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+    return res.status(400).json({ error: 'Query parameter page must be a positive integer.' });
+  }
+
+  const params = { games_id: String(id) };
+  if (types.length > 0) params['filter[type]'] = types.join(',');
+  if (pageNumber > 1) params.page = pageNumber;
+
+  try {
+    const { data: responseData, stale } = await fetchTheGamesDb('/v1/Games/Images', params);
+    if (!responseData || !responseData.data || !responseData.data.images) {
+      console.error('Unexpected response structure from TheGamesDB:', responseData);
+      return res.status(502).json({ error: 'Unexpected response structure from TheGamesDB API.' });
+    }
+
+    res.status(200).json({
+      game_id: Number(id),
+      images: transformGameImagesResponse(responseData, String(id)),
+      pages: transformPages(responseData.pages),
+      stale,
+    });
+  } catch (error) {
+    const errorResponse = getTheGamesDbErrorResponse(error);
+    if (errorResponse) {
+      return res.status(errorResponse.status).json(errorResponse.body);
+    }
+    console.error('Error fetching game images:', error);
+    res.status(500).json({ error: 'Internal server error while fetching game images.' });
+  }
+});
+
+// One of TheGamesDB's lookup tables, sorted by name, for pickers in the game form. Cached for 30
+// days like the other rarely-changing TheGamesDB data.
+app.get('/api/thegamesdb/lookups/:kind', async (req, res) => {
+  const { kind } = req.params;
+  if (!THEGAMESDB_LOOKUP_KINDS.includes(kind)) {
+    return res.status(400).json({ error: `Unknown lookup table: ${kind}. Expected one of: ${THEGAMESDB_LOOKUP_KINDS.join(', ')}.` });
+  }
+  try {
+    const { entries, fromCache, stale } = await getLookupTable(kind);
+    res.status(200).json({ [kind]: entries, from_cache: fromCache, stale });
+  } catch (error) {
+    const errorResponse = getTheGamesDbErrorResponse(error);
+    if (errorResponse) {
+      return res.status(errorResponse.status).json(errorResponse.body);
+    }
+    console.error(`Error fetching TheGamesDB ${kind}:`, error);
+    res.status(500).json({ error: `Internal server error while fetching TheGamesDB ${kind}.` });
+  }
+});
+
+// Remaining TheGamesDB allowance, as reported by the last API response, and the size of the response cache
+app.get('/api/thegamesdb/allowance', async (req, res) => {
+  try {
+    res.status(200).json({ allowance: await getAllowance(), ...(await getCacheSummary()) });
+  } catch (error) {
+    console.error('Error reading TheGamesDB allowance:', error);
+    res.status(500).json({ error: 'Failed to read TheGamesDB allowance.' });
+  }
+});
+
+app.delete('/api/thegamesdb/cache', async (req, res) => {
+  try {
+    res.status(200).json({ cleared: await clearTheGamesDbCache() });
+  } catch (error) {
+    console.error('Error clearing TheGamesDB cache:', error);
+    res.status(500).json({ error: 'Failed to clear TheGamesDB cache.' });
+  }
+});
+
+// What has been imported from TheGamesDB's database export, and whether offline mode is on
+app.get('/api/thegamesdb/offline', async (req, res) => {
+  try {
+    res.status(200).json({ summary: await getOfflineExportSummary(), active: await isOfflineModeActive() });
+  } catch (error) {
+    console.error('Error reading TheGamesDB offline data:', error);
+    res.status(500).json({ error: 'Failed to read TheGamesDB offline data.' });
+  }
+});
+
+// Import one file of TheGamesDB's database export (the games dump, or a Genres, Developers,
+// Publishers or Platforms response). The JSON is sent as the raw request body since the games
+// dump is far larger than the JSON body limit.
+app.post('/api/thegamesdb/offline/import', express.text({ type: ['text/plain', 'application/octet-stream'], limit: '500mb' }), async (req, res) => {
+  if (typeof req.body !== 'string' || !req.body.trim()) {
+    return res.status(400).json({ error: 'Request body must be the export file contents (Content-Type: text/plain).' });
+  }
+
+  let document;
+  try {
+    document = JSON.parse(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid export file: ${error.message}` });
+  }
+
+  try {
+    const { imported, summary } = await importOfflineExport(document);
+    res.status(200).json({ imported, summary, active: await isOfflineModeActive() });
+  } catch (error) {
+    if (error.code === 'THEGAMESDB_EXPORT_INVALID') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error importing TheGamesDB export:', error);
+    res.status(500).json({ error: 'Internal server error while importing TheGamesDB export.' });
+  }
+});
+
+app.delete('/api/thegamesdb/offline', async (req, res) => {
+  try {
+    await deleteOfflineExport();
+    res.status(200).json({ message: 'TheGamesDB offline data removed.' });
+  } catch (error) {
+    console.error('Error removing TheGamesDB offline data:', error);
+    res.status(500).json({ error: 'Failed to remove TheGamesDB offline data.' });
+  }
+});
+
+const sendRawgError = (res, error, action) => {
+  const errorResponse = getRawgErrorResponse(error);
+  if (errorResponse) {
+    return res.status(errorResponse.status).json(errorResponse.body);
+  }
+  console.error(`Error ${action} RAWG:`, error);
+  res.status(500).json({ error: `Internal server error while ${action} RAWG.` });
+};
+
+// Searches RAWG by title, cleaned up and ranked as in the TheGamesDB search. `platforms` is a
+// comma-separated list of RAWG platform IDs.
+app.get('/api/search/rawg/games', async (req, res) => {
+  const { search, page, page_size: pageSize, platforms } = req.query;
+
+  if (typeof search !== 'string' || !search.trim()) {
+    return res.status(400).json({ error: 'Missing required query parameter: search' });
+  }
+  if (page !== undefined && !/^[1-9]\d*$/.test(String(page))) {
+    return res.status(400).json({ error: 'page must be a positive integer.' });
+  }
+  if (pageSize !== undefined && !(/^[1-9]\d*$/.test(String(pageSize)) && Number(pageSize) <= 40)) {
+    return res.status(400).json({ error: 'page_size must be an integer from 1 to 40.' });
+  }
+
+  const searchName = getCleanTitle(search) || search.trim();
+
+  try {
+    const result = await searchRawgGames(searchName, {
+      page: page === undefined ? 1 : Number(page),
+      ...(pageSize !== undefined ? { pageSize: Number(pageSize) } : {}),
+      ...(typeof platforms === 'string' && platforms ? { platforms } : {}),
+    });
+    const ranked = rankCandidates(search, result.games);
+    const games = ranked.map(({ candidate, score }) => ({ ...candidate, match_score: score }));
+    res.status(200).json({
+      source: 'RAWG',
+      search_name: searchName,
+      count: result.count,
+      games,
+      confident_match_id: result.pages.current === 1 && isConfidentMatch(ranked) ? games[0].id : null,
+      pages: result.pages,
+      from_cache: result.fromCache,
+      ...(games.length === 0 ? { message: `No games found on RAWG for "${searchName}".` } : {}),
+    });
+  } catch (error) {
+    sendRawgError(res, error, 'searching');
+  }
+});
+
+// One RAWG game with its description, genres and companies
+app.get('/api/rawg/games/:id(\\d+)', async (req, res) => {
+  try {
+    res.status(200).json(await getRawgGameDetails(req.params.id));
+  } catch (error) {
+    sendRawgError(res, error, 'fetching game details from');
+  }
+});
+
+app.get('/api/rawg/games/:id(\\d+)/screenshots', async (req, res) => {
+  const pageNumber = req.query.page === undefined ? 1 : Number(req.query.page);
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+    return res.status(400).json({ error: 'Query parameter page must be a positive integer.' });
+  }
+  try {
+    const { images, pages } = await getRawgGameScreenshots(req.params.id, { page: pageNumber });
+    res.status(200).json({ game_id: Number(req.params.id), images, pages });
+  } catch (error) {
+    sendRawgError(res, error, 'fetching screenshots from');
+  }
+});
+
+const sendMetadataProviderError = (res, provider, error, action) => {
+  const errorResponse = getMetadataProviderErrorResponse(provider, error);
+  if (errorResponse) {
+    return res.status(errorResponse.status).json(errorResponse.body);
+  }
+  console.error(`Error ${action} (${provider?.name || 'metadata provider'}):`, error);
+  res.status(500).json({ error: `Internal server error while ${action}.` });
+};
+
+// Resolves :providerId, sending the error response itself when the provider can't be used
+const resolveMetadataProvider = (req, res) => {
+  try {
+    return getMetadataProvider(req.params.providerId);
+  } catch (error) {
+    sendMetadataProviderError(res, null, error, 'resolving the metadata provider');
+    return null;
+  }
+};
+
+const parsePageParameter = (page) => page === undefined ? 1 : (/^[1-9]\d*$/.test(String(page)) ? Number(page) : null);
+
+// Metadata providers (TheGamesDB, RAWG, the local library), enabled ones first in priority order
+app.get('/api/metadata/providers', async (req, res) => {
+  try {
+    res.status(200).json({ providers: await listMetadataProviders() });
+  } catch (error) {
+    console.error('Error listing metadata providers:', error);
+    res.status(500).json({ error: 'Internal server error while listing metadata providers.' });
+  }
+});
+
+// Searches one provider by title, cleaned up and ranked as in the TheGamesDB search. `platform`
+// is a TheGamesDB platform ID; providers without platformFilter ignore it.
+app.get('/api/metadata/:providerId/search', async (req, res) => {
+  const provider = resolveMetadataProvider(req, res);
+  if (!provider) return;
+
+  const { title, platform } = req.query;
+  if (typeof title !== 'string' || !title.trim()) {
+    return res.status(400).json({ error: 'Missing required query parameter: title' });
+  }
+  const page = parsePageParameter(req.query.page);
+  if (page === null) {
+    return res.status(400).json({ error: 'page must be a positive integer.' });
+  }
+
+  const searchName = getCleanTitle(title) || title.trim();
+  try {
+    const result = await provider.search(searchName, {
+      page,
+      ...(typeof platform === 'string' && platform && provider.capabilities.platformFilter ? { platform } : {}),
+    });
+    const ranked = rankCandidates(title, result.games);
+    const games = ranked.map(({ candidate, score }) => ({ ...candidate, match_score: score }));
+    res.status(200).json({
+      provider: provider.id,
+      search_name: searchName,
+      games,
+      confident_match_id: page === 1 && isConfidentMatch(ranked) ? games[0].id : null,
+      pages: result.pages,
+      from_cache: result.fromCache,
+      stale: result.stale,
+      ...(games.length === 0 ? { message: `No games found on ${provider.name} for "${searchName}".` } : {}),
+    });
+  } catch (error) {
+    sendMetadataProviderError(res, provider, error, `searching ${provider.name}`);
+  }
+});
+
+app.get('/api/metadata/:providerId/games/:gameId', async (req, res) => {
+  const provider = resolveMetadataProvider(req, res);
+  if (!provider) return;
+  try {
+    const game = await provider.getById(req.params.gameId);
+    if (!game) {
+      return res.status(404).json({ error: `Game not found on ${provider.name}.` });
+    }
+    res.status(200).json(game);
+  } catch (error) {
+    sendMetadataProviderError(res, provider, error, `fetching game details from ${provider.name}`);
+  }
+});
+
+// A game's images from one provider; `type` limits them to a comma-separated list of art types
+app.get('/api/metadata/:providerId/games/:gameId/images', async (req, res) => {
+  const provider = resolveMetadataProvider(req, res);
+  if (!provider) return;
+
+  const page = parsePageParameter(req.query.page);
+  if (page === null) {
+    return res.status(400).json({ error: 'page must be a positive integer.' });
+  }
+  const artTypes = req.query.type ? String(req.query.type).split(',').map(t => t.trim()).filter(Boolean) : [];
+  const invalidType = artTypes.find(t => !GAME_ART_TYPES.includes(t));
+  if (invalidType) {
+    return res.status(400).json({ error: `Invalid art type: ${invalidType}. Expected one of: ${GAME_ART_TYPES.join(', ')}` });
+  }
+
+  try {
+    const { images, pages } = await provider.getImages(req.params.gameId, { page, artTypes });
+    res.status(200).json({ provider: provider.id, game_id: req.params.gameId, images, pages });
+  } catch (error) {
+    sendMetadataProviderError(res, provider, error, `fetching images from ${provider.name}`);
+  }
+});
+
+// Scheduled refresh of games linked to TheGamesDB: when it last ran and the updates it has queued
+app.get('/api/metadata/refresh', async (req, res) => {
+  try {
+    res.status(200).json(await getMetadataRefreshStatus());
+  } catch (error) {
+    console.error('Error reading metadata refresh status:', error);
+    res.status(500).json({ error: 'Failed to read metadata refresh status.' });
+  }
+});
+
+// Runs the refresh now instead of waiting for the schedule
+app.post('/api/metadata/refresh', async (req, res) => {
+  try {
+    res.status(200).json(await runMetadataRefresh());
+  } catch (error) {
+    if (error.code === 'METADATA_REFRESH_RUNNING') {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.code === 'METADATA_REFRESH_OFFLINE') {
+      return res.status(503).json({ error: error.message });
+    }
+    const errorResponse = getTheGamesDbErrorResponse(error);
+    if (errorResponse) {
+      return res.status(errorResponse.status).json(errorResponse.body);
+    }
+    console.error('Error refreshing metadata:', error);
+    res.status(500).json({ error: 'Internal server error while refreshing metadata.' });
+  }
+});
+
+app.post('/api/metadata/refresh/dismiss', async (req, res) => {
+  const { ids } = req.body;
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+    return res.status(400).json({ error: 'ids must be an array of update IDs.' });
+  }
+  try {
+    res.status(200).json({ dismissed: await dismissMetadataUpdates(ids) });
+  } catch (error) {
+    console.error('Error dismissing metadata updates:', error);
+    res.status(500).json({ error: 'Failed to dismiss metadata updates.' });
+  }
+});
+
+// Downloads a remote image into the local artwork store (once) and returns its local URLs
+app.post('/api/art/cache', async (req, res) => {
+  const { url } = req.body;
+  let parsedUrl;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return res.status(400).json({ error: 'Missing or invalid image URL.' });
+  }
+  if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+    return res.status(400).json({ error: 'Only http and https image URLs can be cached.' });
+  }
+
+  try {
+    const entry = await cacheArtwork(parsedUrl.href);
+    res.status(200).json({
+      id: entry.id,
+      url: `/api/art/${entry.id}`,
+      thumbnailUrl: `/api/art/${entry.id}/thumb`,
+      sourceUrl: entry.sourceUrl,
+    });
+  } catch (error) {
+    if (error.code === 'ARTWORK_URL_NOT_ALLOWED') {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.message.startsWith('Not an image')) {
+      return res.status(415).json({ error: error.message });
+    }
+    if (axios.isAxiosError(error)) {
+      const status = error.response ? `HTTP ${error.response.status}` : error.message;
+      return res.status(502).json({ error: `Could not download artwork (${status}): ${parsedUrl.href}` });
+    }
+    console.error('Error caching artwork:', error);
+    res.status(500).json({ error: 'Internal server error while caching artwork.' });
+  }
+});
+
+// Serves a stored image, or its thumbnail (the full image when no thumbnail could be made)
+const sendArtwork = async (req, res, thumbnail) => {
+  const { id } = req.params;
+  if (!isArtworkId(id)) {
+    return res.status(400).json({ error: 'Invalid artwork ID.' });
+  }
+  try {
+    const entry = await getArtwork(id);
+    if (!entry) {
+      return res.status(404).json({ error: `Artwork not found: ${id}` });
+    }
+    // Artwork stored before SVGs were refused must not run scripts on the app's origin
+    res.set({ 'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox", 'X-Content-Type-Options': 'nosniff' });
+    // IDs are derived from the source URL, so a stored image can be cached by the browser for a long time
+    res.sendFile(getArtworkFilePath(entry, thumbnail), { maxAge: '30d' }, (error) => {
+      if (error && !res.headersSent) {
+        res.status(error.code === 'ENOENT' ? 404 : 500).json({ error: `Artwork file unavailable: ${id}` });
+      }
+    });
+  } catch (error) {
+    console.error('Error serving artwork:', error);
+    res.status(500).json({ error: 'Internal server error while serving artwork.' });
+  }
+};
+
+app.get('/api/art/:id', (req, res) => sendArtwork(req, res, false));
+app.get('/api/art/:id/thumb', (req, res) => sendArtwork(req, res, true));
+
+// Endpoint to write descriptions for games with Gemini, used by the game form's Generate button.
+// Each game is { title, platform?, genre? }; the response lists { title, description, … } per game.
+app.post('/api/gemini/enrich-gamelist', async (req, res) => {
+  const { gameList } = req.body;
+  if (!Array.isArray(gameList) || gameList.length === 0 || !gameList.every(game => typeof game?.title === 'string' && game.title)) {
+    return res.status(400).json({ error: 'Request body must contain a non-empty "gameList" array of games with titles.' });
+  }
+  if (!process.env.GEMINI_API_KEY) {
+    return res.status(500).json({ error: 'Gemini API key is not configured on the server.' });
+  }
+
+  try {
+    const enrichedGames = await enrichGameList('gemini', gameList, {
+      GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+      GEMINI_MODEL_NAME: process.env.GEMINI_MODEL_NAME,
+    }, parseInt(process.env.EXTERNAL_API_TIMEOUT || '10000', 10));
+    if (!Array.isArray(enrichedGames)) {
+      return res.status(502).json({ error: 'Failed to parse game descriptions from AI: Expected an array.' });
+    }
+    res.status(200).json({ source: 'Gemini', enriched_games: enrichedGames });
+  } catch (error) {
+    console.error('Error generating game descriptions:', error);
+    res.status(502).json({ error: error.message });
+  }
+});
+
+// Endpoint to enrich ROM names using AI. In TheGamesDB offline mode, or without a Gemini key
+// when a TheGamesDB export has been imported, titles are matched against the export instead;
+// `platformId` (a TheGamesDB platform ID) narrows those matches.
 app.post('/api/enrich-roms', async (req, res) => {
-  const { romNames, platformName } = req.body;
+  const { romNames, platformName, platformId } = req.body;
 
   if (!Array.isArray(romNames) || romNames.length === 0) {
     return res.status(400).json({ error: 'Request body must contain a non-empty "romNames" array.' });
   }
 
   const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+  try {
+    if (await isOfflineModeActive() || (!GEMINI_API_KEY && (await getOfflineExportSummary())?.counts?.games)) {
+      const enrichedRoms = await suggestTitlesFromOfflineExport(romNames, platformId);
+      return res.status(200).json({ source: 'TheGamesDB (offline)', enriched_roms: enrichedRoms });
+    }
+  } catch (error) {
+    console.error('Error matching ROM names against TheGamesDB offline data:', error);
+    return res.status(500).json({ error: 'Internal server error while matching ROM names against TheGamesDB offline data.' });
+  }
+
   if (!GEMINI_API_KEY) {
     return res.status(500).json({ error: 'Gemini API key is not configured on the server.' });
   }
@@ -245,35 +974,381 @@ ROM Names: ${romNames.join(', ')}`;
   }
 });
 
-// Helper function to get data file path
-const getDataFilePath = (dataType) => {
-  return path.join(process.cwd(), 'server', 'data', `${dataType}.json`);
+// Resolves a game's ROM path for launching. Relative paths go through the ROMs sandbox. Absolute
+// paths (entered by hand in the game form) are only used as-is when they come from a game saved in
+// games.json; paths sent in a request body can't point outside the ROMs folder.
+const resolveLaunchRomPath = (romPath, { fromSavedGame = false } = {}) => {
+  if (fromSavedGame && path.isAbsolute(romPath)) {
+    return path.normalize(romPath);
+  }
+  return resolveRomPath(romPath);
 };
 
+// Resolves the ROM path of a game sent by the client, trusting an absolute path only when the
+// saved game with the same ID has the same path
+const resolveClientGameRomPath = (game, savedGamesById) =>
+  resolveLaunchRomPath(game.romPath, { fromSavedGame: savedGamesById.get(game.id)?.romPath === game.romPath });
+
+const readSavedGamesById = async () => new Map((await readDataFile('games')).map(game => [game.id, game]));
+
+// Endpoint to launch a game with its configured emulator
+app.post('/api/games/launch', async (req, res) => {
+  const { gameId, romPath, emulatorId } = req.body;
+
+  if (typeof emulatorId !== 'string' || !emulatorId) {
+    return res.status(400).json({ error: 'Missing or invalid required field: emulatorId.' });
+  }
+
+  try {
+    const games = await readDataFile('games');
+    const game = gameId ? games.find(g => g.id === gameId) : undefined;
+    const gameRomPath = game?.romPath || romPath;
+    if (typeof gameRomPath !== 'string' || !gameRomPath) {
+      return res.status(400).json({ error: 'No ROM path available for this game.' });
+    }
+
+    const emulators = await readDataFile('emulators');
+    const emulator = emulators.find(e => e.id === emulatorId);
+    if (!emulator) {
+      return res.status(404).json({ error: `Emulator not found: ${emulatorId}` });
+    }
+
+    let fullRomPath = resolveLaunchRomPath(gameRomPath, { fromSavedGame: Boolean(game?.romPath) });
+    // ROMs stored inside an archive are passed as the archive itself, unless the emulator can't read archives
+    const archiveEntry = game ? game.archiveEntry : req.body.archiveEntry;
+    if (typeof archiveEntry === 'string' && archiveEntry && emulator.extractArchives) {
+      try {
+        fullRomPath = await extractArchiveEntryToCache(fullRomPath, archiveEntry);
+      } catch (error) {
+        console.error(`Failed to extract ${archiveEntry} from ${fullRomPath}:`, error);
+        return res.status(500).json({ launchId: null, pid: null, error: `Failed to extract ROM from archive: ${error.message}` });
+      }
+    }
+    // Multi-disc games go through an .m3u playlist when the emulator is set up for disc swapping
+    if (game && Array.isArray(game.discs) && game.discs.length > 1 && emulator.multiDiscPlaylist) {
+      const discPaths = [...game.discs]
+        .sort((a, b) => a.discNumber - b.discNumber)
+        .map(disc => resolveLaunchRomPath(disc.romPath, { fromSavedGame: true }));
+      fullRomPath = await writeM3uPlaylist(game.id, game.title, discPaths);
+    }
+    const { command, args } = buildLaunchCommand(emulator, fullRomPath);
+    const executableStats = await fs.stat(command).catch(() => null);
+    if (!executableStats?.isFile()) {
+      return res.status(400).json({ error: `Emulator executable not found: ${command}` });
+    }
+    const { launchId, pid, error, child, stderrLogPath } = await spawnEmulator(command, args, { cwd: path.dirname(command) });
+
+    if (error) {
+      console.error(`Failed to launch ${command}:`, error);
+      return res.status(500).json({ launchId, pid: null, error: `Failed to start emulator "${emulator.name}": ${error}` });
+    }
+
+    registerSession({
+      launchId,
+      child,
+      stderrLogPath,
+      gameId: game?.id || gameId,
+      gameTitle: game?.title || path.basename(fullRomPath),
+      platformId: game?.platformId || req.body.platformId,
+      emulatorId,
+      emulatorName: emulator.name,
+    });
+
+    res.status(200).json({
+      launchId,
+      pid,
+      error: null,
+      message: `Launched ${game?.title || path.basename(fullRomPath)} with ${emulator.name} (PID ${pid}).`,
+    });
+  } catch (error) {
+    if (error.message.includes('Invalid folder path') || error.message.includes('Access denied') ||
+        error.message.includes('quote in emulator arguments') || error.message.includes('no executable path')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error launching game:', error);
+    res.status(500).json({ error: 'Internal server error while launching game.' });
+  }
+});
+
+// List running and recently finished launch sessions
+app.get('/api/games/sessions', async (req, res) => {
+  try {
+    res.status(200).json(await listSessions());
+  } catch (error) {
+    console.error('Error listing launch sessions:', error);
+    res.status(500).json({ error: 'Internal server error while listing sessions.' });
+  }
+});
+
+// Stop a running emulator session
+app.post('/api/games/sessions/:launchId/terminate', (req, res) => {
+  const { launchId } = req.params;
+  try {
+    const session = terminateSession(launchId);
+    if (!session) {
+      return res.status(404).json({ error: `Session not found: ${launchId}` });
+    }
+    res.status(200).json(session);
+  } catch (error) {
+    if (error.message.includes('is not running')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error(`Error terminating session ${launchId}:`, error);
+    res.status(500).json({ error: 'Internal server error while terminating session.' });
+  }
+});
+
+// List imported DAT files, one per platform
+app.get('/api/dats', async (req, res) => {
+  try {
+    const dats = await readDats();
+    res.status(200).json(Object.entries(dats).map(([platformId, dat]) => summarizeDat(platformId, dat)));
+  } catch (error) {
+    console.error('Error reading DAT files:', error);
+    res.status(500).json({ error: 'Internal server error while reading DAT files.' });
+  }
+});
+
+// Import a Logiqx XML DAT (No-Intro / Redump) for a platform, replacing any existing one.
+// The XML is sent as the raw request body since DATs are often several megabytes.
+app.post('/api/dats/:platformId', express.text({ type: ['application/xml', 'text/xml', 'text/plain'], limit: '100mb' }), async (req, res) => {
+  const { platformId } = req.params;
+
+  if (typeof req.body !== 'string' || !req.body.trim()) {
+    return res.status(400).json({ error: 'Request body must be the DAT file contents (Content-Type: text/xml).' });
+  }
+
+  let dat;
+  try {
+    dat = parseLogiqxDat(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid DAT file: ${error.message}` });
+  }
+
+  try {
+    const storedDat = await savePlatformDat(platformId, dat);
+    res.status(200).json(summarizeDat(platformId, storedDat));
+  } catch (error) {
+    console.error(`Error saving DAT for platform ${platformId}:`, error);
+    res.status(500).json({ error: 'Internal server error while saving DAT file.' });
+  }
+});
+
+app.delete('/api/dats/:platformId', async (req, res) => {
+  const { platformId } = req.params;
+  try {
+    if (!(await deletePlatformDat(platformId))) {
+      return res.status(404).json({ error: `No DAT imported for platform: ${platformId}` });
+    }
+    res.status(200).json({ message: 'DAT file removed.' });
+  } catch (error) {
+    console.error(`Error deleting DAT for platform ${platformId}:`, error);
+    res.status(500).json({ error: 'Internal server error while deleting DAT file.' });
+  }
+});
+
+// Verify games' ROM files against the platform's DAT. Files are re-hashed so the result reflects
+// what is on disk now. The client owns games.json, so results are returned rather than saved.
+app.post('/api/dats/:platformId/verify', async (req, res) => {
+  const { platformId } = req.params;
+  const { games } = req.body;
+
+  if (!Array.isArray(games)) {
+    return res.status(400).json({ error: 'Missing or invalid required field: games.' });
+  }
+
+  try {
+    const dat = await getPlatformDat(platformId);
+    if (!dat) {
+      return res.status(404).json({ error: `No DAT imported for platform: ${platformId}` });
+    }
+    const datIndex = buildDatIndex(dat);
+    const savedGamesById = await readSavedGamesById();
+    const checkedAt = new Date().toISOString();
+    const results = [];
+
+    // One file at a time, so verifying a large library doesn't saturate the disk
+    for (const game of games) {
+      if (!game || typeof game.id !== 'string' || typeof game.romPath !== 'string' || !game.romPath) {
+        continue;
+      }
+      let fullRomPath;
+      let stats;
+      try {
+        fullRomPath = resolveClientGameRomPath(game, savedGamesById);
+        stats = await fs.stat(fullRomPath);
+      } catch {
+        stats = null;
+      }
+      if (!stats || !stats.isFile()) {
+        results.push({ gameId: game.id, status: 'missing', checkedAt });
+        continue;
+      }
+
+      // Zipped ROMs are verified by their entry's contents, not the archive file
+      const archiveEntry = typeof game.archiveEntry === 'string' && game.archiveEntry ? game.archiveEntry : null;
+      let hashes;
+      let size = stats.size;
+      try {
+        if (archiveEntry) {
+          const entry = (await listArchiveEntries(fullRomPath)).find(e => e.name === archiveEntry);
+          if (!entry) {
+            results.push({ gameId: game.id, status: 'missing', checkedAt });
+            continue;
+          }
+          size = entry.size;
+          hashes = await hashStream(await openArchiveEntryStream(fullRomPath, archiveEntry));
+        } else {
+          hashes = await hashFile(fullRomPath);
+        }
+      } catch (error) {
+        console.warn(`Could not read ROM for game ${game.id}: ${error.message}`);
+        results.push({ gameId: game.id, status: 'missing', checkedAt });
+        continue;
+      }
+
+      const filename = archiveEntry ? path.posix.basename(archiveEntry) : path.basename(fullRomPath);
+      const match = matchRomAgainstDat(datIndex, { filename, size, hashes });
+      results.push({ gameId: game.id, ...match, hashes, checkedAt });
+    }
+
+    res.status(200).json(results);
+  } catch (error) {
+    console.error(`Error verifying ROMs for platform ${platformId}:`, error);
+    res.status(500).json({ error: 'Internal server error while verifying ROMs.' });
+  }
+});
+
+// Bulk metadata scraping from TheGamesDB. Jobs run in the background and only propose changes;
+// the client applies the matches it accepts, since it owns games.json.
+app.post('/api/scrape/jobs', (req, res) => {
+  const { platformId, games, overwrite, autoAccept } = req.body;
+  if (platformId === undefined || platformId === null || !/^\d+$/.test(String(platformId))) {
+    return res.status(400).json({ error: 'Missing or invalid required field: platformId.' });
+  }
+  if (!Array.isArray(games) || games.length === 0 || !games.every(game => game && typeof game.id === 'string')) {
+    return res.status(400).json({ error: 'games must be a non-empty array of games with string IDs.' });
+  }
+
+  try {
+    res.status(202).json(createScrapeJob({ platformId, games, overwrite, autoAccept }));
+  } catch (error) {
+    if (error.code === 'SCRAPE_JOB_ACTIVE') {
+      return res.status(409).json({ error: error.message, jobId: error.jobId });
+    }
+    console.error('Error starting scrape job:', error);
+    res.status(500).json({ error: 'Internal server error while starting scrape job.' });
+  }
+});
+
+app.get('/api/scrape/jobs', (req, res) => {
+  res.status(200).json(listScrapeJobs());
+});
+
+// Results the client applies without review, across all jobs
+app.get('/api/scrape/auto-accepted', (req, res) => {
+  res.status(200).json({ results: listAutoAcceptedResults() });
+});
+
+app.get('/api/scrape/jobs/:jobId', (req, res) => {
+  const job = getScrapeJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: `Scrape job not found: ${req.params.jobId}` });
+  }
+  res.status(200).json(job);
+});
+
+const SCRAPE_JOB_ACTIONS = { pause: pauseScrapeJob, resume: resumeScrapeJob, cancel: cancelScrapeJob };
+
+app.post('/api/scrape/jobs/:jobId/:action(pause|resume|cancel)', (req, res) => {
+  const { jobId, action } = req.params;
+  if (!getScrapeJob(jobId)) {
+    return res.status(404).json({ error: `Scrape job not found: ${jobId}` });
+  }
+  const job = SCRAPE_JOB_ACTIONS[action](jobId);
+  if (!job) {
+    return res.status(409).json({ error: `Scrape job ${jobId} can't be ${action === 'cancel' ? 'cancelled' : `${action}d`} in its current state.` });
+  }
+  res.status(200).json(job);
+});
+
+// Records which proposed changes the client applied (accepted) or discarded (rejected)
+app.post('/api/scrape/jobs/:jobId/review', (req, res) => {
+  const { gameIds, decision } = req.body;
+  if (!Array.isArray(gameIds) || !gameIds.every(id => typeof id === 'string')) {
+    return res.status(400).json({ error: 'gameIds must be an array of game IDs.' });
+  }
+  if (decision !== 'accepted' && decision !== 'rejected') {
+    return res.status(400).json({ error: 'decision must be "accepted" or "rejected".' });
+  }
+  const updated = reviewScrapeResults(req.params.jobId, gameIds, decision);
+  if (updated === null) {
+    return res.status(404).json({ error: `Scrape job not found: ${req.params.jobId}` });
+  }
+  res.status(200).json({ updated });
+});
+
+app.delete('/api/scrape/jobs/:jobId', (req, res) => {
+  const { jobId } = req.params;
+  if (!getScrapeJob(jobId)) {
+    return res.status(404).json({ error: `Scrape job not found: ${jobId}` });
+  }
+  if (!deleteScrapeJob(jobId)) {
+    return res.status(409).json({ error: 'Only finished scrape jobs can be deleted; cancel it first.' });
+  }
+  res.status(200).json({ message: 'Scrape job deleted.' });
+});
+
 // Generic GET endpoint for data
 app.get('/api/data/:dataType', async (req, res) => {
   const { dataType } = req.params;
   try {
-    const filePath = getDataFilePath(dataType);
-    const data = await fs.readFile(filePath, 'utf8');
-    res.status(200).json(JSON.parse(data));
+    const data = await readDataFile(dataType);
+    res.status(200).json(data);
   } catch (error) {
-    if (error.code === 'ENOENT') {
-      // If file doesn't exist, return empty array
-      return res.status(200).json([]);
-    }
     console.error(`Error reading ${dataType} data:`, error);
     res.status(500).json({ error: `Failed to read ${dataType} data.` });
   }
 });
 
+// Watchers rescan a platform's saved scan folder with its saved options. Hashing is left out to
+// keep rescans cheap; the client can verify imported games later.
+const watchPlatformFolders = (platforms) => syncLibraryWatchers(platforms, {
+  resolveFolder: resolveRomPath,
+  scanFolder: (platform) => scanPlatformFolder({
+    platformId: String(platform.id),
+    folderPath: platform.scanSettings.folderPath,
+    recursive: platform.scanSettings.recursive,
+    maxDepth: platform.scanSettings.maxDepth,
+    inspectArchives: platform.scanSettings.inspectArchives,
+    groupDiscs: platform.scanSettings.groupDiscs,
+  }),
+});
+
+// Pending library updates found by the folder watchers: new, removed and renamed ROM files
+app.get('/api/library/pending', (req, res) => {
+  res.status(200).json({ updates: listPendingUpdates(), watching: getWatchedFolders() });
+});
+
+// Removes updates the client has applied or ignored
+app.post('/api/library/pending/dismiss', (req, res) => {
+  const { ids } = req.body;
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+    return res.status(400).json({ error: 'ids must be an array of update IDs.' });
+  }
+  res.status(200).json({ dismissed: dismissPendingUpdates(ids) });
+});
+
 // Generic POST endpoint for data
 app.post('/api/data/:dataType', async (req, res) => {
   const { dataType } = req.params;
   const data = req.body;
   try {
-    const filePath = getDataFilePath(dataType);
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
+    await writeDataFile(dataType, data);
+    if (dataType === 'platforms') {
+      // Not awaited: the initial scan of a newly watched folder can take a while
+      watchPlatformFolders(data).catch(error => console.error('Error updating library watchers:', error));
+    }
     res.status(200).json({ message: `${dataType} data saved successfully.` });
   } catch (error) {
     console.error(`Error writing ${dataType} data:`, error);
@@ -288,7 +1363,14 @@ export { app, initializeApp };
 if (process.env.NODE_ENV !== 'test') {
   initializeApp(process.env.ROMS_BASE_DIR || path.resolve(process.cwd(), 'roms'));
   const PORT = process.env.PORT || 3001;
-  app.listen(PORT, () => {
-    console.log(`Proxy server listening on port ${PORT}`);
+  // Only this machine can reach the server unless HOST says otherwise
+  const HOST = process.env.HOST || '127.0.0.1';
+  app.listen(PORT, HOST, () => {
+    console.log(`Proxy server listening on ${HOST}:${PORT}`);
   });
+  readDataFile('platforms')
+    .then(watchPlatformFolders)
+    .catch(error => console.error('Error starting library watchers:', error));
+  scheduleMetadataRefresh()
+    .catch(error => console.error('Error scheduling metadata refresh:', error));
 }
@@ -0,0 +1,192 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import request from 'supertest';
+import { app, initializeApp } from './proxy-server.js';
+import { importOfflineExport } from './thegamesdb-offline.js';
+
+describe('proxy server', () => {
+  let originalCwd;
+  let rootPath;
+
+  // Data files live under the working directory and ROMs under the sandbox; both are fresh per test
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'proxy-server-test-'));
+    process.chdir(rootPath);
+    await fs.mkdir(path.join(rootPath, 'roms'));
+    initializeApp(path.join(rootPath, 'roms'));
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(rootPath, { recursive: true, force: true });
+  });
+
+  describe('origins', () => {
+    test('refuses requests from other websites before they change anything', async () => {
+      const response = await request(app).post('/api/data/emulators').set('Origin', 'https://evil.example').send([{ id: 'x' }]);
+      expect(response.status).toBe(403);
+      await expect(fs.access(path.join('server', 'data', 'emulators.json'))).rejects.toThrow();
+      expect((await request(app).post('/api/games/launch').set('Origin', 'http://localhost:8080').send({ emulatorId: 'x' })).status).toBe(403);
+    });
+
+    test('allows the client origin and requests without an origin', async () => {
+      const fromClient = await request(app).post('/api/data/emulators').set('Origin', 'http://localhost:5173').send([]);
+      expect(fromClient.status).toBe(200);
+      expect(fromClient.headers['access-control-allow-origin']).toBe('http://localhost:5173');
+      expect((await request(app).get('/api/data/emulators')).status).toBe(200);
+    });
+  });
+
+  describe('artwork', () => {
+    test('refuses to download from this machine or its network', async () => {
+      const response = await request(app).post('/api/art/cache').send({ url: 'http://127.0.0.1:3001/api/data/emulators' });
+      expect(response.status).toBe(400);
+      expect(response.body.error).toMatch(/public addresses/);
+    });
+
+    test('serves stored artwork under a policy that blocks scripts', async () => {
+      const id = '0123456789abcdef0123';
+      await fs.mkdir(path.join('server', 'data', 'art'), { recursive: true });
+      await fs.writeFile(path.join('server', 'data', 'art', `${id}.svg`), '<svg xmlns="http://www.w3.org/2000/svg"/>');
+      await fs.writeFile(path.join('server', 'data', 'artwork.json'), JSON.stringify({ [id]: { id, fileName: `${id}.svg`, thumbnailFileName: null } }));
+
+      const response = await request(app).get(`/api/art/${id}`);
+      expect(response.status).toBe(200);
+      expect(response.headers['content-security-policy']).toMatch(/default-src 'none'.*sandbox/);
+      expect(response.headers['x-content-type-options']).toBe('nosniff');
+    });
+  });
+
+  describe('game descriptions', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+      delete process.env.GEMINI_API_KEY;
+    });
+
+    test('returns the descriptions Gemini writes', async () => {
+      process.env.GEMINI_API_KEY = 'test-key';
+      const post = vi.spyOn(axios, 'post').mockResolvedValue({
+        headers: { 'content-type': 'application/json' },
+        data: { candidates: [{ content: { parts: [{ text: '[{"title":"Metroid","description":"Samus explores Zebes."}]' }] } }] },
+      });
+
+      const response = await request(app).post('/api/gemini/enrich-gamelist').send({ gameList: [{ title: 'Metroid', platform: 'NES' }] });
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ source: 'Gemini', enriched_games: [{ title: 'Metroid', description: 'Samus explores Zebes.' }] });
+      expect(post.mock.calls[0][1].contents[0].parts[0].text).toContain('Metroid');
+    });
+
+    test('needs games and a Gemini key', async () => {
+      expect((await request(app).post('/api/gemini/enrich-gamelist').send({ gameList: [] })).status).toBe(400);
+      expect((await request(app).post('/api/gemini/enrich-gamelist').send({ gameList: [{ title: 'Metroid' }] })).status).toBe(500);
+    });
+  });
+
+  describe('TheGamesDB lookups', () => {
+    let originalApiKey;
+
+    // Answered from an imported export, so no request reaches TheGamesDB
+    beforeEach(async () => {
+      originalApiKey = process.env.THEGAMESDB_API_KEY;
+      delete process.env.THEGAMESDB_API_KEY;
+      await importOfflineExport({ data: { games: [{ id: 1, game_title: 'Contra', platform: 7 }] } });
+      await importOfflineExport({
+        data: { genres: { 8: { id: 8, name: 'Shooter' }, 1: { id: 1, name: 'Action' }, 15: { id: '15', name: 'Platform' }, 20: { id: 20 } } },
+      });
+    });
+
+    afterEach(() => {
+      if (originalApiKey === undefined) {
+        delete process.env.THEGAMESDB_API_KEY;
+      } else {
+        process.env.THEGAMESDB_API_KEY = originalApiKey;
+      }
+    });
+
+    test('lists a lookup table as numeric IDs with their names, sorted by name', async () => {
+      const response = await request(app).get('/api/thegamesdb/lookups/genres');
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        genres: [{ id: 1, name: 'Action' }, { id: 15, name: 'Platform' }, { id: 8, name: 'Shooter' }],
+        from_cache: false,
+        stale: false,
+      });
+      expect((await request(app).get('/api/thegamesdb/lookups/publishers')).body.publishers).toEqual([]);
+    });
+
+    test('refuses an unknown lookup table', async () => {
+      const response = await request(app).get('/api/thegamesdb/lookups/platforms');
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Unknown lookup table: platforms. Expected one of: genres, developers, publishers.');
+    });
+  });
+
+  describe('folder browser', () => {
+    beforeEach(async () => {
+      await fs.mkdir(path.join(rootPath, 'roms', 'snes', 'hacks'), { recursive: true });
+      await fs.mkdir(path.join(rootPath, 'roms', 'nes'));
+      await fs.mkdir(path.join(rootPath, 'roms', '.cache'));
+      await fs.writeFile(path.join(rootPath, 'roms', 'snes', 'Zelda.sfc'), 'zelda');
+      await fs.writeFile(path.join(rootPath, 'roms', 'snes', 'Contra III.sfc'), 'contra iii');
+    });
+
+    test('lists folders first, then files when asked for, skipping hidden entries', async () => {
+      const root = await request(app).get('/api/fs/list');
+      expect(root.status).toBe(200);
+      expect(root.body).toEqual({
+        currentPath: '.',
+        parentPath: null,
+        items: [
+          { name: 'nes', isDirectory: true, path: 'nes', modifiedAt: expect.any(String) },
+          { name: 'snes', isDirectory: true, path: 'snes', modifiedAt: expect.any(String) },
+        ],
+      });
+
+      const snes = await request(app).get('/api/fs/list').query({ path: 'snes', includeFiles: 'true' });
+      expect(snes.body.currentPath).toBe('snes');
+      expect(snes.body.parentPath).toBe('.');
+      expect(snes.body.items.map(({ name, isDirectory, path: itemPath, size }) => ({ name, isDirectory, path: itemPath, size }))).toEqual([
+        { name: 'hacks', isDirectory: true, path: 'snes/hacks', size: undefined },
+        { name: 'Contra III.sfc', isDirectory: false, path: 'snes/Contra III.sfc', size: 10 },
+        { name: 'Zelda.sfc', isDirectory: false, path: 'snes/Zelda.sfc', size: 5 },
+      ]);
+
+      expect((await request(app).get('/api/fs/list').query({ path: 'snes/hacks' })).body.parentPath).toBe('snes');
+      expect((await request(app).get('/api/fs/list').query({ path: 'snes/Zelda.sfc' })).status).toBe(400);
+      expect((await request(app).get('/api/fs/list').query({ path: 'gba' })).status).toBe(404);
+    });
+
+    test('refuses paths that lead outside the ROM directory', async () => {
+      await fs.mkdir(path.join(rootPath, 'roms-private'));
+      await fs.symlink(rootPath, path.join(rootPath, 'roms', 'escape'));
+
+      for (const requestedPath of ['..', '../roms-private', 'snes/../..', 'snes/..', rootPath, 'escape']) {
+        const response = await request(app).get('/api/fs/list').query({ path: requestedPath });
+        expect(response.status, requestedPath).toBe(400);
+        expect(response.body.error).toMatch(/^(Invalid folder path|Access denied)/);
+      }
+      // A symlink out of it is still listed, but nothing under it can be opened
+      const root = await request(app).get('/api/fs/list');
+      expect(root.body.items.map(item => item.name)).toContain('escape');
+      expect((await request(app).get('/api/fs/list').query({ path: 'escape/roms-private' })).status).toBe(400);
+    });
+  });
+
+  describe('launch', () => {
+    test('refuses an emulator whose executable does not exist', async () => {
+      await fs.writeFile(path.join(rootPath, 'roms', 'Contra.nes'), 'contra');
+      await request(app).post('/api/data/emulators').send([
+        { id: 'missing', name: 'Missing', executablePath: path.join(rootPath, 'no-such-emulator'), args: '{romPath}' },
+        { id: 'folder', name: 'Folder', executablePath: rootPath, args: '{romPath}' },
+      ]);
+      for (const emulatorId of ['missing', 'folder']) {
+        const response = await request(app).post('/api/games/launch').send({ emulatorId, romPath: 'Contra.nes' });
+        expect(response.status).toBe(400);
+        expect(response.body.error).toMatch(/^Emulator executable not found: /);
+      }
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { readCachedResponse, writeCachedResponse } from './response-cache.js';
+
+// RAWG (https://rawg.io/apidocs), the second metadata source after TheGamesDB. RAWG covers fewer
+// retro releases and has no box art, but has longer descriptions and screenshots for most games.
+
+const CACHE_NAMESPACE = 'rawg';
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Overridable so tests can point the client at a local server replaying recorded responses
+const getRawgBaseUrl = () => process.env.RAWG_API_BASE_URL || 'https://api.rawg.io/api';
+
+const getCacheKey = (operationPath, params) => {
+  const query = Object.keys(params).sort().map(name => `${name}=${params[name]}`).join('&');
+  return `${operationPath}?${query}`;
+};
+
+export const isRawgConfigured = () => Boolean(process.env.RAWG_API_KEY);
+
+/**
+ * Calls a RAWG API operation (e.g. "/games") with the server's API key. Responses are cached on
+ * disk for a day. Throws an error with code RAWG_API_KEY_MISSING when no key is configured; axios
+ * errors are left for the caller to map with getRawgErrorResponse.
+ */
+export const fetchRawg = async (operationPath, params = {}) => {
+  const cacheKey = getCacheKey(operationPath, params);
+  const cached = await readCachedResponse(CACHE_NAMESPACE, cacheKey);
+  if (cached && !cached.isExpired) {
+    return { data: cached.data, fromCache: true };
+  }
+
+  const apiKey = process.env.RAWG_API_KEY;
+  if (!apiKey) {
+    const error = new Error('Application error: RAWG API key is not configured.');
+    error.code = 'RAWG_API_KEY_MISSING';
+    throw error;
+  }
+
+  const response = await axios.get(`${getRawgBaseUrl()}${operationPath}`, {
+    params: { key: apiKey, ...params },
+    timeout: parseInt(process.env.EXTERNAL_API_TIMEOUT || '10000', 10),
+  });
+  try {
+    await writeCachedResponse(CACHE_NAMESPACE, cacheKey, response.data, CACHE_TTL_MS);
+  } catch (error) {
+    console.warn(`Could not cache RAWG response for ${operationPath}: ${error.message}`);
+  }
+  return { data: response.data, fromCache: false };
+};
+
+// RAWG serves resized copies of its media under /media/resize/<width>/-/
+const getResizedMediaUrl = (url, width) =>
+  typeof url === 'string' ? url.replace(/\/media\/(?!resize\/)/, `/media/resize/${width}/-/`) : undefined;
+
+const getNames = (items, key) => (items || []).map(item => item?.[key]?.name ?? item?.name).filter(Boolean);
+
+/**
+ * Flattens a RAWG game (from a search or the details operation) into the shape the client uses.
+ * RAWG games are listed once for all platforms, so `platforms` holds every platform's name.
+ * `overview` and the companies are only present in details responses.
+ */
+export const transformRawgGame = (game) => ({
+  id: game.id,
+  title: game.name,
+  release_date: game.released || undefined,
+  platforms: getNames(game.platforms, 'platform'),
+  genres: getNames(game.genres),
+  overview: game.description_raw || undefined,
+  developers: getNames(game.developers),
+  publishers: getNames(game.publishers),
+  background_image_url: game.background_image || undefined,
+  rating: typeof game.rating === 'number' ? game.rating : undefined,
+});
+
+// RAWG's `next` and `previous` are full URLs including the API key, so only the page numbers are passed on
+const getPageNumber = (pageUrl) => {
+  if (!pageUrl) return null;
+  try {
+    const page = parseInt(new URL(pageUrl).searchParams.get('page') || '1', 10);
+    return Number.isNaN(page) ? null : page;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Searches RAWG by title. Returns { count, games, pages }, games in the transformRawgGame shape.
+ * `platforms` is a comma-separated list of RAWG platform IDs.
+ */
+export const searchRawgGames = async (search, { page = 1, pageSize = 20, platforms } = {}) => {
+  const { data, fromCache } = await fetchRawg('/games', {
+    search,
+    page,
+    page_size: pageSize,
+    ...(platforms ? { platforms } : {}),
+  });
+  return {
+    count: typeof data?.count === 'number' ? data.count : 0,
+    games: (data?.results || []).map(transformRawgGame),
+    pages: { current: Number(page), previous: getPageNumber(data?.previous), next: getPageNumber(data?.next) },
+    fromCache,
+  };
+};
+
+export const getRawgGameDetails = async (gameId) => {
+  const { data } = await fetchRawg(`/games/${gameId}`);
+  return transformRawgGame(data);
+};
+
+/**
+ * A game's screenshots as [{ id, artType, resolution, url, thumbnailUrl }], the same shape as
+ * TheGamesDB game images.
+ */
+export const getRawgGameScreenshots = async (gameId, { page = 1 } = {}) => {
+  const { data } = await fetchRawg(`/games/${gameId}/screenshots`, { page });
+  const images = (data?.results || []).filter(image => image.image).map(image => ({
+    id: image.id,
+    artType: 'screenshot',
+    resolution: image.width && image.height ? `${image.width}x${image.height}` : undefined,
+    url: image.image,
+    thumbnailUrl: getResizedMediaUrl(image.image, 420),
+  }));
+  return { images, pages: { current: Number(page), previous: getPageNumber(data?.previous), next: getPageNumber(data?.next) } };
+};
+
+/**
+ * Maps an error from fetchRawg to an HTTP status and error body, in the same form as
+ * getTheGamesDbErrorResponse. Returns null for errors that aren't RAWG's.
+ */
+export const getRawgErrorResponse = (error) => {
+  if (error.code === 'RAWG_API_KEY_MISSING') {
+    return { status: 500, body: { error: error.message } };
+  }
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      if (error.response.status === 404) {
+        return { status: 404, body: { error: 'Game not found on RAWG.' } };
+      }
+      return {
+        status: error.response.status,
+        body: { error: `Error from RAWG API: ${error.response.data?.error || error.response.data?.detail || error.message}` },
+      };
+    }
+    if (error.code === 'ECONNABORTED') {
+      return { status: 504, body: { error: 'Gateway Timeout: No response from RAWG API.' } };
+    }
+    return { status: 502, body: { error: `Bad Gateway: Could not connect to RAWG API. ${error.message}` } };
+  }
+  return null;
+};
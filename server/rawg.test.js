@@ -0,0 +1,152 @@
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import request from 'supertest';
+import { app } from './proxy-server.js';
+import { transformRawgGame } from './rawg.js';
+
+// The RAWG client is pointed at a local server that replays responses recorded from the real API
+// (server/fixtures/rawg), so these tests never reach rawg.io.
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'rawg');
+
+const FIXTURE_ROUTES = {
+  '/games': 'search-super-metroid.json',
+  '/games/22511': 'game-22511.json',
+  '/games/22511/screenshots': 'game-22511-screenshots.json',
+};
+
+const readFixture = async (fileName) => JSON.parse(await fs.readFile(path.join(FIXTURES_DIR, fileName), 'utf8'));
+
+describe('RAWG metadata source', () => {
+  let fixtureServer;
+  let receivedRequests;
+  let originalCwd;
+  let originalEnv;
+
+  beforeAll(async () => {
+    fixtureServer = http.createServer(async (req, res) => {
+      const url = new URL(req.url, 'http://localhost');
+      receivedRequests.push(url);
+      const fixture = FIXTURE_ROUTES[url.pathname];
+      res.setHeader('Content-Type', 'application/json');
+      if (!fixture) {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ detail: 'Not found.' }));
+        return;
+      }
+      res.end(await fs.readFile(path.join(FIXTURES_DIR, fixture)));
+    });
+    await new Promise(resolve => fixtureServer.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => fixtureServer.close(resolve));
+  });
+
+  beforeEach(async () => {
+    receivedRequests = [];
+    originalEnv = { ...process.env };
+    process.env.RAWG_API_BASE_URL = `http://127.0.0.1:${fixtureServer.address().port}`;
+    process.env.RAWG_API_KEY = 'test-key';
+    // Responses are cached under the working directory; a fresh one per test keeps them apart
+    originalCwd = process.cwd();
+    process.chdir(await fs.mkdtemp(path.join(os.tmpdir(), 'rawg-test-')));
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    process.env = originalEnv;
+  });
+
+  test('transformRawgGame flattens platforms, genres and companies', async () => {
+    const game = transformRawgGame(await readFixture('game-22511.json'));
+    expect(game).toEqual({
+      id: 22511,
+      title: 'Super Metroid',
+      release_date: '1994-03-19',
+      platforms: ['SNES', 'Nintendo Switch'],
+      genres: ['Action', 'Adventure'],
+      overview: 'Samus Aran returns to planet Zebes to recover the stolen Metroid larva.',
+      developers: ['Nintendo R&D1', 'Intelligent Systems'],
+      publishers: ['Nintendo'],
+      background_image_url: 'https://media.rawg.io/media/games/4cf/4cfc6b7f1850590a4634b08bfab308ab.jpg',
+      rating: 4.47,
+    });
+  });
+
+  test('search cleans the title, ranks results and reports a confident match', async () => {
+    const res = await request(app).get('/api/search/rawg/games').query({ search: 'Super Metroid (JU) [!].smc' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.source).toBe('RAWG');
+    expect(res.body.search_name).toBe('Super Metroid');
+    expect(res.body.games.map(game => game.id)).toEqual([22511, 27036, 53551]);
+    expect(res.body.games[0].match_score).toBe(1);
+    expect(res.body.confident_match_id).toBe(22511);
+    expect(res.body.pages).toEqual({ current: 1, previous: null, next: 2 });
+    expect(res.body.from_cache).toBe(false);
+
+    const [searchRequest] = receivedRequests;
+    expect(searchRequest.searchParams.get('search')).toBe('Super Metroid');
+    expect(searchRequest.searchParams.get('key')).toBe('test-key');
+  });
+
+  test('repeated searches are served from the cache', async () => {
+    await request(app).get('/api/search/rawg/games').query({ search: 'Super Metroid' });
+    const res = await request(app).get('/api/search/rawg/games').query({ search: 'Super Metroid' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.from_cache).toBe(true);
+    expect(receivedRequests).toHaveLength(1);
+  });
+
+  test('game details include the description and companies', async () => {
+    const res = await request(app).get('/api/rawg/games/22511');
+
+    expect(res.status).toBe(200);
+    expect(res.body.overview).toMatch(/planet Zebes/);
+    expect(res.body.developers).toEqual(['Nintendo R&D1', 'Intelligent Systems']);
+  });
+
+  test('screenshots come back in the TheGamesDB game image shape', async () => {
+    const res = await request(app).get('/api/rawg/games/22511/screenshots');
+
+    expect(res.status).toBe(200);
+    expect(res.body.game_id).toBe(22511);
+    expect(res.body.images).toHaveLength(2);
+    expect(res.body.images[0]).toEqual({
+      id: 224871,
+      artType: 'screenshot',
+      resolution: '1280x720',
+      url: 'https://media.rawg.io/media/screenshots/2b1/2b1b5f0d0f1b4e3b4dbd5a3a0f5dd5e2.jpg',
+      thumbnailUrl: 'https://media.rawg.io/media/resize/420/-/screenshots/2b1/2b1b5f0d0f1b4e3b4dbd5a3a0f5dd5e2.jpg',
+    });
+    expect(res.body.pages).toEqual({ current: 1, previous: null, next: null });
+  });
+
+  test('an unknown game is a 404', async () => {
+    const res = await request(app).get('/api/rawg/games/999');
+
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('Game not found on RAWG.');
+  });
+
+  test('a search without a title is rejected', async () => {
+    const res = await request(app).get('/api/search/rawg/games');
+
+    expect(res.status).toBe(400);
+    expect(receivedRequests).toHaveLength(0);
+  });
+
+  test('requests fail clearly when no API key is configured', async () => {
+    delete process.env.RAWG_API_KEY;
+    const res = await request(app).get('/api/search/rawg/games').query({ search: 'Super Metroid' });
+
+    expect(res.status).toBe(500);
+    expect(res.body.error).toMatch(/RAWG API key is not configured/);
+    expect(receivedRequests).toHaveLength(0);
+  });
+});
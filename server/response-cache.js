@@ -0,0 +1,61 @@
+import path from 'path';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+
+// On-disk cache for responses from external APIs, one JSON file per request under
+// server/data/cache/<namespace>/. Entries are kept after they expire so they can still be served
+// when the API can't be reached or refuses requests; callers decide whether stale data is usable.
+
+const getCacheDir = (namespace) => path.join(process.cwd(), 'server', 'data', 'cache', namespace);
+
+const getEntryPath = (namespace, key) =>
+  path.join(getCacheDir(namespace), `${crypto.createHash('sha1').update(key).digest('hex')}.json`);
+
+/**
+ * Returns the cached entry for a key as { data, cachedAt, expiresAt, isExpired }, or null if there
+ * is none. Unreadable entries are treated as missing.
+ */
+export const readCachedResponse = async (namespace, key) => {
+  try {
+    const entry = JSON.parse(await fs.readFile(getEntryPath(namespace, key), 'utf8'));
+    if (entry.key !== key) return null; // Hash collision
+    return { data: entry.data, cachedAt: entry.cachedAt, expiresAt: entry.expiresAt, isExpired: Date.parse(entry.expiresAt) <= Date.now() };
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.warn(`Ignoring unreadable ${namespace} cache entry: ${error.message}`);
+    }
+    return null;
+  }
+};
+
+export const writeCachedResponse = async (namespace, key, data, ttlMs) => {
+  const entryPath = getEntryPath(namespace, key);
+  const now = Date.now();
+  await fs.mkdir(path.dirname(entryPath), { recursive: true });
+  // Write to a temporary name first so a concurrent read never sees a half-written entry. The name
+  // is unique per write, since two requests for the same key can be cached at the same time.
+  const partialPath = `${entryPath}.${crypto.randomUUID()}.partial`;
+  await fs.writeFile(partialPath, JSON.stringify({
+    key,
+    cachedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString(),
+    data,
+  }), 'utf8');
+  await fs.rename(partialPath, entryPath);
+};
+
+export const countCachedResponses = async (namespace) => {
+  try {
+    return (await fs.readdir(getCacheDir(namespace))).filter(name => name.endsWith('.json')).length;
+  } catch (error) {
+    if (error.code === 'ENOENT') return 0;
+    throw error;
+  }
+};
+
+// Deletes every entry in the namespace; returns how many were removed
+export const clearCachedResponses = async (namespace) => {
+  const count = await countCachedResponses(namespace);
+  await fs.rm(getCacheDir(namespace), { recursive: true, force: true });
+  return count;
+};
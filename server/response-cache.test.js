@@ -0,0 +1,52 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { readCachedResponse, writeCachedResponse, countCachedResponses, clearCachedResponses } from './response-cache.js';
+
+describe('response cache', () => {
+  let originalCwd;
+
+  // Entries live under the working directory; a fresh one per test keeps them apart
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    process.chdir(await fs.mkdtemp(path.join(os.tmpdir(), 'response-cache-test-')));
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+  });
+
+  test('returns what was written until it expires, and keeps it after', async () => {
+    expect(await readCachedResponse('test', 'games?name=zelda')).toBeNull();
+
+    await writeCachedResponse('test', 'games?name=zelda', { games: [1] }, 60000);
+    expect(await readCachedResponse('test', 'games?name=zelda')).toMatchObject({ data: { games: [1] }, isExpired: false });
+
+    await writeCachedResponse('test', 'games?name=zelda', { games: [2] }, -1);
+    expect(await readCachedResponse('test', 'games?name=zelda')).toMatchObject({ data: { games: [2] }, isExpired: true });
+  });
+
+  test('keeps namespaces apart and ignores unreadable entries', async () => {
+    await writeCachedResponse('one', 'key', 1, 60000);
+    expect(await readCachedResponse('two', 'key')).toBeNull();
+
+    const [fileName] = await fs.readdir(path.join('server', 'data', 'cache', 'one'));
+    await fs.writeFile(path.join('server', 'data', 'cache', 'one', fileName), '{ not json');
+    expect(await readCachedResponse('one', 'key')).toBeNull();
+  });
+
+  test('concurrent writes of one key leave a complete entry and no temporary files', async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) => writeCachedResponse('test', 'key', { i }, 60000)));
+    expect((await readCachedResponse('test', 'key')).data).toHaveProperty('i');
+    expect(await fs.readdir(path.join('server', 'data', 'cache', 'test'))).toHaveLength(1);
+  });
+
+  test('counts and clears a namespace', async () => {
+    expect(await countCachedResponses('test')).toBe(0);
+    await writeCachedResponse('test', 'a', 1, 60000);
+    await writeCachedResponse('test', 'b', 2, 60000);
+    expect(await countCachedResponses('test')).toBe(2);
+    expect(await clearCachedResponses('test')).toBe(2);
+    expect(await readCachedResponse('test', 'a')).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
+
+// Standard CRC-32 (IEEE 802.3) lookup table, as used by No-Intro/Redump DATs and zip headers
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Feeds a chunk into a running CRC-32. Start with 0 and pass the previous return value back in.
+export const updateCrc32 = (crc, buffer) => {
+  let c = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < buffer.length; i++) {
+    c = CRC32_TABLE[(c ^ buffer[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+export const formatCrc32 = (crc) => crc.toString(16).padStart(8, '0');
+
+/**
+ * Computes CRC32, MD5 and SHA-1 of a readable stream in a single pass. Hashes are returned as
+ * lower-case hex strings.
+ */
+export const hashStream = (stream) => {
+  return new Promise((resolve, reject) => {
+    const md5 = crypto.createHash('md5');
+    const sha1 = crypto.createHash('sha1');
+    let crc = 0;
+
+    stream
+      .on('data', (chunk) => {
+        crc = updateCrc32(crc, chunk);
+        md5.update(chunk);
+        sha1.update(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => resolve({
+        crc32: formatCrc32(crc),
+        md5: md5.digest('hex'),
+        sha1: sha1.digest('hex'),
+      }));
+  });
+};
+
+// Files are streamed, so large disc images are never loaded into memory
+export const hashFile = (filePath) => hashStream(createReadStream(filePath));
@@ -0,0 +1,47 @@
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { promises as fs } from 'fs';
+import { updateCrc32, formatCrc32, hashStream, hashFile } from './rom-hasher.js';
+import { scanRomDirectory } from './rom-scanner.js';
+
+const TEXT = 'The quick brown fox jumps over the lazy dog';
+const TEXT_HASHES = {
+  crc32: '414fa339',
+  md5: '9e107d9d372bb6826bd81d3542a419d6',
+  sha1: '2fd4e1c67a2d28fced849ee1bb76e7391b93eb12',
+};
+
+describe('ROM hasher', () => {
+  test('CRC32 gives the same result in one pass or in chunks', () => {
+    const buffer = Buffer.from(TEXT);
+    expect(formatCrc32(updateCrc32(0, buffer))).toBe(TEXT_HASHES.crc32);
+    expect(formatCrc32(updateCrc32(updateCrc32(0, buffer.subarray(0, 10)), buffer.subarray(10)))).toBe(TEXT_HASHES.crc32);
+    expect(formatCrc32(updateCrc32(0, Buffer.alloc(0)))).toBe('00000000');
+  });
+
+  test('hashStream computes CRC32, MD5 and SHA-1 across chunks', async () => {
+    const chunks = TEXT.match(/.{1,7}/g).map(chunk => Buffer.from(chunk));
+    expect(await hashStream(Readable.from(chunks))).toEqual(TEXT_HASHES);
+  });
+
+  test('hashStream rejects when the stream fails', async () => {
+    const stream = new Readable({ read() { this.destroy(new Error('read failed')); } });
+    await expect(hashStream(stream)).rejects.toThrow('read failed');
+  });
+
+  test('hashes files, and scanned ROMs when asked to', async () => {
+    const rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'rom-hasher-test-'));
+    try {
+      await fs.writeFile(path.join(rootPath, 'Fox.nes'), TEXT);
+      expect(await hashFile(path.join(rootPath, 'Fox.nes'))).toEqual(TEXT_HASHES);
+
+      const [rom] = await scanRomDirectory(rootPath, { computeHashes: true });
+      expect(rom.hashes).toEqual(TEXT_HASHES);
+      const [unhashed] = await scanRomDirectory(rootPath);
+      expect(unhashed.hashes).toBeUndefined();
+    } finally {
+      await fs.rm(rootPath, { recursive: true, force: true });
+    }
+  });
+});
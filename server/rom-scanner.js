@@ -0,0 +1,175 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { hashFile, hashStream } from './rom-hasher.js';
+import { isArchiveFile, listArchiveEntries, openArchiveEntryStream } from './archive-reader.js';
+import { groupDiscImages } from './multi-disc.js';
+
+// Used when a platform has no extension allow-list: skip files that commonly sit next to ROMs
+// (saves, readmes, scans) but are never launchable themselves.
+export const DEFAULT_IGNORED_EXTENSIONS = ['txt', 'nfo', 'md', 'pdf', 'srm', 'sav', 'state', 'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ini', 'db'];
+
+export const DEFAULT_MAX_DEPTH = 5;
+export const MAX_ALLOWED_DEPTH = 20;
+
+// Normalizes user-entered extensions (".NES", " sfc ") to the bare lower-case form
+export const normalizeExtensions = (extensions) => {
+  if (!Array.isArray(extensions)) {
+    return [];
+  }
+  return extensions
+    .filter(ext => typeof ext === 'string')
+    .map(ext => ext.trim().replace(/^\./, '').toLowerCase())
+    .filter(Boolean);
+};
+
+const getExtension = (fileName) => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.substring(dotIndex + 1).toLowerCase() : '';
+};
+
+const stripExtension = (fileName) => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.substring(0, dotIndex) : fileName;
+};
+
+/**
+ * Scans a directory for ROM files.
+ *
+ * Options:
+ * - recursive: descend into subfolders, up to maxDepth levels below rootPath (0 = rootPath only)
+ * - followSymlinks: follow symlinked files and folders; each symlink target must pass isPathAllowed
+ * - extensions: allow-list of extensions; when empty, DEFAULT_IGNORED_EXTENSIONS are skipped instead
+ * - isPathAllowed: async (realPath) => boolean, used to keep followed symlinks inside the sandbox
+ * - computeHashes: add { crc32, md5, sha1 } hashes to each file (files are hashed one at a time)
+ * - inspectArchives: list the ROM entries inside .zip/.7z archives instead of the archive itself.
+ *   Each entry gets archiveEntry (its path inside the archive) and at least the header CRC32 as hashes.
+ * - groupDiscs: hide .cue/.gdi track files and merge "(Disc N)" files into one entry with a `discs` list
+ *
+ * Returns [{ name, filename, relativePath, size, hashes?, archiveEntry? }], where relativePath is relative
+ * to rootPath and always uses forward slashes. For archive entries, relativePath is the archive's path.
+ */
+export const scanRomDirectory = async (rootPath, options = {}) => {
+  const {
+    recursive = false,
+    followSymlinks = false,
+    computeHashes = false,
+    inspectArchives = false,
+    groupDiscs = false,
+    isPathAllowed = async () => true,
+  } = options;
+  const maxDepth = recursive ? Math.min(Math.max(0, options.maxDepth ?? DEFAULT_MAX_DEPTH), MAX_ALLOWED_DEPTH) : 0;
+  const allowedExtensions = normalizeExtensions(options.extensions);
+
+  const isRomFile = (fileName) => {
+    const extension = getExtension(fileName);
+    return allowedExtensions.length > 0
+      ? allowedExtensions.includes(extension)
+      : !DEFAULT_IGNORED_EXTENSIONS.includes(extension);
+  };
+
+  const romFiles = [];
+  // Full paths of plain files, hashed after disc grouping so hidden track files are never read
+  const fullPathsByRelativePath = new Map();
+
+  // Returns false if the archive couldn't be read, so the caller can fall back to listing it as a file
+  const addArchiveEntries = async (archivePath, relativePath) => {
+    let entries;
+    try {
+      entries = await listArchiveEntries(archivePath);
+    } catch (error) {
+      console.warn(`Could not read archive ${relativePath}: ${error.message}`);
+      return false;
+    }
+
+    for (const entry of entries) {
+      const entryFileName = entry.name.substring(entry.name.lastIndexOf('/') + 1);
+      if (!entryFileName || entryFileName.startsWith('.') || !isRomFile(entryFileName)) continue;
+
+      let hashes = entry.crc32 ? { crc32: entry.crc32 } : undefined;
+      if (computeHashes && !entry.encrypted) {
+        try {
+          hashes = await hashStream(await openArchiveEntryStream(archivePath, entry.name));
+        } catch (error) {
+          console.warn(`Could not hash ${entry.name} in ${relativePath}: ${error.message}`);
+        }
+      }
+
+      romFiles.push({
+        name: stripExtension(entryFileName),
+        filename: entryFileName,
+        relativePath,
+        size: entry.size,
+        archiveEntry: entry.name,
+        ...(hashes ? { hashes } : {}),
+      });
+    }
+    return true;
+  };
+  // Real paths of directories already walked, so symlink loops are only visited once
+  const visitedDirectories = new Set([await fs.realpath(rootPath)]);
+
+  const walk = async (directoryPath, relativeDir, depth) => {
+    const dirents = await fs.readdir(directoryPath, { withFileTypes: true });
+    dirents.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const dirent of dirents) {
+      if (dirent.name.startsWith('.')) continue;
+
+      const entryPath = path.join(directoryPath, dirent.name);
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+      let isDirectory = dirent.isDirectory();
+      let isFile = dirent.isFile();
+
+      if (dirent.isSymbolicLink()) {
+        if (!followSymlinks) continue;
+        try {
+          const realPath = await fs.realpath(entryPath);
+          if (!(await isPathAllowed(realPath))) continue;
+          const targetStats = await fs.stat(realPath);
+          isDirectory = targetStats.isDirectory();
+          isFile = targetStats.isFile();
+        } catch {
+          continue; // Broken symlink
+        }
+      }
+
+      if (isDirectory) {
+        if (depth < maxDepth) {
+          const realDirectoryPath = await fs.realpath(entryPath);
+          if (visitedDirectories.has(realDirectoryPath)) continue;
+          visitedDirectories.add(realDirectoryPath);
+          await walk(entryPath, relativePath, depth + 1);
+        }
+      } else if (isFile && inspectArchives && isArchiveFile(dirent.name) && await addArchiveEntries(entryPath, relativePath)) {
+        continue;
+      } else if (isFile && isRomFile(dirent.name)) {
+        const stats = await fs.stat(entryPath);
+        fullPathsByRelativePath.set(relativePath, entryPath);
+        romFiles.push({
+          name: stripExtension(dirent.name), // Filename without extension, for display
+          filename: dirent.name,
+          relativePath,
+          size: stats.size,
+        });
+      }
+    }
+  };
+
+  await walk(rootPath, '', 0);
+
+  const results = groupDiscs ? await groupDiscImages(rootPath, romFiles) : romFiles;
+  if (computeHashes) {
+    for (const romFile of results) {
+      if (romFile.archiveEntry) continue; // Already hashed from the archive
+      if (romFile.discs) {
+        for (const disc of romFile.discs) {
+          disc.hashes = await hashFile(fullPathsByRelativePath.get(disc.relativePath));
+        }
+        romFile.hashes = romFile.discs[0].hashes;
+      } else {
+        romFile.hashes = await hashFile(fullPathsByRelativePath.get(romFile.relativePath));
+      }
+    }
+  }
+  return results;
+};
@@ -0,0 +1,59 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { normalizeExtensions, scanRomDirectory } from './rom-scanner.js';
+
+// Builds a folder tree under a temp directory from { 'relative/path': contents }
+const createTree = async (files) => {
+  const rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'rom-scanner-test-'));
+  for (const [relativePath, contents] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(rootPath, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(rootPath, relativePath), contents);
+  }
+  return rootPath;
+};
+
+const getRelativePaths = (romFiles) => romFiles.map(rom => rom.relativePath).sort();
+
+describe('ROM scanner', () => {
+  let rootPath;
+
+  beforeEach(async () => {
+    rootPath = await createTree({
+      'Contra.nes': 'contra',
+      'readme.txt': 'not a rom',
+      'USA/Metroid.nes': 'metroid',
+      'USA/Platinum/Zelda.nes': 'zelda',
+      'USA/Platinum/Deep/Mother.nes': 'mother',
+      'SNES/Super Metroid.sfc': 'super metroid',
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootPath, { recursive: true, force: true });
+  });
+
+  test('normalizeExtensions strips dots and spaces and lower-cases', () => {
+    expect(normalizeExtensions(['.NES', ' sfc ', '', 7, 'Zip'])).toEqual(['nes', 'sfc', 'zip']);
+    expect(normalizeExtensions('nes')).toEqual([]);
+  });
+
+  test('only lists the top folder unless recursive', async () => {
+    const romFiles = await scanRomDirectory(rootPath);
+    expect(romFiles).toEqual([{ name: 'Contra', filename: 'Contra.nes', relativePath: 'Contra.nes', size: 6 }]);
+  });
+
+  test('descends into subfolders up to maxDepth', async () => {
+    expect(getRelativePaths(await scanRomDirectory(rootPath, { recursive: true, maxDepth: 1 })))
+      .toEqual(['Contra.nes', 'SNES/Super Metroid.sfc', 'USA/Metroid.nes']);
+    expect(getRelativePaths(await scanRomDirectory(rootPath, { recursive: true })))
+      .toEqual(['Contra.nes', 'SNES/Super Metroid.sfc', 'USA/Metroid.nes', 'USA/Platinum/Deep/Mother.nes', 'USA/Platinum/Zelda.nes']);
+  });
+
+  test('keeps only allowed extensions, or skips known non-ROM files without an allow-list', async () => {
+    expect(getRelativePaths(await scanRomDirectory(rootPath, { recursive: true, extensions: ['.SFC'] })))
+      .toEqual(['SNES/Super Metroid.sfc']);
+    expect(getRelativePaths(await scanRomDirectory(rootPath))).not.toContain('readme.txt');
+    expect(getRelativePaths(await scanRomDirectory(rootPath, { extensions: ['txt'] }))).toEqual(['readme.txt']);
+  });
+});
@@ -0,0 +1,391 @@
+import path from 'path';
+import crypto from 'crypto';
+import { fetchTheGamesDb, transformGamesResponse, getLookupNames, getGenreFields, getGenreIdsByName } from './thegamesdb.js';
+import { getPlatformDat, buildDatIndex, matchRomAgainstDat } from './dat-store.js';
+import { getCleanTitle, rankCandidates, isConfidentMatch } from './title-matcher.js';
+import { isRawgConfigured, searchRawgGames, getRawgGameDetails } from './rawg.js';
+
+// Bulk metadata scraping. A job walks a list of games for one platform, searches TheGamesDB for
+// each and records the fields it would fill (description, genre, release date, developer,
+// publisher, players, cover art). The
+// client owns games.json, so nothing is written here: the client reviews each match, applies the
+// ones it accepts and reports its decisions back. Jobs are kept in memory only. When TheGamesDB has
+// no match and a RAWG key is configured, RAWG is searched instead.
+
+// Minimum time between metadata requests; answers from the response cache don't count
+const getRequestInterval = () => parseInt(process.env.SCRAPE_REQUEST_INTERVAL_MS || '1000', 10);
+const MAX_FINISHED_JOBS = 20;
+const MAX_CANDIDATES = 5;
+// RAWG searches can't be narrowed to the platform, so a weak title match there is more likely wrong
+const RAWG_FALLBACK_MIN_SCORE = 0.6;
+
+export const SCRAPE_FIELDS = ['description', 'genre', 'releaseDate', 'developer', 'publisher', 'players', 'coverImageUrl'];
+
+const jobs = new Map(); // jobId -> job
+let lastRequestAt = 0;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const waitForRateLimit = async () => {
+  const wait = lastRequestAt + getRequestInterval() - Date.now();
+  if (wait > 0) await sleep(wait);
+};
+
+// A job without genre, developer or publisher names still proposes the other fields
+const loadLookupNames = async (kind) => {
+  try {
+    return await getLookupNames(kind);
+  } catch (error) {
+    console.warn(`Scrape job could not load TheGamesDB ${kind}; they will be left empty: ${error.message}`);
+    return new Map();
+  }
+};
+
+// Title to search for: the DAT's canonical name when the game's hashes match the platform's DAT,
+// otherwise the game's own title
+const getSearchTerm = (job, game) => {
+  if (job.datIndex && game.hashes) {
+    const fileName = path.posix.basename((game.archiveEntry || game.romPath || '').replace(/\\/g, '/'));
+    const match = matchRomAgainstDat(job.datIndex, { filename: fileName, size: game.romSize, hashes: game.hashes });
+    if (match.status !== 'unknown' && match.title) {
+      return { searchTitle: getCleanTitle(match.title), searchedBy: 'hash' };
+    }
+  }
+  return { searchTitle: getCleanTitle(game.title), searchedBy: 'name' };
+};
+
+// The year of a "YYYY-MM-DD" release date. Read from the string, since Date parses date-only
+// strings as UTC and would give the previous year west of UTC.
+export const getReleaseYear = (releaseDate) => (typeof releaseDate === 'string' ? releaseDate.match(/^(\d{4})/)?.[1] : undefined);
+
+// Fields the match would set: empty ones only, unless the job overwrites existing metadata. Fields
+// the game has locked are never set, and genreIds goes with genre. `idField` records which game on
+// the source was matched (theGamesDbId or rawgId).
+const getChanges = (job, game, proposed, idField, id) => {
+  const changes = {};
+  for (const field of SCRAPE_FIELDS) {
+    const value = proposed[field];
+    if (value && value !== game[field] && (job.overwrite || !game[field]) && !game.lockedFields.includes(field)) {
+      changes[field] = value;
+    }
+  }
+  if (changes.genre && proposed.genreIds) {
+    changes.genreIds = proposed.genreIds;
+  }
+  if (Object.keys(changes).length > 0 || game[idField] !== id) {
+    changes[idField] = id;
+  }
+  return changes;
+};
+
+const throttledRequest = async (request) => {
+  await waitForRateLimit();
+  const result = await request();
+  if (!result?.fromCache && !result?.offline) lastRequestAt = Date.now();
+  return result;
+};
+
+// RAWG has no box art or player counts, so a RAWG match doesn't propose those
+const scrapeGameFromRawg = async (job, game, base) => {
+  const { games } = await throttledRequest(() => searchRawgGames(base.searchTitle, { pageSize: 10 }));
+  const ranked = rankCandidates(base.searchTitle, games).filter(({ score }) => score >= RAWG_FALLBACK_MIN_SCORE);
+  if (ranked.length === 0) {
+    return { ...base, status: 'no_match' };
+  }
+
+  const { candidate: match, score } = ranked[0];
+  const details = await throttledRequest(() => getRawgGameDetails(match.id));
+  const changes = getChanges(job, game, {
+    description: details.overview,
+    genre: details.genres.join(', ') || undefined,
+    genreIds: getGenreIdsByName(details.genres, job.genreNames),
+    releaseDate: getReleaseYear(details.release_date),
+    developer: details.developers[0],
+    publisher: details.publishers[0],
+  }, 'rawgId', match.id);
+  const hasChanges = Object.keys(changes).length > 0;
+  return {
+    ...base,
+    status: 'matched',
+    source: 'RAWG',
+    score,
+    autoAccept: job.autoAccept && hasChanges && isConfidentMatch(ranked),
+    match: {
+      id: match.id,
+      title: match.title,
+      releaseDate: match.release_date,
+      platformName: match.platforms.join(', '),
+      coverImageUrl: match.background_image_url,
+    },
+    candidates: ranked.slice(0, MAX_CANDIDATES).map(({ candidate, score: candidateScore }) => ({
+      id: candidate.id,
+      title: candidate.title,
+      releaseDate: candidate.release_date,
+      score: candidateScore,
+    })),
+    changes,
+    review: hasChanges ? 'pending' : null,
+  };
+};
+
+const scrapeGame = async (job, game) => {
+  const { searchTitle, searchedBy } = getSearchTerm(job, game);
+  const base = { gameId: game.id, title: game.title, searchTitle, searchedBy, review: null };
+  if (!searchTitle) {
+    return { ...base, status: 'no_match' };
+  }
+
+  const { data } = await throttledRequest(() => fetchTheGamesDb('/v1.1/Games/ByGameName', {
+    name: searchTitle,
+    fields: 'overview,genres,release_date,platform,players,publishers',
+    include: 'boxart,platform',
+    'filter[platform]': job.platformId,
+  }));
+
+  const ranked = rankCandidates(searchTitle, await transformGamesResponse(data));
+  if (ranked.length === 0) {
+    return isRawgConfigured() ? scrapeGameFromRawg(job, game, base) : { ...base, status: 'no_match' };
+  }
+
+  const { candidate: match, score } = ranked[0];
+  const rawGame = (data?.data?.games || []).find(candidate => candidate.id === match.id);
+  const getName = (ids, names) => (ids || []).map(id => names.get(Number(id))).find(Boolean);
+  const changes = getChanges(job, game, {
+    description: match.overview,
+    ...getGenreFields(rawGame?.genres, job.genreNames),
+    releaseDate: getReleaseYear(match.release_date),
+    developer: getName(rawGame?.developers, job.developerNames),
+    publisher: getName(rawGame?.publishers, job.publisherNames),
+    players: rawGame?.players || undefined,
+    coverImageUrl: match.boxart_url,
+  }, 'theGamesDbId', match.id);
+  const hasChanges = Object.keys(changes).length > 0;
+  return {
+    ...base,
+    status: 'matched',
+    source: 'TheGamesDB',
+    score,
+    // The client applies these without asking when the job was started with autoAccept
+    autoAccept: job.autoAccept && hasChanges && isConfidentMatch(ranked),
+    match: {
+      id: match.id,
+      title: match.title,
+      releaseDate: match.release_date,
+      platformName: match.source_platform_details?.name,
+      coverImageUrl: match.boxart_url,
+    },
+    candidates: ranked.slice(0, MAX_CANDIDATES).map(({ candidate, score: candidateScore }) => ({
+      id: candidate.id,
+      title: candidate.title,
+      releaseDate: candidate.release_date,
+      score: candidateScore,
+    })),
+    changes,
+    review: hasChanges ? 'pending' : null,
+  };
+};
+
+const runJob = async (job) => {
+  job.isLoopActive = true;
+  try {
+    if (!job.genreNames) {
+      [job.genreNames, job.developerNames, job.publisherNames] = await Promise.all(['genres', 'developers', 'publishers'].map(loadLookupNames));
+    }
+    if (job.datIndex === undefined) {
+      const dat = await getPlatformDat(job.platformId);
+      job.datIndex = dat ? buildDatIndex(dat) : null;
+    }
+
+    while (job.status === 'running' && job.results.length < job.games.length) {
+      const game = job.games[job.results.length];
+      let result;
+      try {
+        result = await scrapeGame(job, game);
+      } catch (error) {
+        // Nothing else will work until the allowance refreshes or a key is configured
+        if (error.code === 'THEGAMESDB_ALLOWANCE_EXHAUSTED' || error.code === 'THEGAMESDB_API_KEY_MISSING') {
+          job.status = 'paused';
+          job.error = error.message;
+          break;
+        }
+        result = { gameId: game.id, title: game.title, status: 'error', error: error.message, review: null };
+      }
+      job.results.push(result);
+      job.updatedAt = new Date().toISOString();
+    }
+  } catch (error) {
+    console.error(`Scrape job ${job.id} failed:`, error);
+    job.status = 'failed';
+    job.error = error.message;
+  } finally {
+    job.isLoopActive = false;
+  }
+
+  if (job.status === 'running') {
+    job.status = 'completed';
+  }
+  if (job.status !== 'paused') {
+    job.finishedAt = new Date().toISOString();
+  }
+  job.updatedAt = new Date().toISOString();
+};
+
+const startLoop = (job) => {
+  if (job.isLoopActive) return; // The current loop carries on now that the job is running again
+  runJob(job).catch(error => console.error(`Scrape job ${job.id} stopped unexpectedly:`, error));
+};
+
+const pruneFinishedJobs = () => {
+  const finished = [...jobs.values()].filter(job => job.finishedAt).sort((a, b) => a.finishedAt.localeCompare(b.finishedAt));
+  while (finished.length > MAX_FINISHED_JOBS) {
+    jobs.delete(finished.shift().id);
+  }
+};
+
+const summarizeJob = (job) => {
+  const count = (predicate) => job.results.filter(predicate).length;
+  return {
+    id: job.id,
+    platformId: job.platformId,
+    status: job.status,
+    overwrite: job.overwrite,
+    autoAccept: job.autoAccept,
+    total: job.games.length,
+    processed: job.results.length,
+    matched: count(result => result.status === 'matched'),
+    noMatch: count(result => result.status === 'no_match'),
+    failed: count(result => result.status === 'error'),
+    pendingReview: count(result => result.review === 'pending'),
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    finishedAt: job.finishedAt,
+  };
+};
+
+const toPublicJob = (job) => ({ ...summarizeJob(job), results: job.results.map(result => ({ ...result })) });
+
+// Only the fields the scraper reads are kept from the client's games
+const pickGameFields = (game) => ({
+  id: game.id,
+  title: typeof game.title === 'string' ? game.title : '',
+  description: game.description || '',
+  genre: game.genre || '',
+  releaseDate: game.releaseDate || '',
+  developer: game.developer || '',
+  publisher: game.publisher || '',
+  players: game.players,
+  coverImageUrl: game.coverImageUrl || '',
+  theGamesDbId: game.theGamesDbId,
+  rawgId: game.rawgId,
+  romPath: game.romPath,
+  archiveEntry: game.archiveEntry,
+  romSize: game.romSize,
+  hashes: game.hashes,
+  lockedFields: Array.isArray(game.lockedFields) ? game.lockedFields : [],
+});
+
+/**
+ * Starts a scrape job for games of one platform. `platformId` is the platform's TheGamesDB ID,
+ * used to narrow searches. With `overwrite`, fields that already have a value are replaced too.
+ * With `autoAccept`, confident matches (see title-matcher.js) are flagged for the client to apply
+ * without review.
+ * Throws an error with code SCRAPE_JOB_ACTIVE if the platform already has a running or paused job.
+ */
+export const createScrapeJob = ({ platformId, games, overwrite = false, autoAccept = false }) => {
+  const active = [...jobs.values()].find(job => job.platformId === String(platformId) && !job.finishedAt);
+  if (active) {
+    const error = new Error(`Platform ${platformId} already has an unfinished scrape job.`);
+    error.code = 'SCRAPE_JOB_ACTIVE';
+    error.jobId = active.id;
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  const job = {
+    id: crypto.randomUUID(),
+    platformId: String(platformId),
+    overwrite: overwrite === true,
+    autoAccept: autoAccept === true,
+    games: games.map(pickGameFields),
+    results: [],
+    status: 'running',
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: null,
+    isLoopActive: false,
+    genreNames: null, // Lookup names, loaded when the job first runs
+    developerNames: null,
+    publisherNames: null,
+    datIndex: undefined, // null when the platform has no DAT
+  };
+  jobs.set(job.id, job);
+  pruneFinishedJobs();
+  startLoop(job);
+  return summarizeJob(job);
+};
+
+export const listScrapeJobs = () => [...jobs.values()].map(summarizeJob);
+
+// Confident matches of every job started with autoAccept that the client hasn't applied yet,
+// each with its jobId
+export const listAutoAcceptedResults = () => [...jobs.values()].flatMap(job => job.results
+  .filter(result => result.review === 'pending' && result.autoAccept)
+  .map(result => ({ jobId: job.id, ...result })));
+
+export const getScrapeJob = (jobId) => {
+  const job = jobs.get(jobId);
+  return job ? toPublicJob(job) : null;
+};
+
+// Returns the updated summary, or null if the job doesn't exist or can't be paused
+export const pauseScrapeJob = (jobId) => {
+  const job = jobs.get(jobId);
+  if (!job || job.status !== 'running') return null;
+  job.status = 'paused'; // The loop stops after the game it is on
+  job.updatedAt = new Date().toISOString();
+  return summarizeJob(job);
+};
+
+export const resumeScrapeJob = (jobId) => {
+  const job = jobs.get(jobId);
+  if (!job || job.status !== 'paused') return null;
+  job.status = 'running';
+  job.error = null;
+  job.updatedAt = new Date().toISOString();
+  startLoop(job);
+  return summarizeJob(job);
+};
+
+export const cancelScrapeJob = (jobId) => {
+  const job = jobs.get(jobId);
+  if (!job || job.finishedAt) return null;
+  job.status = 'cancelled';
+  job.finishedAt = new Date().toISOString();
+  job.updatedAt = job.finishedAt;
+  return summarizeJob(job);
+};
+
+// Records the client's decision on matches awaiting review; returns how many were updated, or null if the job doesn't exist
+export const reviewScrapeResults = (jobId, gameIds, decision) => {
+  const job = jobs.get(jobId);
+  if (!job) return null;
+  const idSet = new Set(gameIds);
+  let updated = 0;
+  for (const result of job.results) {
+    if (idSet.has(result.gameId) && result.review !== null && result.review !== decision) {
+      result.review = decision;
+      updated++;
+    }
+  }
+  if (updated > 0) job.updatedAt = new Date().toISOString();
+  return updated;
+};
+
+// Finished jobs only; returns false if the job doesn't exist or is still running or paused
+export const deleteScrapeJob = (jobId) => {
+  const job = jobs.get(jobId);
+  if (!job || !job.finishedAt) return false;
+  return jobs.delete(jobId);
+};
@@ -0,0 +1,139 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { createScrapeJob, getScrapeJob, getReleaseYear } from './scrape-jobs.js';
+
+// Searches answer from a fixed response; the real transform turns it into candidates
+const { fetchTheGamesDb, searchRawgGames, getRawgGameDetails } = vi.hoisted(() => ({
+  fetchTheGamesDb: vi.fn(),
+  searchRawgGames: vi.fn(),
+  getRawgGameDetails: vi.fn(),
+}));
+vi.mock('./thegamesdb.js', async (importOriginal) => ({
+  ...await importOriginal(),
+  fetchTheGamesDb,
+  getLookupNames: async (kind) => new Map({
+    genres: [[1, 'Platform'], [2, 'Action']],
+    developers: [[10, 'Nintendo R&D1']],
+    publishers: [[20, 'Nintendo']],
+  }[kind]),
+}));
+vi.mock('./rawg.js', async (importOriginal) => ({ ...await importOriginal(), searchRawgGames, getRawgGameDetails }));
+
+const SEARCH_RESPONSE = {
+  data: {
+    games: [{
+      id: 113,
+      game_title: 'Metroid',
+      release_date: '1987-08-15',
+      platform: 7,
+      overview: 'Samus...',
+      genres: [1, 2, 99],
+      developers: [10],
+      publishers: [20],
+      players: 1,
+    }],
+  },
+  include: {
+    boxart: { base_url: { original: 'https://cdn/' }, data: { 113: [{ side: 'front', filename: 'metroid.jpg' }] } },
+    platform: { data: { 7: { id: 7, name: 'NES' } } },
+  },
+};
+
+const runScrapeJob = async (options) => {
+  const { id } = createScrapeJob({ platformId: 7, ...options });
+  await vi.waitFor(() => expect(getScrapeJob(id).status).toBe('completed'));
+  return getScrapeJob(id).results;
+};
+
+describe('scrape jobs', () => {
+  let originalCwd;
+  let originalRawgKey;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    process.chdir(await fs.mkdtemp(path.join(os.tmpdir(), 'scrape-jobs-test-')));
+    process.env.SCRAPE_REQUEST_INTERVAL_MS = '0';
+    originalRawgKey = process.env.RAWG_API_KEY;
+    delete process.env.RAWG_API_KEY;
+    fetchTheGamesDb.mockReset();
+    fetchTheGamesDb.mockResolvedValue({ data: SEARCH_RESPONSE });
+  });
+
+  afterEach(() => {
+    delete process.env.SCRAPE_REQUEST_INTERVAL_MS;
+    if (originalRawgKey === undefined) delete process.env.RAWG_API_KEY;
+    else process.env.RAWG_API_KEY = originalRawgKey;
+    process.chdir(originalCwd);
+  });
+
+  test('getReleaseYear reads the year from the date string', () => {
+    expect(getReleaseYear('1991-01-01')).toBe('1991');
+    expect(getReleaseYear('unknown')).toBeUndefined();
+    expect(getReleaseYear(undefined)).toBeUndefined();
+  });
+
+  test('proposes empty fields only, and records the matched game', async () => {
+    const [result] = await runScrapeJob({
+      games: [{ id: 'metroid', title: 'Metroid (USA).nes', genre: 'Action', description: '' }],
+    });
+    expect(fetchTheGamesDb).toHaveBeenCalledWith('/v1.1/Games/ByGameName', expect.objectContaining({ name: 'Metroid', 'filter[platform]': '7' }));
+    expect(result).toMatchObject({ status: 'matched', source: 'TheGamesDB', searchedBy: 'name', review: 'pending' });
+    expect(result.changes).toEqual({
+      description: 'Samus...',
+      releaseDate: '1987',
+      developer: 'Nintendo R&D1',
+      publisher: 'Nintendo',
+      players: 1,
+      coverImageUrl: 'https://cdn/metroid.jpg',
+      theGamesDbId: 113,
+    });
+  });
+
+  test('overwrites existing fields when asked, but never locked ones', async () => {
+    const [result] = await runScrapeJob({
+      overwrite: true,
+      games: [{ id: 'metroid', title: 'Metroid', genre: 'Action', publisher: 'Mine', lockedFields: ['publisher', 'description'] }],
+    });
+    expect(result.changes).toMatchObject({ genre: 'Platform, Action', genreIds: [1, 2], theGamesDbId: 113 });
+    expect(result.changes).not.toHaveProperty('publisher');
+    expect(result.changes).not.toHaveProperty('description');
+  });
+
+  test('a game that already has everything needs no review', async () => {
+    const [result] = await runScrapeJob({
+      games: [{
+        id: 'metroid',
+        title: 'Metroid',
+        description: 'Mine',
+        genre: 'Action',
+        releaseDate: '1986',
+        developer: 'Mine',
+        publisher: 'Mine',
+        players: 2,
+        coverImageUrl: '/api/art/0123456789abcdef0123',
+        theGamesDbId: 113,
+      }],
+    });
+    expect(result).toMatchObject({ status: 'matched', changes: {}, review: null });
+  });
+
+  test('reports games without a match', async () => {
+    fetchTheGamesDb.mockResolvedValue({ data: { data: { games: [] } } });
+    const [result] = await runScrapeJob({ games: [{ id: 'unknown', title: 'Unknown Game' }] });
+    expect(result).toMatchObject({ gameId: 'unknown', status: 'no_match', review: null });
+  });
+
+  test('falls back to RAWG, proposing every genre with the IDs TheGamesDB has for them', async () => {
+    process.env.RAWG_API_KEY = 'test-key';
+    fetchTheGamesDb.mockResolvedValue({ data: { data: { games: [] } } });
+    searchRawgGames.mockResolvedValue({ games: [{ id: 9, title: 'Metroid', release_date: '1986-08-06', platforms: ['NES'] }] });
+    getRawgGameDetails.mockResolvedValue({
+      overview: 'Samus...', genres: ['Action', 'Adventure'], release_date: '1986-08-06', developers: ['Nintendo'], publishers: ['Nintendo'],
+    });
+
+    const [result] = await runScrapeJob({ games: [{ id: 'metroid', title: 'Metroid' }] });
+    expect(result).toMatchObject({ status: 'matched', source: 'RAWG' });
+    expect(result.changes).toMatchObject({ genre: 'Action, Adventure', genreIds: [2], releaseDate: '1986', rawgId: 9 });
+  });
+});
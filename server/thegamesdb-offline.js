@@ -0,0 +1,254 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { readDataFile, writeDataFile } from './data-store.js';
+import { getCleanTitle, getTitleTokens, rankCandidates } from './title-matcher.js';
+
+// Offline copy of TheGamesDB for machines without internet access. A database export is imported
+// into server/data/thegamesdb_offline/: TheGamesDB's games dump (database-latest.json) and the
+// /v1/Genres, /v1/Developers, /v1/Publishers and /v1/Platforms responses, in any order and each
+// on its own. In offline mode fetchTheGamesDb answers the game, image and lookup operations from
+// this copy, so searches, the game form and scrape jobs work without an API key. Box art URLs
+// still point at TheGamesDB's CDN.
+
+const getStoreDir = () => path.join(process.cwd(), 'server', 'data', 'thegamesdb_offline');
+const getStoreFilePath = (name) => path.join(getStoreDir(), `${name}.json`);
+
+// The platform list thegamesdb.js reads (server/data/thegamesdb_platforms.json)
+const PLATFORMS_DATA_TYPE = 'thegamesdb_platforms';
+
+const LOOKUP_KINDS = ['genres', 'developers', 'publishers'];
+const PAGE_SIZE = 20;
+const MIN_SEARCH_SCORE = 0.5;
+// Offline title suggestions for scanned ROMs only replace the filename's title when this sure
+const MIN_SUGGESTION_SCORE = 0.8;
+const API_BASE_URL = 'https://api.thegamesdb.net';
+
+let storePromise = null; // The loaded and indexed store, shared by concurrent lookups
+
+const readStoreFile = async (name, fallback) => {
+  try {
+    return JSON.parse(await fs.readFile(getStoreFilePath(name), 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return fallback;
+    throw error;
+  }
+};
+
+// Written without indentation: the games file of a full export runs to tens of megabytes
+const writeStoreFile = async (name, data) => {
+  await fs.mkdir(getStoreDir(), { recursive: true });
+  await fs.writeFile(getStoreFilePath(name), JSON.stringify(data), 'utf8');
+};
+
+// Import summary: { importedAt, lastEditId, counts: { games, genres, developers, publishers, platforms } }
+export const getOfflineExportSummary = () => readStoreFile('summary', null);
+
+export const hasOfflineExport = async () => Boolean((await getOfflineExportSummary())?.counts?.games);
+
+/**
+ * Offline mode is on once games have been imported and either THEGAMESDB_OFFLINE is "true" or no
+ * TheGamesDB API key is configured. With a key, the live API is used unless offline mode is forced.
+ */
+export const isOfflineModeActive = async () =>
+  (process.env.THEGAMESDB_OFFLINE === 'true' || !process.env.THEGAMESDB_API_KEY) && hasOfflineExport();
+
+const loadStore = async () => {
+  const [gamesFile, lookups] = await Promise.all([
+    readStoreFile('games', { games: [], boxart: { base_url: {}, data: {} } }),
+    readStoreFile('lookups', {}),
+  ]);
+  const gamesById = new Map();
+  const gameIdsByToken = new Map();
+  for (const game of gamesFile.games) {
+    gamesById.set(game.id, game);
+    for (const token of new Set(getTitleTokens(game.game_title))) {
+      if (!gameIdsByToken.has(token)) gameIdsByToken.set(token, []);
+      gameIdsByToken.get(token).push(game.id);
+    }
+  }
+  return { gamesById, gameIdsByToken, boxart: gamesFile.boxart, lookups };
+};
+
+const getStore = () => {
+  if (!storePromise) {
+    storePromise = loadStore().catch(error => {
+      storePromise = null;
+      throw error;
+    });
+  }
+  return storePromise;
+};
+
+// Games sharing a word with the title and matching it well enough, best first
+const searchGames = (store, name, platformIds) => {
+  const candidateIds = new Set(getTitleTokens(name).flatMap(token => store.gameIdsByToken.get(token) || []));
+  const candidates = [...candidateIds]
+    .map(id => store.gamesById.get(id))
+    .filter(game => platformIds.length === 0 || platformIds.includes(String(game.platform)));
+  return rankCandidates(name, candidates, game => game.game_title)
+    .filter(({ score }) => score >= MIN_SEARCH_SCORE)
+    .map(({ candidate }) => candidate);
+};
+
+const getPageUrl = (operationPath, page) => `${API_BASE_URL}${operationPath}?page=${page}`;
+
+// A games response as TheGamesDB would send it, with boxart and platform includes
+const toGamesResponse = async (store, operationPath, games, page, hasNextPage) => {
+  const platforms = (await readDataFile(PLATFORMS_DATA_TYPE, { platforms: [] })).platforms || [];
+  const platformIds = new Set(games.map(game => String(game.platform)));
+  return {
+    code: 200,
+    status: 'Success',
+    data: { count: games.length, games },
+    include: {
+      boxart: {
+        base_url: store.boxart.base_url,
+        data: Object.fromEntries(games.filter(game => store.boxart.data[game.id]).map(game => [game.id, store.boxart.data[game.id]])),
+      },
+      platform: {
+        data: Object.fromEntries(platforms.filter(platform => platformIds.has(String(platform.id))).map(platform => [platform.id, platform])),
+      },
+    },
+    pages: {
+      previous: page > 1 ? getPageUrl(operationPath, page - 1) : null,
+      current: getPageUrl(operationPath, page),
+      next: hasNextPage ? getPageUrl(operationPath, page + 1) : null,
+    },
+  };
+};
+
+const getListParam = (value) => (value === undefined ? '' : String(value)).split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Answers a TheGamesDB API operation from the offline copy, in the shape the API would. Returns
+ * null for operations the copy can't answer (platform images, update feeds). Only box art is
+ * available among game images.
+ */
+export const answerFromOfflineExport = async (operationPath, params = {}) => {
+  const store = await getStore();
+  const operation = operationPath.replace(/^\/v1(\.1)?/, '');
+  const page = Math.max(1, parseInt(params.page || '1', 10) || 1);
+
+  switch (operation) {
+    case '/Games/ByGameName': {
+      const matches = searchGames(store, String(params.name || ''), getListParam(params['filter[platform]']));
+      const start = (page - 1) * PAGE_SIZE;
+      return toGamesResponse(store, operationPath, matches.slice(start, start + PAGE_SIZE), page, start + PAGE_SIZE < matches.length);
+    }
+    case '/Games/ByGameID': {
+      const games = getListParam(params.id).map(id => store.gamesById.get(Number(id))).filter(Boolean);
+      return toGamesResponse(store, operationPath, games, 1, false);
+    }
+    case '/Games/Images': {
+      const types = getListParam(params['filter[type]']);
+      const gameIds = getListParam(params.games_id);
+      const images = types.length === 0 || types.includes('boxart')
+        ? Object.fromEntries(gameIds.filter(id => store.boxart.data[id]).map(id => [id, store.boxart.data[id]]))
+        : {};
+      return {
+        code: 200,
+        status: 'Success',
+        data: { count: Object.values(images).flat().length, base_url: store.boxart.base_url, images },
+        pages: { previous: null, current: getPageUrl(operationPath, 1), next: null },
+      };
+    }
+    case '/Genres':
+    case '/Developers':
+    case '/Publishers': {
+      const kind = operation.substring(1).toLowerCase();
+      const entries = store.lookups[kind] || {};
+      return { code: 200, status: 'Success', data: { count: Object.keys(entries).length, [kind]: entries } };
+    }
+    default:
+      return null;
+  }
+};
+
+// API responses key lookups by ID; arrays of { id, name } are accepted too
+const toLookupEntries = (items) => Object.fromEntries(
+  (Array.isArray(items) ? items : Object.values(items || {}))
+    .filter(item => item && item.id !== undefined && item.name)
+    .map(item => [item.id, { id: Number(item.id), name: item.name }]),
+);
+
+/**
+ * Imports one file of a TheGamesDB database export, recognized by its contents: the games dump
+ * (`data.games`, with box art under `include.boxart`) or a /v1/Genres, /v1/Developers,
+ * /v1/Publishers or /v1/Platforms response. Games replace the previously imported ones; lookup
+ * tables replace their own kind; platforms are merged into server/data/thegamesdb_platforms.json.
+ *
+ * Returns { imported: ["games", …], summary }. Throws an error with code
+ * THEGAMESDB_EXPORT_INVALID if the document contains none of these.
+ */
+export const importOfflineExport = async (document) => {
+  const data = document?.data;
+  const imported = [];
+  const summary = (await getOfflineExportSummary()) || { counts: {} };
+
+  if (Array.isArray(data?.games)) {
+    const boxart = document.include?.boxart || {};
+    await writeStoreFile('games', {
+      games: data.games.filter(game => game && game.id !== undefined && game.game_title),
+      boxart: { base_url: boxart.base_url || {}, data: boxart.data || {} },
+    });
+    summary.counts.games = data.games.length;
+    summary.lastEditId = document.last_edit_id ?? summary.lastEditId ?? null;
+    imported.push('games');
+  }
+
+  const lookupKinds = LOOKUP_KINDS.filter(kind => data?.[kind] && typeof data[kind] === 'object');
+  if (lookupKinds.length > 0) {
+    const lookups = await readStoreFile('lookups', {});
+    for (const kind of lookupKinds) {
+      lookups[kind] = toLookupEntries(data[kind]);
+      summary.counts[kind] = Object.keys(lookups[kind]).length;
+      imported.push(kind);
+    }
+    await writeStoreFile('lookups', lookups);
+  }
+
+  if (data?.platforms && typeof data.platforms === 'object') {
+    const stored = await readDataFile(PLATFORMS_DATA_TYPE, { platforms: [] });
+    const platformsById = new Map((stored.platforms || []).map(platform => [String(platform.id), platform]));
+    for (const platform of Array.isArray(data.platforms) ? data.platforms : Object.values(data.platforms)) {
+      if (platform?.id !== undefined && platform.name) {
+        platformsById.set(String(platform.id), { ...platformsById.get(String(platform.id)), ...platform });
+      }
+    }
+    await writeDataFile(PLATFORMS_DATA_TYPE, { ...stored, platforms: [...platformsById.values()] });
+    summary.counts.platforms = platformsById.size;
+    imported.push('platforms');
+  }
+
+  if (imported.length === 0) {
+    const error = new Error('Not a TheGamesDB database export: expected a games dump or a Genres, Developers, Publishers or Platforms response.');
+    error.code = 'THEGAMESDB_EXPORT_INVALID';
+    throw error;
+  }
+
+  summary.importedAt = new Date().toISOString();
+  await writeStoreFile('summary', summary);
+  storePromise = null;
+  return { imported, summary };
+};
+
+// Removes the imported games and lookup tables. Platforms stay in thegamesdb_platforms.json.
+export const deleteOfflineExport = async () => {
+  await fs.rm(getStoreDir(), { recursive: true, force: true });
+  storePromise = null;
+};
+
+/**
+ * Title suggestions for scanned ROM names from the offline copy, for when there is no AI service
+ * to ask: the best-matching game on the platform, or the cleaned-up filename when nothing matches
+ * well. Returns [{ original_name, suggested_title }].
+ */
+export const suggestTitlesFromOfflineExport = async (romNames, platformId) => {
+  const store = await getStore();
+  const platformIds = platformId ? [String(platformId)] : [];
+  return romNames.map(romName => {
+    const title = getCleanTitle(romName) || romName;
+    const [best] = rankCandidates(title, searchGames(store, title, platformIds), game => game.game_title);
+    return { original_name: romName, suggested_title: best && best.score >= MIN_SUGGESTION_SCORE ? best.candidate.game_title : title };
+  });
+};
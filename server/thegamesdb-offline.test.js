@@ -0,0 +1,163 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import request from 'supertest';
+import { app } from './proxy-server.js';
+import {
+  importOfflineExport, answerFromOfflineExport, getOfflineExportSummary, hasOfflineExport, isOfflineModeActive, suggestTitlesFromOfflineExport,
+} from './thegamesdb-offline.js';
+
+const GAMES_DUMP = {
+  last_edit_id: 500,
+  data: {
+    count: 4,
+    games: [
+      { id: 1, game_title: 'The Legend of Zelda', platform: 7, release_date: '1986-02-21', genres: [1] },
+      { id: 2, game_title: 'Zelda II: The Adventure of Link', platform: 7, genres: [1, 2] },
+      { id: 3, game_title: 'The Legend of Zelda: A Link to the Past', platform: 6, genres: [1] },
+      { id: 4, game_title: 'Super Mario Bros.', platform: 7, genres: [3] },
+    ],
+  },
+  include: {
+    boxart: {
+      base_url: { original: 'https://cdn.thegamesdb.net/images/original/' },
+      data: {
+        1: [{ id: 10, type: 'boxart', side: 'front', filename: 'boxart/front/1-1.jpg' }],
+        4: [{ id: 40, type: 'boxart', side: 'front', filename: 'boxart/front/4-1.jpg' }],
+      },
+    },
+  },
+};
+
+const GENRES_RESPONSE = {
+  code: 200,
+  data: { count: 3, genres: { 1: { id: 1, name: 'Action' }, 2: { id: 2, name: 'Adventure' }, 3: { id: 3, name: 'Platform' } } },
+};
+
+const PLATFORMS_RESPONSE = {
+  code: 200,
+  data: { count: 2, platforms: { 6: { id: 6, name: 'Super Nintendo (SNES)' }, 7: { id: 7, name: 'Nintendo Entertainment System (NES)' } } },
+};
+
+describe('TheGamesDB offline export', () => {
+  let originalCwd;
+  let originalEnv;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    originalEnv = { ...process.env };
+    process.chdir(await fs.mkdtemp(path.join(os.tmpdir(), 'thegamesdb-offline-test-')));
+    delete process.env.THEGAMESDB_API_KEY;
+    delete process.env.THEGAMESDB_OFFLINE;
+    await importOfflineExport(GAMES_DUMP);
+    await importOfflineExport(GENRES_RESPONSE);
+    await importOfflineExport(PLATFORMS_RESPONSE);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    process.chdir(originalCwd);
+  });
+
+  test('imports each file of the export into the store and summary', async () => {
+    expect(await getOfflineExportSummary()).toMatchObject({
+      lastEditId: 500,
+      counts: { games: 4, genres: 3, platforms: 2 },
+    });
+    expect(await hasOfflineExport()).toBe(true);
+    expect(await isOfflineModeActive()).toBe(true);
+
+    process.env.THEGAMESDB_API_KEY = 'test-key';
+    expect(await isOfflineModeActive()).toBe(false);
+    process.env.THEGAMESDB_OFFLINE = 'true';
+    expect(await isOfflineModeActive()).toBe(true);
+
+    const platforms = JSON.parse(await fs.readFile(path.join('server', 'data', 'thegamesdb_platforms.json'), 'utf8'));
+    expect(platforms.platforms.map(platform => platform.id).sort()).toEqual([6, 7]);
+  });
+
+  test('searches games by name, optionally on given platforms', async () => {
+    const all = await answerFromOfflineExport('/v1.1/Games/ByGameName', { name: 'Legend of Zelda' });
+    expect(all.data.games[0].id).toBe(1);
+    expect(all.data.games.map(game => game.id)).not.toContain(4);
+    expect(all.pages).toEqual({
+      previous: null,
+      current: 'https://api.thegamesdb.net/v1.1/Games/ByGameName?page=1',
+      next: null,
+    });
+
+    const onSnes = await answerFromOfflineExport('/v1.1/Games/ByGameName', { name: 'Zelda: A Link to the Past', 'filter[platform]': '6' });
+    expect(onSnes.data.games.map(game => game.id)).toEqual([3]);
+    expect(onSnes.include.platform.data).toEqual({ 6: { id: 6, name: 'Super Nintendo (SNES)' } });
+    const onNes = await answerFromOfflineExport('/v1.1/Games/ByGameName', { name: 'Zelda: A Link to the Past', 'filter[platform]': '7' });
+    expect(onNes.data.games.map(game => game.id)).not.toContain(3);
+
+    const none = await answerFromOfflineExport('/v1.1/Games/ByGameName', { name: 'Sonic the Hedgehog' });
+    expect(none.data).toEqual({ count: 0, games: [] });
+  });
+
+  test('answers /Games/ByGameID with the games and their box art', async () => {
+    const response = await answerFromOfflineExport('/v1/Games/ByGameID', { id: '4,1,999' });
+    expect(response.code).toBe(200);
+    expect(response.data.games.map(game => game.game_title)).toEqual(['Super Mario Bros.', 'The Legend of Zelda']);
+    expect(response.include.boxart).toEqual({
+      base_url: GAMES_DUMP.include.boxart.base_url,
+      data: { 1: GAMES_DUMP.include.boxart.data[1], 4: GAMES_DUMP.include.boxart.data[4] },
+    });
+  });
+
+  test('answers /Games/Images in the shape of the API, with box art only', async () => {
+    expect(await answerFromOfflineExport('/v1/Games/Images', { games_id: '1,2', 'filter[type]': 'boxart,fanart' })).toEqual({
+      code: 200,
+      status: 'Success',
+      data: {
+        count: 1,
+        base_url: GAMES_DUMP.include.boxart.base_url,
+        images: { 1: GAMES_DUMP.include.boxart.data[1] },
+      },
+      pages: { previous: null, current: 'https://api.thegamesdb.net/v1/Games/Images?page=1', next: null },
+    });
+
+    const fanart = await answerFromOfflineExport('/v1/Games/Images', { games_id: '1', 'filter[type]': 'fanart' });
+    expect(fanart.data).toMatchObject({ count: 0, images: {} });
+  });
+
+  test('answers lookups, and returns null for operations it has no data for', async () => {
+    const genres = await answerFromOfflineExport('/v1/Genres');
+    expect(genres.data.count).toBe(3);
+    expect(genres.data.genres[2]).toEqual({ id: 2, name: 'Adventure' });
+    expect((await answerFromOfflineExport('/v1/Developers')).data).toEqual({ count: 0, developers: {} });
+    expect(await answerFromOfflineExport('/v1/Platforms/Images', { platforms_id: '7' })).toBeNull();
+  });
+
+  test('suggests titles for ROM names from the best match on the platform', async () => {
+    expect(await suggestTitlesFromOfflineExport(['Legend of Zelda, The (USA).nes', 'Unknown Homebrew (PD).nes'], 7)).toEqual([
+      { original_name: 'Legend of Zelda, The (USA).nes', suggested_title: 'The Legend of Zelda' },
+      { original_name: 'Unknown Homebrew (PD).nes', suggested_title: 'Unknown Homebrew' },
+    ]);
+  });
+
+  test('rejects a document that is not part of an export, leaving the store as it was', async () => {
+    for (const document of [null, {}, { data: { count: 0 } }, { data: { games: 'not a list' } }]) {
+      await expect(importOfflineExport(document)).rejects.toMatchObject({ code: 'THEGAMESDB_EXPORT_INVALID' });
+    }
+    expect((await getOfflineExportSummary()).counts.games).toBe(4);
+  });
+
+  test('refuses malformed files sent to the import route', async () => {
+    const notJson = await request(app).post('/api/thegamesdb/offline/import').set('Content-Type', 'text/plain').send('{ "data": ');
+    expect(notJson.status).toBe(400);
+    expect(notJson.body.error).toMatch(/^Invalid export file:/);
+
+    const notAnExport = await request(app).post('/api/thegamesdb/offline/import').set('Content-Type', 'text/plain').send('{"data":{}}');
+    expect(notAnExport.status).toBe(400);
+    expect(notAnExport.body.error).toMatch(/Not a TheGamesDB database export/);
+
+    const empty = await request(app).post('/api/thegamesdb/offline/import').set('Content-Type', 'text/plain').send('');
+    expect(empty.status).toBe(400);
+
+    const imported = await request(app).post('/api/thegamesdb/offline/import').set('Content-Type', 'text/plain').send(JSON.stringify(GENRES_RESPONSE));
+    expect(imported.status).toBe(200);
+    expect(imported.body).toMatchObject({ imported: ['genres'], active: true });
+  });
+});
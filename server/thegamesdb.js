@@ -0,0 +1,313 @@
+import axios from 'axios';
+import { readDataFile, writeDataFile } from './data-store.js';
+import { readCachedResponse, writeCachedResponse, countCachedResponses, clearCachedResponses } from './response-cache.js';
+import { isOfflineModeActive, answerFromOfflineExport } from './thegamesdb-offline.js';
+
+const THEGAMESDB_BASE_URL = 'https://api.thegamesdb.net';
+
+export const THEGAMESDB_PLATFORMS_DATA_TYPE = 'thegamesdb_platforms';
+export const THEGAMESDB_ALLOWANCE_DATA_TYPE = 'thegamesdbAllowance';
+const CACHE_NAMESPACE = 'thegamesdb';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long responses stay fresh, by operation; the first matching pattern wins. Platform data
+// rarely changes, searches go stale sooner, and update feeds are never cached.
+const CACHE_TTLS_MS = [
+  [/^\/v1(\.1)?\/Games\/Updates/, 0],
+  [/^\/v1\/Platforms\/Images/, 7 * DAY_MS],
+  [/^\/v1\/Platforms/, 30 * DAY_MS],
+  [/^\/v1\/(Genres|Developers|Publishers)/, 30 * DAY_MS],
+  [/^\/v1\/Games\/Images/, 7 * DAY_MS],
+];
+const DEFAULT_CACHE_TTL_MS = DAY_MS;
+
+// When TheGamesDB doesn't say when the allowance refreshes, wait this long before trying again
+const EXHAUSTED_RETRY_MS = HOUR_MS;
+
+const getCacheTtl = (operationPath) => {
+  const match = CACHE_TTLS_MS.find(([pattern]) => pattern.test(operationPath));
+  return match ? match[1] : DEFAULT_CACHE_TTL_MS;
+};
+
+// The API key is left out so a changed key doesn't throw the cache away
+const getCacheKey = (operationPath, params) => {
+  const query = Object.keys(params).sort().map(name => `${name}=${params[name]}`).join('&');
+  return `${operationPath}?${query}`;
+};
+
+// The recorded allowance, or null when it's unknown. An unreadable or invalid file counts as
+// unknown rather than failing every request until it is deleted.
+export const getAllowance = async () => {
+  let allowance;
+  try {
+    allowance = await readDataFile(THEGAMESDB_ALLOWANCE_DATA_TYPE, null);
+  } catch (error) {
+    console.warn(`Ignoring unreadable TheGamesDB allowance: ${error.message}`);
+    return null;
+  }
+  const isValid = typeof allowance?.remainingMonthlyAllowance === 'number' && typeof allowance.extraAllowance === 'number';
+  return isValid ? allowance : null;
+};
+
+// Serializes writes so concurrent responses can't interleave and leave a truncated file
+let allowanceWriteQueue = Promise.resolve();
+
+// Every TheGamesDB response reports the key's remaining allowance; keep the latest figures
+const recordAllowance = (responseData) => {
+  if (typeof responseData?.remaining_monthly_allowance !== 'number') return allowanceWriteQueue;
+  const refreshSeconds = responseData.allowance_refresh_timer;
+  const allowance = {
+    remainingMonthlyAllowance: responseData.remaining_monthly_allowance,
+    extraAllowance: responseData.extra_allowance || 0,
+    refreshesAt: typeof refreshSeconds === 'number' ? new Date(Date.now() + refreshSeconds * 1000).toISOString() : null,
+    updatedAt: new Date().toISOString(),
+  };
+  allowanceWriteQueue = allowanceWriteQueue
+    .then(() => writeDataFile(THEGAMESDB_ALLOWANCE_DATA_TYPE, allowance))
+    .catch(error => console.warn(`Could not record TheGamesDB allowance: ${error.message}`));
+  return allowanceWriteQueue;
+};
+
+const isAllowanceExhausted = (allowance) => {
+  if (!allowance || allowance.remainingMonthlyAllowance + allowance.extraAllowance > 0) return false;
+  const retryAt = allowance.refreshesAt ? Date.parse(allowance.refreshesAt) : Date.parse(allowance.updatedAt) + EXHAUSTED_RETRY_MS;
+  return retryAt > Date.now();
+};
+
+export const getCacheSummary = async () => ({ cachedResponses: await countCachedResponses(CACHE_NAMESPACE) });
+
+export const clearTheGamesDbCache = () => clearCachedResponses(CACHE_NAMESPACE);
+
+/**
+ * Calls a TheGamesDB API operation (e.g. "/v1.1/Games/ByGameName") with the server's API key.
+ * Responses are cached on disk (see CACHE_TTLS_MS) and fresh cache entries are returned without
+ * calling the API. Expired entries are still returned, marked stale, when the monthly allowance
+ * is used up or TheGamesDB refuses or can't be reached. In offline mode (see thegamesdb-offline.js)
+ * uncached requests are answered from the imported database export instead, marked `offline`.
+ *
+ * `refresh` skips a fresh cache entry, for callers that need TheGamesDB's current data; the new
+ * response still replaces it.
+ *
+ * Returns { data, fromCache, stale, cachedAt, offline? }. Axios errors are left for the caller to map to a status code.
+ */
+export const fetchTheGamesDb = async (operationPath, params = {}, { refresh = false } = {}) => {
+  const cacheKey = getCacheKey(operationPath, params);
+  const ttlMs = getCacheTtl(operationPath);
+  const cached = ttlMs > 0 ? await readCachedResponse(CACHE_NAMESPACE, cacheKey) : null;
+  if (cached && !cached.isExpired && !refresh) {
+    return { data: cached.data, fromCache: true, stale: false, cachedAt: cached.cachedAt };
+  }
+
+  const serveStale = (reason) => {
+    console.warn(`Serving stale TheGamesDB response for ${operationPath} (${reason}).`);
+    return { data: cached.data, fromCache: true, stale: true, cachedAt: cached.cachedAt };
+  };
+
+  // Offline mode answers from the imported database export and never calls the API
+  if (await isOfflineModeActive()) {
+    const data = await answerFromOfflineExport(operationPath, params);
+    if (data) return { data, fromCache: false, stale: false, cachedAt: null, offline: true };
+    if (cached) return serveStale('offline mode');
+    const error = new Error(`TheGamesDB offline mode can't answer ${operationPath}, and this request has not been cached before.`);
+    error.code = 'THEGAMESDB_OFFLINE_UNSUPPORTED';
+    throw error;
+  }
+
+  if (isAllowanceExhausted(await getAllowance())) {
+    if (cached) return serveStale('monthly allowance used up');
+    const error = new Error('TheGamesDB monthly allowance is used up, and this request has not been cached before.');
+    error.code = 'THEGAMESDB_ALLOWANCE_EXHAUSTED';
+    throw error;
+  }
+
+  const apiKey = process.env.THEGAMESDB_API_KEY;
+  if (!apiKey) {
+    if (cached) return serveStale('no API key configured');
+    const error = new Error('Application error: TheGamesDB API key is not configured.');
+    error.code = 'THEGAMESDB_API_KEY_MISSING';
+    throw error;
+  }
+
+  let data;
+  try {
+    const response = await axios.get(`${THEGAMESDB_BASE_URL}${operationPath}`, {
+      params: { apikey: apiKey, ...params },
+      timeout: parseInt(process.env.EXTERNAL_API_TIMEOUT || '10000', 10), // Default 10 seconds
+    });
+    data = response.data;
+  } catch (error) {
+    await recordAllowance(error.response?.data);
+    // TheGamesDB answers 403 once the allowance is used up; 429 is rate limiting
+    if (cached && axios.isAxiosError(error) && (!error.response || [403, 429].includes(error.response.status))) {
+      return serveStale(error.response ? `HTTP ${error.response.status}` : error.message);
+    }
+    throw error;
+  }
+
+  await recordAllowance(data);
+  if (ttlMs > 0) {
+    try {
+      await writeCachedResponse(CACHE_NAMESPACE, cacheKey, data, ttlMs);
+    } catch (error) {
+      console.warn(`Could not cache TheGamesDB response for ${operationPath}: ${error.message}`);
+    }
+  }
+  return { data, fromCache: false, stale: false, cachedAt: null };
+};
+
+// TheGamesDB's page links embed the API key, so only the page numbers are passed on to the client
+const getPageNumber = (pageUrl) => {
+  if (!pageUrl) return null;
+  try {
+    const page = parseInt(new URL(pageUrl).searchParams.get('page') || '1', 10);
+    return Number.isNaN(page) ? null : page;
+  } catch {
+    return null;
+  }
+};
+
+export const transformPages = (pages) => ({
+  current: getPageNumber(pages?.current) || 1,
+  previous: getPageNumber(pages?.previous),
+  next: getPageNumber(pages?.next),
+});
+
+// Latest known remaining allowance (monthly plus extra), or null before the first API call
+export const getRemainingAllowance = async () => {
+  const allowance = await getAllowance();
+  return allowance ? allowance.remainingMonthlyAllowance + allowance.extraAllowance : null;
+};
+
+// TheGamesDB's lookup tables by kind; game responses only carry the IDs of their entries
+const LOOKUP_OPERATIONS = {
+  genres: '/v1/Genres',
+  developers: '/v1/Developers',
+  publishers: '/v1/Publishers',
+};
+
+export const THEGAMESDB_LOOKUP_KINDS = Object.keys(LOOKUP_OPERATIONS);
+
+/**
+ * One of TheGamesDB's lookup tables ("genres", "developers" or "publishers"), through the response
+ * cache. Returns { entries: [{ id, name }] sorted by name, fromCache, stale }.
+ */
+export const getLookupTable = async (kind) => {
+  const { data, fromCache, stale } = await fetchTheGamesDb(LOOKUP_OPERATIONS[kind]);
+  const entries = Object.values(data?.data?.[kind] || {})
+    .filter(entry => entry?.name)
+    .map(entry => ({ id: Number(entry.id), name: entry.name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return { entries, fromCache, stale };
+};
+
+// Entry names by ID, for resolving the IDs in game responses
+export const getLookupNames = async (kind) => new Map((await getLookupTable(kind)).entries.map(entry => [entry.id, entry.name]));
+
+/**
+ * A game's genre fields from the genre IDs of a TheGamesDB game: `genre` is every known name joined
+ * with ", " and `genreIds` their IDs, or both are undefined when none of the IDs has a name. Scrape
+ * jobs and metadata refreshes both use this, so they agree on a game's genre.
+ */
+export const getGenreFields = (ids, genreNames) => {
+  const genreIds = (ids || []).map(Number).filter(id => genreNames.has(id));
+  return genreIds.length > 0
+    ? { genre: genreIds.map(id => genreNames.get(id)).join(', '), genreIds }
+    : { genre: undefined, genreIds: undefined };
+};
+
+// The TheGamesDB IDs of genres named by another source (RAWG), matched by name without regard to
+// case as the game form does; undefined when none match
+export const getGenreIdsByName = (names, genreNames) => {
+  const lowerCaseNames = (names || []).map(name => name.toLowerCase());
+  const genreIds = [...genreNames].filter(([, name]) => lowerCaseNames.includes(name.toLowerCase())).map(([id]) => id);
+  return genreIds.length > 0 ? genreIds : undefined;
+};
+
+// Front boxart if there is one, otherwise whatever boxart the game has
+const getBoxartUrl = (boxart, gameId) => {
+  const images = boxart?.data?.[gameId];
+  if (!Array.isArray(images) || images.length === 0) return undefined;
+  const image = images.find(img => img.side === 'front') || images[0];
+  const baseUrl = boxart.base_url?.original || '';
+  return image.filename ? `${baseUrl}${image.filename}` : undefined;
+};
+
+/**
+ * Flattens a TheGamesDB games response into the shape the client uses: boxart_url from the
+ * `include.boxart` block, and source_platform_details from the cached platform list
+ * (server/data/thegamesdb_platforms.json), falling back to `include.platform` for platforms
+ * missing from the cache.
+ */
+export const transformGamesResponse = async (responseData) => {
+  const cachedPlatforms = (await readDataFile(THEGAMESDB_PLATFORMS_DATA_TYPE, { platforms: [] })).platforms || [];
+  const platformsById = new Map(cachedPlatforms.map(platform => [Number(platform.id), platform]));
+  const includedPlatforms = responseData?.include?.platform?.data || {};
+  const games = responseData?.data?.games || [];
+
+  return games.map(game => {
+    const platform = platformsById.get(Number(game.platform)) || includedPlatforms[game.platform];
+    return {
+      id: game.id,
+      title: game.game_title,
+      release_date: game.release_date || undefined,
+      platform_id: game.platform,
+      source_platform_details: platform ? { id: Number(platform.id), name: platform.name, alias: platform.alias || '' } : undefined,
+      overview: game.overview || undefined,
+      boxart_url: getBoxartUrl(responseData?.include?.boxart, game.id),
+    };
+  });
+};
+
+// TheGamesDB image types as the client's art types; box art is split by side
+const getArtType = (image) => {
+  if (image.type === 'boxart') return image.side === 'back' ? 'boxart_back' : 'boxart_front';
+  return image.type;
+};
+
+/**
+ * Flattens a /v1/Games/Images response for one game into
+ * [{ id, artType, resolution, url, thumbnailUrl }], with full URLs built from the response's base_url.
+ */
+export const transformGameImagesResponse = (responseData, gameId) => {
+  const baseUrl = responseData?.data?.base_url || {};
+  const images = responseData?.data?.images?.[gameId] || [];
+  return images.filter(image => image.filename).map(image => ({
+    id: image.id,
+    artType: getArtType(image),
+    resolution: image.resolution || undefined,
+    url: `${baseUrl.original || ''}${image.filename}`,
+    thumbnailUrl: `${baseUrl.thumb || baseUrl.small || baseUrl.original || ''}${image.filename}`,
+  }));
+};
+
+/**
+ * Maps an error from fetchTheGamesDb to an HTTP status and error body, in the same form the
+ * other TheGamesDB routes use.
+ */
+export const getTheGamesDbErrorResponse = (error) => {
+  if (error.code === 'THEGAMESDB_API_KEY_MISSING') {
+    return { status: 500, body: { error: error.message } };
+  }
+  if (error.code === 'THEGAMESDB_ALLOWANCE_EXHAUSTED') {
+    return { status: 429, body: { error: error.message } };
+  }
+  if (error.code === 'THEGAMESDB_OFFLINE_UNSUPPORTED') {
+    return { status: 503, body: { error: error.message } };
+  }
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      // TheGamesDB API responded with an error status (4xx or 5xx)
+      return {
+        status: error.response.status,
+        body: { error: `Error from TheGamesDB API: ${error.response.data?.message || error.message}`, details: error.response.data },
+      };
+    }
+    if (error.code === 'ECONNABORTED') {
+      return { status: 504, body: { error: 'Gateway Timeout: No response from TheGamesDB API.' } };
+    }
+    return { status: 502, body: { error: `Bad Gateway: Could not connect to TheGamesDB API. ${error.message}` } };
+  }
+  return null;
+};
@@ -0,0 +1,171 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import {
+  transformGamesResponse, transformPages, transformGameImagesResponse, fetchTheGamesDb, getAllowance, getGenreFields, getGenreIdsByName,
+} from './thegamesdb.js';
+
+const GAMES_RESPONSE = {
+  data: {
+    games: [
+      { id: 113, game_title: 'The Legend of Zelda', release_date: '1987-08-22', platform: 7, overview: 'Link...' },
+      { id: 114, game_title: 'Zelda II', release_date: null, platform: 99, overview: '' },
+    ],
+  },
+  include: {
+    boxart: {
+      base_url: { original: 'https://cdn.thegamesdb.net/images/original/' },
+      data: {
+        113: [
+          { id: 1, side: 'back', filename: 'boxart/back/113-1.jpg' },
+          { id: 2, side: 'front', filename: 'boxart/front/113-1.jpg' },
+        ],
+      },
+    },
+    platform: { data: { 99: { id: 99, name: 'Included Platform' } } },
+  },
+};
+
+describe('TheGamesDB responses', () => {
+  let originalCwd;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    process.chdir(await fs.mkdtemp(path.join(os.tmpdir(), 'thegamesdb-test-')));
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+  });
+
+  test('flattens games with front box art and platform details', async () => {
+    // The cached platform list wins over the response's own platform block
+    await fs.mkdir(path.join('server', 'data'), { recursive: true });
+    await fs.writeFile(path.join('server', 'data', 'thegamesdb_platforms.json'),
+      JSON.stringify({ platforms: [{ id: 7, name: 'Nintendo Entertainment System (NES)', alias: 'nes' }] }));
+
+    expect(await transformGamesResponse(GAMES_RESPONSE)).toEqual([
+      {
+        id: 113,
+        title: 'The Legend of Zelda',
+        release_date: '1987-08-22',
+        platform_id: 7,
+        source_platform_details: { id: 7, name: 'Nintendo Entertainment System (NES)', alias: 'nes' },
+        overview: 'Link...',
+        boxart_url: 'https://cdn.thegamesdb.net/images/original/boxart/front/113-1.jpg',
+      },
+      {
+        id: 114,
+        title: 'Zelda II',
+        release_date: undefined,
+        platform_id: 99,
+        source_platform_details: { id: 99, name: 'Included Platform', alias: '' },
+        overview: undefined,
+        boxart_url: undefined,
+      },
+    ]);
+  });
+
+  test('handles empty responses', async () => {
+    expect(await transformGamesResponse(undefined)).toEqual([]);
+    expect(await transformGamesResponse({ data: { games: [] } })).toEqual([]);
+  });
+
+  test('reads page numbers from the page URLs', () => {
+    expect(transformPages({
+      current: 'https://api.thegamesdb.net/v1.1/Games/ByGameName?name=zelda&page=2',
+      previous: 'https://api.thegamesdb.net/v1.1/Games/ByGameName?name=zelda',
+      next: 'https://api.thegamesdb.net/v1.1/Games/ByGameName?name=zelda&page=3',
+    })).toEqual({ current: 2, previous: 1, next: 3 });
+    expect(transformPages({ current: 'not a url', previous: null })).toEqual({ current: 1, previous: null, next: null });
+    expect(transformPages(undefined)).toEqual({ current: 1, previous: null, next: null });
+  });
+});
+
+describe('TheGamesDB game images', () => {
+  test('names each image by art type and builds full and thumbnail URLs', () => {
+    const response = {
+      data: {
+        base_url: { original: 'https://cdn/original/', thumb: 'https://cdn/thumb/' },
+        images: {
+          113: [
+            { id: 1, type: 'boxart', side: 'front', filename: 'boxart/front/113-1.jpg' },
+            { id: 2, type: 'boxart', side: 'back', filename: 'boxart/back/113-1.jpg' },
+            { id: 3, type: 'fanart', resolution: '1920x1080', filename: 'fanart/113-1.jpg' },
+            { id: 4, type: 'clearlogo', filename: null },
+          ],
+        },
+      },
+    };
+    expect(transformGameImagesResponse(response, 113)).toEqual([
+      { id: 1, artType: 'boxart_front', resolution: undefined, url: 'https://cdn/original/boxart/front/113-1.jpg', thumbnailUrl: 'https://cdn/thumb/boxart/front/113-1.jpg' },
+      { id: 2, artType: 'boxart_back', resolution: undefined, url: 'https://cdn/original/boxart/back/113-1.jpg', thumbnailUrl: 'https://cdn/thumb/boxart/back/113-1.jpg' },
+      { id: 3, artType: 'fanart', resolution: '1920x1080', url: 'https://cdn/original/fanart/113-1.jpg', thumbnailUrl: 'https://cdn/thumb/fanart/113-1.jpg' },
+    ]);
+  });
+
+  test('falls back to the full-size URL and handles games without images', () => {
+    const response = { data: { base_url: { original: 'https://cdn/original/' }, images: { 5: [{ id: 9, type: 'banner', filename: 'banner.png' }] } } };
+    expect(transformGameImagesResponse(response, 5)[0].thumbnailUrl).toBe('https://cdn/original/banner.png');
+    expect(transformGameImagesResponse(response, 6)).toEqual([]);
+    expect(transformGameImagesResponse(undefined, 5)).toEqual([]);
+  });
+});
+
+describe('TheGamesDB genres', () => {
+  const genreNames = new Map([[1, 'Action'], [2, 'Platform'], [3, 'Shooter']]);
+
+  test('getGenreFields joins every known genre name and keeps their IDs', () => {
+    expect(getGenreFields(['2', 3, 99], genreNames)).toEqual({ genre: 'Platform, Shooter', genreIds: [2, 3] });
+    expect(getGenreFields([99], genreNames)).toEqual({ genre: undefined, genreIds: undefined });
+    expect(getGenreFields(undefined, genreNames)).toEqual({ genre: undefined, genreIds: undefined });
+  });
+
+  test('getGenreIdsByName matches names without regard to case', () => {
+    expect(getGenreIdsByName(['shooter', 'Action', 'Adventure'], genreNames)).toEqual([1, 3]);
+    expect(getGenreIdsByName(['Adventure'], genreNames)).toBeUndefined();
+  });
+});
+
+describe('TheGamesDB allowance', () => {
+  let originalCwd;
+  let originalApiKey;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    process.chdir(await fs.mkdtemp(path.join(os.tmpdir(), 'thegamesdb-test-')));
+    await fs.mkdir(path.join('server', 'data'), { recursive: true });
+    originalApiKey = process.env.THEGAMESDB_API_KEY;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (originalApiKey === undefined) delete process.env.THEGAMESDB_API_KEY;
+    else process.env.THEGAMESDB_API_KEY = originalApiKey;
+    process.chdir(originalCwd);
+  });
+
+  test('treats an unreadable or invalid allowance file as unknown', async () => {
+    delete process.env.THEGAMESDB_API_KEY;
+    const allowancePath = path.join('server', 'data', 'thegamesdbAllowance.json');
+    await fs.writeFile(allowancePath, '{"remainingMonthlyAllowance": 12');
+    expect(await getAllowance()).toBeNull();
+    // The request goes ahead, and fails only for the missing key
+    await expect(fetchTheGamesDb('/v1/Genres')).rejects.toMatchObject({ code: 'THEGAMESDB_API_KEY_MISSING' });
+
+    await fs.writeFile(allowancePath, JSON.stringify({ remainingMonthlyAllowance: 'lots' }));
+    expect(await getAllowance()).toBeNull();
+  });
+
+  test('concurrent responses leave a complete allowance file', async () => {
+    process.env.THEGAMESDB_API_KEY = 'test-key';
+    let remaining = 100;
+    vi.spyOn(axios, 'get').mockImplementation(async () => ({
+      data: { remaining_monthly_allowance: --remaining, extra_allowance: 0, allowance_refresh_timer: 3600, data: {} },
+    }));
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => fetchTheGamesDb('/v1.1/Games/ByGameName', { name: `game ${i}` })));
+    expect(await getAllowance()).toMatchObject({ remainingMonthlyAllowance: 80, extraAllowance: 0 });
+  });
+});
@@ -0,0 +1,132 @@
+// Title normalization and fuzzy matching for metadata lookups. Scanned filenames such as
+// "Legend of Zelda, The (U) [!]" carry GoodTools/No-Intro tags and library-style articles that
+// TheGamesDB titles don't, so both sides are normalized before they are searched for or compared.
+// The client groups scanned ROMs with the same normalization (utils.ts), so this module must not
+// import anything from Node.
+
+// A match at least this good, and clearly ahead of the runner-up, is accepted without asking
+export const AUTO_ACCEPT_SCORE = 0.9;
+const AUTO_ACCEPT_MARGIN = 0.05;
+
+// Only these are dropped from the end of a title, so "Dr.Mario" and "Vol.II" keep their last word
+const ROM_FILE_EXTENSIONS = [
+  'nes', 'fds', 'unf', 'unif', 'sfc', 'smc', 'fig', 'swc', 'gb', 'gbc', 'gba', 'nds', '3ds', 'cia',
+  'n64', 'z64', 'v64', 'md', 'gen', 'smd', 'sms', 'gg', 'sg', '32x', 'pce', 'sgx', 'a26', 'a52', 'a78',
+  'lnx', 'jag', 'j64', 'ngp', 'ngc', 'ws', 'wsc', 'vb', 'col', 'int', 'vec', 'min', 'rom', 'bin',
+  'iso', 'cue', 'gdi', 'chd', 'cso', 'img', 'ccd', 'mdf', 'mds', 'pbp', 'gcm', 'rvz', 'wbfs', 'xci', 'nsp',
+  'adf', 'dsk', 'd64', 't64', 'tap', 'tzx', 'prg', 'crt', 'st', 'atr', 'xex', 'zip', '7z',
+];
+const ROM_FILE_EXTENSION_PATTERN = new RegExp(`\\.(?:${ROM_FILE_EXTENSIONS.join('|')})$`, 'i');
+
+// "Legend of Zelda, The" -> "The Legend of Zelda"; also before a subtitle ("Lost Vikings, The - ...")
+const MOVED_ARTICLE_PATTERN = /^(.+?),\s*(the|a|an)\b(?=\s*(?:$|[-:]))/i;
+
+const ROMAN_NUMERAL_PATTERN = /^(x{0,3})(ix|iv|v?i{0,3})$/;
+const ROMAN_VALUES = { i: 1, v: 5, x: 10 };
+
+const romanToNumber = (token) => {
+  let total = 0;
+  for (let i = 0; i < token.length; i++) {
+    const value = ROMAN_VALUES[token[i]];
+    const next = ROMAN_VALUES[token[i + 1]] || 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+};
+
+// Roman numerals become digits so "Final Fantasy VI" and "Final Fantasy 6" compare equal. A lone
+// "X" is left alone (Mega Man X is not Mega Man 10), and "I" only counts at the end of a title.
+const convertRomanNumeral = (token, index, tokens) => {
+  if (!ROMAN_NUMERAL_PATTERN.test(token) || token === 'x') return token;
+  if (token === 'i' && (index !== tokens.length - 1 || tokens.length === 1)) return token;
+  return String(romanToNumber(token));
+};
+
+/**
+ * Turns a filename-style title into one fit for searching and display: tags in parentheses or
+ * brackets and a ROM file extension are dropped, underscores become spaces and a trailing article is
+ * moved to the front. "Legend of Zelda, The (U) [!].nes" -> "The Legend of Zelda".
+ */
+export const getCleanTitle = (title) => {
+  const clean = String(title || '')
+    .replace(ROM_FILE_EXTENSION_PATTERN, '')
+    .replace(/\s*[([{][^)\]}]*[)\]}]/g, ' ')
+    .replace(/_+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return clean.replace(MOVED_ARTICLE_PATTERN, (match, rest, article) => `${article.charAt(0).toUpperCase()}${article.slice(1).toLowerCase()} ${rest}`);
+};
+
+/**
+ * The words of a cleaned title: lower case, "&" as "and" and punctuation removed. The client's
+ * clone grouping key (getRomGroupKey in utils.ts) is these words joined by spaces.
+ */
+export const getTitleWords = (title) => getCleanTitle(title)
+  .toLowerCase()
+  .replace(/&/g, ' and ')
+  .replace(/['’]/g, '')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim()
+  .split(' ')
+  .filter(Boolean);
+
+/**
+ * Comparison form of a title: its words (see getTitleWords) with roman numerals as digits and a
+ * leading article dropped.
+ */
+export const getTitleTokens = (title) => {
+  const tokens = getTitleWords(title).map(convertRomanNumeral);
+  return ['the', 'a', 'an'].includes(tokens[0]) && tokens.length > 1 ? tokens.slice(1) : tokens;
+};
+
+export const normalizeTitle = (title) => getTitleTokens(title).join(' ');
+
+const levenshteinDistance = (a, b) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Scores how well a candidate title matches the title being looked up, from 0 to 1. Equal
+ * normalized titles score 1; otherwise the score blends character-level similarity with the share
+ * of words the titles have in common, so small typos and missing subtitles both cost little.
+ */
+export const scoreTitleMatch = (query, candidate) => {
+  const queryTokens = getTitleTokens(query);
+  const candidateTokens = getTitleTokens(candidate);
+  if (queryTokens.length === 0 || candidateTokens.length === 0) return 0;
+
+  const a = queryTokens.join(' ');
+  const b = candidateTokens.join(' ');
+  if (a === b) return 1;
+
+  const characterSimilarity = 1 - levenshteinDistance(a, b) / Math.max(a.length, b.length);
+  const candidateSet = new Set(candidateTokens);
+  const sharedWords = new Set(queryTokens.filter(token => candidateSet.has(token))).size;
+  const wordSimilarity = sharedWords / Math.max(new Set(queryTokens).size, candidateSet.size);
+  // Never quite 1, so an exact match always ranks first
+  return Math.min(0.99, Math.round((0.5 * characterSimilarity + 0.5 * wordSimilarity) * 100) / 100);
+};
+
+/**
+ * Scores candidates against a title and sorts them best first; ties keep their original order.
+ * Returns [{ candidate, score }].
+ */
+export const rankCandidates = (query, candidates, getTitle = (candidate) => candidate.title) => candidates
+  .map((candidate, index) => ({ candidate, score: scoreTitleMatch(query, getTitle(candidate)), index }))
+  .sort((a, b) => b.score - a.score || a.index - b.index)
+  .map(({ candidate, score }) => ({ candidate, score }));
+
+// Whether the best of a ranked list can be taken without review
+export const isConfidentMatch = (ranked) => {
+  if (ranked.length === 0 || ranked[0].score < AUTO_ACCEPT_SCORE) return false;
+  if (ranked[0].score === 1) return ranked.length === 1 || ranked[1].score < 1;
+  return ranked.length === 1 || ranked[0].score - ranked[1].score >= AUTO_ACCEPT_MARGIN;
+};
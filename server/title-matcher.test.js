@@ -0,0 +1,47 @@
+import { getCleanTitle, getTitleTokens, normalizeTitle, scoreTitleMatch, rankCandidates, isConfidentMatch } from './title-matcher.js';
+
+describe('title matcher', () => {
+  test('getCleanTitle drops tags and ROM extensions and moves articles to the front', () => {
+    expect(getCleanTitle('Legend of Zelda, The (U) [!].nes')).toBe('The Legend of Zelda');
+    expect(getCleanTitle('Lost Vikings, The - Special Edition (Europe).sfc')).toBe('The Lost Vikings - Special Edition');
+    expect(getCleanTitle('Super_Mario_Bros_3 {Hack}.zip')).toBe('Super Mario Bros 3');
+    // Only known ROM extensions are file extensions
+    expect(getCleanTitle('Dr.Mario')).toBe('Dr.Mario');
+    expect(getCleanTitle('Ys Vol.II')).toBe('Ys Vol.II');
+    expect(getCleanTitle(undefined)).toBe('');
+  });
+
+  test('getTitleTokens compares roman numerals as digits, except a lone X', () => {
+    expect(getTitleTokens('Final Fantasy VI')).toEqual(['final', 'fantasy', '6']);
+    expect(getTitleTokens('Mega Man X')).toEqual(['mega', 'man', 'x']);
+    expect(getTitleTokens('Ys I')).toEqual(['ys', '1']);
+    expect(getTitleTokens('I Am Alive')).toEqual(['i', 'am', 'alive']);
+    expect(normalizeTitle('The Legend of Zelda')).toBe(normalizeTitle('Legend of Zelda, The (USA)'));
+    expect(normalizeTitle("Ghosts 'n Goblins & More")).toBe('ghosts n goblins and more');
+  });
+
+  test('scoreTitleMatch gives equal titles 1 and near misses a little less', () => {
+    expect(scoreTitleMatch('Final Fantasy VI (J)', 'Final Fantasy 6')).toBe(1);
+    const typo = scoreTitleMatch('Castlevania', 'Castlevnia');
+    expect(typo).toBeGreaterThan(0.4);
+    expect(typo).toBeLessThan(1);
+    expect(scoreTitleMatch('Super Metroid', 'Super Metroid: Redesign')).toBeGreaterThan(scoreTitleMatch('Super Metroid', 'Metroid Fusion'));
+    expect(scoreTitleMatch('', 'Anything')).toBe(0);
+  });
+
+  test('rankCandidates sorts best first and keeps the order of ties', () => {
+    const ranked = rankCandidates('Metroid', [{ title: 'Metroid II' }, { title: 'Metroid' }, { title: 'Metroid II' }]);
+    expect(ranked.map(({ candidate }) => candidate.title)).toEqual(['Metroid', 'Metroid II', 'Metroid II']);
+    expect(ranked[0].score).toBe(1);
+    expect(rankCandidates('Metroid', [{ name: 'Metroid' }], candidate => candidate.name)[0].score).toBe(1);
+  });
+
+  test('isConfidentMatch needs a high score that is clearly ahead', () => {
+    expect(isConfidentMatch([])).toBe(false);
+    expect(isConfidentMatch([{ score: 1 }])).toBe(true);
+    expect(isConfidentMatch([{ score: 1 }, { score: 1 }])).toBe(false);
+    expect(isConfidentMatch([{ score: 0.95 }, { score: 0.8 }])).toBe(true);
+    expect(isConfidentMatch([{ score: 0.95 }, { score: 0.93 }])).toBe(false);
+    expect(isConfidentMatch([{ score: 0.85 }])).toBe(false);
+  });
+});
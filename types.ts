@@ -4,12 +4,90 @@ export interface EmulatorConfig {
   name: string;
   executablePath: string;
   args: string;
+  extractArchives?: boolean; // Extract zipped ROMs to a temp cache before launch, for emulators that can't read archives
+  multiDiscPlaylist?: boolean; // Launch multi-disc games through a generated .m3u playlist instead of disc 1
+}
+
+// A platform as listed by TheGamesDB's /v1/Platforms endpoints. Only id and name are always present.
+export interface TheGamesDBPlatform {
+  id: number;
+  name: string;
+  alias?: string;
+  icon?: string;
+  console?: string;
+  controller?: string;
+  developer?: string;
+  manufacturer?: string;
+  media?: string;
+  cpu?: string;
+  memory?: string;
+  graphics?: string;
+  sound?: string;
+  maxcontrollers?: string;
+  display?: string;
+  overview?: string;
+  youtube?: string;
 }
 
 export interface Platform extends TheGamesDBPlatform {
   id: number; // Now a number, from TheGamesDB
   userIconUrl?: string; // User-overridden icon URL
   emulators: string[]; // Array of emulator IDs
+  romExtensions?: string[]; // Allowed ROM file extensions for scans, without the dot (e.g. ["nes", "zip"]). Empty means "anything but known non-ROM files".
+  scanSettings?: PlatformScanSettings; // Folder and options of the last scan, so rescans are one click
+}
+
+export interface PlatformScanSettings {
+  folderPath: string;
+  recursive: boolean;
+  maxDepth: number;
+  computeHashes: boolean;
+  inspectArchives: boolean;
+  groupDiscs: boolean;
+  lastScannedAt?: string; // ISO timestamp
+  watch?: boolean; // Have the server watch folderPath and queue new, removed and renamed ROMs
+  autoImport?: boolean; // Import new ROMs and relink renamed ones found by the watcher without asking
+  oneGameOneRom?: boolean; // Import only the preferred ROM of each game, keeping the others as alternate versions
+}
+
+// A ROM file as returned by /api/scan-roms and the folder watcher
+export interface ScannedRomFile {
+  name: string; // Filename without extension
+  filename: string; // Full filename with extension
+  relativePath: string; // Path relative to the scanned folder, e.g. "USA/Contra.nes". For archive entries, the archive's path.
+  archiveEntry?: string; // Path inside the archive, when the ROM was found in a .zip/.7z
+  size?: number;
+  hashes?: RomHashes; // Only present when the scan was run with hashing enabled
+  datMatch?: DatMatch; // Only present when hashed and the platform has an imported DAT
+  discs?: ScannedDisc[]; // Present when several "(Disc N)" files were grouped into this entry
+}
+
+export interface ScannedDisc {
+  discNumber: number;
+  filename: string;
+  relativePath: string;
+  size?: number;
+}
+
+// A change the server's folder watcher found in a platform's scan folder, waiting to be applied or dismissed.
+// Paths are relative to folderPath.
+export interface PendingLibraryUpdate {
+  id: string;
+  platformId: string;
+  folderPath: string;
+  type: 'added' | 'removed' | 'renamed';
+  rom?: ScannedRomFile; // added and renamed: the file as it is now
+  previousRelativePath?: string; // removed and renamed: where the file used to be
+  previousArchiveEntry?: string;
+  detectedAt: string; // ISO timestamp
+}
+
+// A folder the server is watching, from GET /api/library/pending
+export interface WatchedLibraryFolder {
+  platformId: string;
+  folderPath: string;
+  mode: 'watch' | 'poll' | 'stopped'; // 'poll' where watching isn't supported or the watcher failed
+  error: string | null; // Why the watcher failed, while it waits to be restarted
 }
 
 export interface Game {
@@ -17,10 +95,180 @@ export interface Game {
   title: string;
   platformId: string;
   romPath: string;
-  coverImageUrl: string;
+  archiveEntry?: string; // Path of the ROM inside the .zip/.7z archive at romPath, if the ROM is stored in one
+  discs?: GameDisc[]; // Multi-disc games only, ordered by disc number. romPath is the first disc.
+  romSize?: number; // Bytes, as scanned (all discs for multi-disc games). Used to find moved ROMs on rescan.
+  coverImageUrl: string; // Front box art
+  images?: GameImages; // Other artwork, by type
+  theGamesDbId?: number; // Set when the game was matched on TheGamesDB
+  rawgId?: number; // Set when the game was matched on RAWG
   description: string;
-  genre: string;
+  genre: string; // Genre names, comma-separated; the display form of genreIds when those are set
+  genreIds?: number[]; // TheGamesDB genre IDs
+  developer?: string;
+  publisher?: string;
+  players?: number; // Maximum number of players
   releaseDate: string; // Could be year or full date
+  hashes?: RomHashes; // Set when the ROM was hashed during a scan
+  verification?: RomVerification; // Result of the last DAT verification pass
+  // Parsed from the ROM filename's GoodTools/No-Intro tags, e.g. "Game (USA, Europe) (En,Fr) (Rev 1) [!].nes"
+  regions?: string[]; // e.g. ["USA", "Europe"]
+  languages?: string[]; // Two-letter codes as written, e.g. ["En", "Fr"]
+  revision?: string; // e.g. "Rev 1", "v1.1"
+  flags?: RomFlag[];
+  alternateVersions?: GameVersion[]; // Other copies of the game (regions, revisions) kept by a 1G1R import
+  provenance?: GameProvenance; // Where the metadata fields came from; missing for values set before it was tracked
+  lockedFields?: GameMetadataField[]; // Fields enrichment, scraping and metadata refreshes leave alone
+}
+
+// Metadata fields whose origin is tracked. genreIds goes with genre.
+export type GameMetadataField = 'title' | 'description' | 'genre' | 'releaseDate' | 'coverImageUrl' | 'developer' | 'publisher' | 'players';
+
+export type GameFieldSource = 'user' | 'thegamesdb' | 'rawg' | 'ai' | 'filename';
+
+export interface GameFieldProvenance {
+  source: GameFieldSource;
+  updatedAt: string; // ISO timestamp
+}
+
+export type GameProvenance = Partial<Record<GameMetadataField, GameFieldProvenance>>;
+
+// A ROM of the same game as the one a Game points at, kept when only the preferred copy was imported
+export interface GameVersion extends RomFilenameTags {
+  romPath: string;
+  archiveEntry?: string;
+  discs?: GameDisc[];
+  romSize?: number;
+  hashes?: RomHashes;
+}
+
+// User-ordered preferences for picking one ROM per game (1G1R); earlier entries win
+export interface RomPreferences {
+  regions: string[];
+  languages: string[];
+}
+
+// Scanned ROMs of one game as grouped by the 1G1R resolver: the copy to import and the rest
+export interface OneGameOneRomGroup<T> {
+  key: string;
+  preferred: T;
+  alternates: T[];
+}
+
+// Dump and release status flags from ROM filename tags
+export type RomFlag =
+  | 'verified' // [!]
+  | 'bad_dump' // [b]
+  | 'alternate' // [a]
+  | 'hack' // [h], (Hack)
+  | 'trainer' // [t]
+  | 'fixed' // [f]
+  | 'overdump' // [o]
+  | 'pirate' // [p], (Pirate)
+  | 'translation' // [T+Eng], [T-Fre]
+  | 'beta' // (Beta)
+  | 'prototype' // (Proto)
+  | 'demo' // (Demo), (Kiosk)
+  | 'sample' // (Sample)
+  | 'unlicensed' // (Unl)
+  | 'public_domain'; // (PD)
+
+export type RomFilenameTags = Pick<Game, 'regions' | 'languages' | 'revision' | 'flags'>;
+
+// Kinds of artwork a game can have, following TheGamesDB's image types with box art split by side
+export type GameArtType = 'boxart_front' | 'boxart_back' | 'fanart' | 'banner' | 'screenshot' | 'titlescreen' | 'clearlogo';
+
+// Chosen artwork URL per type. The front box art is Game.coverImageUrl rather than an entry here.
+export type GameImages = Partial<Record<Exclude<GameArtType, 'boxart_front'>, string>>;
+
+// An image of a game on TheGamesDB, as listed by /api/thegamesdb/game_images. Every metadata
+// provider lists game images in this shape (/api/metadata/:providerId/games/:gameId/images).
+export interface TheGamesDbGameImage {
+  id: number | string;
+  artType: GameArtType;
+  resolution?: string;
+  url: string;
+  thumbnailUrl: string;
+}
+
+export interface GameDisc {
+  discNumber: number;
+  romPath: string;
+}
+
+// Checksums of a ROM file as lower-case hex strings, matching No-Intro/Redump DAT entries.
+// Entries inside archives that weren't hashed only have the CRC32 from the archive header.
+export interface RomHashes {
+  crc32: string;
+  md5?: string;
+  sha1?: string;
+}
+
+// Outcome of checking a ROM against the platform's No-Intro/Redump DAT
+export type RomVerificationStatus = 'verified' | 'bad_dump' | 'unknown' | 'missing';
+
+export interface RomVerification {
+  status: RomVerificationStatus;
+  datGameName?: string; // Matched DAT entry, if any
+  checkedAt: string; // ISO timestamp
+}
+
+// DAT lookup result for a scanned file. title is the DAT's canonical game name.
+export interface DatMatch {
+  status: Exclude<RomVerificationStatus, 'missing'>;
+  datGameName?: string;
+  title?: string;
+  cloneOf?: string; // DAT name of the parent game, when the matched game is a clone (another region or revision)
+}
+
+// A DAT file imported for a platform, as listed by /api/dats
+export interface DatFileSummary {
+  platformId: string;
+  name: string;
+  description: string;
+  version: string;
+  importedAt: string;
+  gameCount: number;
+  romCount: number;
+}
+
+// A running or recently finished emulator process, as tracked by the server
+export interface LaunchSession {
+  launchId: string;
+  gameId: string | null;
+  gameTitle: string;
+  platformId: string | null;
+  emulatorId: string;
+  emulatorName: string;
+  pid: number;
+  startedAt: string; // ISO timestamp
+  endedAt: string | null;
+  exitCode: number | null;
+  signal: string | null;
+  status: 'running' | 'exited' | 'terminated';
+  stopRequestedAt: string | null; // Set when the user stopped a session that hasn't exited yet
+  stderrTail: string;
+}
+
+// One play session, persisted by the server in the `playHistory` data type
+export interface PlayHistoryEntry {
+  id: string; // Same as the launch session's launchId
+  gameId: string | null;
+  gameTitle: string;
+  platformId: string | null;
+  emulatorId: string;
+  emulatorName: string;
+  startedAt: string; // ISO timestamp
+  endedAt: string | null; // null while running, or if the server stopped before the emulator exited
+  durationSeconds: number | null;
+  exitCode: number | null;
+}
+
+// Usage statistics for a game, derived from its play history
+export interface GamePlayStats {
+  lastPlayed: string | null; // ISO timestamp of the most recent session start
+  playCount: number;
+  totalPlayTime: number; // Seconds
 }
 
 export interface ApiKeyEntry {
@@ -29,7 +277,141 @@ export interface ApiKeyEntry {
   apiKey: string;
 }
 
-export type NavView = 'games' | 'platforms' | 'emulators' | 'settings' | 'scan-roms';
+// TheGamesDB request allowance as last reported by the API, with the server's response cache size
+export interface TheGamesDbAllowance {
+  allowance: {
+    remainingMonthlyAllowance: number;
+    extraAllowance: number;
+    refreshesAt: string | null; // ISO timestamp, when TheGamesDB reported it
+    updatedAt: string; // ISO timestamp of the response the figures came from
+  } | null; // null until the first TheGamesDB call
+  cachedResponses: number;
+}
+
+// An entry of one of TheGamesDB's lookup tables (genres, developers, publishers)
+export interface TheGamesDbLookupEntry {
+  id: number;
+  name: string;
+}
+
+// What has been imported from TheGamesDB's database export for offline use
+export interface TheGamesDbOfflineStatus {
+  summary: {
+    importedAt: string; // ISO timestamp of the last import
+    lastEditId: number | null; // TheGamesDB edit the games dump is current to
+    counts: Partial<Record<'games' | 'genres' | 'developers' | 'publishers' | 'platforms', number>>;
+  } | null; // null until something is imported
+  active: boolean; // Whether TheGamesDB lookups are answered from the export
+}
+
+// New TheGamesDB values for a linked game, found by the server's scheduled metadata refresh.
+// Applied to fields that came from TheGamesDB or are empty, never to ones set another way.
+export interface PendingMetadataUpdate {
+  id: string;
+  theGamesDbId: number;
+  editId: number; // Latest TheGamesDB edit the values include
+  detectedAt: string; // ISO timestamp
+  changes: Partial<Pick<Game, GameMetadataField | 'genreIds'>>;
+}
+
+export interface MetadataRefreshStatus {
+  lastEditId: number | null;
+  lastRunAt: string | null; // ISO timestamp
+  lastError: string | null;
+  running: boolean;
+  intervalHours: number; // 0 when scheduled refreshes are off
+  updates: PendingMetadataUpdate[];
+}
+
+// Metadata a scrape job proposes for a game; only fields that would change are present
+export type ScrapeFieldChanges = Partial<Pick<Game, 'description' | 'genre' | 'genreIds' | 'releaseDate' | 'developer' | 'publisher' | 'players' | 'coverImageUrl' | 'theGamesDbId' | 'rawgId'>>;
+
+export type MetadataSourceName = 'TheGamesDB' | 'RAWG';
+
+export type MetadataProviderId = 'thegamesdb' | 'rawg' | 'local';
+
+// A metadata provider as listed by /api/metadata/providers
+export interface MetadataProviderInfo {
+  id: MetadataProviderId;
+  name: string;
+  enabled: boolean; // Listed in the server's METADATA_PROVIDERS
+  configured: boolean; // Has what it needs to make new requests, e.g. an API key
+  priority: number | null; // Position among the enabled providers, from 1
+  gameIdField?: 'theGamesDbId' | 'rawgId'; // Game field linking a game to the provider's record
+  capabilities: {
+    platformFilter: boolean; // Searches can be narrowed to a TheGamesDB platform ID
+    detailsInSearch: boolean; // Search results carry the description; otherwise fetch the game by ID
+    artTypes: GameArtType[];
+    fields: string[]; // Game fields a match can fill
+    requiresNetwork: boolean;
+  };
+}
+
+// A game found by a metadata provider (/api/metadata/:providerId/search and /games/:gameId)
+export interface MetadataGame {
+  id: number | string;
+  title: string;
+  release_date?: string;
+  platform?: { id: number | string; name: string; alias: string }; // Set when the provider's platform IDs are the app's
+  platforms: string[]; // Names of every platform the provider lists the game for
+  genres: string[];
+  genre_ids?: number[]; // TheGamesDB genre IDs, from providers that use them
+  overview?: string;
+  developers: string[];
+  publishers: string[];
+  players?: number;
+  cover_image_url?: string;
+  background_image_url?: string;
+  match_score?: number; // Search results only
+}
+
+export type ScrapeJobStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+// Progress of a server-side scrape job, as listed by /api/scrape/jobs
+export interface ScrapeJobSummary {
+  id: string;
+  platformId: string;
+  status: ScrapeJobStatus;
+  overwrite: boolean; // Replace existing metadata rather than only filling empty fields
+  autoAccept: boolean; // Confident matches are applied without review
+  total: number;
+  processed: number;
+  matched: number;
+  noMatch: number;
+  failed: number;
+  pendingReview: number;
+  error: string | null; // Why the job paused or failed
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+export interface ScrapeJobResult {
+  gameId: string;
+  title: string; // The game's title when the job ran
+  searchTitle?: string;
+  searchedBy?: 'hash' | 'name'; // hash: searched by the DAT name matching the ROM's hashes
+  status: 'matched' | 'no_match' | 'error';
+  source?: MetadataSourceName; // Where the match was found; RAWG is only searched when TheGamesDB has no match
+  score?: number; // How well the match's title fits the search title, 0-1 (1: same once normalized)
+  autoAccept?: boolean; // Confident match in a job started with autoAccept; applied without review
+  match?: { id: number; title: string; releaseDate?: string; platformName?: string; coverImageUrl?: string };
+  candidates?: { id: number; title: string; releaseDate?: string; score: number }[]; // Best first
+  changes?: ScrapeFieldChanges;
+  review: 'pending' | 'accepted' | 'rejected' | null; // null when there is nothing to review
+  error?: string;
+}
+
+export interface ScrapeJob extends ScrapeJobSummary {
+  results: ScrapeJobResult[];
+}
+
+// A pending autoAccept result, as listed by /api/scrape/auto-accepted
+export interface AutoAcceptedScrapeResult extends ScrapeJobResult {
+  jobId: string;
+}
+
+export type NavView = 'games' | 'platforms' | 'emulators' | 'settings' | 'scan-roms' | 'scraper';
 
 // Added for TheGamesDB Platform Images API
 export interface TheGamesDBImage {
@@ -0,0 +1,193 @@
+import { describe, test, expect } from 'vitest';
+import {
+  parseRomFilenameTags, getRomGroupKey, resolveOneGameOneRom, applyMetadataUpdate, recordFieldSources, recordNewGameSources,
+  applySourcedFields, applyScrapeResult, computePlayStats,
+} from './utils';
+import { DatMatch, Game, PendingMetadataUpdate, PlayHistoryEntry, RomPreferences, ScrapeJobResult } from './types';
+
+const makeGame = (fields: Partial<Game> = {}): Game => ({
+  id: 'game-1',
+  title: 'Metroid',
+  platformId: '7',
+  romPath: 'roms/nes/Metroid.nes',
+  coverImageUrl: '',
+  description: '',
+  genre: '',
+  releaseDate: '',
+  ...fields,
+});
+
+describe('parseRomFilenameTags', () => {
+  test('reads No-Intro regions, languages, revisions and flags', () => {
+    expect(parseRomFilenameTags('Game (Europe) (En,Fr,De) (Rev 1) [!].sfc')).toEqual({
+      regions: ['Europe'], languages: ['En', 'Fr', 'De'], revision: 'Rev 1', flags: ['verified'],
+    });
+    expect(parseRomFilenameTags('Game (USA, Europe) (Beta) (Disc 1).cue')).toEqual({
+      regions: ['USA', 'Europe'], languages: undefined, revision: undefined, flags: ['beta'],
+    });
+    expect(parseRomFilenameTags('Game (Japan) (v1.1) (Proto 2) (Unl).md')).toMatchObject({ revision: 'v1.1', flags: ['prototype', 'unlicensed'] });
+  });
+
+  test('reads GoodTools region codes and bracket flags', () => {
+    expect(parseRomFilenameTags('Game (U) [b1][h2].nes')).toEqual({ regions: ['USA'], languages: undefined, revision: undefined, flags: ['bad_dump', 'hack'] });
+    expect(parseRomFilenameTags('Game (JUE) [T+Eng1.0][a1].nes')).toMatchObject({ regions: ['Japan', 'USA', 'Europe'], flags: ['translation', 'alternate'] });
+    expect(parseRomFilenameTags('Game (PRG1).nes').revision).toBe('Rev 1');
+  });
+
+  test('every field is present, and undefined without tags', () => {
+    expect(parseRomFilenameTags('Plain Game.nes')).toEqual({ regions: undefined, languages: undefined, revision: undefined, flags: undefined });
+  });
+});
+
+describe('resolveOneGameOneRom', () => {
+  const preferences: RomPreferences = { regions: ['USA', 'Europe', 'Japan'], languages: ['En'] };
+  const rom = (filename: string, datMatch?: DatMatch) => ({ name: filename.replace(/\.[^.]+$/, ''), filename, datMatch });
+  const resolve = (filenames: string[]) => resolveOneGameOneRom(filenames.map(filename => rom(filename)), preferences)
+    .map(({ key, preferred, alternates }) => ({ key, preferred: preferred.filename, alternates: alternates.map(({ filename }) => filename) }));
+
+  test('getRomGroupKey ignores tags, articles and punctuation', () => {
+    expect(getRomGroupKey('Legend of Zelda, The (USA) (Rev 1)')).toBe('the legend of zelda');
+    expect(getRomGroupKey('The Legend of Zelda (Japan)')).toBe('the legend of zelda');
+    expect(getRomGroupKey("Ghosts'n Goblins [!]")).toBe('ghostsn goblins');
+  });
+
+  test('prefers the best region, then language, then a verified dump, then the latest revision', () => {
+    expect(resolve(['Game (Japan).nes', 'Game (Europe).nes', 'Game (USA).nes'])).toEqual([
+      { key: 'game', preferred: 'Game (USA).nes', alternates: ['Game (Europe).nes', 'Game (Japan).nes'] },
+    ]);
+    expect(resolve(['Game (Europe) (Fr,De).nes', 'Game (Europe) (En,Fr).nes'])[0].preferred).toBe('Game (Europe) (En,Fr).nes');
+    expect(resolve(['Game (U).nes', 'Game (U) [!].nes'])[0].preferred).toBe('Game (U) [!].nes');
+    expect(resolve(['Game (USA).nes', 'Game (USA) (Rev B).nes', 'Game (USA) (Rev 1).nes'])[0].preferred).toBe('Game (USA) (Rev B).nes');
+  });
+
+  test('passes over damaged and modified copies before looking at regions', () => {
+    expect(resolve(['Game (USA) [b1].nes', 'Game (USA) (Beta).nes', 'Game (Japan).nes'])).toEqual([
+      { key: 'game', preferred: 'Game (Japan).nes', alternates: ['Game (USA) (Beta).nes', 'Game (USA) [b1].nes'] },
+    ]);
+  });
+
+  test('groups DAT clones under their parent and keeps groups in scan order', () => {
+    const groups = resolveOneGameOneRom([
+      rom('Other Game (USA).nes'),
+      rom('Akumajou Dracula (Japan).nes', { status: 'verified', datGameName: 'Akumajou Dracula (Japan)', cloneOf: 'Castlevania (USA)' }),
+      rom('Castlevania (USA).nes', { status: 'verified', datGameName: 'Castlevania (USA)' }),
+    ], preferences);
+    expect(groups.map(({ key, preferred, alternates }) => [key, preferred.filename, alternates.length])).toEqual([
+      ['other game', 'Other Game (USA).nes', 0],
+      ['castlevania', 'Castlevania (USA).nes', 1],
+    ]);
+  });
+});
+
+describe('applyMetadataUpdate', () => {
+  const fromTheGamesDb = { source: 'thegamesdb' as const, updatedAt: '2024-01-01T00:00:00.000Z' };
+  const update = (changes: PendingMetadataUpdate['changes']): PendingMetadataUpdate => ({
+    id: 'update-1', theGamesDbId: 113, editId: 500, detectedAt: '2024-02-01T00:00:00.000Z', changes,
+  });
+
+  test('updates fields that came from TheGamesDB or were never set', () => {
+    const game = makeGame({ theGamesDbId: 113, description: 'Old', provenance: { description: fromTheGamesDb } });
+    const updated = applyMetadataUpdate(game, update({ description: 'New', genre: 'Action', genreIds: [1] }));
+    expect(updated).toMatchObject({ description: 'New', genre: 'Action', genreIds: [1] });
+    expect(updated.provenance?.genre?.source).toBe('thegamesdb');
+    expect(updated.provenance?.description?.updatedAt).not.toBe(fromTheGamesDb.updatedAt);
+  });
+
+  test('leaves fields set another way, locked fields and other games alone', () => {
+    const game = makeGame({
+      theGamesDbId: 113,
+      description: 'Mine',
+      publisher: 'Untracked',
+      provenance: { description: { source: 'user', updatedAt: fromTheGamesDb.updatedAt }, genre: fromTheGamesDb },
+      lockedFields: ['genre'],
+    });
+    expect(applyMetadataUpdate(game, update({ description: 'New', publisher: 'Nintendo', genre: 'Action' }))).toBe(game);
+    expect(applyMetadataUpdate(makeGame({ theGamesDbId: 114 }), update({ description: 'New' })).description).toBe('');
+  });
+});
+
+describe('field sources and locks', () => {
+  test('recordFieldSources records the source of changed fields only', () => {
+    const previous = makeGame({ description: 'Old', provenance: { title: { source: 'filename', updatedAt: '2024-01-01T00:00:00.000Z' } } });
+    const next = recordFieldSources(previous, { ...previous, description: 'New', genre: '' }, 'user');
+    expect(next.provenance?.description?.source).toBe('user');
+    expect(next.provenance?.title?.source).toBe('filename');
+    expect(next.provenance).not.toHaveProperty('genre');
+    const unchanged = { ...previous };
+    expect(recordFieldSources(previous, unchanged, 'user')).toBe(unchanged);
+  });
+
+  test('recordNewGameSources records every field a new game has a value for', () => {
+    const game = recordNewGameSources(makeGame({ genre: 'Action' }), 'filename');
+    expect(Object.keys(game.provenance || {}).sort()).toEqual(['genre', 'title']);
+  });
+
+  test('applySourcedFields keeps locked fields, and genre IDs with a locked genre', () => {
+    const previous = makeGame({ description: 'Mine', genre: 'Action', genreIds: [1], lockedFields: ['description', 'genre'] });
+    const next = applySourcedFields(previous, { ...previous, description: 'AI text', genre: 'Puzzle', genreIds: [2], releaseDate: '1986' }, 'ai');
+    expect(next).toMatchObject({ description: 'Mine', genre: 'Action', genreIds: [1], releaseDate: '1986' });
+    expect(Object.keys(next.provenance || {})).toEqual(['releaseDate']);
+  });
+
+  test('applyScrapeResult applies the changes with their source, except locked fields', () => {
+    const result: ScrapeJobResult = {
+      gameId: 'game-1',
+      title: 'Metroid',
+      status: 'matched',
+      source: 'RAWG',
+      changes: { description: 'Samus...', publisher: 'Nintendo', rawgId: 9 },
+      review: 'pending',
+    };
+    const game = makeGame({ publisher: 'Mine', lockedFields: ['publisher'] });
+    const scraped = applyScrapeResult(game, result);
+    expect(scraped).toMatchObject({ description: 'Samus...', publisher: 'Mine', rawgId: 9 });
+    expect(scraped.provenance?.description?.source).toBe('rawg');
+    expect(applyScrapeResult(game, { ...result, source: 'TheGamesDB' }).provenance?.description?.source).toBe('thegamesdb');
+    expect(applyScrapeResult(game, { ...result, changes: undefined })).toBe(game);
+  });
+
+  test('applyScrapeResult replaces genre IDs along with the genre', () => {
+    const game = makeGame({ genre: 'Action', genreIds: [2] });
+    const result: ScrapeJobResult = { gameId: 'game-1', title: 'Metroid', status: 'matched', source: 'TheGamesDB', changes: { genre: 'Platform, Shooter', genreIds: [1, 3] }, review: 'pending' };
+    expect(applyScrapeResult(game, result)).toMatchObject({ genre: 'Platform, Shooter', genreIds: [1, 3] });
+    // A genre without IDs leaves none of the old ones behind
+    expect(applyScrapeResult(game, { ...result, source: 'RAWG', changes: { genre: 'Metroidvania' } }).genreIds).toBeUndefined();
+  });
+});
+
+describe('computePlayStats', () => {
+  const makeEntry = (fields: Partial<PlayHistoryEntry> = {}): PlayHistoryEntry => ({
+    id: 'launch-1',
+    gameId: 'game-1',
+    gameTitle: 'Metroid',
+    platformId: '7',
+    emulatorId: 'e1',
+    emulatorName: 'Mesen',
+    startedAt: '2024-01-01T10:00:00.000Z',
+    endedAt: '2024-01-01T10:30:00.000Z',
+    durationSeconds: 1800,
+    exitCode: 0,
+    ...fields,
+  });
+
+  test('returns no stats for an empty history', () => {
+    expect(computePlayStats([]).size).toBe(0);
+  });
+
+  test('totals sessions and play time per game and keeps the latest start', () => {
+    const stats = computePlayStats([
+      makeEntry({ id: 'a', startedAt: '2024-03-05T20:00:00.000Z', durationSeconds: 600 }),
+      makeEntry({ id: 'b', startedAt: '2024-01-01T10:00:00.000Z' }),
+      // Still running, or cut short by a server restart: counted as a session without play time
+      makeEntry({ id: 'c', startedAt: '2024-02-01T10:00:00.000Z', endedAt: null, durationSeconds: null }),
+      makeEntry({ id: 'd', gameId: 'game-2', startedAt: '2024-04-01T09:00:00.000Z', durationSeconds: 42 }),
+    ]);
+    expect(stats.get('game-1')).toEqual({ playCount: 3, totalPlayTime: 2400, lastPlayed: '2024-03-05T20:00:00.000Z' });
+    expect(stats.get('game-2')).toEqual({ playCount: 1, totalPlayTime: 42, lastPlayed: '2024-04-01T09:00:00.000Z' });
+  });
+
+  test('ignores sessions not tied to a library game', () => {
+    const stats = computePlayStats([makeEntry({ gameId: null })]);
+    expect(stats.size).toBe(0);
+  });
+});
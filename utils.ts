@@ -1,3 +1,10 @@
+import {
+  PlayHistoryEntry, GamePlayStats, Game, GameArtType, ScannedRomFile, PendingLibraryUpdate, RomFlag, RomFilenameTags,
+  RomPreferences, OneGameOneRomGroup, GameFieldSource, PendingMetadataUpdate, ScrapeJobResult,
+} from './types';
+import { DEFAULT_ROM_PREFERENCES, ROM_PREFERENCES_STORAGE_KEY, GAME_METADATA_FIELDS } from './constants';
+import { getTitleWords } from './server/title-matcher.js';
+
 /**
  * Joins path segments, ensuring a single slash between them
  * and removing any trailing slash from the result.
@@ -32,3 +39,390 @@ export function joinPathSegments(...segments: string[]): string {
 
   return simplifiedPath;
 }
+
+/**
+ * Identifies the ROM a game points at. Several games can share an archive, so the entry inside
+ * the archive is part of the key.
+ * Example: getGameRomKey({ romPath: "roms/nes/pack.zip", archiveEntry: "Contra.nes" }) -> "roms/nes/pack.zip#Contra.nes"
+ */
+export function getGameRomKey(game: Pick<Game, 'romPath' | 'archiveEntry'>): string {
+  return game.archiveEntry ? `${game.romPath}#${game.archiveEntry}` : game.romPath;
+}
+
+// No-Intro region names, and GoodTools' one-letter codes (which can be combined, e.g. "(JU)")
+const REGION_NAMES = ['World', 'USA', 'Europe', 'Japan', 'Asia', 'Australia', 'Brazil', 'Canada', 'China', 'France',
+  'Germany', 'Hong Kong', 'Italy', 'Korea', 'Netherlands', 'Russia', 'Scandinavia', 'Spain', 'Sweden', 'Taiwan', 'UK'];
+const GOODTOOLS_REGION_CODES: Record<string, string> = {
+  U: 'USA', E: 'Europe', J: 'Japan', W: 'World', A: 'Australia', B: 'Brazil', C: 'China', F: 'France',
+  G: 'Germany', H: 'Netherlands', I: 'Italy', K: 'Korea', S: 'Spain', UK: 'UK', HK: 'Hong Kong',
+};
+
+const PAREN_FLAGS: [RegExp, RomFlag][] = [
+  [/^beta(\s*\d+)?$/i, 'beta'],
+  [/^proto(type)?(\s*\d+)?$/i, 'prototype'],
+  [/^(demo|kiosk)(\s*\d+)?$/i, 'demo'],
+  [/^sample(\s*\d+)?$/i, 'sample'],
+  [/^unl$/i, 'unlicensed'],
+  [/^pirate$/i, 'pirate'],
+  [/^hack$/i, 'hack'],
+  [/^pd$/i, 'public_domain'],
+];
+
+const BRACKET_FLAGS: [RegExp, RomFlag][] = [
+  [/^!$/, 'verified'],
+  [/^b\d*$/, 'bad_dump'],
+  [/^a\d*$/, 'alternate'],
+  [/^h\w*$/, 'hack'],
+  [/^t\d*$/, 'trainer'],
+  [/^f\d*$/, 'fixed'],
+  [/^o\d*$/, 'overdump'],
+  [/^p\d*$/, 'pirate'],
+  [/^T[+-]\w+/, 'translation'],
+];
+
+const parseRegions = (tag: string): string[] | undefined => {
+  const parts = tag.split(/\s*,\s*/);
+  if (parts.every(part => REGION_NAMES.includes(part))) return parts;
+  if (GOODTOOLS_REGION_CODES[tag]) return [GOODTOOLS_REGION_CODES[tag]];
+  if (/^[A-Z]{2,4}$/.test(tag) && tag.split('').every(code => GOODTOOLS_REGION_CODES[code])) {
+    return tag.split('').map(code => GOODTOOLS_REGION_CODES[code]);
+  }
+  return undefined;
+};
+
+/**
+ * Reads region, languages, revision and dump/release flags from GoodTools and No-Intro style tags
+ * in a ROM filename. Unrecognized tags, such as "(Disc 1)", are ignored. Every field is present in
+ * the result, undefined when the filename has no such tag, so spreading it over a game clears stale values.
+ * Example: parseRomFilenameTags("Game (Europe) (En,Fr,De) (Rev 1) [!].sfc")
+ *   -> { regions: ["Europe"], languages: ["En", "Fr", "De"], revision: "Rev 1", flags: ["verified"] }
+ */
+export function parseRomFilenameTags(fileName: string): RomFilenameTags {
+  const regions: string[] = [];
+  const languages: string[] = [];
+  const flags: RomFlag[] = [];
+  let revision: string | undefined;
+
+  const tagPattern = /\(([^)]*)\)|\[([^\]]*)\]/g;
+  let tagMatch: RegExpExecArray | null;
+  while ((tagMatch = tagPattern.exec(fileName)) !== null) {
+    if (tagMatch[2] !== undefined) {
+      const bracketTag = tagMatch[2].trim();
+      const flag = BRACKET_FLAGS.find(([pattern]) => pattern.test(bracketTag))?.[1];
+      if (flag && !flags.includes(flag)) flags.push(flag);
+      continue;
+    }
+
+    const tag = tagMatch[1].trim();
+    const tagRegions = parseRegions(tag);
+    const revisionMatch = tag.match(/^(?:rev|prg)\s*([0-9a-z.]+)$/i) || tag.match(/^v\s*(\d+(?:\.\d+)*[a-z]?)$/i);
+    const flag = PAREN_FLAGS.find(([pattern]) => pattern.test(tag))?.[1];
+    if (tagRegions) {
+      tagRegions.forEach(region => { if (!regions.includes(region)) regions.push(region); });
+    } else if (/^[A-Z][a-z](?:[-+][A-Z][a-z])?(?:\s*,\s*[A-Z][a-z](?:[-+][A-Z][a-z])?)*$/.test(tag)) {
+      tag.split(/\s*,\s*/).forEach(language => { if (!languages.includes(language)) languages.push(language); });
+    } else if (revisionMatch && !revision) {
+      revision = /^v/i.test(tag) ? `v${revisionMatch[1]}` : `Rev ${revisionMatch[1].toUpperCase()}`;
+    } else if (flag && !flags.includes(flag)) {
+      flags.push(flag);
+    }
+  }
+
+  return {
+    regions: regions.length > 0 ? regions : undefined,
+    languages: languages.length > 0 ? languages : undefined,
+    revision,
+    flags: flags.length > 0 ? flags : undefined,
+  };
+}
+
+// The filename a game's tags come from: the archive entry for zipped ROMs, otherwise the ROM file
+export function getGameRomFileName(game: Pick<Game, 'romPath' | 'archiveEntry'>): string {
+  return (game.archiveEntry || game.romPath || '').split(/[\\/]/).pop() || '';
+}
+
+/**
+ * Fields a game takes from the scanned ROM it points at. Scan paths are relative to the scanned
+ * folder; game paths include it.
+ * Example: getGameRomFields({ relativePath: "USA/Contra.nes", size: 131088 }, "roms/nes") -> { romPath: "roms/nes/USA/Contra.nes", romSize: 131088, ... }
+ */
+export function getGameRomFields(
+  rom: Pick<ScannedRomFile, 'relativePath' | 'archiveEntry' | 'discs' | 'size'>,
+  folderPath: string,
+): Pick<Game, 'romPath' | 'archiveEntry' | 'discs' | 'romSize'> & RomFilenameTags {
+  const romPath = `${folderPath}/${rom.relativePath}`;
+  return {
+    romPath,
+    archiveEntry: rom.archiveEntry,
+    discs: rom.discs?.map(disc => ({ discNumber: disc.discNumber, romPath: `${folderPath}/${disc.relativePath}` })),
+    romSize: rom.size,
+    ...parseRomFilenameTags(getGameRomFileName({ romPath, archiveEntry: rom.archiveEntry })),
+  };
+}
+
+// The 1G1R preferences saved in Settings, or the defaults
+export function loadRomPreferences(): RomPreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ROM_PREFERENCES_STORAGE_KEY) || 'null');
+    if (stored && Array.isArray(stored.regions) && Array.isArray(stored.languages)) return stored;
+  } catch {
+    // Unreadable preferences fall back to the defaults
+  }
+  return DEFAULT_ROM_PREFERENCES;
+}
+
+// How strongly a copy is passed over, by its worst flag: damaged dumps, then modified ones, then pre-release ones
+const ROM_FLAG_PENALTIES: Partial<Record<RomFlag, number>> = {
+  bad_dump: 4, overdump: 4,
+  hack: 3, trainer: 3, pirate: 3,
+  beta: 2, prototype: 2, demo: 2, sample: 2,
+  alternate: 1, fixed: 1, translation: 1,
+};
+
+/**
+ * Clone grouping key for a title: tags dropped, a trailing article moved to the front, lower case
+ * and punctuation removed, as the server normalizes titles for matching (server/title-matcher.js).
+ * "Legend of Zelda, The (USA) (Rev 1)" -> "the legend of zelda".
+ */
+export function getRomGroupKey(title: string): string {
+  return getTitleWords(title).join(' ');
+}
+
+// "Rev 2" -> 2, "Rev B" -> 2, "v1.1" -> 1.1; no revision -> 0
+const getRevisionNumber = (revision?: string): number => {
+  const value = revision?.replace(/^(rev\s*|v)/i, '') || '';
+  if (/^[a-z]$/i.test(value)) return value.toUpperCase().charCodeAt(0) - 64;
+  return parseFloat(value) || 0;
+};
+
+const getPriorityRank = (values: string[] | undefined, priority: string[]): number => {
+  const ranks = (values || []).map(value => priority.indexOf(value)).filter(rank => rank !== -1);
+  return ranks.length > 0 ? Math.min(...ranks) : priority.length;
+};
+
+/**
+ * One game, one ROM: groups scanned ROMs that are copies of the same game and picks the copy to keep
+ * from each group. ROMs matched to a parent/clone DAT are grouped by their parent, the rest by
+ * title (see getRomGroupKey). The preferred copy is the first of:
+ * fewest problem flags, best-ranked region, best-ranked language, a verified dump, the latest revision.
+ * Groups keep the order of their first ROM in `roms`.
+ */
+export function resolveOneGameOneRom<T extends Pick<ScannedRomFile, 'name' | 'filename' | 'archiveEntry' | 'datMatch'>>(
+  roms: T[],
+  preferences: RomPreferences,
+): OneGameOneRomGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const rom of roms) {
+    const key = getRomGroupKey(rom.datMatch?.cloneOf || rom.datMatch?.datGameName || rom.name) || rom.filename;
+    groups.set(key, [...(groups.get(key) || []), rom]);
+  }
+
+  const getSortKey = (rom: T): number[] => {
+    const tags = parseRomFilenameTags(rom.archiveEntry?.split('/').pop() || rom.filename);
+    const flagPenalty = Math.max(0, ...(tags.flags || []).map(flag => ROM_FLAG_PENALTIES[flag] || 0));
+    return [
+      rom.datMatch?.status === 'bad_dump' ? ROM_FLAG_PENALTIES.bad_dump! : flagPenalty,
+      getPriorityRank(tags.regions, preferences.regions),
+      getPriorityRank(tags.languages, preferences.languages),
+      rom.datMatch?.status === 'verified' || tags.flags?.includes('verified') ? 0 : 1,
+      -getRevisionNumber(tags.revision),
+    ];
+  };
+  const compareSortKeys = (a: number[], b: number[]) => a.reduce((result, value, i) => result || value - b[i], 0);
+
+  return [...groups.entries()].map(([key, members]) => {
+    const [preferred, ...alternates] = members
+      .map(rom => ({ rom, sortKey: getSortKey(rom) }))
+      .sort((a, b) => compareSortKeys(a.sortKey, b.sortKey)) // Stable, so ties keep scan order
+      .map(({ rom }) => rom);
+    return { key, preferred, alternates };
+  });
+}
+
+/**
+ * Finds the game a folder watcher's "removed" or "renamed" update refers to: the game on the
+ * update's platform that points at the file's previous location.
+ */
+export function findGameForPendingUpdate(games: Game[], update: PendingLibraryUpdate): Game | undefined {
+  if (update.previousRelativePath === undefined) return undefined;
+  const previousKey = getGameRomKey({ romPath: `${update.folderPath}/${update.previousRelativePath}`, archiveEntry: update.previousArchiveEntry });
+  return games.find(game => game.platformId === update.platformId && getGameRomKey(game) === previousKey);
+}
+
+/**
+ * Records `source` as the origin of every metadata field that differs between two versions of a
+ * game, and returns the new version with its provenance updated.
+ */
+export function recordFieldSources<T extends Omit<Game, 'id'>>(previous: Omit<Game, 'id'>, next: T, source: GameFieldSource): T {
+  const changedFields = GAME_METADATA_FIELDS.filter(field => (next[field] || '') !== (previous[field] || ''));
+  if (changedFields.length === 0) return next;
+  const updatedAt = new Date().toISOString();
+  const provenance = { ...next.provenance };
+  changedFields.forEach(field => { provenance[field] = { source, updatedAt }; });
+  return { ...next, provenance };
+}
+
+/**
+ * Records `source` as the origin of every metadata field a newly created game has a value for.
+ */
+export function recordNewGameSources<T extends Omit<Game, 'id'>>(game: T, source: GameFieldSource): T {
+  const updatedAt = new Date().toISOString();
+  const provenance = { ...game.provenance };
+  GAME_METADATA_FIELDS.filter(field => game[field]).forEach(field => { provenance[field] = { source, updatedAt }; });
+  return Object.keys(provenance).length > 0 ? { ...game, provenance } : game;
+}
+
+/**
+ * Like recordFieldSources, for changes from enrichment or scraping: fields the game has locked
+ * keep their previous values (genreIds goes with genre).
+ */
+export function applySourcedFields<T extends Omit<Game, 'id'>>(previous: Omit<Game, 'id'>, next: T, source: GameFieldSource): T {
+  const lockedFields = previous.lockedFields || [];
+  if (lockedFields.length === 0) return recordFieldSources(previous, next, source);
+  const kept: Partial<Game> = {};
+  lockedFields.forEach(field => {
+    Object.assign(kept, { [field]: previous[field] });
+    if (field === 'genre') kept.genreIds = previous.genreIds;
+  });
+  return recordFieldSources(previous, { ...next, ...kept }, source);
+}
+
+/**
+ * Applies an accepted scrape match to its game, recording RAWG or TheGamesDB as the source of the
+ * changed fields. Locked fields are left alone.
+ */
+export function applyScrapeResult(game: Game, result: ScrapeJobResult): Game {
+  if (!result.changes) return game;
+  // A new genre replaces the genre IDs, and clears them when the match had none
+  const genreIds = result.changes.genre ? { genreIds: result.changes.genreIds } : {};
+  return applySourcedFields(game, { ...game, ...result.changes, ...genreIds }, result.source === 'RAWG' ? 'rawg' : 'thegamesdb');
+}
+
+/**
+ * Applies a scheduled metadata refresh to a game linked to the same TheGamesDB game. Only fields
+ * that came from TheGamesDB, or are empty and were never set another way, are changed; locked
+ * fields never are.
+ */
+export function applyMetadataUpdate(game: Game, update: PendingMetadataUpdate): Game {
+  if (game.theGamesDbId !== update.theGamesDbId) return game;
+  const changes: Partial<Game> = {};
+  GAME_METADATA_FIELDS.forEach(field => {
+    if (update.changes[field] === undefined || game.lockedFields?.includes(field)) return;
+    const provenance = game.provenance?.[field];
+    if (provenance ? provenance.source === 'thegamesdb' : !game[field]) {
+      Object.assign(changes, { [field]: update.changes[field] });
+      if (field === 'genre') changes.genreIds = update.changes.genreIds;
+    }
+  });
+  return Object.keys(changes).length > 0 ? recordFieldSources(game, { ...game, ...changes }, 'thegamesdb') : game;
+}
+
+/**
+ * Aggregates play history into per-game statistics, keyed by game ID.
+ * Sessions that never recorded an end still count towards playCount and lastPlayed.
+ */
+export function computePlayStats(history: PlayHistoryEntry[]): Map<string, GamePlayStats> {
+  const statsByGame = new Map<string, GamePlayStats>();
+
+  for (const entry of history) {
+    if (!entry.gameId) continue;
+    const stats = statsByGame.get(entry.gameId) || { lastPlayed: null, playCount: 0, totalPlayTime: 0 };
+    stats.playCount += 1;
+    stats.totalPlayTime += entry.durationSeconds || 0;
+    if (!stats.lastPlayed || entry.startedAt > stats.lastPlayed) {
+      stats.lastPlayed = entry.startedAt;
+    }
+    statsByGame.set(entry.gameId, stats);
+  }
+
+  return statsByGame;
+}
+
+/**
+ * Formats a duration in seconds for display.
+ * Example: formatPlayTime(5400) -> "1h 30m", formatPlayTime(42) -> "<1m"
+ */
+export function formatPlayTime(totalSeconds: number): string {
+  const totalMinutes = Math.floor(totalSeconds / 60);
+  if (totalMinutes < 1) {
+    return totalSeconds > 0 ? '<1m' : '0m';
+  }
+  const hours = Math.floor(totalMinutes / 60);
+  return hours > 0 ? `${hours}h ${totalMinutes % 60}m` : `${totalMinutes}m`;
+}
+
+/**
+ * Formats a byte count for display using binary units.
+ * Example: formatFileSize(1536) -> "1.5 KB", formatFileSize(0) -> "0 B"
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return unitIndex === 0 ? `${value} ${units[0]}` : `${value.toFixed(1)} ${units[unitIndex]}`;
+}
+
+const LOCAL_ARTWORK_PREFIX = '/api/art/';
+
+// A game's image of the given art type, or '' if it has none
+export function getGameArtUrl(game: Pick<Game, 'coverImageUrl' | 'images'>, artType: GameArtType): string {
+  return (artType === 'boxart_front' ? game.coverImageUrl : game.images?.[artType]) || '';
+}
+
+// True for artwork still hosted elsewhere, which the server can download into its local store
+export function isRemoteImageUrl(url: string | undefined): url is string {
+  return !!url && /^https?:\/\//i.test(url);
+}
+
+/**
+ * Thumbnail URL for images from the local artwork store; other URLs are returned as they are.
+ * Example: getArtworkThumbnailUrl("/api/art/74968209dc2441dbfadc") -> "/api/art/74968209dc2441dbfadc/thumb"
+ */
+export function getArtworkThumbnailUrl(url: string): string {
+  return url.startsWith(LOCAL_ARTWORK_PREFIX) && !url.endsWith('/thumb') ? `${url}/thumb` : url;
+}
+
+/**
+ * Generates cover art for games without any, as an SVG data URI so it works without a network.
+ * The colour is derived from `seed` (e.g. the game ID), so each game keeps the same placeholder.
+ */
+export function getPlaceholderImage(title: string, seed: string = title): string {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  }
+  const hue = Math.abs(hash) % 360;
+
+  // Greedy word wrap into at most three lines
+  const maxLineLength = 14;
+  const lines: string[] = [];
+  for (const word of (title.trim() || '?').split(/\s+/)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= maxLineLength) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word.length > maxLineLength ? `${word.substring(0, maxLineLength - 1)}…` : word);
+    }
+  }
+  if (lines.length > 3) {
+    lines.length = 3;
+    lines[2] = `${lines[2].substring(0, maxLineLength - 1)}…`;
+  }
+
+  const escapeXml = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+  const lineHeight = 34;
+  const firstLineY = 200 - ((lines.length - 1) * lineHeight) / 2;
+  const textLines = lines
+    .map((line, index) => `<tspan x="150" y="${firstLineY + index * lineHeight}">${escapeXml(line)}</tspan>`)
+    .join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="400" viewBox="0 0 300 400">` +
+    `<defs><linearGradient id="bg" x1="0" y1="0" x2="0" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${hue},45%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 40) % 360},45%,12%)"/>` +
+    `</linearGradient></defs><rect width="300" height="400" fill="url(#bg)"/>` +
+    `<text font-family="sans-serif" font-size="28" font-weight="bold" fill="#fff" fill-opacity="0.85" text-anchor="middle" dominant-baseline="middle">${textLines}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
@@ -8,10 +8,17 @@ export default defineConfig({
     proxy: { 
       // Proxy API requests to the backend server 
       '/api': { 
-        target: 'http://localhost:3001', // Your backend server address 
+        target: 'http://127.0.0.1:3001', // Your backend server address (it only listens on 127.0.0.1 by default) 
         changeOrigin: true, // Recommended for most cases 
         // secure: false, // Uncomment if your backend is on HTTPS with self-signed cert 
       }, 
     } 
-  } 
+  },
+  test: {
+    globals: true,
+    // Server and utility tests. Component tests (*.test.tsx) need a DOM environment and Testing
+    // Library, which aren't set up.
+    include: ['**/*.test.{js,ts}'],
+    env: { NODE_ENV: 'test' }, // Keeps server/proxy-server.js from listening when tests import it
+  },
 }) 
\ No newline at end of file